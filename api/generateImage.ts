@@ -10,7 +10,7 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 
 interface VisualTraits {
   archetype: "GLOOM" | "SPARK" | "ECHO";
-  stage: "EGG" | "BABY" | "TEEN" | "ABOMINATION";
+  stage: "EGG" | "BABY" | "TEEN" | "ELDER" | "ABOMINATION";
   colorPalette: string[]; // Hex colors
   keyFeatures: string[]; // e.g., ["glowing purple eyes", "translucent body"]
   styleKeywords: string[]; // e.g., ["ethereal", "shadowy", "crystalline"]
@@ -20,10 +20,10 @@ interface GenerateImageRequest {
   narrativeText: string;
   petName: string;
   archetype: "GLOOM" | "SPARK" | "ECHO";
-  stage: "EGG" | "BABY" | "TEEN" | "ABOMINATION";
+  stage: "EGG" | "BABY" | "TEEN" | "ELDER" | "ABOMINATION";
   sourceImages: string[]; // Array of base64 data URLs or HTTP URLs
-  itemType?: "PURITY" | "ROT";
-  eventType?: "evolution" | "death" | "placate" | "vomit" | "insanity" | "haunt" | "feed";
+  itemType?: "PURITY" | "ROT" | "CURSED" | "MEDICINAL" | "VOID" | "SWEET" | "BONE";
+  eventType?: "evolution" | "death" | "placate" | "vomit" | "insanity" | "haunt" | "feed" | "expedition";
   insanityEventType?: "WHISPERS" | "SHADOWS" | "GLITCH" | "INVERSION";
   ghostName?: string;
   visualTraits?: VisualTraits; // For character consistency (Requirements 8.1, 8.2, 8.3, 8.5)
@@ -65,6 +65,7 @@ const SCENE_COMPOSITIONS: Record<string, string> = {
   death: "Single solemn panel with vignette effect, pet fading into spectral wisps. No multi-panel layout needed.",
   placate: "Single intimate panel with warm glow, close-up of comforting moment. No multi-panel layout needed.",
   feed: "Single panel showing feeding moment. No multi-panel layout needed.",
+  expedition: "Single panel: pet waiting alone by a half-open door, the keeper's silhouette returning with a bundle of strange finds. No multi-panel layout needed.",
 };
 
 /**
@@ -76,6 +77,7 @@ const EVENT_PROMPT_EXTENSIONS: Record<string, string> = {
   vomit: "visceral expulsion scene, grotesque splatters, creature convulsing, body horror, disturbing biological details without gratuitousness",
   haunt: "spectral visitation, translucent apparition appearing, memories bleeding through, current pet sensing presence, ethereal horror",
   feed: "", // Regular feeding has no special extension
+  expedition: "lonely homecoming scene, long shadows across the doorway, dirt-streaked finds from the outside world, creature that waited too long",
 };
 
 /**
@@ -179,6 +181,7 @@ function buildEventImagePrompt(
     EGG: "mysterious egg form, pulsing with dark energy",
     BABY: "small, vulnerable creature just hatched",
     TEEN: "growing creature with developing features",
+    ELDER: "old, frail creature, greying and stooped with clouded eyes",
     ABOMINATION: "twisted, horrific form of pure corruption",
   };
 
@@ -242,17 +245,24 @@ function buildImagePrompt(
     EGG: "mysterious egg form, pulsing with dark energy",
     BABY: "small, vulnerable creature just hatched",
     TEEN: "growing creature with developing features",
+    ELDER: "old, frail creature, greying and stooped with clouded eyes",
     ABOMINATION: "twisted, horrific form of pure corruption",
   };
 
   const archetypeDesc = archetypeDescriptions[archetype] || "mysterious creature";
   const stageDesc = stageDescriptions[stage] || "creature";
 
-  const itemContext = itemType
-    ? itemType === "PURITY"
-      ? "consuming a glowing pure offering"
-      : "devouring a rotting, corrupted offering"
-    : "";
+  const itemDescriptions: Record<string, string> = {
+    PURITY: "consuming a glowing pure offering",
+    ROT: "devouring a rotting, corrupted offering",
+    CURSED: "swallowing a cursed, blood-marked offering",
+    MEDICINAL: "chewing a bitter herbal remedy",
+    VOID: "swallowing a lightless, hollow offering",
+    SWEET: "gorging on a sickly sweet offering",
+    BONE: "gnawing a cracked, marrow-filled bone",
+  };
+
+  const itemContext = itemType ? itemDescriptions[itemType] || "" : "";
 
   const basePrompt = `Combine these images into a single realistic horror scene: use the first image (${petName} the ${archetype} pet sprite) as the main character. ${petName} is a ${archetypeDesc}, currently in ${stage} stage (${stageDesc}). ${itemContext}
 
@@ -299,7 +309,7 @@ export default async function handler(
     return res.status(400).json({ error: "Valid archetype is required" });
   }
 
-  if (!stage || !["EGG", "BABY", "TEEN", "ABOMINATION"].includes(stage)) {
+  if (!stage || !["EGG", "BABY", "TEEN", "ELDER", "ABOMINATION"].includes(stage)) {
     return res.status(400).json({ error: "Valid stage is required" });
   }
 
@@ -82,15 +82,34 @@ function setCachedResponse(key: string, response: SoundSelectionResponse): void
 // Fallback Sound Selection (Requirements 3.4, 3.5)
 // ============================================================================
 
+const FEED_SOUNDS: Record<ItemType, readonly string[]> = {
+  PURITY: ["cute_a", "cute_b", "cute_c", "cute_d", "cute_e"],
+  ROT: ["liquid_liquid_slosh", "liquid_bubbles", "monster_gore_wet_4", "monster_gore_mushy"],
+  CURSED: ["stinger_piano_stinger_dissonent", "monster_monster_growl_1"],
+  MEDICINAL: ["liquid_bubbles", "cute_h"],
+  VOID: ["monster_abyssal_descent", "stinger_slow_stinger"],
+  SWEET: ["cute_f", "cute_g", "cute_a"],
+  BONE: ["monster_gore_mushy", "monster_gore_wet_4"],
+};
+
+// Quieter feeding sounds for the disturbing offerings
+const FEED_VOLUME: Record<ItemType, number> = {
+  PURITY: 0.8,
+  ROT: 0.6,
+  CURSED: 0.6,
+  MEDICINAL: 0.7,
+  VOID: 0.5,
+  SWEET: 0.8,
+  BONE: 0.6,
+};
+
 const FALLBACK_SOUNDS = {
-  feed: {
-    PURITY: ["cute_a", "cute_b", "cute_c", "cute_d", "cute_e"],
-    ROT: ["liquid_liquid_slosh", "liquid_bubbles", "monster_gore_wet_4", "monster_gore_mushy"],
-  },
+  feed: FEED_SOUNDS,
   evolution: {
     EGG: ["stinger_harmonized_tone_pleasant_but_spooky"],
     BABY: ["cute_h", "stinger_harmonized_tone_pleasant_but_spooky"],
     TEEN: ["monster_monster_growl_1", "stinger_slow_stinger"],
+    ELDER: ["household_clock", "ambient_bell_low"],
     ABOMINATION: ["monster_monster_roar_4", "monster_abyssal_descent", "stinger_piano_stinger_dissonent"],
   },
   sanity: {
@@ -114,11 +133,9 @@ export function selectWithFallback(request: SoundSelectionRequest): SoundSelecti
 
   switch (eventType) {
     case "feed": {
-      const feedSounds = itemType === "PURITY" 
-        ? FALLBACK_SOUNDS.feed.PURITY 
-        : FALLBACK_SOUNDS.feed.ROT;
+      const feedSounds = FALLBACK_SOUNDS.feed[itemType ?? "ROT"];
       primarySound = feedSounds[Math.floor(Math.random() * feedSounds.length)];
-      volume = itemType === "ROT" ? 0.6 : 0.8;
+      volume = FEED_VOLUME[itemType ?? "ROT"];
       break;
     }
     
@@ -189,9 +206,9 @@ Sound ID format: category_descriptive_name (e.g., "monster_deepone_growl", "cute
 
 Consider these factors when selecting sounds:
 - eventType: What triggered the sound need (feed, evolution, scavenge, sanity_change, ambient)
-- stage: Pet's life stage (EGG, BABY, TEEN, ABOMINATION) - later stages are more horrific
+- stage: Pet's life stage (EGG, BABY, TEEN, ELDER, ABOMINATION) - later stages are more horrific, except ELDER which is quiet and mournful
 - archetype: Pet personality (GLOOM=dark/sad, SPARK=energetic/chaotic, ECHO=mysterious/ethereal)
-- itemType: For feeding - PURITY items are wholesome, ROT items are disturbing
+- itemType: For feeding - PURITY items are wholesome, ROT items are disturbing, CURSED items are malevolent, MEDICINAL items are bitter but healing, VOID items are empty and unnerving, SWEET items are sugary and childlike, BONE items are crunchy and visceral
 - sanity: 0-100 scale, below 30 triggers horror mode
 - corruption: 0-100 scale, higher = more monstrous
 
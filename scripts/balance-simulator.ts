@@ -0,0 +1,467 @@
+#!/usr/bin/env tsx
+/**
+ * Balance Simulator
+ * Runs many pets through the game rules headlessly, each looked after by a
+ * scripted caretaker strategy, and reports how long they survive and how
+ * they end up.
+ *
+ * Pets are advanced with the same pure engine the store uses
+ * (src/utils/simulation.ts), so no AI, sound or storage is involved -
+ * offerings are rolled locally instead of being described by the AI client.
+ *
+ * Usage:
+ *   npm run simulate:balance -- [options]
+ *
+ * Options:
+ *   --pets <n>           Pets per difficulty/strategy pair (default: 1000)
+ *   --days <n>           Game days to simulate before giving up (default: 14)
+ *   --difficulty <name>  GENTLE, STANDARD, NIGHTMARE or all (default: all)
+ *   --strategy <name>    purity, random, placate, neglect or all (default: all)
+ *   --interval <n>       Game minutes between caretaker visits (default: 30)
+ *   --ghosts <n>         Ghosts available to haunt (default: 0)
+ *   --seed <n>           Random seed for reproducible runs (default: 1)
+ *   --format <json|csv>  Report format (default: json)
+ *   --out <path>         Write the report to a file instead of stdout
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  simulate,
+  createSeededRng,
+  applyFeed,
+  applyPlacate,
+  MINUTES_PER_DAY,
+  type Rng,
+} from "../src/utils/simulation";
+import { GAME_RULE_PRESETS } from "../src/utils/gameRules";
+import { isStomachFull } from "../src/utils/digestion";
+import { getItemWeights, rollWeightedOffering } from "../src/utils/offerings";
+import { addOffering, getInventoryCapacity, hasRoomForFind, takeOffering } from "../src/utils/inventoryUtils";
+import type {
+  DeathCause,
+  Difficulty,
+  GameRules,
+  ItemType,
+  Offering,
+  PetStage,
+  SimulationState,
+} from "../src/utils/types";
+
+// ============================================
+// Simulated Pet
+// ============================================
+
+interface SimulatedPet {
+  state: SimulationState;
+  inventory: Offering[]; // Stacked as in the store
+  lastPlacateTime: number | null;
+  deathCause: DeathCause | null;
+  reachedAbomination: boolean;
+}
+
+function createPet(): SimulatedPet {
+  return {
+    state: {
+      stats: { hunger: 0, sanity: 100, corruption: 0 },
+      stage: "EGG",
+      age: 0,
+      dailyFeeds: 0,
+      gameDay: 0,
+      lastHauntGameDay: 0,
+      statusEffects: [],
+      stomach: [],
+    },
+    inventory: [],
+    lastPlacateTime: null,
+    deathCause: null,
+    reachedAbomination: false,
+  };
+}
+
+// ============================================
+// Caretaker Strategies
+// ============================================
+
+/**
+ * Actions a caretaker can take on a visit. They follow the store's rules:
+ * scavenging stops when every slot is taken, feeding past a
+ * full stomach vomits and placating is ignored while on cooldown.
+ */
+interface CaretakerContext {
+  pet: Readonly<SimulatedPet>;
+  rules: GameRules;
+  rng: Rng;
+  capacity: number; // Inventory slots; caretakers never upgrade the inventory
+  scavenge: () => void;
+  feed: (index: number) => void; // Feeds one offering off the slot
+  discard: (index: number) => void; // Throws the whole slot away
+  placate: () => void;
+  isPlacateReady: () => boolean;
+}
+
+type StrategyName = "purity" | "random" | "placate" | "neglect";
+
+// Classes a careful caretaker throws away rather than feeds
+const HARMFUL_TYPES: ItemType[] = ["ROT", "CURSED", "VOID"];
+
+const STRATEGIES: Record<StrategyName, { description: string; visit: (context: CaretakerContext) => void }> = {
+  purity: {
+    description: "Keeps the inventory full, throws away rotten, cursed and void offerings and only feeds PURITY",
+    visit: ({ pet, rules, capacity, scavenge, feed, discard }) => {
+      while (pet.inventory.length < capacity) {
+        scavenge();
+      }
+      for (let i = pet.inventory.length - 1; i >= 0; i--) {
+        if (HARMFUL_TYPES.includes(pet.inventory[i].type)) {
+          discard(i);
+        }
+      }
+      const purity = pet.inventory.findIndex((offering) => offering.type === "PURITY");
+      if (purity !== -1 && pet.state.stats.hunger >= 30 && !isStomachFull(pet.state.stomach, rules)) {
+        feed(purity);
+      }
+    },
+  },
+  random: {
+    description: "Does one random thing per visit, blind to item types and limits",
+    visit: ({ pet, rng, scavenge, feed, placate }) => {
+      const roll = rng();
+      if (roll < 0.25) {
+        scavenge();
+      } else if (roll < 0.5 && pet.inventory.length > 0) {
+        feed(Math.floor(rng() * pet.inventory.length));
+      } else if (roll < 0.75) {
+        placate();
+      }
+    },
+  },
+  placate: {
+    description: "Placates whenever off cooldown and feeds anything when hungry",
+    visit: ({ pet, rules, capacity, scavenge, feed, placate, isPlacateReady }) => {
+      if (isPlacateReady()) {
+        placate();
+      }
+      while (pet.inventory.length < capacity) {
+        scavenge();
+      }
+      if (pet.state.stats.hunger >= 50 && !isStomachFull(pet.state.stomach, rules)) {
+        feed(0);
+      }
+    },
+  },
+  neglect: {
+    description: "Never visits",
+    visit: () => {},
+  },
+};
+
+function createContext(pet: SimulatedPet, rules: GameRules, rng: Rng): CaretakerContext {
+  const isPlacateReady = () =>
+    pet.lastPlacateTime === null || pet.state.age - pet.lastPlacateTime >= rules.placate.cooldown;
+  const capacity = getInventoryCapacity(0, rules);
+  let offeringCount = 0;
+
+  return {
+    pet,
+    rules,
+    rng,
+    capacity,
+    scavenge: () => {
+      // Classes are rolled with the store's weights for the pet's stage and corruption
+      const offering: Offering = {
+        id: `offering-${offeringCount++}`,
+        ...rollWeightedOffering(getItemWeights(pet.state.stage, pet.state.stats.corruption), rng),
+        description: "",
+      };
+      if (hasRoomForFind(pet.inventory, capacity)) {
+        pet.inventory = addOffering(pet.inventory, offering, rules);
+      }
+    },
+    feed: (index) => {
+      const offering = pet.inventory[index];
+      if (offering) {
+        pet.inventory = takeOffering(pet.inventory, offering.id);
+        // Every class of the offering applies; feeding past a full stomach vomits, just as in the store
+        const { stats, dailyFeeds, statusEffects, stomach } = applyFeed(pet.state, offering, rules);
+        pet.state = { ...pet.state, stats, dailyFeeds, statusEffects, stomach };
+      }
+    },
+    discard: (index) => {
+      pet.inventory.splice(index, 1);
+    },
+    placate: () => {
+      if (isPlacateReady()) {
+        pet.state = { ...pet.state, stats: applyPlacate(pet.state.stats, rules).stats };
+        pet.lastPlacateTime = pet.state.age;
+      }
+    },
+    isPlacateReady,
+  };
+}
+
+// ============================================
+// Simulation Runs
+// ============================================
+
+interface RunOptions {
+  pets: number;
+  days: number;
+  interval: number;
+  ghosts: number;
+  seed: number;
+}
+
+/**
+ * Raise one pet until it dies or the horizon is reached.
+ */
+function runPet(
+  strategy: StrategyName,
+  rules: GameRules,
+  rng: Rng,
+  options: RunOptions
+): SimulatedPet {
+  const pet = createPet();
+  const context = createContext(pet, rules, rng);
+  const horizon = options.days * MINUTES_PER_DAY;
+
+  while (pet.deathCause === null && pet.state.age < horizon) {
+    STRATEGIES[strategy].visit(context);
+
+    const minutes = Math.min(options.interval, horizon - pet.state.age);
+    const { state, events } = simulate(pet.state, minutes, rng, {
+      ghostCount: options.ghosts,
+      rules,
+    });
+    pet.state = state;
+
+    for (const event of events) {
+      if (event.type === "evolution" && event.toStage === "ABOMINATION") {
+        pet.reachedAbomination = true;
+      }
+      if (event.type === "death") {
+        pet.deathCause = event.cause;
+      }
+    }
+  }
+
+  return pet;
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+interface GroupReport {
+  difficulty: Difficulty;
+  strategy: StrategyName;
+  pets: number;
+  survivalMinutes: {
+    mean: number;
+    min: number;
+    p10: number;
+    p25: number;
+    median: number;
+    p75: number;
+    p90: number;
+    max: number;
+  };
+  deathsByDay: number[]; // Index = game day the pet died on
+  survivedRate: number; // Still alive at the horizon
+  stageReached: Record<PetStage, number>; // Ratio of pets per final stage
+  deathCauses: Record<DeathCause, number>; // Ratio of deaths per cause
+  abominationRate: number;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const ratio = (count: number, total: number): number =>
+  total === 0 ? 0 : Math.round((count / total) * 10000) / 10000;
+
+// CSV column for every stage and cause; keyed by the unions, so one added
+// to the game can't be left out of the report
+const STAGE_COLUMNS: Record<PetStage, string> = {
+  EGG: "stage_egg",
+  BABY: "stage_baby",
+  TEEN: "stage_teen",
+  ELDER: "stage_elder",
+  ABOMINATION: "stage_abomination",
+};
+
+const CAUSE_COLUMNS: Record<DeathCause, string> = {
+  STARVATION: "death_starvation",
+  INSANITY: "death_insanity",
+  OLD_AGE: "death_old_age",
+};
+
+/**
+ * Ratio of `total` for each key of a column map.
+ */
+function ratiosBy<K extends string>(
+  columns: Record<K, string>,
+  count: (key: K) => number,
+  total: number
+): Record<K, number> {
+  const keys = Object.keys(columns) as K[];
+  return Object.fromEntries(keys.map((key) => [key, ratio(count(key), total)])) as Record<K, number>;
+}
+
+function summarize(
+  difficulty: Difficulty,
+  strategy: StrategyName,
+  pets: SimulatedPet[],
+  options: RunOptions
+): GroupReport {
+  const ages = pets.map((pet) => pet.state.age).sort((a, b) => a - b);
+  const dead = pets.filter((pet) => pet.deathCause !== null);
+
+  const deathsByDay = new Array<number>(options.days).fill(0);
+  for (const pet of dead) {
+    deathsByDay[Math.min(options.days - 1, Math.floor(pet.state.age / MINUTES_PER_DAY))] += 1;
+  }
+
+  const countStage = (stage: PetStage) => pets.filter((pet) => pet.state.stage === stage).length;
+  const countCause = (cause: DeathCause) => dead.filter((pet) => pet.deathCause === cause).length;
+
+  return {
+    difficulty,
+    strategy,
+    pets: pets.length,
+    survivalMinutes: {
+      mean: Math.round(ages.reduce((sum, age) => sum + age, 0) / Math.max(1, ages.length)),
+      min: ages[0] ?? 0,
+      p10: percentile(ages, 10),
+      p25: percentile(ages, 25),
+      median: percentile(ages, 50),
+      p75: percentile(ages, 75),
+      p90: percentile(ages, 90),
+      max: ages[ages.length - 1] ?? 0,
+    },
+    deathsByDay,
+    survivedRate: ratio(pets.length - dead.length, pets.length),
+    stageReached: ratiosBy(STAGE_COLUMNS, countStage, pets.length),
+    deathCauses: ratiosBy(CAUSE_COLUMNS, countCause, dead.length),
+    abominationRate: ratio(pets.filter((pet) => pet.reachedAbomination).length, pets.length),
+  };
+}
+
+/**
+ * Flatten group reports into CSV, one row per difficulty/strategy pair.
+ */
+function toCsv(reports: GroupReport[]): string {
+  const header = [
+    "difficulty",
+    "strategy",
+    "pets",
+    ...Object.keys(reports[0]?.survivalMinutes ?? {}).map((key) => `survival_${key}`),
+    "survived_rate",
+    ...Object.values(STAGE_COLUMNS),
+    ...Object.values(CAUSE_COLUMNS),
+    "abomination_rate",
+    "deaths_by_day",
+  ];
+
+  const rows = reports.map((report) => [
+    report.difficulty,
+    report.strategy,
+    report.pets,
+    ...Object.values(report.survivalMinutes),
+    report.survivedRate,
+    ...(Object.keys(STAGE_COLUMNS) as PetStage[]).map((stage) => report.stageReached[stage]),
+    ...(Object.keys(CAUSE_COLUMNS) as DeathCause[]).map((cause) => report.deathCauses[cause]),
+    report.abominationRate,
+    report.deathsByDay.join(" "),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+// ============================================
+// Command Line
+// ============================================
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+function pick<T extends string>(value: string | undefined, all: readonly T[], label: string): T[] {
+  if (!value || value === "all") {
+    return [...all];
+  }
+  const match = all.find((option) => option.toLowerCase() === value.toLowerCase());
+  if (!match) {
+    console.error(`❌ Unknown ${label} "${value}". Expected one of: ${all.join(", ")}, all`);
+    process.exit(1);
+  }
+  return [match];
+}
+
+function positiveInt(value: string | undefined, fallback: number, label: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(`❌ --${label} must be a non-negative integer`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const options: RunOptions = {
+    pets: positiveInt(args.pets, 1000, "pets"),
+    days: Math.max(1, positiveInt(args.days, 14, "days")),
+    interval: Math.max(1, positiveInt(args.interval, 30, "interval")),
+    ghosts: positiveInt(args.ghosts, 0, "ghosts"),
+    seed: positiveInt(args.seed, 1, "seed"),
+  };
+  const format = args.format === "csv" ? "csv" : "json";
+  const difficulties = pick(args.difficulty, Object.keys(GAME_RULE_PRESETS) as Difficulty[], "difficulty");
+  const strategies = pick(args.strategy, Object.keys(STRATEGIES) as StrategyName[], "strategy");
+
+  const reports: GroupReport[] = [];
+  for (const difficulty of difficulties) {
+    for (const strategy of strategies) {
+      // Same seed per group, so changing one preset does not reshuffle the others
+      const rng = createSeededRng(options.seed);
+      const pets = Array.from({ length: options.pets }, () =>
+        runPet(strategy, GAME_RULE_PRESETS[difficulty], rng, options)
+      );
+      reports.push(summarize(difficulty, strategy, pets, options));
+      console.error(`✓ ${difficulty} / ${strategy}: ${options.pets} pets`);
+    }
+  }
+
+  const output =
+    format === "csv"
+      ? toCsv(reports)
+      : JSON.stringify({ generatedAt: new Date().toISOString(), options, reports }, null, 2) + "\n";
+
+  if (args.out) {
+    const outputPath = path.resolve(process.cwd(), args.out);
+    fs.writeFileSync(outputPath, output, "utf-8");
+    console.error(`  Output: ${outputPath}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
@@ -18,6 +18,17 @@ import * as https from 'https';
 type Archetype = 'GLOOM' | 'SPARK' | 'ECHO';
 type PetStage = 'EGG' | 'BABY' | 'TEEN' | 'ABOMINATION';
 
+// RunPod job responses (only the fields read here)
+interface RunPodJob {
+  id?: string;
+}
+
+interface RunPodStatus {
+  status: string;
+  output?: { result?: string; image_url?: string } | string;
+  error?: string;
+}
+
 interface ImagePrompt {
   archetype: Archetype;
   stage: PetStage;
@@ -142,7 +153,7 @@ async function submitRunPodJob(prompt: string): Promise<string> {
     throw new Error(`RunPod submit failed: ${response.status} - ${errorText}`);
   }
 
-  const result = await response.json();
+  const result = (await response.json()) as RunPodJob;
 
   if (!result.id) {
     throw new Error('No job ID returned from RunPod');
@@ -171,18 +182,18 @@ async function pollJobStatus(jobId: string): Promise<string> {
       continue;
     }
 
-    const result = await response.json();
+    const result = (await response.json()) as RunPodStatus;
 
     if (result.status === 'COMPLETED') {
       const output = result.output;
 
       // Handle different output formats from SeeDream V4
-      if (output && output.result) {
+      if (typeof output === 'string' && output.startsWith('http')) {
+        return output;
+      } else if (typeof output === 'object' && output.result) {
         return output.result; // SeeDream V4 format: {result: "url", cost: number}
-      } else if (output && output.image_url) {
+      } else if (typeof output === 'object' && output.image_url) {
         return output.image_url;
-      } else if (typeof output === 'string' && output.startsWith('http')) {
-        return output;
       } else {
         throw new Error(`Unexpected output format: ${JSON.stringify(output)}`);
       }
@@ -18,6 +18,10 @@ export interface ActionDockProps {
   onZenMode: () => void;
   /** Handler for placate action */
   onPlacate: () => void;
+  /** Handler for opening the neighbourhood map */
+  onMap: () => void;
+  /** Handler for opening the night market */
+  onMarket: () => void;
   /** Handler for gallery action */
   onGallery: () => void;
   /** Handler for story summary action */
@@ -30,6 +34,8 @@ export interface ActionDockProps {
   isPlacateOnCooldown?: boolean;
   /** Remaining cooldown time in game minutes */
   placateCooldownRemaining?: number;
+  /** Whether the keeper is away on an expedition (no scavenging or placating) */
+  isAway?: boolean;
   /** Whether to disable animations (reduce motion) */
   reduceMotion?: boolean;
   /** Whether retro mode is enabled (disables React Bits animations) */
@@ -46,12 +52,15 @@ export function ActionDock({
   onSettings,
   onZenMode,
   onPlacate,
+  onMap,
+  onMarket,
   onGallery,
   onStorySummary,
   isScavenging = false,
   canScavenge = true,
   isPlacateOnCooldown = false,
   placateCooldownRemaining = 0,
+  isAway = false,
   reduceMotion = false,
   retroMode = false,
 }: ActionDockProps) {
@@ -64,7 +73,7 @@ export function ActionDock({
   const dockItems: DockItemData[] = useMemo(() => [
     {
       icon: isScavenging ? '⏳' : '🔍',
-      label: isScavenging ? 'Scavenging...' : (canScavenge ? 'Scavenge' : 'Inventory Full'),
+      label: isScavenging ? 'Scavenging...' : (canScavenge ? 'Scavenge' : isAway ? 'Away' : 'Inventory Full'),
       onClick: () => {
         if (canScavenge && !isScavenging) {
           onScavenge();
@@ -74,14 +83,26 @@ export function ActionDock({
     },
     {
       // Requirement 6.7: Show cooldown timer when on cooldown, disable button during cooldown
-      icon: isPlacateOnCooldown ? '⏳' : '🤲',
-      label: isPlacateOnCooldown ? `Cooldown: ${placateCooldownRemaining}s` : 'Placate',
+      icon: isAway ? '🚪' : isPlacateOnCooldown ? '⏳' : '🤲',
+      label: isAway ? 'Away' : isPlacateOnCooldown ? `Cooldown: ${placateCooldownRemaining}s` : 'Placate',
       onClick: () => {
-        if (!isPlacateOnCooldown) {
+        if (!isPlacateOnCooldown && !isAway) {
           onPlacate();
         }
       },
-      className: `action-placate ${isPlacateOnCooldown ? 'action-disabled' : ''}`,
+      className: `action-placate ${isPlacateOnCooldown || isAway ? 'action-disabled' : ''}`,
+    },
+    {
+      icon: '🗺️',
+      label: 'Map',
+      onClick: onMap,
+      className: 'action-map',
+    },
+    {
+      icon: '🏮',
+      label: 'Market',
+      onClick: onMarket,
+      className: 'action-market',
     },
     {
       icon: '🖼️',
@@ -107,7 +128,7 @@ export function ActionDock({
       onClick: onZenMode,
       className: 'action-zen',
     },
-  ], [onScavenge, onSettings, onZenMode, onPlacate, onGallery, onStorySummary, isScavenging, canScavenge, isPlacateOnCooldown, placateCooldownRemaining]);
+  ], [onScavenge, onSettings, onZenMode, onPlacate, onMap, onMarket, onGallery, onStorySummary, isScavenging, canScavenge, isPlacateOnCooldown, placateCooldownRemaining, isAway]);
 
   return (
     <div 
@@ -17,6 +17,7 @@ import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { useGameStore, getPlacateCooldownRemaining } from "../store";
 import { ThemeProvider } from "../contexts/ThemeContext";
 import CreationScreen from "./CreationScreen";
+import SlotPicker from "./SlotPicker";
 import { DeathScreen } from "./DeathScreen";
 import { GameCanvas, type GameCanvasHandle } from "./GameCanvas";
 import { InventoryPanel } from "./InventoryPanel";
@@ -25,17 +26,23 @@ import { NarrativeLog } from "./NarrativeLog";
 import { DebugPanel } from "./DebugPanel";
 import { AudioControls } from "./AudioControls";
 import { SettingsPanel } from "./SettingsPanel";
+import { NeighbourhoodMap } from "./NeighbourhoodMap";
+import { NightMarket } from "./NightMarket";
 import { ImageGallery } from "./ImageGallery";
 import { StorySummary } from "./StorySummary";
 import { BackgroundLayer } from "./BackgroundLayer";
 import { ActionDock } from "./ActionDock";
 import { GameLoop } from "../utils/gameLoop";
+import { startTabSync } from "../utils/tabSync";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { soundManager } from "../utils/soundManager";
 import { logInfo, logError } from "../utils/errorLogger";
-import { reorderInventory } from "../utils/inventoryUtils";
+import { getInventoryCapacity, hasRoomForFind, reorderInventory } from "../utils/inventoryUtils";
 import { isMobileViewport } from "../utils/animationUtils";
-import type { Archetype, SoundCatalog, PetStage, Offering } from "../utils/types";
+import { getGameRules } from "../utils/gameRules";
+import { getStomachFullness } from "../utils/digestion";
+import { COSMETICS } from "../utils/market";
+import type { Archetype, Difficulty, SoundCatalog, PetStage, Offering } from "../utils/types";
 import "./App.css";
 
 /**
@@ -68,6 +75,7 @@ function getInitialAmbient(stage: PetStage, sanity: number): string {
     EGG: "ambient_suburban_neighborhood_morning",
     BABY: "ambient_rain_medium_2",
     TEEN: "ambient_creepy_ambience_3",
+    ELDER: "ambient_old_house_creeky_metal_and_wood_ambiance_7",
     ABOMINATION: "ambient_drone_doom",
   };
   return stageAmbientMap[stage];
@@ -80,6 +88,8 @@ function AppContent() {
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
   const [settingsPanelOpen, setSettingsPanelOpen] = useState(false);
   const [storySummaryOpen, setStorySummaryOpen] = useState(false);
+  const [mapOpen, setMapOpen] = useState(false);
+  const [marketOpen, setMarketOpen] = useState(false);
   const [zenMode, setZenMode] = useState(false);
   const [isScavenging, setIsScavenging] = useState(false);
   const [audioInitialized, setAudioInitialized] = useState(false);
@@ -92,21 +102,37 @@ function AppContent() {
   const [evolutionFlash, setEvolutionFlash] = useState(false);
   const previousStageRef = useRef<PetStage | null>(null);
 
+  // Creation screen opened from the roster's slot picker
+  const [isCreatingPet, setIsCreatingPet] = useState(false);
+
   const isInitialized = useGameStore((state) => state.isInitialized);
   const initializePet = useGameStore((state) => state.initializePet);
   const isAlive = useGameStore((state) => state.isAlive);
   const deathData = useGameStore((state) => state.deathData);
   const startNewPet = useGameStore((state) => state.startNewPet);
+  const roster = useGameStore((state) => state.roster);
+  const tabRole = useGameStore((state) => state.tabRole);
+  const loadPetSlot = useGameStore((state) => state.loadPetSlot);
+  const deletePetSlot = useGameStore((state) => state.deletePetSlot);
   const traits = useGameStore((state) => state.traits);
   const stage = useGameStore((state) => state.stage);
   const stats = useGameStore((state) => state.stats);
   const age = useGameStore((state) => state.age);
   const logs = useGameStore((state) => state.logs);
   const gameDay = useGameStore((state) => state.gameDay);
-  const dailyFeeds = useGameStore((state) => state.dailyFeeds);
+  const stomach = useGameStore((state) => state.stomach);
+  const difficulty = useGameStore((state) => state.difficulty);
+  const statusEffects = useGameStore((state) => state.statusEffects);
   const inventory = useGameStore((state) => state.inventory);
+  const inventoryUpgrades = useGameStore((state) => state.inventoryUpgrades);
+  const isAway = useGameStore((state) => state.expedition !== null);
+  const teeth = useGameStore((state) => state.teeth);
+  const equippedCosmetic = useGameStore((state) => state.equippedCosmetic);
   const scavenge = useGameStore((state) => state.scavenge);
   const feed = useGameStore((state) => state.feed);
+  const appraise = useGameStore((state) => state.appraise);
+  const placeOnAltar = useGameStore((state) => state.placeOnAltar);
+  const stashItem = useGameStore((state) => state.stashItem);
   const storeReorderInventory = useGameStore((state) => state.reorderInventory);
   const hasUserInteracted = useGameStore((state) => state.hasUserInteracted);
   const setUserInteracted = useGameStore((state) => state.setUserInteracted);
@@ -156,6 +182,12 @@ function AppContent() {
         if (over.id === 'game-canvas') {
           return `${getItemDescription(active.id as string)} is over your pet. Release to feed.`;
         }
+        if (over.id === 'ritual-altar') {
+          return `${getItemDescription(active.id as string)} is over the ritual altar. Release to place it.`;
+        }
+        if (over.id === 'stash') {
+          return `${getItemDescription(active.id as string)} is over the stash. Release to stash it.`;
+        }
         const overIndex = inventory.findIndex(i => i.id === over.id);
         if (overIndex !== -1) {
           return `${getItemDescription(active.id as string)} is over position ${overIndex + 1}.`;
@@ -168,6 +200,12 @@ function AppContent() {
         if (over.id === 'game-canvas') {
           return `Fed ${getItemDescription(active.id as string)} to your pet.`;
         }
+        if (over.id === 'ritual-altar') {
+          return `Placed ${getItemDescription(active.id as string)} on the ritual altar.`;
+        }
+        if (over.id === 'stash') {
+          return `Stashed ${getItemDescription(active.id as string)}.`;
+        }
         if (active.id !== over.id) {
           const fromIndex = inventory.findIndex(i => i.id === active.id);
           const toIndex = inventory.findIndex(i => i.id === over.id);
@@ -232,6 +270,18 @@ function AppContent() {
       return;
     }
 
+    // Handle drag-to-altar for rituals
+    if (over.id === 'ritual-altar') {
+      placeOnAltar(active.id as string);
+      return;
+    }
+
+    // Handle drag-to-stash
+    if (over.id === 'stash') {
+      stashItem(active.id as string);
+      return;
+    }
+
     // Handle reordering within inventory (Requirement 1.3)
     if (active.id !== over.id) {
       const oldIndex = inventory.findIndex(item => item.id === active.id);
@@ -242,7 +292,7 @@ function AppContent() {
         storeReorderInventory(newInventory);
       }
     }
-  }, [inventory, feed, storeReorderInventory]);
+  }, [inventory, feed, placeOnAltar, stashItem, storeReorderInventory]);
 
   // Handle first user interaction to unlock audio (Requirements 2.3, 2.4)
   const handleUserInteraction = useCallback(() => {
@@ -317,19 +367,17 @@ function AppContent() {
     };
   }, [hasUserInteracted, handleUserInteraction]);
 
-  // Initialize and cleanup game loop with game speed support
+  // Coordinate with other open tabs so only one of them runs the pet
+  useEffect(() => startTabSync(), []);
+
+  // Initialize and cleanup game loop
   useEffect(() => {
-    // Only start the game loop if the pet is initialized
-    if (isInitialized) {
-      // Stop existing loop if speed changed
-      if (gameLoopRef.current) {
-        gameLoopRef.current.stop();
-      }
-      
+    // Only start the game loop if the pet is initialized and this tab leads
+    if (isInitialized && tabRole === "leader") {
       // Calculate tick interval based on game speed
       // Base: 1000ms = 1 game minute at 1x speed
       // At 2x speed: 500ms per tick, at 0.5x: 2000ms per tick
-      const tickInterval = Math.round(1000 / gameSpeed);
+      const tickInterval = Math.round(1000 / useGameStore.getState().gameSpeed);
       gameLoopRef.current = new GameLoop(tickInterval);
       gameLoopRef.current.start();
     }
@@ -338,9 +386,15 @@ function AppContent() {
     return () => {
       if (gameLoopRef.current) {
         gameLoopRef.current.stop();
+        gameLoopRef.current = null;
       }
     };
-  }, [isInitialized, gameSpeed]);
+  }, [isInitialized, tabRole]);
+
+  // Game speed changes keep the running clock (and its partial minute)
+  useEffect(() => {
+    gameLoopRef.current?.setTickInterval(Math.round(1000 / gameSpeed));
+  }, [gameSpeed]);
 
   // Evolution flash effect - detect stage changes (Requirement 5.4)
   useEffect(() => {
@@ -481,7 +535,7 @@ function AppContent() {
 • debugGame.setStats({ hunger: 50, sanity: 80, corruption: 10 })
   Set specific stats (partial update supported)
 
-• debugGame.setStage("BABY" | "TEEN" | "ABOMINATION")
+• debugGame.setStage("BABY" | "TEEN" | "ELDER" | "ABOMINATION")
   Force change to a specific stage
 
 • debugGame.addAge(1440)
@@ -527,14 +581,31 @@ function AppContent() {
   const handlePetCreation = (
     name: string,
     archetype: Archetype,
-    color: number
+    color: number,
+    difficulty: Difficulty
   ) => {
-    initializePet(name, archetype, color);
+    initializePet(name, archetype, color, difficulty);
+    setIsCreatingPet(false);
   };
 
-  // Show CreationScreen if pet not initialized
+  // Show the roster first when other pets are waiting, then CreationScreen
   if (!isInitialized) {
-    return <CreationScreen onComplete={handlePetCreation} />;
+    if (roster.length > 0 && !isCreatingPet) {
+      return (
+        <SlotPicker
+          slots={roster}
+          onLoad={loadPetSlot}
+          onDelete={deletePetSlot}
+          onCreate={() => setIsCreatingPet(true)}
+        />
+      );
+    }
+    return (
+      <CreationScreen
+        onComplete={handlePetCreation}
+        onCancel={roster.length > 0 ? () => setIsCreatingPet(false) : undefined}
+      />
+    );
   }
 
   // Show DeathScreen if pet has died (Requirements 5.1, 5.4)
@@ -542,12 +613,17 @@ function AppContent() {
     return <DeathScreen deathData={deathData} onStartNew={startNewPet} />;
   }
 
-  const canScavenge = inventory.length < 3 && !isScavenging;
+  const canScavenge =
+    hasRoomForFind(inventory, getInventoryCapacity(inventoryUpgrades, getGameRules(difficulty))) && !isScavenging && !isAway;
 
   // Calculate placate cooldown state (Requirement 6.7)
-  const placateCooldownRemaining = getPlacateCooldownRemaining(lastPlacateTime, age);
+  const placateCooldownRemaining = getPlacateCooldownRemaining(lastPlacateTime, age, difficulty);
   const isPlacateOnCooldown = placateCooldownRemaining > 0;
 
+  // Offerings still being digested, in offerings' worth
+  const { stomachCapacity } = getGameRules(difficulty).feeding;
+  const stomachFullness = getStomachFullness(stomach, getGameRules(difficulty));
+
   // Determine sanity state for data attribute (critical when below 30)
   const sanityState = stats.sanity < 30 ? "critical" : "normal";
 
@@ -560,7 +636,7 @@ function AppContent() {
       accessibility={{
         announcements,
         screenReaderInstructions: {
-          draggable: 'To pick up an item, press Enter or Space. Use arrow keys to move the item. Drag to your pet to feed, or to another slot to reorder. Press Enter to drop or Escape to cancel.',
+          draggable: 'To pick up an item, press Enter or Space. Use arrow keys to move the item. Drag to your pet to feed, to the ritual altar or stash, or to another slot to reorder. Press Enter to drop or Escape to cancel.',
         },
       }}
     >
@@ -573,8 +649,15 @@ function AppContent() {
       >
         {/* Animated background layer - positioned behind all content */}
         <BackgroundLayer />
+
+        {/* Another tab runs the pet; this one mirrors it */}
+        {tabRole === "follower" && (
+          <div className="tab-follower-notice" role="status">
+            {traits.name} is being looked after in another tab. Actions here are passed along to it.
+          </div>
+        )}
         
-        <main className={`app-main ${zenMode ? "zen-mode-active" : ""}`}>
+        <main className={`app-main ${zenMode ? "zen-mode-active" : ""} ${mapOpen ? "map-open" : ""}`}>
           {!zenMode && (
             <aside className="stats-panel">
               <StatsPanel
@@ -582,7 +665,10 @@ function AppContent() {
                 stage={stage}
                 age={age}
                 gameDay={gameDay}
-                dailyFeeds={dailyFeeds}
+                teeth={teeth}
+                stomachFullness={stomachFullness}
+                stomachCapacity={stomachCapacity}
+                statusEffects={statusEffects}
                 onCriticalWarning={() => {
                   // Requirement 8.4: Play alarm sound on first threshold crossing
                   useGameStore.getState().playSound("critical_warning", {
@@ -602,12 +688,15 @@ function AppContent() {
                 onSettings={() => setSettingsPanelOpen(true)}
                 onZenMode={() => setZenMode(true)}
                 onPlacate={placate}
+                onMap={() => setMapOpen(true)}
+                onMarket={() => setMarketOpen(true)}
                 onGallery={() => setGalleryOpen(true)}
                 onStorySummary={() => setStorySummaryOpen(true)}
                 isScavenging={isScavenging}
                 canScavenge={canScavenge}
                 isPlacateOnCooldown={isPlacateOnCooldown}
                 placateCooldownRemaining={placateCooldownRemaining}
+                isAway={isAway}
                 reduceMotion={reduceMotion}
                 retroMode={retroMode}
               />
@@ -629,6 +718,8 @@ function AppContent() {
               placateEffect={placateEffect}
               vomitEffect={vomitEffect}
               insanityEffect={insanityEffect}
+              stomachFullness={stomachFullness / stomachCapacity}
+              cosmetic={equippedCosmetic ? COSMETICS[equippedCosmetic] : null}
             />
             {zenMode && (
               <button
@@ -651,6 +742,7 @@ function AppContent() {
                 <InventoryPanel
                   inventory={inventory}
                   onFeed={feed}
+                  onAppraise={appraise}
                   canScavenge={canScavenge}
                   onScavenge={handleScavenge}
                   isScavenging={isScavenging}
@@ -667,6 +759,12 @@ function AppContent() {
         
         {/* Settings Panel */}
         <SettingsPanel isOpen={settingsPanelOpen} onClose={() => setSettingsPanelOpen(false)} />
+
+        {/* Neighbourhood Map */}
+        <NeighbourhoodMap isOpen={mapOpen} onClose={() => setMapOpen(false)} />
+
+        {/* Night Market */}
+        <NightMarket isOpen={marketOpen} onClose={() => setMarketOpen(false)} />
         
         {/* Image Gallery */}
         <ImageGallery isOpen={galleryOpen} onClose={() => setGalleryOpen(false)} />
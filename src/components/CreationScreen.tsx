@@ -1,9 +1,11 @@
 import { useState } from "react";
-import type { Archetype } from "../utils/types";
+import type { Archetype, Difficulty } from "../utils/types";
+import { DIFFICULTIES, DEFAULT_DIFFICULTY } from "../utils/gameRules";
 import "./CreationScreen.css";
 
 interface CreationScreenProps {
-  onComplete: (name: string, archetype: Archetype, color: number) => void;
+  onComplete: (name: string, archetype: Archetype, color: number, difficulty: Difficulty) => void;
+  onCancel?: () => void; // Back to the pet roster
 }
 
 const ARCHETYPES: { type: Archetype; description: string }[] = [
@@ -21,10 +23,11 @@ const ARCHETYPES: { type: Archetype; description: string }[] = [
   },
 ];
 
-export default function CreationScreen({ onComplete }: CreationScreenProps) {
+export default function CreationScreen({ onComplete, onCancel }: CreationScreenProps) {
   const [name, setName] = useState("");
   const [archetype, setArchetype] = useState<Archetype | null>(null);
   const [color, setColor] = useState("#6b4c9a");
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
   const [errors, setErrors] = useState<{ name?: string; archetype?: string }>(
     {}
   );
@@ -74,7 +77,7 @@ export default function CreationScreen({ onComplete }: CreationScreenProps) {
     if (isNameValid && isArchetypeValid && isColorValid && archetype) {
       // Convert hex string to number
       const colorNumber = parseInt(color.replace("#", ""), 16);
-      onComplete(name.trim(), archetype, colorNumber);
+      onComplete(name.trim(), archetype, colorNumber, difficulty);
     }
   };
 
@@ -176,6 +179,38 @@ export default function CreationScreen({ onComplete }: CreationScreenProps) {
             )}
           </div>
 
+          {/* Difficulty Selection */}
+          <div
+            className="form-group"
+            role="group"
+            aria-labelledby="difficulty-label"
+          >
+            <label id="difficulty-label" className="form-label">
+              Difficulty
+            </label>
+            <div className="difficulty-buttons">
+              {DIFFICULTIES.map((option) => (
+                <button
+                  key={option.type}
+                  type="button"
+                  onClick={() => setDifficulty(option.type)}
+                  className={`difficulty-button ${
+                    difficulty === option.type ? "difficulty-selected" : ""
+                  }`}
+                  aria-pressed={difficulty === option.type}
+                  aria-label={`${option.label}: ${option.description}`}
+                >
+                  <span className="difficulty-name" aria-hidden="true">
+                    {option.label}
+                  </span>
+                  <span className="difficulty-description" aria-hidden="true">
+                    {option.description}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Submit Button */}
           <button
             type="submit"
@@ -185,6 +220,12 @@ export default function CreationScreen({ onComplete }: CreationScreenProps) {
             Begin
           </button>
         </form>
+
+        {onCancel && (
+          <button type="button" className="back-button" onClick={onCancel}>
+            Back to your companions
+          </button>
+        )}
       </div>
     </div>
   );
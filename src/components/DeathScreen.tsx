@@ -47,6 +47,8 @@ export function DeathScreen({ deathData, onStartNew }: DeathScreenProps) {
         return "Starved";
       case "INSANITY":
         return "Lost to Madness";
+      case "OLD_AGE":
+        return "Passed Peacefully";
       default:
         return deathCause;
     }
@@ -66,12 +68,15 @@ export function DeathScreen({ deathData, onStartNew }: DeathScreenProps) {
     }
   };
 
+  // Dying of old age is the one peaceful ending
+  const isPeaceful = cause === "OLD_AGE";
+
   return (
-    <div className="death-screen" role="main" aria-label="Pet Memorial">
+    <div className={`death-screen${isPeaceful ? " death-screen--peaceful" : ""}`} role="main" aria-label="Pet Memorial">
       <div className="death-container">
         {/* Memorial Header */}
         <div className="memorial-header">
-          <span className="memorial-icon" aria-hidden="true">💀</span>
+          <span className="memorial-icon" aria-hidden="true">{isPeaceful ? "🕯️" : "💀"}</span>
           <h1 className="memorial-title">In Memoriam</h1>
         </div>
 
@@ -131,7 +136,9 @@ export function DeathScreen({ deathData, onStartNew }: DeathScreenProps) {
         </button>
 
         <p className="ghost-notice">
-          The spirit of {petName} will linger...
+          {isPeaceful
+            ? `The spirit of ${petName} will watch over those who come after...`
+            : `The spirit of ${petName} will linger...`}
         </p>
       </div>
     </div>
@@ -1,6 +1,9 @@
 import { useState, useEffect } from "react";
 import { useGameStore } from "../store";
 import type { PetStage } from "../utils/types";
+import { getGameRules } from "../utils/gameRules";
+import { getStomachFullness } from "../utils/digestion";
+import { getInventoryCapacity } from "../utils/inventoryUtils";
 import { 
   getPerformanceState, 
   onPerformanceChange,
@@ -55,7 +58,11 @@ export function DebugPanel({ isOpen, onClose }: DebugPanelProps) {
   const age = useGameStore((state) => state.age);
   const gameDay = useGameStore((state) => state.gameDay);
   const dailyFeeds = useGameStore((state) => state.dailyFeeds);
+  const stomach = useGameStore((state) => state.stomach);
+  const difficulty = useGameStore((state) => state.difficulty);
   const inventory = useGameStore((state) => state.inventory);
+  const inventoryUpgrades = useGameStore((state) => state.inventoryUpgrades);
+  const stash = useGameStore((state) => state.stash);
   const logs = useGameStore((state) => state.logs);
   const isAlive = useGameStore((state) => state.isAlive);
   const reset = useGameStore((state) => state.reset);
@@ -171,7 +178,13 @@ export function DebugPanel({ isOpen, onClose }: DebugPanelProps) {
               </div>
               <div className="debug-stat">
                 <span className="debug-stat-label">FEEDS:</span>
-                <span className="debug-stat-value">{dailyFeeds}/3</span>
+                <span className="debug-stat-value">{dailyFeeds}</span>
+              </div>
+              <div className="debug-stat">
+                <span className="debug-stat-label">STOMACH:</span>
+                <span className="debug-stat-value">
+                  {getStomachFullness(stomach, getGameRules(difficulty)).toFixed(1)}/{getGameRules(difficulty).feeding.stomachCapacity}
+                </span>
               </div>
               <div className="debug-stat">
                 <span className="debug-stat-label">HUNGER:</span>
@@ -197,7 +210,15 @@ export function DebugPanel({ isOpen, onClose }: DebugPanelProps) {
               </div>
               <div className="debug-stat">
                 <span className="debug-stat-label">ITEMS:</span>
-                <span className="debug-stat-value">{inventory.length}/3</span>
+                <span className="debug-stat-value">
+                  {inventory.length}/{getInventoryCapacity(inventoryUpgrades, getGameRules(difficulty))}
+                </span>
+              </div>
+              <div className="debug-stat">
+                <span className="debug-stat-label">STASH:</span>
+                <span className="debug-stat-value">
+                  {stash.length}/{getGameRules(difficulty).inventory.stashCapacity}
+                </span>
               </div>
               <div className="debug-stat">
                 <span className="debug-stat-label">LOGS:</span>
@@ -296,6 +317,12 @@ export function DebugPanel({ isOpen, onClose }: DebugPanelProps) {
               >
                 [TEEN]
               </button>
+              <button
+                onClick={() => handleSetStage("ELDER")}
+                className={`debug-button ${stage === "ELDER" ? "debug-button-active" : ""}`}
+              >
+                [ELDER]
+              </button>
               <button
                 onClick={() => handleSetStage("ABOMINATION")}
                 className={`debug-button ${stage === "ABOMINATION" ? "debug-button-active" : ""}`}
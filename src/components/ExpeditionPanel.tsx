@@ -0,0 +1,74 @@
+import { useGameStore } from "../store";
+import {
+  LOCATIONS,
+  LOCATION_IDS,
+  describeUnlock,
+  getExpeditionRemaining,
+  isLocationUnlocked,
+} from "../utils/expeditions";
+import "./ExpeditionPanel.css";
+
+// Format game minutes for display, e.g. "1h 20m"
+const formatMinutes = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.floor(totalMinutes % 60);
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+};
+
+// "the Cellar" -> "The Cellar"
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * ExpeditionPanel Component
+ *
+ * Sends the keeper out to search a location. While they are away the panel
+ * counts down to their return; the pet is on its own until then.
+ */
+export function ExpeditionPanel() {
+  const expedition = useGameStore((state) => state.expedition);
+  const age = useGameStore((state) => state.age);
+  const isAlive = useGameStore((state) => state.isAlive);
+  const gameDay = useGameStore((state) => state.gameDay);
+  const stage = useGameStore((state) => state.stage);
+  const startExpedition = useGameStore((state) => state.startExpedition);
+
+  return (
+    <div className="expedition-panel" role="region" aria-label="Expeditions">
+      <div className="expedition-header">Expeditions</div>
+
+      {expedition ? (
+        <div className="expedition-away" role="status">
+          Searching {LOCATIONS[expedition.location].name}... back in{" "}
+          {formatMinutes(getExpeditionRemaining(expedition, age))}
+        </div>
+      ) : (
+        <div className="expedition-locations">
+          {LOCATION_IDS.map((id) => {
+            const location = LOCATIONS[id];
+            const isUnlocked = isLocationUnlocked(id, gameDay, stage);
+            const details = isUnlocked ? location.description : describeUnlock(id);
+            return (
+              <button
+                key={id}
+                type="button"
+                className="expedition-button"
+                onClick={() => startExpedition(id)}
+                disabled={!isAlive || !isUnlocked}
+                title={details}
+                aria-label={`Search ${location.name}, ${formatMinutes(location.duration)} away. ${details}`}
+              >
+                <span className="expedition-name">{capitalize(location.name)}</span>
+                <span className="expedition-duration">
+                  {isUnlocked ? formatMinutes(location.duration) : "Locked"}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
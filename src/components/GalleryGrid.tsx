@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import type { NarrativeLog } from "../utils/types";
+import { StoredImage } from "./StoredImage";
 import "./GalleryGrid.css";
 
 interface GalleryGridProps {
@@ -90,6 +91,11 @@ export function GalleryGrid({ images, onImageClick }: GalleryGridProps) {
       <div className="gallery-grid" role="list">
         {visibleImages.map((image) => {
           const isLoaded = loadedImages.has(image.id);
+          const placeholder = (
+            <div className="gallery-grid-placeholder" aria-label="Loading image">
+              <div className="gallery-grid-spinner" />
+            </div>
+          );
           
           return (
             <div
@@ -109,15 +115,14 @@ export function GalleryGrid({ images, onImageClick }: GalleryGridProps) {
               aria-label={`View image from ${image.eventType || "event"} at age ${formatAge(image.timestamp)}`}
             >
               {isLoaded ? (
-                <img
-                  src={image.imageUrl || ""}
+                <StoredImage
+                  log={image}
                   alt={`${image.eventType || "Event"} at age ${formatAge(image.timestamp)}`}
                   className="gallery-grid-image"
+                  fallback={placeholder}
                 />
               ) : (
-                <div className="gallery-grid-placeholder" aria-label="Loading image">
-                  <div className="gallery-grid-spinner" />
-                </div>
+                placeholder
               )}
               {image.eventType && (
                 <div className="gallery-grid-badge" aria-label={`Event type: ${image.eventType}`}>
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from "react";
 import type { NarrativeLog } from "../utils/types";
+import { StoredImage } from "./StoredImage";
 import "./GalleryModal.css";
 
 interface GalleryModalProps {
@@ -192,8 +193,8 @@ export function GalleryModal({ image, images, onClose, onNavigate }: GalleryModa
 
         {/* Image */}
         <div className="gallery-modal-image-container">
-          <img
-            src={image.imageUrl || ""}
+          <StoredImage
+            log={image}
             alt={`${image.eventType || "Event"} at age ${formatAge(image.timestamp)}: ${image.text.substring(0, 100)}`}
             className="gallery-modal-image"
           />
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import type { NarrativeLog, PetStage } from "../utils/types";
+import { StoredImage } from "./StoredImage";
 import "./GalleryTimeline.css";
 
 interface GalleryTimelineProps {
@@ -107,6 +108,11 @@ export function GalleryTimeline({ images, onImageClick }: GalleryTimelineProps)
         {images.map((image, index) => {
           const isLeft = index % 2 === 0;
           const isDeathEvent = index === deathEventIndex;
+          const placeholder = (
+            <div className="timeline-image-placeholder" aria-label="Loading image">
+              <div className="timeline-image-spinner" />
+            </div>
+          );
           const stageTransition = stageTransitions.find(t => t.index === index);
 
           return (
@@ -148,15 +154,14 @@ export function GalleryTimeline({ images, onImageClick }: GalleryTimelineProps)
                   aria-label={`View image from ${image.eventType || "event"} at age ${formatAge(image.timestamp)}`}
                 >
                   {loadedImages.has(image.id) ? (
-                    <img
-                      src={image.imageUrl || ""}
+                    <StoredImage
+                      log={image}
                       alt={`${image.eventType || "Event"} at age ${formatAge(image.timestamp)}`}
                       className="timeline-image"
+                      fallback={placeholder}
                     />
                   ) : (
-                    <div className="timeline-image-placeholder" aria-label="Loading image">
-                      <div className="timeline-image-spinner" />
-                    </div>
+                    placeholder
                   )}
                   {image.eventType && (
                     <div className="timeline-badge" aria-label={`Event type: ${image.eventType}`}>
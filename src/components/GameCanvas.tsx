@@ -1,7 +1,7 @@
 import { useEffect, useRef, useState, useCallback, useImperativeHandle, forwardRef } from "react";
 import * as PIXI from "pixi.js";
 import { useDroppable } from "@dnd-kit/core";
-import type { PetTraits, PetStage } from "../utils/types";
+import type { CosmeticDefinition, PetTraits, PetStage } from "../utils/types";
 import { logError, logInfo } from "../utils/errorLogger";
 import {
   generatePetArt,
@@ -41,14 +41,32 @@ interface GameCanvasProps {
     isActive: boolean;
     eventType: string | null;
   }; // Insanity visual effect state (Requirement 10.6)
+  stomachFullness?: number; // 0-1, how much of the stomach's capacity is in use
+  cosmetic?: CosmeticDefinition | null; // Bought at the night market, worn beside the name
 }
 
 // Mobile breakpoint constant
 const MOBILE_BREAKPOINT = 768;
+// Extra width of the pet at a full stomach
+const BELLY_BLOAT = 0.15;
+// Stomach fullness at which the belly is drawn as about to burst
+const BELLY_FULL_THRESHOLD = 0.8;
+// How far an elder's colour has faded towards grey
+const ELDER_GREYING = 0.6;
 // Minimum canvas dimensions to prevent rendering issues
 const MIN_CANVAS_WIDTH = 320;
 const MIN_CANVAS_HEIGHT = 240;
 
+/**
+ * Blend a 0xRRGGBB colour towards its own grey by `amount` (0-1).
+ */
+function fadeToGrey(color: number, amount: number): number {
+  const channels = [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+  const grey = (channels[0] + channels[1] + channels[2]) / 3;
+  const [r, g, b] = channels.map((channel) => Math.round(channel + (grey - channel) * amount));
+  return (r << 16) | (g << 8) | b;
+}
+
 /**
  * Calculate canvas dimensions based on container element
  * If containerElement is provided, use its dimensions
@@ -97,6 +115,8 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
   placateEffect,
   vomitEffect,
   insanityEffect,
+  stomachFullness = 0,
+  cosmetic = null,
 }, ref) {
   const canvasRef = useRef<HTMLDivElement>(null);
   
@@ -335,7 +355,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
       }
 
       // 2. Check cache for AI-generated art
-      const cached = loadCachedArt(petName, traits.archetype, stage);
+      const cached = await loadCachedArt(petName, traits.archetype, stage);
       if (cached) {
         updatePetSprite(cached);
         return;
@@ -351,7 +371,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
           petName
         );
         updatePetSprite(artUrl);
-        saveCachedArt(petName, traits.archetype, stage, artUrl);
+        void saveCachedArt(petName, traits.archetype, stage, artUrl);
       } catch (error) {
         logError(
           "Failed to generate pet art, falling back to shapes",
@@ -370,7 +390,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
   // Update pet graphics when props change
   useEffect(() => {
     updatePetGraphics();
-  }, [traits, stage, sanity, corruption, petArtUrl]);
+  }, [traits, stage, sanity, corruption, petArtUrl, stomachFullness]);
 
   const updatePetGraphics = async () => {
     const app = appRef.current;
@@ -451,6 +471,9 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
 
     petGraphics.clear();
 
+    // A full stomach visibly bloats the pet
+    petGraphics.scale.set(1 + BELLY_BLOAT * Math.min(1, stomachFullness), 1);
+
     // Get base size based on stage
     const baseSize = getStageSize(stage);
 
@@ -466,13 +489,16 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
       offsetY = (Math.random() - 0.5) * 20 * shakeIntensity;
     }
 
+    // An elder's colour has faded
+    const bodyColor = stage === "ELDER" ? fadeToGrey(traits.color, ELDER_GREYING) : traits.color;
+
     // Draw pet based on archetype
     switch (traits.archetype) {
       case "GLOOM":
         drawGloomPet(
           petGraphics,
           baseSize,
-          traits.color,
+          bodyColor,
           horrorActive,
           offsetX,
           offsetY
@@ -482,7 +508,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
         drawSparkPet(
           petGraphics,
           baseSize,
-          traits.color,
+          bodyColor,
           horrorActive,
           offsetX,
           offsetY
@@ -492,7 +518,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
         drawEchoPet(
           petGraphics,
           baseSize,
-          traits.color,
+          bodyColor,
           horrorActive,
           offsetX,
           offsetY
@@ -509,6 +535,8 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
         return 120;
       case "TEEN":
         return 160;
+      case "ELDER":
+        return 140;
       case "ABOMINATION":
         return 240;
       default:
@@ -723,6 +751,11 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
   return (
     <div className="game-canvas-wrapper">
       <div className="canvas-overlay">
+        {cosmetic && (
+          <span className="overlay-cosmetic" role="img" aria-label={`Wearing a ${cosmetic.name.toLowerCase()}`}>
+            {cosmetic.icon}
+          </span>
+        )}
         {/* Requirement 3.1: Animated pet name with character-by-character fade-in */}
         {/* Requirement 3.3: Glitch effect when sanity < 30 */}
         {/* Requirement 8.3: Disable React Bits animations in retro mode */}
@@ -746,7 +779,9 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
         role="img"
         aria-label={`${petName}, a ${
           traits.archetype
-        } pet at ${stage} stage. Sanity: ${sanity.toFixed(0)}%`}
+        } pet at ${stage} stage. Sanity: ${sanity.toFixed(0)}%. Stomach: ${Math.round(
+          stomachFullness * 100
+        )}% full`}
         aria-dropeffect={showDropIndicator ? "execute" : "none"}
         style={{
           width: canvasSize.width,
@@ -763,6 +798,17 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(function
           </div>
         )}
         
+        {/* Belly fullness: how much undigested food the pet is carrying */}
+        {stomachFullness > 0 && (
+          <div
+            className={`belly-indicator ${stomachFullness >= BELLY_FULL_THRESHOLD ? "belly-indicator--full" : ""}`}
+            style={{ "--belly-fullness": Math.min(1, stomachFullness) } as React.CSSProperties}
+            aria-hidden="true"
+          >
+            <div className="belly-indicator-fill" />
+          </div>
+        )}
+
         {/* Placate visual effect overlay (Requirements 7.1, 7.2, 7.3, 7.4) */}
         {placateEffect?.isActive && !reduceMotion && (
           <div 
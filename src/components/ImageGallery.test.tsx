@@ -63,8 +63,8 @@ describe("ImageGallery Integration", () => {
   ];
 
   const mockStoreState = {
-    getCompletedImages: vi.fn(() => mockImages),
-    getImagesByEventType: vi.fn((eventType: string) =>
+    getCompletedImages: vi.fn(async () => mockImages),
+    getImagesByEventType: vi.fn(async (eventType: string) =>
       mockImages.filter((img) => img.eventType === eventType)
     ),
     galleryFilter: "all" as const,
@@ -78,7 +78,7 @@ describe("ImageGallery Integration", () => {
     (useGameStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockStoreState);
   });
 
-  it("should display all images when gallery opens", () => {
+  it("should display all images when gallery opens", async () => {
     // Requirement 1.1: Display all completed images
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
@@ -86,7 +86,7 @@ describe("ImageGallery Integration", () => {
     expect(mockStoreState.getCompletedImages).toHaveBeenCalled();
     
     // Check for image elements (via alt text)
-    const images = screen.getAllByRole("listitem");
+    const images = await screen.findAllByRole("listitem");
     expect(images).toHaveLength(3);
   });
 
@@ -107,7 +107,7 @@ describe("ImageGallery Integration", () => {
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
     // Click first image
-    const images = screen.getAllByRole("listitem");
+    const images = await screen.findAllByRole("listitem");
     fireEvent.click(images[0]);
 
     // Verify modal opens
@@ -121,7 +121,7 @@ describe("ImageGallery Integration", () => {
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
     // Open modal with first image
-    const images = screen.getAllByRole("listitem");
+    const images = await screen.findAllByRole("listitem");
     fireEvent.click(images[0]);
 
     await waitFor(() => {
@@ -143,7 +143,7 @@ describe("ImageGallery Integration", () => {
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
     // Open modal
-    const images = screen.getAllByRole("listitem");
+    const images = await screen.findAllByRole("listitem");
     fireEvent.click(images[0]);
 
     await waitFor(() => {
@@ -164,7 +164,7 @@ describe("ImageGallery Integration", () => {
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
     // Open modal
-    const images = screen.getAllByRole("listitem");
+    const images = await screen.findAllByRole("listitem");
     fireEvent.click(images[0]);
 
     await waitFor(() => {
@@ -196,7 +196,7 @@ describe("ImageGallery Integration", () => {
     // Requirement 15.1: Empty state handling
     const emptyStoreState = {
       ...mockStoreState,
-      getCompletedImages: vi.fn(() => []),
+      getCompletedImages: vi.fn(async () => []),
     };
     (useGameStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue(emptyStoreState);
 
@@ -211,7 +211,7 @@ describe("ImageGallery Integration", () => {
     const filteredStoreState = {
       ...mockStoreState,
       galleryFilter: "haunt" as const,
-      getImagesByEventType: vi.fn(() => []),
+      getImagesByEventType: vi.fn(async () => []),
     };
     (useGameStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue(filteredStoreState);
 
@@ -225,7 +225,7 @@ describe("ImageGallery Integration", () => {
     // Requirement 15.1: Error handling with retry
     const errorStoreState = {
       ...mockStoreState,
-      getCompletedImages: vi.fn(() => {
+      getCompletedImages: vi.fn(async () => {
         throw new Error("Load failed");
       }),
     };
@@ -234,7 +234,7 @@ describe("ImageGallery Integration", () => {
     render(<ImageGallery isOpen={true} onClose={vi.fn()} />);
 
     // Verify error message and retry button
-    expect(screen.getByText(/failed to load images/i)).toBeInTheDocument();
+    expect(await screen.findByText(/failed to load images/i)).toBeInTheDocument();
     expect(screen.getByRole("button", { name: /retry loading images/i })).toBeInTheDocument();
   });
 });
@@ -58,25 +58,32 @@ export function ImageGallery({
   const [filteredImages, setFilteredImages] = useState<NarrativeLog[]>([]);
 
   useEffect(() => {
-    try {
-      setLoadError(null); // Clear any previous errors
-      let images: NarrativeLog[];
-      if (galleryFilter === "all") {
-        images = getCompletedImages();
-      } else {
-        images = getImagesByEventType(galleryFilter);
+    // Images include the pet's archived history, which loads asynchronously
+    let isCurrent = true;
+    const loadImages = async () => {
+      try {
+        const images = galleryFilter === "all"
+          ? await getCompletedImages()
+          : await getImagesByEventType(galleryFilter);
+        if (!isCurrent) return;
+        setLoadError(null); // Clear any previous errors
+        setFilteredImages(images);
+      } catch (error) {
+        if (!isCurrent) return;
+        // Requirement 15.1: Handle load failure gracefully
+        logError(
+          "Failed to load gallery images",
+          error instanceof Error ? error : new Error(String(error)),
+          { filter: galleryFilter }
+        );
+        setLoadError("Failed to load images. Please try again.");
+        setFilteredImages([]);
       }
-      setFilteredImages(images);
-    } catch (error) {
-      // Requirement 15.1: Handle load failure gracefully
-      logError(
-        "Failed to load gallery images",
-        error instanceof Error ? error : new Error(String(error)),
-        { filter: galleryFilter }
-      );
-      setLoadError("Failed to load images. Please try again.");
-      setFilteredImages([]);
-    }
+    };
+    void loadImages();
+    return () => {
+      isCurrent = false;
+    };
   }, [galleryFilter, getCompletedImages, getImagesByEventType]);
 
   // Handle filter change (Requirement 2.2)
@@ -6,12 +6,18 @@ import {
 import type { Offering } from "../utils/types";
 import { SortableItem } from './SortableItem';
 import { InventoryStack } from './InventoryStack';
+import { RitualAltar } from './RitualAltar';
+import { StashPanel } from './StashPanel';
+import { ExpeditionPanel } from './ExpeditionPanel';
 import { useGameStore } from '../store';
+import { getGameRules } from '../utils/gameRules';
+import { getInventoryCapacity } from '../utils/inventoryUtils';
 import "./InventoryPanel.css";
 
 interface InventoryPanelProps {
   inventory: Offering[];
   onFeed: (itemId: string) => void;
+  onAppraise?: (itemId: string) => void;
   canScavenge: boolean;
   onScavenge: () => void;
   isScavenging?: boolean;
@@ -25,6 +31,7 @@ interface InventoryPanelProps {
 export function InventoryPanel({
   inventory,
   onFeed,
+  onAppraise,
   canScavenge,
   onScavenge,
   isScavenging = false,
@@ -36,6 +43,12 @@ export function InventoryPanel({
   const [feedingItemId, setFeedingItemId] = useState<string | null>(null);
   const reduceMotion = useGameStore((state) => state.reduceMotion);
   const retroMode = useGameStore((state) => state.retroMode);
+  const placeOnAltar = useGameStore((state) => state.placeOnAltar);
+  const stashItem = useGameStore((state) => state.stashItem);
+  const isAway = useGameStore((state) => state.expedition !== null);
+  const maxInventory = useGameStore((state) =>
+    getInventoryCapacity(state.inventoryUpgrades, getGameRules(state.difficulty))
+  );
 
   // Wrap onFeed to trigger fade-out animation before actual feed
   const handleFeed = useCallback((itemId: string) => {
@@ -47,7 +60,6 @@ export function InventoryPanel({
     }, 250); // Slightly less than animation duration for smooth transition
   }, [onFeed]);
 
-  const maxInventory = 3;
   const currentCount = inventory.length;
 
   return (
@@ -68,6 +80,10 @@ export function InventoryPanel({
           <InventoryStack
             inventory={inventory}
             onFeed={onFeed}
+            onAppraise={onAppraise}
+            onPlaceOnAltar={placeOnAltar}
+            onStash={stashItem}
+            capacity={maxInventory}
             disableAnimation={reduceMotion || retroMode}
             petCanvasRef={petCanvasRef}
           />
@@ -101,6 +117,12 @@ export function InventoryPanel({
         </SortableContext>
       )}
 
+      <RitualAltar />
+
+      <StashPanel />
+
+      <ExpeditionPanel />
+
       <button
         className={`scavenge-button ${isScavenging ? 'is-scavenging' : ''}`}
         onClick={onScavenge}
@@ -110,10 +132,12 @@ export function InventoryPanel({
             ? "Scavenging for offerings..."
             : canScavenge
             ? "Scavenge for new offerings"
+            : isAway
+            ? "Cannot scavenge, away on an expedition"
             : "Cannot scavenge, inventory is full"
         }
       >
-        {isScavenging ? "Scavenging..." : canScavenge ? "Scavenge for Offerings" : "Inventory Full"}
+        {isScavenging ? "Scavenging..." : canScavenge ? "Scavenge for Offerings" : isAway ? "Away" : "Inventory Full"}
       </button>
     </div>
   );
@@ -11,6 +11,8 @@ import { Stack, type CardData } from './reactbits/Stack';
 import type { Offering } from '../utils/types';
 import { useTheme } from '../contexts/ThemeContext';
 import { logError } from '../utils/errorLogger';
+import { formatAppraisal } from '../utils/appraisal';
+import { getQuantity } from '../utils/inventoryUtils';
 import './InventoryStack.css';
 
 export interface InventoryStackProps {
@@ -18,6 +20,14 @@ export interface InventoryStackProps {
   inventory: Offering[];
   /** Callback when an item is fed to the pet */
   onFeed: (itemId: string) => void;
+  /** Callback when an item is appraised (no Appraise button without it) */
+  onAppraise?: (itemId: string) => void;
+  /** Callback when an item is put on the ritual altar (no Altar button without it) */
+  onPlaceOnAltar?: (itemId: string) => void;
+  /** Callback when an item is moved to the stash (no Stash button without it) */
+  onStash?: (itemId: string) => void;
+  /** Inventory slots available */
+  capacity: number;
   /** Callback when a card is clicked */
   onCardClick?: (itemId: string) => void;
   /** Whether to disable animations (reduce motion) */
@@ -35,6 +45,10 @@ export interface InventoryStackProps {
 export function InventoryStack({
   inventory,
   onFeed,
+  onAppraise,
+  onPlaceOnAltar,
+  onStash,
+  capacity,
   onCardClick,
   disableAnimation = false,
   className = '',
@@ -52,27 +66,73 @@ export function InventoryStack({
           className={`inventory-card-content ${mode}`}
           data-card-id={offering.id}
         >
+          <div className="inventory-card-appraisal">
+            {offering.appraisal ? formatAppraisal(offering.appraisal) : 'Not appraised'}
+          </div>
           <div className="inventory-card-icon" aria-hidden="true">
             {offering.icon}
           </div>
+          {getQuantity(offering) > 1 && (
+            <div className="inventory-card-quantity" aria-label={`${getQuantity(offering)} stacked`}>
+              ×{getQuantity(offering)}
+            </div>
+          )}
           <div className="inventory-card-title">Mystery Item</div>
           <div className="inventory-card-description">
             {offering.description}
           </div>
-          <button
-            className="inventory-card-feed-btn"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleFeedClick(offering.id);
-            }}
-            aria-label={`Feed ${offering.description} to pet`}
-          >
-            Feed
-          </button>
+          <div className="inventory-card-actions">
+            {onAppraise && (
+              <button
+                className="inventory-card-feed-btn inventory-card-appraise-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAppraise(offering.id);
+                }}
+                aria-label={`Appraise ${offering.description}`}
+              >
+                Appraise
+              </button>
+            )}
+            {onPlaceOnAltar && (
+              <button
+                className="inventory-card-feed-btn inventory-card-altar-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPlaceOnAltar(offering.id);
+                }}
+                aria-label={`Put ${offering.description} on the ritual altar`}
+              >
+                Altar
+              </button>
+            )}
+            {onStash && (
+              <button
+                className="inventory-card-feed-btn inventory-card-stash-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onStash(offering.id);
+                }}
+                aria-label={`Move ${offering.description} to the stash`}
+              >
+                Stash
+              </button>
+            )}
+            <button
+              className="inventory-card-feed-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleFeedClick(offering.id);
+              }}
+              aria-label={`Feed ${offering.description} to pet`}
+            >
+              Feed
+            </button>
+          </div>
         </div>
       ),
     }));
-  }, [inventory, mode]);
+  }, [inventory, mode, onAppraise, onPlaceOnAltar, onStash]);
 
   // Animate card flying to pet canvas on feed
   const animateFeedToCanvas = useCallback((cardElement: HTMLElement | null) => {
@@ -165,7 +225,7 @@ export function InventoryStack({
         className="inventory-stack"
       />
       <div className="inventory-stack-count" aria-live="polite">
-        {inventory.length}/3
+        {inventory.length}/{capacity}
       </div>
     </div>
   );
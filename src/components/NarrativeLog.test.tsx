@@ -0,0 +1,104 @@
+/**
+ * NarrativeLog Component Tests
+ *
+ * Tests for windowed rendering, keyboard navigation between entries and
+ * the search and filter toolbar.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { NarrativeLog } from "./NarrativeLog";
+import { ThemeProvider } from "../contexts/ThemeContext";
+import { useGameStore } from "../store";
+import { EMPTY_LOG_FILTERS } from "../utils/logFilters";
+import type { NarrativeLog as NarrativeLogType } from "../utils/types";
+
+// Mock window.matchMedia
+beforeAll(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+const createLogs = (count: number): NarrativeLogType[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `log-${i}`,
+    text: `Entry ${i}`,
+    source: "SYSTEM",
+    timestamp: i,
+  }));
+
+const renderLog = (logs: NarrativeLogType[]) =>
+  render(
+    <ThemeProvider>
+      <NarrativeLog logs={logs} sanityLevel={80} />
+    </ThemeProvider>
+  );
+
+describe("NarrativeLog", () => {
+  beforeEach(() => {
+    useGameStore.setState({ logFilters: EMPTY_LOG_FILTERS, archivedLogCount: 0 });
+  });
+
+  it("mounts only the entries around the viewport", () => {
+    renderLog(createLogs(500));
+
+    const entries = screen.getAllByRole("article");
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.length).toBeLessThan(50);
+    expect(entries[0]).toHaveAttribute("aria-posinset", "1");
+    expect(entries[0]).toHaveAttribute("aria-setsize", "500");
+  });
+
+  it("moves focus between entries with the arrow keys", () => {
+    renderLog(createLogs(20));
+
+    const [first] = screen.getAllByRole("article");
+    first.focus();
+
+    fireEvent.keyDown(first, { key: "ArrowDown" });
+    expect(screen.getByText("Entry 1").closest("[role='article']")).toHaveFocus();
+
+    fireEvent.keyDown(document.activeElement!, { key: "Home" });
+    expect(first).toHaveFocus();
+
+    // Nothing before the first entry
+    fireEvent.keyDown(first, { key: "ArrowUp" });
+    expect(first).toHaveFocus();
+  });
+
+  it("filters entries and highlights search matches", async () => {
+    const logs = createLogs(5).map((log, i) => ({
+      ...log,
+      text: i === 3 ? "A shadow moves behind the Shadow" : log.text,
+      source: i % 2 === 0 ? ("PET" as const) : ("SYSTEM" as const),
+    }));
+    renderLog(logs);
+
+    fireEvent.change(screen.getByLabelText("Search the narrative log"), { target: { value: "shadow" } });
+
+    expect(await screen.findByText("1 matching entry")).toBeInTheDocument();
+    const entries = screen.getAllByRole("article");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].querySelectorAll("mark")).toHaveLength(2);
+
+    fireEvent.change(screen.getByLabelText("Search the narrative log"), { target: { value: "" } });
+    fireEvent.click(screen.getByRole("button", { name: "Filters" }));
+    fireEvent.click(screen.getByRole("button", { name: "Pet" }));
+
+    expect(await screen.findByText("3 matching entries")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Clear" }));
+    expect(screen.getAllByRole("article")).toHaveLength(5);
+  });
+});
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState, useCallback } from "react";
 import type { NarrativeLog as NarrativeLogType, StatDelta } from "../utils/types";
 import { FadeIn } from "./animations/FadeIn";
 import { SplitText } from "./reactbits/SplitText";
@@ -9,6 +9,18 @@ import { ReactionButtons } from "./ReactionButtons";
 import { StatChangeIndicator } from "./StatChangeIndicator";
 import { ProgressIndicator } from "./ProgressIndicator";
 import { DialogueChoices } from "./DialogueChoices";
+import { StoredImage } from "./StoredImage";
+import { NarrativeLogArchive } from "./NarrativeLogArchive";
+import { NarrativeLogToolbar } from "./NarrativeLogToolbar";
+import { hasLogImage } from "../utils/imageStore";
+import { readArchivedLogs } from "../utils/logJournal";
+import { hasActiveLogFilters, matchesLogFilters, splitSearchMatches } from "../utils/logFilters";
+import {
+  ESTIMATED_LOG_HEIGHT,
+  FALLBACK_VIEWPORT_HEIGHT,
+  getLogOffsets,
+  getLogWindow,
+} from "../utils/logWindow";
 import "./NarrativeLog.css";
 
 interface NarrativeLogProps {
@@ -18,10 +30,10 @@ interface NarrativeLogProps {
 
 // Image modal component for viewing generated images
 function ImageModal({ 
-  imageUrl, 
+  log, 
   onClose 
 }: { 
-  imageUrl: string; 
+  log: NarrativeLogType; 
   onClose: () => void;
 }) {
   // Close on escape key
@@ -42,7 +54,7 @@ function ImageModal({
       aria-label="Generated narrative image"
     >
       <div className="image-modal-content" onClick={(e) => e.stopPropagation()}>
-        <img src={imageUrl} alt="Generated narrative scene" />
+        <StoredImage log={log} alt="Generated narrative scene" />
         <button 
           className="image-modal-close" 
           onClick={onClose}
@@ -67,6 +79,12 @@ const STAGGER_DELAY_MS = 150;
 // Animation duration for FadeIn (used to calculate scroll timing)
 const FADE_IN_DURATION_MS = 400;
 
+// Archived entries of a pet that has none
+const NO_LOGS: NarrativeLogType[] = [];
+
+// Distance from the bottom that still counts as following new entries
+const STICK_TO_BOTTOM_THRESHOLD_PX = 24;
+
 export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
   // Track which log IDs have been seen (for animating only new entries)
   const [seenLogIds, setSeenLogIds] = useState<Set<string>>(new Set());
@@ -79,6 +97,17 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
   
   // Ref for the log container to enable auto-scroll
   const containerRef = useRef<HTMLDivElement>(null);
+
+  // Windowed rendering: only entries near the viewport are mounted
+  const listRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [rowHeights, setRowHeights] = useState<Map<string, number>>(new Map());
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+  const scrollFrameRef = useRef<number | null>(null);
+  const pendingFocusIndexRef = useRef<number | null>(null);
+
+  // Whether the reader is following the newest entries
+  const isAtBottomRef = useRef(true);
   
   // Track if this is the initial render (don't animate existing entries)
   const isInitialRenderRef = useRef(true);
@@ -90,7 +119,18 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
   const generateLogImage = useGameStore((state) => state.generateLogImage);
   const currentPetSpriteUrl = useGameStore((state) => state.currentPetSpriteUrl);
   const autoGenerateImages = useGameStore((state) => state.autoGenerateImages);
-  const [selectedImageUrl, setSelectedImageUrl] = useState<string | null>(null);
+  const [selectedImageLog, setSelectedImageLog] = useState<NarrativeLogType | null>(null);
+  const petId = useGameStore((state) => state.petId);
+  const archivedLogCount = useGameStore((state) => state.archivedLogCount);
+
+  // Toolbar filters and search (see NarrativeLogToolbar)
+  const logFilters = useGameStore((state) => state.logFilters);
+  const isFiltering = hasActiveLogFilters(logFilters);
+  const [archivedHistory, setArchivedHistory] = useState<{
+    petId: string;
+    count: number;
+    logs: NarrativeLogType[];
+  } | null>(null);
 
   // Dialogue choice state
   const selectDialogueChoice = useGameStore((state) => state.selectDialogueChoice);
@@ -112,8 +152,8 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
   // Handle log click for image generation
   const handleLogClick = useCallback((log: NarrativeLogType) => {
     // If image already exists, show it in modal
-    if (log.imageStatus === "completed" && log.imageUrl) {
-      setSelectedImageUrl(log.imageUrl);
+    if (hasLogImage(log)) {
+      setSelectedImageLog(log);
       return;
     }
 
@@ -196,9 +236,10 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
 
   const sanityClass = getSanityClass();
 
-  // Auto-scroll to newest entry after animation completes (Requirements 4.3)
+  // Auto-scroll to newest entry after animation completes (Requirements 4.3),
+  // unless the reader has scrolled back through the log
   const scrollToBottom = useCallback(() => {
-    if (containerRef.current) {
+    if (containerRef.current && isAtBottomRef.current) {
       containerRef.current.scrollTo({
         top: containerRef.current.scrollHeight,
         behavior: "smooth",
@@ -206,6 +247,178 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
     }
   }, []);
 
+  // Read the scroll position relative to the list (the archive sits above it)
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    isAtBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <= STICK_TO_BOTTOM_THRESHOLD_PX;
+    const scrollTop = container.scrollTop - (listRef.current?.offsetTop ?? 0);
+    const height = container.clientHeight;
+    setViewport((prev) =>
+      prev.scrollTop === scrollTop && prev.height === height ? prev : { scrollTop, height }
+    );
+  }, []);
+
+  const handleScroll = useCallback(() => {
+    if (scrollFrameRef.current !== null) {
+      return;
+    }
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      updateViewport();
+    });
+  }, [updateViewport]);
+
+  // Track the log's visible height
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === "undefined") {
+      return;
+    }
+
+    const observer = new ResizeObserver(() => updateViewport());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [updateViewport]);
+
+  // Measure mounted entries; images and choices change their height later
+  const handleRowResize = useCallback((entries: ResizeObserverEntry[]) => {
+    setRowHeights((prev) => {
+      let next = prev;
+      entries.forEach((entry) => {
+        const logId = (entry.target as HTMLElement).dataset.logId;
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        if (logId && height > 0 && prev.get(logId) !== height) {
+          if (next === prev) next = new Map(prev);
+          next.set(logId, height);
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const measureRow = useCallback((row: HTMLDivElement | null) => {
+    if (!row || typeof ResizeObserver === "undefined") {
+      return;
+    }
+    rowObserverRef.current ??= new ResizeObserver(handleRowResize);
+    const observer = rowObserverRef.current;
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, [handleRowResize]);
+
+  // Filters and search cover the archived entries too
+  useEffect(() => {
+    if (!isFiltering || archivedLogCount === 0) {
+      return;
+    }
+    if (archivedHistory?.petId === petId && archivedHistory.count === archivedLogCount) {
+      return;
+    }
+
+    let isCurrent = true;
+    void readArchivedLogs(petId, 0, archivedLogCount).then((archived) => {
+      if (isCurrent) setArchivedHistory({ petId, count: archivedLogCount, logs: archived });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isFiltering, petId, archivedLogCount, archivedHistory]);
+
+  const archivedLogs =
+    archivedLogCount === 0
+      ? NO_LOGS
+      : archivedHistory?.petId === petId && archivedHistory.count === archivedLogCount
+        ? archivedHistory.logs
+        : null;
+
+  // Entries in the list: the recent log, or every match while filtering
+  const visibleLogs = useMemo(
+    () =>
+      isFiltering
+        ? [...(archivedLogs ?? []), ...logs].filter((log) => matchesLogFilters(log, logFilters))
+        : logs,
+    [isFiltering, archivedLogs, logs, logFilters]
+  );
+  const matchCount = isFiltering && archivedLogs !== null ? visibleLogs.length : null;
+
+  // Position of each entry in the recent log (archived entries have none)
+  const logIndexById = useMemo(() => new Map(logs.map((log, index) => [log.id, index])), [logs]);
+
+  const logOffsets = useMemo(
+    () => getLogOffsets(visibleLogs.map((log) => rowHeights.get(log.id) ?? ESTIMATED_LOG_HEIGHT)),
+    [visibleLogs, rowHeights]
+  );
+  const logWindow = getLogWindow(
+    logOffsets,
+    viewport.scrollTop,
+    viewport.height || FALLBACK_VIEWPORT_HEIGHT
+  );
+
+  // Keep following the newest entries as they arrive and get measured
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && isAtBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [visibleLogs, rowHeights]);
+
+  // Focus an entry that had to be scrolled into the window first
+  useLayoutEffect(() => {
+    const index = pendingFocusIndexRef.current;
+    if (index === null) {
+      return;
+    }
+    const entry = listRef.current?.querySelector<HTMLElement>(`[data-log-index="${index}"]`);
+    if (entry) {
+      pendingFocusIndexRef.current = null;
+      entry.focus();
+    }
+  });
+
+  const focusEntry = (index: number) => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) {
+      return;
+    }
+
+    const entry = list.querySelector<HTMLElement>(`[data-log-index="${index}"]`);
+    if (entry) {
+      entry.focus();
+      return;
+    }
+    pendingFocusIndexRef.current = index;
+    container.scrollTop = list.offsetTop + logOffsets[index];
+  };
+
+  // Arrow keys move between entries, Home/End jump to the oldest/newest.
+  // Keys on the container itself scroll it as usual.
+  const handleLogKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = (e.target as HTMLElement).dataset.logIndex;
+    if (current === undefined) {
+      return;
+    }
+
+    const index = Number(current);
+    const targets: Record<string, number> = {
+      ArrowDown: index + 1,
+      ArrowUp: index - 1,
+      Home: 0,
+      End: visibleLogs.length - 1,
+    };
+    const next = targets[e.key];
+    if (next === undefined || next < 0 || next >= visibleLogs.length) {
+      return;
+    }
+    e.preventDefault();
+    focusEntry(next);
+  };
+
   // Handle new log entries - track seen IDs and batch info
   useEffect(() => {
     const currentLogCount = logs.length;
@@ -271,7 +484,8 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
         log.autoGenerateImage && 
         !log.isPending && 
         !log.imageStatus && 
-        !log.imageUrl
+        !log.imageUrl &&
+        !log.imageId
       ) {
         // Trigger image generation
         generateLogImage(log.id);
@@ -336,18 +550,29 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
     });
   }, [logs, petName, archetype, stage, stats.sanity, stats.corruption]);
 
-  // Calculate stagger delay for a log entry based on its position in the batch
-  const getStaggerDelay = (index: number): number => {
-    if (batchStartIndexRef.current === null) return 0;
-    const positionInBatch = index - batchStartIndexRef.current;
-    return positionInBatch * STAGGER_DELAY_MS;
-  };
-
   // Check if a log entry is new (should be animated)
   const isNewEntry = (logId: string): boolean => {
     return !seenLogIds.has(logId);
   };
 
+  const windowLogs = visibleLogs.slice(logWindow.start, logWindow.end);
+
+  // Calculate stagger delay for a log entry based on its position among
+  // the batch's entries that are mounted
+  const mountedNewIds = windowLogs.filter((log) => isNewEntry(log.id)).map((log) => log.id);
+  const getStaggerDelay = (logId: string): number => {
+    if (batchStartIndexRef.current === null) return 0;
+    return mountedNewIds.indexOf(logId) * STAGGER_DELAY_MS;
+  };
+
+  // Show search matches highlighted in static entry text
+  const renderHighlighted = (text: string) =>
+    logFilters.query.trim() === ""
+      ? text
+      : splitSearchMatches(text, logFilters.query).map((part, i) =>
+          part.isMatch ? <mark key={i} className="log-highlight">{part.text}</mark> : part.text
+        );
+
   // Check if this is the last entry in the current batch (for auto-scroll trigger)
   const isLastInBatch = (index: number): boolean => {
     return index === logs.length - 1 && batchStartIndexRef.current !== null;
@@ -361,6 +586,7 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
       aria-label="Narrative log"
     >
       <div className="log-header">Narrative Log</div>
+      <NarrativeLogToolbar matchCount={matchCount} />
       <div
         ref={containerRef}
         className="log-container"
@@ -369,165 +595,194 @@ export function NarrativeLog({ logs, sanityLevel }: NarrativeLogProps) {
         aria-atomic="false"
         tabIndex={0}
         aria-label="Scrollable narrative log of game events"
+        onScroll={handleScroll}
+        onKeyDown={handleLogKeyDown}
       >
-        {logs.length === 0 ? (
+        {!isFiltering && (
+          <NarrativeLogArchive
+            key={petId}
+            petId={petId}
+            archivedLogCount={archivedLogCount}
+            onViewImage={setSelectedImageLog}
+          />
+        )}
+        {visibleLogs.length === 0 ? (
           <div className="log-empty" role="status">
-            No events yet...
+            {isFiltering ? "No matching entries..." : "No events yet..."}
           </div>
         ) : (
-          logs.map((log, index) => {
-            const isNew = isNewEntry(log.id);
-            const staggerDelay = isNew ? getStaggerDelay(index) : 0;
-            const isPending = log.isPending ?? false;
+          <div
+            ref={listRef}
+            className="log-list"
+            style={{ paddingTop: logWindow.paddingTop, paddingBottom: logWindow.paddingBottom }}
+          >
+            {windowLogs.map((log, windowIndex) => {
+              const index = logWindow.start + windowIndex;
+              const logIndex = logIndexById.get(log.id) ?? -1;
+              const isArchived = logIndex === -1;
+              const isNew = isNewEntry(log.id);
+              const staggerDelay = isNew ? getStaggerDelay(log.id) : 0;
+              const isPending = log.isPending ?? false;
             
-            // Build class names for the entry
-            const entryClassName = `log-entry log-${log.source.toLowerCase()}${isPending ? " log-pending" : ""}`;
-
-            // Determine if log can be reacted to (Requirement 1.1)
-            // Last 5 entries, not pending, not system logs
-            const canReact = index >= logs.length - 5 && 
-                            !isPending && 
-                            log.source !== "SYSTEM";
-
-            // Render text content - use SplitText for newly resolved AI text
-            const renderLogText = () => {
-              // If pending, show shimmer placeholder
-              if (isPending) {
-                return <span className="log-text log-text-shimmer">{log.text}</span>;
-              }
+              // Build class names for the entry
+              const entryClassName = `log-entry log-${log.source.toLowerCase()}${isPending ? " log-pending" : ""}`;
+
+              // Determine if log can be reacted to (Requirement 1.1)
+              // Last 5 entries, not pending, not system logs
+              const canReact = !isArchived &&
+                              logIndex >= logs.length - 5 && 
+                              !isPending && 
+                              log.source !== "SYSTEM";
+
+              // Render text content - use SplitText for newly resolved AI text
+              const renderLogText = () => {
+                // If pending, show shimmer placeholder
+                if (isPending) {
+                  return <span className="log-text log-text-shimmer">{log.text}</span>;
+                }
               
-              // If this is a new entry that just resolved (was pending), use typing animation
-              if (isNew && !isPending) {
-                return (
-                  <span className="log-text">
-                    <SplitText
-                      text={log.text}
-                      splitType="chars"
-                      staggerDelay={20}
-                      duration={0.3}
-                      from={{ opacity: 0, y: 5 }}
-                      to={{ opacity: 1, y: 0 }}
-                      onComplete={isLastInBatch(index) ? scrollToBottom : undefined}
-                    />
-                  </span>
-                );
-              }
+                // If this is a new entry that just resolved (was pending), use typing animation
+                if (isNew && !isPending) {
+                  return (
+                    <span className="log-text">
+                      <SplitText
+                        text={log.text}
+                        splitType="chars"
+                        staggerDelay={20}
+                        duration={0.3}
+                        from={{ opacity: 0, y: 5 }}
+                        to={{ opacity: 1, y: 0 }}
+                        onComplete={isLastInBatch(logIndex) ? scrollToBottom : undefined}
+                      />
+                    </span>
+                  );
+                }
               
-              // Default: static text
-              return <span className="log-text">{log.text}</span>;
-            };
-
-            // Determine if log is clickable (has pet sprite available)
-            const isClickable = !isPending && currentPetSpriteUrl;
-            const isGenerating = log.imageStatus === "generating";
-            const hasImage = log.imageStatus === "completed" && log.imageUrl;
-            const hasFailed = log.imageStatus === "failed";
-
-            const entryContent = (
-              <div
-                key={log.id}
-                className={`${entryClassName}${isClickable ? " log-clickable" : ""}${isGenerating ? " log-image-generating" : ""}${hasImage ? " log-has-image" : ""}${hasFailed ? " log-image-failed" : ""}`}
-                role="article"
-                onClick={isClickable ? () => handleLogClick(log) : undefined}
-                onKeyDown={isClickable ? (e) => {
-                  if (e.key === "Enter" || e.key === " ") {
-                    e.preventDefault();
-                    handleLogClick(log);
-                  }
-                } : undefined}
-                tabIndex={isClickable ? 0 : undefined}
-                aria-label={isClickable ? `${log.text}. Click to ${hasImage ? "view" : "generate"} image.` : undefined}
-              >
-                <div className="log-entry-header">
-                  <span className="log-timestamp">
-                    [{formatAge(log.timestamp)}]
-                  </span>
-                  {/* Image status indicators */}
-                  {isGenerating && (
-                    <span className="log-image-status generating" aria-label="Generating image">
-                      <span className="spinner" />
+                // Default: static text
+                return <span className="log-text">{renderHighlighted(log.text)}</span>;
+              };
+
+              // Determine if log is clickable (has pet sprite available);
+              // archived entries can only show the image they have
+              const isGenerating = log.imageStatus === "generating";
+              const hasImage = hasLogImage(log);
+              const isClickable = !isPending && currentPetSpriteUrl && (!isArchived || hasImage);
+              const hasFailed = log.imageStatus === "failed";
+
+              const entryContent = (
+                <div
+                  key={log.id}
+                  className={`${entryClassName}${isClickable ? " log-clickable" : ""}${isGenerating ? " log-image-generating" : ""}${hasImage ? " log-has-image" : ""}${hasFailed ? " log-image-failed" : ""}`}
+                  role="article"
+                  data-log-index={index}
+                  aria-posinset={isFiltering ? index + 1 : archivedLogCount + index + 1}
+                  aria-setsize={isFiltering ? visibleLogs.length : archivedLogCount + logs.length}
+                  onClick={isClickable ? () => handleLogClick(log) : undefined}
+                  onKeyDown={isClickable ? (e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      handleLogClick(log);
+                    }
+                  } : undefined}
+                  tabIndex={isClickable ? 0 : -1}
+                  aria-label={isClickable ? `${log.text}. Click to ${hasImage ? "view" : "generate"} image.` : undefined}
+                >
+                  <div className="log-entry-header">
+                    <span className="log-timestamp">
+                      [{formatAge(log.timestamp)}]
                     </span>
+                    {/* Image status indicators */}
+                    {isGenerating && (
+                      <span className="log-image-status generating" aria-label="Generating image">
+                        <span className="spinner" />
+                      </span>
+                    )}
+                    {hasImage && (
+                      <span className="log-image-status completed" aria-label="Image available">
+                        🖼️
+                      </span>
+                    )}
+                    {hasFailed && (
+                      <span className="log-image-status failed" aria-label="Image generation failed. Click to retry.">
+                        ⚠️
+                      </span>
+                    )}
+                  </div>
+                  {renderLogText()}
+                  {/* Progress indicator for generating images (Requirements 4.1, 4.6, 4.7) */}
+                  {log.generationProgress && (
+                    <ProgressIndicator
+                      progress={log.generationProgress}
+                      status={log.imageStatus || "generating"}
+                    />
                   )}
+                  {/* Inline image preview */}
                   {hasImage && (
-                    <span className="log-image-status completed" aria-label="Image available">
-                      🖼️
-                    </span>
+                    <div className="log-image-preview">
+                      <StoredImage 
+                        log={log} 
+                        alt="Generated scene" 
+                        loading="lazy"
+                      />
+                    </div>
                   )}
-                  {hasFailed && (
-                    <span className="log-image-status failed" aria-label="Image generation failed. Click to retry.">
-                      ⚠️
-                    </span>
+                  {/* Dialogue choices for eligible entries (Requirements 6.1, 6.2) */}
+                  {!isArchived && log.dialogueChoice && !log.dialogueChoice.selectedChoiceId && !isPending && (
+                    <DialogueChoices
+                      choices={log.dialogueChoice.choices}
+                      onSelect={(choiceId, statDelta) => {
+                        selectDialogueChoice(log.id, choiceId, statDelta);
+                        // Also trigger stat change animation
+                        handleReactionApplied(log.id, statDelta);
+                      }}
+                      timeoutSeconds={60}
+                    />
                   )}
-                </div>
-                {renderLogText()}
-                {/* Progress indicator for generating images (Requirements 4.1, 4.6, 4.7) */}
-                {log.generationProgress && (
-                  <ProgressIndicator
-                    progress={log.generationProgress}
-                    status={log.imageStatus || "generating"}
-                  />
-                )}
-                {/* Inline image preview */}
-                {hasImage && log.imageUrl && (
-                  <div className="log-image-preview">
-                    <img 
-                      src={log.imageUrl} 
-                      alt="Generated scene" 
-                      loading="lazy"
+                  {/* Reaction buttons for eligible entries (Requirements 1.1, 1.3, 1.4) */}
+                  {canReact && !log.dialogueChoice && (
+                    <ReactionButtons 
+                      log={log}
+                      onReactionApplied={(statDelta) => handleReactionApplied(log.id, statDelta)}
                     />
-                  </div>
-                )}
-                {/* Dialogue choices for eligible entries (Requirements 6.1, 6.2) */}
-                {log.dialogueChoice && !log.dialogueChoice.selectedChoiceId && !isPending && (
-                  <DialogueChoices
-                    choices={log.dialogueChoice.choices}
-                    onSelect={(choiceId, statDelta) => {
-                      selectDialogueChoice(log.id, choiceId, statDelta);
-                      // Also trigger stat change animation
-                      handleReactionApplied(log.id, statDelta);
-                    }}
-                    timeoutSeconds={60}
-                  />
-                )}
-                {/* Reaction buttons for eligible entries (Requirements 1.1, 1.3, 1.4) */}
-                {canReact && !log.dialogueChoice && (
-                  <ReactionButtons 
-                    log={log}
-                    onReactionApplied={(statDelta) => handleReactionApplied(log.id, statDelta)}
-                  />
-                )}
-              </div>
-            );
-
-            // Only wrap new entries in FadeIn animation (Requirements 4.1, 4.5)
-            if (isNew) {
-              // Auto-scroll handled by SplitText onComplete for typing animation
-              const handleAnimationComplete = isPending || isLastInBatch(index) ? scrollToBottom : undefined;
+                  )}
+                </div>
+              );
+
+              // Only wrap new entries in FadeIn animation (Requirements 4.1, 4.5).
+              // New entries mounted here are the ones entering the viewport.
+              let row = entryContent;
+              if (isNew) {
+                // Auto-scroll handled by SplitText onComplete for typing animation
+                const handleAnimationComplete = isPending || isLastInBatch(logIndex) ? scrollToBottom : undefined;
               
+                row = (
+                  <FadeIn
+                    key={log.id}
+                    duration={FADE_IN_DURATION_MS}
+                    delay={staggerDelay}
+                    blur={true}
+                    className={isSanityCritical ? "fade-in-glitch" : ""}
+                    onComplete={handleAnimationComplete}
+                  >
+                    {entryContent}
+                  </FadeIn>
+                );
+              }
+
               return (
-                <FadeIn
-                  key={log.id}
-                  duration={FADE_IN_DURATION_MS}
-                  delay={staggerDelay}
-                  blur={true}
-                  className={isSanityCritical ? "fade-in-glitch" : ""}
-                  onComplete={handleAnimationComplete}
-                >
-                  {entryContent}
-                </FadeIn>
+                <div key={log.id} ref={measureRow} className="log-row" data-log-id={log.id}>
+                  {row}
+                </div>
               );
-            }
-
-            // Existing entries render without animation
-            return entryContent;
-          })
+            })}
+          </div>
         )}
       </div>
       {/* Image modal for viewing generated images */}
-      {selectedImageUrl && (
+      {selectedImageLog && (
         <ImageModal 
-          imageUrl={selectedImageUrl} 
-          onClose={() => setSelectedImageUrl(null)} 
+          log={selectedImageLog} 
+          onClose={() => setSelectedImageLog(null)} 
         />
       )}
       {/* Aria-live region for screen reader announcements (Requirement 9.4) */}
@@ -0,0 +1,135 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { NarrativeLog } from "../utils/types";
+import { ARCHIVE_PAGE_SIZE, readArchivedLogs } from "../utils/logJournal";
+import { hasLogImage } from "../utils/imageStore";
+
+interface NarrativeLogArchiveProps {
+  petId: string;
+  archivedLogCount: number;
+  onViewImage: (log: NarrativeLog) => void;
+}
+
+interface ArchivePages {
+  start: number; // First loaded archive entry
+  end: number; // One past the last loaded archive entry
+  logs: NarrativeLog[];
+}
+
+// Format age for display
+const formatAge = (ageInMinutes: number): string => {
+  const hours = Math.floor(ageInMinutes / 60);
+  const minutes = Math.floor(ageInMinutes % 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+/**
+ * NarrativeLogArchive Component
+ *
+ * Earlier entries of the pet's life, paged in from its log journal above
+ * the recent entries. Once a page is open, entries archived from the live
+ * log are appended here so they stay in view.
+ */
+export function NarrativeLogArchive({ petId, archivedLogCount, onViewImage }: NarrativeLogArchiveProps) {
+  const [pages, setPages] = useState<ArchivePages | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollHeightRef = useRef<number | null>(null);
+
+  const firstLoaded = pages?.start ?? archivedLogCount;
+
+  const loadEarlier = async () => {
+    const end = firstLoaded;
+    const start = Math.max(0, end - ARCHIVE_PAGE_SIZE);
+    setIsLoading(true);
+    const earlier = await readArchivedLogs(petId, start, end);
+
+    // Keep the reader's place when entries appear above it
+    scrollHeightRef.current = rootRef.current?.parentElement?.scrollHeight ?? null;
+    setPages((prev) => ({
+      start,
+      end: prev?.end ?? end,
+      logs: [...earlier, ...(prev?.logs ?? [])],
+    }));
+    setIsLoading(false);
+  };
+
+  useLayoutEffect(() => {
+    const container = rootRef.current?.parentElement;
+    if (container && scrollHeightRef.current !== null) {
+      container.scrollTop += container.scrollHeight - scrollHeightRef.current;
+      scrollHeightRef.current = null;
+    }
+  }, [pages?.start]);
+
+  // Entries archived while pages are open move here from the live log
+  useEffect(() => {
+    if (!pages || archivedLogCount <= pages.end) {
+      return;
+    }
+
+    let isCurrent = true;
+    const end = pages.end;
+    void readArchivedLogs(petId, end, archivedLogCount).then((moved) => {
+      if (!isCurrent) return;
+      setPages((prev) =>
+        prev && prev.end === end
+          ? { ...prev, end: archivedLogCount, logs: [...prev.logs, ...moved] }
+          : prev
+      );
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [petId, archivedLogCount, pages]);
+
+  if (archivedLogCount === 0) {
+    return null;
+  }
+
+  return (
+    <div ref={rootRef} className="log-archive">
+      {firstLoaded > 0 && (
+        <button
+          type="button"
+          className="log-archive-load"
+          onClick={loadEarlier}
+          disabled={isLoading}
+        >
+          {isLoading ? "Unearthing..." : `Load earlier entries (${firstLoaded} more)`}
+        </button>
+      )}
+      {pages?.logs.map((log) => {
+        const hasImage = hasLogImage(log);
+        return (
+          <div
+            key={log.id}
+            className={`log-entry log-${log.source.toLowerCase()} log-archived${hasImage ? " log-clickable log-has-image" : ""}`}
+            role="article"
+            onClick={hasImage ? () => onViewImage(log) : undefined}
+            onKeyDown={hasImage ? (e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                onViewImage(log);
+              }
+            } : undefined}
+            tabIndex={hasImage ? 0 : undefined}
+            aria-label={hasImage ? `${log.text}. Click to view image.` : undefined}
+          >
+            <div className="log-entry-header">
+              <span className="log-timestamp">[{formatAge(log.timestamp)}]</span>
+              {hasImage && (
+                <span className="log-image-status completed" aria-label="Image available">
+                  🖼️
+                </span>
+              )}
+            </div>
+            <span className="log-text">{log.text}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
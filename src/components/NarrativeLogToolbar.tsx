@@ -0,0 +1,174 @@
+import { useState } from "react";
+import type { EventType, LogSource } from "../utils/types";
+import { useGameStore } from "../store";
+import { EMPTY_LOG_FILTERS, hasActiveLogFilters } from "../utils/logFilters";
+import { createJournalMarkdown, getJournalFileName } from "../utils/journalExport";
+import { logError } from "../utils/errorLogger";
+import "./NarrativeLogToolbar.css";
+
+interface NarrativeLogToolbarProps {
+  matchCount: number | null; // Entries shown while filtering, null while loading
+}
+
+const EVENT_TYPE_FILTERS: Array<{ value: EventType; label: string }> = [
+  { value: "feed", label: "Feed" },
+  { value: "evolution", label: "Evolution" },
+  { value: "placate", label: "Placate" },
+  { value: "vomit", label: "Vomit" },
+  { value: "insanity", label: "Insanity" },
+  { value: "haunt", label: "Haunt" },
+  { value: "expedition", label: "Expedition" },
+  { value: "death", label: "Death" },
+];
+
+const SOURCE_FILTERS: Array<{ value: LogSource; label: string }> = [
+  { value: "SYSTEM", label: "System" },
+  { value: "PET", label: "Pet" },
+];
+
+// Add or remove a value from a multi-select filter
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const parseDay = (value: string): number | null => {
+  const day = parseInt(value, 10);
+  return Number.isFinite(day) && day >= 1 ? day : null;
+};
+
+/**
+ * NarrativeLogToolbar Component
+ *
+ * Search, filters (event type, source, game days) and journal export above
+ * the narrative log.
+ */
+export function NarrativeLogToolbar({ matchCount }: NarrativeLogToolbarProps) {
+  const filters = useGameStore((state) => state.logFilters);
+  const setLogFilters = useGameStore((state) => state.setLogFilters);
+  const [showFilters, setShowFilters] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const isFiltering = hasActiveLogFilters(filters);
+
+  /**
+   * Download the pet's whole log as a Markdown journal
+   */
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const state = useGameStore.getState();
+      const markdown = createJournalMarkdown(
+        { name: state.traits.name, archetype: state.traits.archetype, stage: state.stage },
+        await state.getLogHistory()
+      );
+      const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getJournalFileName(state.traits.name);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      logError("Failed to export journal", error instanceof Error ? error : undefined);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="log-toolbar">
+      <div className="log-toolbar-row">
+        <input
+          type="search"
+          className="log-toolbar-search"
+          value={filters.query}
+          onChange={(e) => setLogFilters({ query: e.target.value })}
+          placeholder="Search the log..."
+          aria-label="Search the narrative log"
+        />
+        <button
+          type="button"
+          className={`log-toolbar-button ${showFilters || isFiltering ? "active" : ""}`}
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+          aria-controls="log-toolbar-filters"
+        >
+          Filters
+        </button>
+        <button
+          type="button"
+          className="log-toolbar-button"
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? "Exporting..." : "Export journal"}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div id="log-toolbar-filters" className="log-toolbar-filters">
+          <div className="log-toolbar-group" role="group" aria-label="Filter by event type">
+            {EVENT_TYPE_FILTERS.map((filter) => (
+              <button
+                key={filter.value}
+                type="button"
+                className={`log-toolbar-chip ${filters.eventTypes.includes(filter.value) ? "active" : ""}`}
+                onClick={() => setLogFilters({ eventTypes: toggle(filters.eventTypes, filter.value) })}
+                aria-pressed={filters.eventTypes.includes(filter.value)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="log-toolbar-group" role="group" aria-label="Filter by source">
+            {SOURCE_FILTERS.map((filter) => (
+              <button
+                key={filter.value}
+                type="button"
+                className={`log-toolbar-chip ${filters.sources.includes(filter.value) ? "active" : ""}`}
+                onClick={() => setLogFilters({ sources: toggle(filters.sources, filter.value) })}
+                aria-pressed={filters.sources.includes(filter.value)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="log-toolbar-group">
+            <label className="log-toolbar-day">
+              From day
+              <input
+                type="number"
+                min={1}
+                value={filters.fromDay ?? ""}
+                onChange={(e) => setLogFilters({ fromDay: parseDay(e.target.value) })}
+              />
+            </label>
+            <label className="log-toolbar-day">
+              To day
+              <input
+                type="number"
+                min={1}
+                value={filters.toDay ?? ""}
+                onChange={(e) => setLogFilters({ toDay: parseDay(e.target.value) })}
+              />
+            </label>
+            <button
+              type="button"
+              className="log-toolbar-chip"
+              onClick={() => setLogFilters(EMPTY_LOG_FILTERS)}
+              disabled={!isFiltering}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isFiltering && (
+        <div className="log-toolbar-status" role="status">
+          {matchCount === null
+            ? "Searching..."
+            : `${matchCount} matching ${matchCount === 1 ? "entry" : "entries"}`}
+        </div>
+      )}
+    </div>
+  );
+}
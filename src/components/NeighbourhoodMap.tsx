@@ -0,0 +1,392 @@
+/**
+ * NeighbourhoodMap - Map screen for choosing where to search
+ *
+ * Draws the neighbourhood with PixiJS over the app's BackgroundLayer, in the
+ * current theme's colours. Choosing a place sets where scavenging searches;
+ * the keeper can also set out on an expedition from here. Places open up as
+ * the pet survives and grows, and the neighbourhood decays with its
+ * corruption.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import * as PIXI from "pixi.js";
+import type { LocationId, NeighbourhoodBlight } from "../utils/types";
+import type { ThemeColors, ThemeMode } from "../utils/themeUtils";
+import { useTheme } from "../contexts/ThemeContext";
+import { useGameStore } from "../store";
+import { logError } from "../utils/errorLogger";
+import {
+  LOCATIONS,
+  LOCATION_IDS,
+  describeUnlock,
+  getBlight,
+  isLocationUnlocked,
+} from "../utils/expeditions";
+import { GlassPanel } from "./GlassPanel";
+import "./NeighbourhoodMap.css";
+
+export interface NeighbourhoodMapProps {
+  /** Whether the map is shown */
+  isOpen: boolean;
+  /** Close the map and go back to the pet */
+  onClose: () => void;
+}
+
+// Logical map size; the canvas is scaled to fit its container
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 400;
+
+// The street runs across the middle of the map
+const STREET_TOP = 215;
+const STREET_HEIGHT = 50;
+
+// "HOME" is scavenging around the house (no location)
+type MapSpot = LocationId | "HOME";
+
+interface SpotLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MAP_LAYOUT: Record<MapSpot, SpotLayout> = {
+  HOME: { x: 30, y: 45, width: 130, height: 110 },
+  CELLAR: { x: 30, y: 155, width: 130, height: 40 },
+  SUBURBAN_STREET: { x: 210, y: 60, width: 400, height: 130 },
+  GRAVEYARD: { x: 400, y: 280, width: 210, height: 100 },
+};
+
+// Planks nailed over boarded windows and doors
+const PLANK_COLOR = 0x6b4a2b;
+const WATER_COLOR = { cute: 0x7fb7d9, horror: 0x14222e } as const;
+const LIT_WINDOW_COLOR = { cute: 0xfff3b0, horror: 0x3a2a12 } as const;
+
+interface MapScene {
+  colors: ThemeColors;
+  mode: ThemeMode;
+  blight: NeighbourhoodBlight;
+  selected: MapSpot;
+  isUnlocked: (spot: MapSpot) => boolean;
+  onSelect: (spot: MapSpot) => void;
+}
+
+const spotName = (spot: MapSpot): string => (spot === "HOME" ? "around the house" : LOCATIONS[spot].name);
+
+// "the Cellar" -> "The Cellar"
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// ============================================
+// Drawing
+// ============================================
+
+/**
+ * A house with a pitched roof, two windows and a door.
+ */
+function drawHouse(g: PIXI.Graphics, x: number, y: number, width: number, height: number, scene: MapScene): void {
+  const roofHeight = height * 0.4;
+  const wallTop = y + roofHeight;
+  const wallHeight = height - roofHeight;
+  const windowSize = width * 0.2;
+  const windowY = wallTop + wallHeight * 0.2;
+  const windows = [x + width * 0.15, x + width * 0.65];
+  const door = { x: x + width * 0.4, y: wallTop + wallHeight * 0.45, width: width * 0.2, height: wallHeight * 0.55 };
+
+  g.poly([x - 6, wallTop, x + width / 2, y, x + width + 6, wallTop]).fill(scene.colors.primary);
+  g.rect(x, wallTop, width, wallHeight).fill(scene.colors.secondary);
+  g.rect(door.x, door.y, door.width, door.height).fill({ color: scene.colors.text, alpha: 0.6 });
+
+  for (const windowX of windows) {
+    g.rect(windowX, windowY, windowSize, windowSize).fill(
+      scene.blight === "CLEAN" ? LIT_WINDOW_COLOR[scene.mode] : { color: scene.colors.text, alpha: 0.8 }
+    );
+  }
+
+  if (scene.blight !== "CLEAN") {
+    for (const windowX of windows) {
+      g.moveTo(windowX - 2, windowY).lineTo(windowX + windowSize + 2, windowY + windowSize);
+      g.moveTo(windowX - 2, windowY + windowSize).lineTo(windowX + windowSize + 2, windowY);
+    }
+    g.moveTo(door.x - 2, door.y + door.height * 0.3).lineTo(door.x + door.width + 2, door.y + door.height * 0.3);
+    g.moveTo(door.x - 2, door.y + door.height * 0.7).lineTo(door.x + door.width + 2, door.y + door.height * 0.7);
+    g.stroke({ width: 3, color: PLANK_COLOR });
+  }
+}
+
+/**
+ * The street, flooded once the neighbourhood has fallen far enough.
+ */
+function drawStreet(g: PIXI.Graphics, scene: MapScene): void {
+  g.rect(0, STREET_TOP, MAP_WIDTH, STREET_HEIGHT).fill({ color: scene.colors.text, alpha: 0.35 });
+
+  // Lane markings
+  const middle = STREET_TOP + STREET_HEIGHT / 2;
+  for (let x = 10; x < MAP_WIDTH; x += 40) {
+    g.moveTo(x, middle).lineTo(x + 20, middle);
+  }
+  g.stroke({ width: 2, color: scene.colors.background, alpha: 0.7 });
+
+  if (scene.blight === "FLOODED") {
+    const water = WATER_COLOR[scene.mode];
+    g.rect(0, STREET_TOP - 8, MAP_WIDTH, STREET_HEIGHT + 16).fill({ color: water, alpha: 0.8 });
+    g.ellipse(230, STREET_TOP + STREET_HEIGHT + 30, 90, 14).fill({ color: water, alpha: 0.6 });
+    for (let x = 20; x < MAP_WIDTH; x += 70) {
+      g.moveTo(x, middle).quadraticCurveTo(x + 12, middle - 5, x + 24, middle);
+    }
+    g.stroke({ width: 1, color: scene.colors.background, alpha: 0.5 });
+  }
+}
+
+/**
+ * Slanted doors down to the cellar, beside the house.
+ */
+function drawCellar(g: PIXI.Graphics, { x, y, width, height }: SpotLayout, scene: MapScene): void {
+  const half = width / 2;
+  g.poly([x + 10, y + height, x + half, y + height, x + half, y + 8, x + 20, y + 14]).fill(PLANK_COLOR);
+  g.poly([x + half, y + height, x + width - 10, y + height, x + width - 20, y + 14, x + half, y + 8]).fill(PLANK_COLOR);
+  g.moveTo(x + half, y + 8).lineTo(x + half, y + height).stroke({ width: 2, color: scene.colors.text, alpha: 0.6 });
+}
+
+/**
+ * A fenced yard of headstones.
+ */
+function drawGraveyard(g: PIXI.Graphics, { x, y, width, height }: SpotLayout, scene: MapScene): void {
+  // Fence
+  for (let postX = x; postX <= x + width; postX += 15) {
+    g.moveTo(postX, y + 10).lineTo(postX, y + 30);
+  }
+  g.moveTo(x, y + 16).lineTo(x + width, y + 16);
+  g.stroke({ width: 2, color: scene.colors.text, alpha: 0.7 });
+
+  // Headstones, leaning further as the neighbourhood falls
+  const lean = scene.blight === "CLEAN" ? 0 : scene.blight === "BOARDED" ? 4 : 8;
+  for (let row = 0; row < 2; row++) {
+    for (let column = 0; column < 5; column++) {
+      const stoneX = x + 15 + column * 38 + row * 12;
+      const stoneY = y + 40 + row * 30;
+      const tilt = column % 2 === 0 ? lean : -lean;
+      g.poly([stoneX + tilt, stoneY, stoneX + 16 + tilt, stoneY, stoneX + 16, stoneY + 22, stoneX, stoneY + 22]).fill(
+        scene.colors.secondary
+      );
+    }
+  }
+
+  if (scene.blight === "FLOODED") {
+    g.ellipse(x + width / 2, y + height - 8, width / 2 - 10, 10).fill({ color: WATER_COLOR[scene.mode], alpha: 0.7 });
+  }
+}
+
+/**
+ * Draw the whole neighbourhood onto the stage, with a clickable area for
+ * each place.
+ */
+function drawNeighbourhood(stage: PIXI.Container, scene: MapScene): void {
+  const street = new PIXI.Graphics();
+  drawStreet(street, scene);
+  stage.addChild(street);
+
+  const spots: MapSpot[] = ["HOME", ...LOCATION_IDS];
+  for (const spot of spots) {
+    const layout = MAP_LAYOUT[spot];
+    const isUnlocked = scene.isUnlocked(spot);
+    const place = new PIXI.Container();
+    const g = new PIXI.Graphics();
+
+    if (spot === "HOME") {
+      drawHouse(g, layout.x, layout.y, layout.width, layout.height, scene);
+    } else if (spot === "CELLAR") {
+      drawCellar(g, layout, scene);
+    } else if (spot === "SUBURBAN_STREET") {
+      const houseWidth = layout.width / 3 - 20;
+      for (let i = 0; i < 3; i++) {
+        drawHouse(g, layout.x + 10 + i * (houseWidth + 20), layout.y, houseWidth, layout.height - 10, scene);
+      }
+    } else {
+      drawGraveyard(g, layout, scene);
+    }
+
+    if (spot === scene.selected) {
+      g.roundRect(layout.x - 6, layout.y - 6, layout.width + 12, layout.height + 12, 8).stroke({
+        width: 3,
+        color: scene.colors.accent,
+      });
+    }
+    place.addChild(g);
+
+    const label = new PIXI.Text({
+      text: isUnlocked ? capitalize(spotName(spot)) : `${capitalize(spotName(spot))} (locked)`,
+      style: { fontFamily: "VT323, monospace", fontSize: 18, fill: scene.colors.text },
+    });
+    label.anchor.set(0.5, 0);
+    label.x = layout.x + layout.width / 2;
+    label.y = spot === "HOME" ? layout.y - 24 : layout.y + layout.height + 4;
+    place.addChild(label);
+
+    place.alpha = isUnlocked ? 1 : 0.35;
+    if (isUnlocked) {
+      place.eventMode = "static";
+      place.cursor = "pointer";
+      place.hitArea = new PIXI.Rectangle(layout.x, layout.y, layout.width, layout.height);
+      place.on("pointertap", () => scene.onSelect(spot));
+    }
+    stage.addChild(place);
+  }
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function NeighbourhoodMap({ isOpen, onClose }: NeighbourhoodMapProps) {
+  const { mode, colors } = useTheme();
+  const scavengeLocation = useGameStore((state) => state.scavengeLocation);
+  const setScavengeLocation = useGameStore((state) => state.setScavengeLocation);
+  const startExpedition = useGameStore((state) => state.startExpedition);
+  const expedition = useGameStore((state) => state.expedition);
+  const isAlive = useGameStore((state) => state.isAlive);
+  const gameDay = useGameStore((state) => state.gameDay);
+  const stage = useGameStore((state) => state.stage);
+  const corruption = useGameStore((state) => state.stats.corruption);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const appRef = useRef<PIXI.Application | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const selected: MapSpot = scavengeLocation ?? "HOME";
+  const blight = getBlight(corruption);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Create the renderer while the map is open; it is transparent so the
+  // BackgroundLayer shows through
+  useEffect(() => {
+    if (!isOpen || !canvasRef.current) return;
+
+    const app = new PIXI.Application();
+    let isCancelled = false;
+
+    app
+      .init({
+        width: MAP_WIDTH,
+        height: MAP_HEIGHT,
+        backgroundAlpha: 0,
+        antialias: true,
+        resolution: window.devicePixelRatio || 1,
+        autoDensity: true,
+      })
+      .then(() => {
+        if (isCancelled) {
+          app.destroy(true, { children: true });
+          return;
+        }
+        canvasRef.current?.appendChild(app.canvas);
+        appRef.current = app;
+        setIsReady(true);
+      })
+      .catch((error) => {
+        logError("Failed to initialize map renderer", error instanceof Error ? error : undefined);
+        setRenderError("The map could not be drawn");
+      });
+
+    return () => {
+      isCancelled = true;
+      if (appRef.current) {
+        appRef.current.destroy(true, { children: true });
+        appRef.current = null;
+      }
+      setIsReady(false);
+    };
+  }, [isOpen]);
+
+  // Redraw whenever the theme, the unlocks, the blight or the choice change
+  useEffect(() => {
+    const app = appRef.current;
+    if (!isReady || !app) return;
+
+    for (const child of app.stage.removeChildren()) {
+      child.destroy({ children: true });
+    }
+    drawNeighbourhood(app.stage, {
+      colors,
+      mode,
+      blight,
+      selected,
+      isUnlocked: (spot) => spot === "HOME" || isLocationUnlocked(spot, gameDay, stage),
+      onSelect: (spot) => setScavengeLocation(spot === "HOME" ? null : spot),
+    });
+  }, [isReady, colors, mode, blight, selected, gameDay, stage, setScavengeLocation]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className={`neighbourhood-map neighbourhood-map--${mode}`} role="dialog" aria-label="Neighbourhood map" aria-modal={true}>
+      <div className="neighbourhood-map-header">
+        <h2>The Neighbourhood</h2>
+        <button className="neighbourhood-map-close" onClick={onClose} aria-label="Close map">
+          ✕
+        </button>
+      </div>
+
+      <div className="neighbourhood-map-body">
+        <div className="neighbourhood-map-canvas" ref={canvasRef} aria-hidden="true">
+          {renderError && <div className="neighbourhood-map-error">{renderError}</div>}
+        </div>
+
+        <GlassPanel className="neighbourhood-map-places" aria-label="Places to search">
+          <p className="neighbourhood-map-choice" role="status">
+            Scavenging {spotName(selected)}
+          </p>
+          <ul className="neighbourhood-map-list">
+            {(["HOME", ...LOCATION_IDS] as MapSpot[]).map((spot) => {
+              const isUnlocked = spot === "HOME" || isLocationUnlocked(spot, gameDay, stage);
+              return (
+                <li key={spot}>
+                  <button
+                    type="button"
+                    className={`neighbourhood-map-place ${spot === selected ? "selected" : ""}`}
+                    onClick={() => setScavengeLocation(spot === "HOME" ? null : spot)}
+                    disabled={!isUnlocked}
+                    aria-pressed={spot === selected}
+                  >
+                    <span className="neighbourhood-map-place-name">{capitalize(spotName(spot))}</span>
+                    <span className="neighbourhood-map-place-details">
+                      {spot === "HOME"
+                        ? "Close to home. Whatever turns up."
+                        : isUnlocked
+                        ? LOCATIONS[spot].description
+                        : describeUnlock(spot)}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            type="button"
+            className="neighbourhood-map-expedition"
+            onClick={() => scavengeLocation && startExpedition(scavengeLocation)}
+            disabled={!scavengeLocation || expedition !== null || !isAlive}
+          >
+            {expedition
+              ? `Away at ${LOCATIONS[expedition.location].name}`
+              : scavengeLocation
+              ? `Set out for ${LOCATIONS[scavengeLocation].name}`
+              : "Choose a place to set out for"}
+          </button>
+        </GlassPanel>
+      </div>
+    </div>
+  );
+}
+
+export default NeighbourhoodMap;
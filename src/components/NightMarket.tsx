@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from "react";
+import { useGameStore } from "../store";
+import { GlassPanel } from "./GlassPanel";
+import { useTheme } from "../contexts/ThemeContext";
+import { getGameRules } from "../utils/gameRules";
+import { getInventoryCapacity } from "../utils/inventoryUtils";
+import { CONSUMABLES, COSMETICS, createMarketOffering, getMarketStock, getWareName } from "../utils/market";
+import type { MarketWare } from "../utils/types";
+import "./NightMarket.css";
+
+interface NightMarketProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Icon and blurb a ware is shown with
+const describeWare = (ware: MarketWare): { icon: string; description: string } => {
+  switch (ware.kind) {
+    case "offering": {
+      const { icon } = createMarketOffering(ware.itemType);
+      return { icon, description: "Its class is known. No reading needed." };
+    }
+    case "consumable":
+      return CONSUMABLES[ware.consumable];
+    case "cosmetic":
+      return COSMETICS[ware.cosmetic];
+  }
+};
+
+/**
+ * NightMarket - Modal where the keeper spends teeth
+ *
+ * Lists tonight's stock, which changes every game day, and the cosmetics the
+ * pet owns so one can be put on.
+ */
+export function NightMarket({ isOpen, onClose }: NightMarketProps) {
+  const teeth = useGameStore((state) => state.teeth);
+  const gameDay = useGameStore((state) => state.gameDay);
+  const soldWares = useGameStore((state) => state.soldWares);
+  const cosmetics = useGameStore((state) => state.cosmetics);
+  const equippedCosmetic = useGameStore((state) => state.equippedCosmetic);
+  const inventory = useGameStore((state) => state.inventory);
+  const inventoryUpgrades = useGameStore((state) => state.inventoryUpgrades);
+  const difficulty = useGameStore((state) => state.difficulty);
+  const isAlive = useGameStore((state) => state.isAlive);
+  const isAway = useGameStore((state) => state.expedition !== null);
+  const buyWare = useGameStore((state) => state.buyWare);
+  const equipCosmetic = useGameStore((state) => state.equipCosmetic);
+  const { mode } = useTheme();
+
+  const stock = useMemo(() => getMarketStock(gameDay), [gameDay]);
+  const isInventoryFull = inventory.length >= getInventoryCapacity(inventoryUpgrades, getGameRules(difficulty));
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  // Why a ware can't be bought right now, if it can't
+  const getUnavailableReason = (ware: MarketWare): string | null => {
+    if (soldWares.includes(ware.id)) return "Sold";
+    if (ware.kind === "cosmetic" && cosmetics.includes(ware.cosmetic)) return "Owned";
+    if (!isAlive) return "Closed";
+    if (isAway) return "Away";
+    if (ware.kind === "offering" && isInventoryFull) return "No room";
+    if (teeth < ware.price) return "Too dear";
+    return null;
+  };
+
+  return (
+    <div className="night-market-overlay" onClick={onClose}>
+      <GlassPanel
+        className={`night-market night-market--${mode}`}
+        variant="settings"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Night Market"
+        aria-modal={true}
+      >
+        <div className="night-market-header">
+          <h2>Night Market</h2>
+          <button className="night-market-close" onClick={onClose} aria-label="Close market">
+            ✕
+          </button>
+        </div>
+
+        <div className="night-market-content">
+          <p className="night-market-purse" role="status">
+            🦷 {teeth} teeth. New stock comes in at dawn.
+          </p>
+
+          <ul className="night-market-wares" aria-label="Tonight's stock">
+            {stock.map((ware) => {
+              const { icon, description } = describeWare(ware);
+              const name = getWareName(ware);
+              const unavailable = getUnavailableReason(ware);
+              return (
+                <li key={ware.id} className={`night-market-ware night-market-ware--${ware.kind}`}>
+                  <span className="night-market-ware-icon" aria-hidden="true">{icon}</span>
+                  <span className="night-market-ware-text">
+                    <span className="night-market-ware-name">{name}</span>
+                    <span className="night-market-ware-description">{description}</span>
+                  </span>
+                  <button
+                    type="button"
+                    className="night-market-buy"
+                    onClick={() => buyWare(ware.id)}
+                    disabled={unavailable !== null}
+                    aria-label={`Buy ${name} for ${ware.price} teeth`}
+                  >
+                    {unavailable ?? `${ware.price} 🦷`}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {cosmetics.length > 0 && (
+            <div className="night-market-wardrobe" role="group" aria-label="Wardrobe">
+              <span className="night-market-wardrobe-label">Wardrobe</span>
+              <button
+                type="button"
+                className="night-market-wear"
+                onClick={() => equipCosmetic(null)}
+                aria-pressed={equippedCosmetic === null}
+              >
+                Nothing
+              </button>
+              {cosmetics.map((cosmetic) => (
+                <button
+                  key={cosmetic}
+                  type="button"
+                  className="night-market-wear"
+                  onClick={() => equipCosmetic(cosmetic)}
+                  aria-pressed={equippedCosmetic === cosmetic}
+                  title={COSMETICS[cosmetic].description}
+                >
+                  {COSMETICS[cosmetic].icon} {COSMETICS[cosmetic].name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </GlassPanel>
+    </div>
+  );
+}
+
+export default NightMarket;
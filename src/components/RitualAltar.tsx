@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import type { Offering } from "../utils/types";
+import { useGameStore } from "../store";
+import {
+  MAX_RITUAL_OFFERINGS,
+  MIN_RITUAL_OFFERINGS,
+  RITUAL_RECIPES,
+  describeIngredients,
+} from "../utils/rituals";
+import "./RitualAltar.css";
+
+/**
+ * RitualAltar Component
+ *
+ * Drop zone for combining offerings. Offerings are dragged (or sent from the
+ * inventory stack) onto the altar's slots, then consumed together by
+ * performing the ritual. The recipe book lists the rituals found so far.
+ */
+export function RitualAltar() {
+  const inventory = useGameStore((state) => state.inventory);
+  const altarItemIds = useGameStore((state) => state.altarItemIds);
+  const discoveredRecipes = useGameStore((state) => state.discoveredRecipes);
+  const removeFromAltar = useGameStore((state) => state.removeFromAltar);
+  const clearAltar = useGameStore((state) => state.clearAltar);
+  const performRitual = useGameStore((state) => state.performRitual);
+  const [showRecipeBook, setShowRecipeBook] = useState(false);
+
+  // Drop zone for drag-to-altar, handled by the app's DndContext
+  const { setNodeRef, isOver } = useDroppable({ id: "ritual-altar" });
+
+  // Offerings fed or lost since being placed drop off the altar
+  const placed = altarItemIds
+    .map((id) => inventory.find((item) => item.id === id))
+    .filter((item): item is Offering => item !== undefined);
+  const canPerform = placed.length >= MIN_RITUAL_OFFERINGS && placed.length <= MAX_RITUAL_OFFERINGS;
+  const discovered = RITUAL_RECIPES.filter((recipe) => discoveredRecipes.includes(recipe.id));
+
+  const handlePerform = () => {
+    void performRitual(placed.map((item) => item.id));
+    clearAltar();
+  };
+
+  return (
+    <div className="ritual-altar">
+      <div
+        ref={setNodeRef}
+        className={`ritual-altar-slots ${isOver ? "is-over" : ""}`}
+        role="group"
+        aria-label={`Ritual altar, ${placed.length} of ${MAX_RITUAL_OFFERINGS} offerings`}
+      >
+        {Array.from({ length: MAX_RITUAL_OFFERINGS }, (_, i) => {
+          const item = placed[i];
+          return item ? (
+            <button
+              key={`${item.id}-${i}`}
+              type="button"
+              className="ritual-altar-slot filled"
+              onClick={() => removeFromAltar(item.id)}
+              aria-label={`Take ${item.description} off the altar`}
+            >
+              {item.icon}
+            </button>
+          ) : (
+            <span key={`empty-${i}`} className="ritual-altar-slot" aria-hidden="true" />
+          );
+        })}
+      </div>
+
+      <div className="ritual-altar-actions">
+        <button
+          type="button"
+          className="ritual-altar-button"
+          onClick={handlePerform}
+          disabled={!canPerform}
+        >
+          Perform ritual
+        </button>
+        <button
+          type="button"
+          className={`ritual-altar-button ${showRecipeBook ? "active" : ""}`}
+          onClick={() => setShowRecipeBook(!showRecipeBook)}
+          aria-expanded={showRecipeBook}
+          aria-controls="recipe-book"
+        >
+          Recipes {discovered.length}/{RITUAL_RECIPES.length}
+        </button>
+      </div>
+
+      {showRecipeBook && (
+        <ul id="recipe-book" className="recipe-book" aria-label="Recipe book">
+          {discovered.length === 0 ? (
+            <li className="recipe-book-empty">No rituals discovered yet</li>
+          ) : (
+            discovered.map((recipe) => (
+              <li key={recipe.id} className="recipe-book-entry">
+                <span className="recipe-book-name">{recipe.name}</span>
+                <span className="recipe-book-ingredients">{describeIngredients(recipe)}</span>
+                <span className="recipe-book-description">{recipe.description}</span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
+import { useRef, useState } from "react";
 import { useGameStore } from "../store";
 import { GlassPanel } from "./GlassPanel";
 import { useTheme } from "../contexts/ThemeContext";
-import type { Theme } from "../utils/types";
+import { loadGhosts } from "../utils/hauntSystem";
+import { createSaveFile, getSaveFileName, parseSaveFile } from "../utils/saveTransfer";
+import { inlineLogImages } from "../utils/imageStore";
+import { logError } from "../utils/errorLogger";
+import type { ImportMode, SaveFile, SavePreview, Theme } from "../utils/types";
 import "./SettingsPanel.css";
 
 interface SettingsPanelProps {
@@ -16,6 +21,15 @@ const SPEED_OPTIONS = [
   { value: 4, label: "4x (Turbo)" },
 ];
 
+/**
+ * Format game minutes for the import preview, e.g. "2d 5h"
+ */
+function formatPreviewAge(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
 /**
  * SettingsPanel - Game settings modal with glassmorphism styling
  * 
@@ -32,7 +46,14 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
   const setRetroMode = useGameStore((state) => state.setRetroMode);
   const theme = useGameStore((state) => state.theme);
   const setTheme = useGameStore((state) => state.setTheme);
+  const isInitialized = useGameStore((state) => state.isInitialized);
+  const importSave = useGameStore((state) => state.importSave);
+  const switchPet = useGameStore((state) => state.switchPet);
+  const rosterSize = useGameStore((state) => state.roster.length);
   const { mode } = useTheme();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ file: SaveFile; preview: SavePreview } | null>(null);
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
 
   /**
    * Handle theme toggle - switches between cute and horror themes
@@ -43,6 +64,56 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
     document.documentElement.setAttribute("data-theme", newTheme);
   };
 
+  /**
+   * Download the current pet, its logs and the ghosts as a save file
+   */
+  const handleExport = async () => {
+    try {
+      // The file carries the whole history and its images, so it stands on its own
+      const state = useGameStore.getState();
+      const logs = await inlineLogImages(await state.getLogHistory());
+      const file = await createSaveFile({ ...state, logs, archivedLogCount: 0 }, loadGhosts());
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getSaveFileName(file);
+      link.click();
+      URL.revokeObjectURL(url);
+      setTransferMessage("Save exported.");
+    } catch (error) {
+      logError("Failed to export save", error instanceof Error ? error : undefined);
+      setTransferMessage("Export failed.");
+    }
+  };
+
+  /**
+   * Validate a chosen save file and show its preview before applying it
+   */
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = "";
+    if (!chosen) return;
+
+    const result = await parseSaveFile(await chosen.text(), useGameStore.getState());
+    if (result.ok) {
+      setPendingImport({ file: result.file, preview: result.preview });
+      setTransferMessage(null);
+    } else {
+      setPendingImport(null);
+      setTransferMessage(result.error);
+    }
+  };
+
+  const handleImport = (importMode: ImportMode) => {
+    if (!pendingImport) return;
+    importSave(pendingImport.file, importMode);
+    document.documentElement.setAttribute("data-theme", useGameStore.getState().theme);
+    setTransferMessage(`${pendingImport.preview.name} has arrived.`);
+    setPendingImport(null);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -163,6 +234,95 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               Disable animations for accessibility
             </span>
           </div>
+
+          {/* Pet Roster */}
+          <div className="setting-group">
+            <span className="setting-label">Companions</span>
+            <div className="save-transfer-actions">
+              <button
+                type="button"
+                className="save-transfer-btn"
+                onClick={() => {
+                  switchPet();
+                  onClose();
+                }}
+                disabled={!isInitialized}
+              >
+                Switch Pet
+              </button>
+            </div>
+            <span className="setting-hint">
+              {rosterSize === 0
+                ? "Put this pet away and raise another; it keeps decaying while away"
+                : `${rosterSize} other ${rosterSize === 1 ? "pet is" : "pets are"} waiting; they keep decaying while away`}
+            </span>
+          </div>
+
+          {/* Save Export / Import */}
+          <div className="setting-group">
+            <span className="setting-label">Save File</span>
+            <div className="save-transfer-actions">
+              <button
+                type="button"
+                className="save-transfer-btn"
+                onClick={handleExport}
+                disabled={!isInitialized}
+              >
+                Export Save
+              </button>
+              <button
+                type="button"
+                className="save-transfer-btn"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Import Save
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="save-transfer-input"
+                onChange={handleFileChosen}
+                aria-label="Choose save file to import"
+              />
+            </div>
+
+            {pendingImport && (
+              <div className="save-preview" role="group" aria-label="Imported pet preview">
+                <span className="save-preview-name">
+                  {pendingImport.preview.name} ({pendingImport.preview.archetype})
+                </span>
+                <span className="save-preview-details">
+                  {pendingImport.preview.stage} · {formatPreviewAge(pendingImport.preview.age)}
+                  {pendingImport.preview.isAlive ? "" : " · deceased"} ·{" "}
+                  {pendingImport.preview.difficulty.toLowerCase()}
+                </span>
+                <span className="save-preview-details">
+                  {pendingImport.preview.logCount} log entries · {pendingImport.preview.ghostCount} ghosts
+                </span>
+                <div className="save-transfer-actions">
+                  <button type="button" className="save-transfer-btn" onClick={() => handleImport("replace")}>
+                    Replace
+                  </button>
+                  <button type="button" className="save-transfer-btn" onClick={() => handleImport("merge")}>
+                    Merge
+                  </button>
+                  <button type="button" className="save-transfer-btn" onClick={() => setPendingImport(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {transferMessage && (
+              <span className="setting-hint" role="status">
+                {transferMessage}
+              </span>
+            )}
+            <span className="setting-hint">
+              Replace also takes the file&apos;s settings and ghosts; merge keeps yours. Your current pet moves to the roster
+            </span>
+          </div>
         </div>
 
         <div className="settings-footer">
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import type { SaveSlot } from "../utils/types";
+import "./CreationScreen.css";
+import "./SlotPicker.css";
+
+interface SlotPickerProps {
+  slots: SaveSlot[];
+  onLoad: (slotId: string) => void;
+  onDelete: (slotId: string) => void;
+  onCreate: () => void;
+}
+
+/**
+ * Describe how long ago a pet was put away, e.g. "3h ago"
+ */
+function formatTimeAway(savedAt: number, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - savedAt) / 60000));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Status line for a slot. Stats are as the pet was left; it catches up on
+ * the time away when it is loaded.
+ */
+function getSlotStatus(slot: SaveSlot): string {
+  const { pet } = slot;
+  if (!pet.isAlive) {
+    return pet.deathData ? `Deceased (${pet.deathData.cause.toLowerCase()})` : "Deceased";
+  }
+  return `Hunger ${Math.round(pet.stats.hunger)} · Sanity ${Math.round(pet.stats.sanity)}`;
+}
+
+/**
+ * SlotPicker - Choose a pet from the roster or summon a new one.
+ * Shown before CreationScreen whenever the roster has pets in it.
+ */
+export default function SlotPicker({ slots, onLoad, onDelete, onCreate }: SlotPickerProps) {
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  return (
+    <div className="creation-screen" role="main">
+      <div className="creation-container">
+        <h1 className="creation-title">Your Companions</h1>
+        <p className="creation-subtitle">
+          They have been waiting. They have been hungry.
+        </p>
+
+        <ul className="slot-list" aria-label="Pet roster">
+          {slots.map((slot) => {
+            const { pet } = slot;
+            const color = `#${pet.traits.color.toString(16).padStart(6, "0")}`;
+            const isConfirming = confirmDeleteId === slot.id;
+
+            return (
+              <li
+                key={slot.id}
+                className={`slot-card ${pet.isAlive ? "" : "slot-deceased"}`}
+              >
+                <div className="slot-thumbnail" style={{ borderColor: color }}>
+                  {pet.currentPetSpriteUrl ? (
+                    <img src={pet.currentPetSpriteUrl} alt={`${pet.traits.name} portrait`} />
+                  ) : (
+                    <span
+                      className="slot-thumbnail-placeholder"
+                      style={{ background: color }}
+                      aria-hidden="true"
+                    />
+                  )}
+                </div>
+
+                <div className="slot-info">
+                  <span className="slot-name">{pet.traits.name}</span>
+                  <span className="slot-details">
+                    {pet.traits.archetype} · {pet.stage} · Day {pet.gameDay + 1}
+                  </span>
+                  <span className="slot-details">{getSlotStatus(slot)}</span>
+                  <span className="slot-details slot-away">
+                    Left {formatTimeAway(slot.savedAt, now)}
+                  </span>
+                </div>
+
+                <div className="slot-actions">
+                  {isConfirming ? (
+                    <>
+                      <button
+                        type="button"
+                        className="slot-button slot-button-danger"
+                        onClick={() => {
+                          onDelete(slot.id);
+                          setConfirmDeleteId(null);
+                        }}
+                        aria-label={`Confirm releasing ${pet.traits.name}`}
+                      >
+                        Release
+                      </button>
+                      <button
+                        type="button"
+                        className="slot-button"
+                        onClick={() => setConfirmDeleteId(null)}
+                      >
+                        Keep
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        className="slot-button"
+                        onClick={() => onLoad(slot.id)}
+                        aria-label={`Return to ${pet.traits.name}`}
+                      >
+                        Return
+                      </button>
+                      <button
+                        type="button"
+                        className="slot-button"
+                        onClick={() => setConfirmDeleteId(slot.id)}
+                        aria-label={`Release ${pet.traits.name}`}
+                      >
+                        Release
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <button type="button" className="submit-button" onClick={onCreate}>
+          Summon New
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { Offering } from '../utils/types';
+import { formatAppraisal } from '../utils/appraisal';
+import { getQuantity } from '../utils/inventoryUtils';
 import './SortableItem.css';
 
 interface SortableItemProps {
@@ -58,6 +60,8 @@ export function SortableItem({ item, onFeed, isDragging = false, isFeedingOut =
     isFeedingOut ? 'is-feeding-out' : '',
   ].filter(Boolean).join(' ');
 
+  const reading = item.appraisal ? formatAppraisal(item.appraisal) : null;
+
   return (
     <div
       ref={setNodeRef}
@@ -65,7 +69,7 @@ export function SortableItem({ item, onFeed, isDragging = false, isFeedingOut =
       className={classNames}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
-      aria-label={`Feed offering: ${item.description}`}
+      aria-label={`Feed offering: ${item.description}${reading ? ` (appraised ${reading})` : ''}`}
       aria-grabbed={isCurrentlyDragging}
       {...attributes}
       {...listeners}
@@ -73,8 +77,12 @@ export function SortableItem({ item, onFeed, isDragging = false, isFeedingOut =
       <div className="card-icon" aria-hidden="true">
         {item.icon}
       </div>
+      {getQuantity(item) > 1 && (
+        <div className="card-quantity" aria-label={`${getQuantity(item)} stacked`}>×{getQuantity(item)}</div>
+      )}
       <div className="card-title">Mystery Item</div>
       <div className="card-description">{item.description}</div>
+      {reading && <div className="card-appraisal">{reading}</div>}
     </div>
   );
 }
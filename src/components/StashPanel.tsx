@@ -0,0 +1,75 @@
+import { useDroppable } from "@dnd-kit/core";
+import { useGameStore } from "../store";
+import { getGameRules } from "../utils/gameRules";
+import { getQuantity } from "../utils/inventoryUtils";
+import "./StashPanel.css";
+
+// Format time spent in the stash for display
+const formatAge = (ageInMinutes: number): string => {
+  const hours = Math.floor(ageInMinutes / 60);
+  const minutes = Math.floor(ageInMinutes % 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+/**
+ * StashPanel Component
+ *
+ * Drop zone for keeping offerings out of the inventory. Each stashed
+ * offering shows how long it has been kept; some of them quietly get worse
+ * for it.
+ */
+export function StashPanel() {
+  const stash = useGameStore((state) => state.stash);
+  const age = useGameStore((state) => state.age);
+  const difficulty = useGameStore((state) => state.difficulty);
+  const retrieveItem = useGameStore((state) => state.retrieveItem);
+
+  // Drop zone for drag-to-stash, handled by the app's DndContext
+  const { setNodeRef, isOver } = useDroppable({ id: "stash" });
+
+  const { stashCapacity } = getGameRules(difficulty).inventory;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`stash-panel ${isOver ? "is-over" : ""}`}
+      role="region"
+      aria-label={`Stash, ${stash.length} of ${stashCapacity} slots used`}
+    >
+      <div className="stash-header">
+        <span>Stash</span>
+        <span className="stash-capacity">
+          {stash.length}/{stashCapacity}
+        </span>
+      </div>
+
+      {stash.length === 0 ? (
+        <div className="stash-empty">Drop offerings here to keep them</div>
+      ) : (
+        <ul className="stash-items">
+          {stash.map(({ offering, stashedAt }) => (
+            <li key={offering.id} className="stash-item">
+              <span className="stash-item-icon" aria-hidden="true">
+                {offering.icon}
+              </span>
+              {getQuantity(offering) > 1 && <span className="stash-item-quantity">×{getQuantity(offering)}</span>}
+              <span className="stash-item-description">{offering.description}</span>
+              <span className="stash-item-age">{formatAge(Math.max(0, age - stashedAt))}</span>
+              <button
+                type="button"
+                className="stash-item-button"
+                onClick={() => retrieveItem(offering.id)}
+                aria-label={`Take ${offering.description} out of the stash`}
+              >
+                Take
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
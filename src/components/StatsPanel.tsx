@@ -1,7 +1,8 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { PetStats, PetStage } from "../utils/types";
+import type { PetStats, PetStage, StatusEffect } from "../utils/types";
 import { StatDisplay } from "./StatDisplay";
 import { GlassPanel } from "./GlassPanel";
+import { STATUS_EFFECTS } from "../utils/statusEffects";
 import { useTheme } from "../contexts/ThemeContext";
 import { safeAnimateFromTo, safeKillTweens, prefersReducedMotion } from "../utils/animationUtils";
 import "./StatsPanel.css";
@@ -11,7 +12,10 @@ interface StatsPanelProps {
   stage: PetStage;
   age: number;
   gameDay: number;
-  dailyFeeds: number;
+  teeth: number; // Currency to spend at the night market
+  stomachFullness: number; // Offerings' worth of food still being digested
+  stomachCapacity: number; // Offerings the stomach holds before feeding more causes vomiting
+  statusEffects?: StatusEffect[]; // Active buffs and debuffs
   onCriticalWarning?: () => void; // Callback when critical state is first entered
 }
 
@@ -123,7 +127,10 @@ export function StatsPanel({
   stage,
   age,
   gameDay,
-  dailyFeeds,
+  teeth,
+  stomachFullness,
+  stomachCapacity,
+  statusEffects = [],
   onCriticalWarning,
 }: StatsPanelProps) {
   // Refs for emphasis animation elements
@@ -205,7 +212,7 @@ export function StatsPanel({
     prevSanity.current = batchedSanity;
   }, [batchedHunger, batchedSanity, triggerEmphasis]);
 
-  // Format age for display
+  // Format age (or an effect's remaining time) for display
   const formatAge = (ageInMinutes: number): string => {
     const hours = Math.floor(ageInMinutes / 60);
     const minutes = Math.floor(ageInMinutes % 60);
@@ -294,12 +301,41 @@ export function StatsPanel({
           <span className="info-value">{gameDay}</span>
         </div>
         <div className="info-item">
-          <span className="info-label">Daily Feeds:</span>
-          <span className="info-value" aria-live="polite">
-            {dailyFeeds}/3
+          <span className="info-label">Teeth:</span>
+          <span className="info-value">{teeth}</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">Stomach:</span>
+          <span className="info-value">
+            {stomachFullness.toFixed(1)}/{stomachCapacity}
           </span>
         </div>
       </div>
+
+      {/* Status Effects Section */}
+      {statusEffects.length > 0 && (
+        <ul className="status-effects-section" aria-label="Status effects">
+          {statusEffects.map((effect) => {
+            const definition = STATUS_EFFECTS[effect.type];
+            return (
+              <li
+                key={effect.type}
+                className={`status-effect status-effect--${effect.type.toLowerCase()}`}
+                title={definition.description}
+              >
+                <span className="status-effect-icon" aria-hidden="true">
+                  {definition.icon}
+                </span>
+                <span className="status-effect-label">
+                  {definition.label}
+                  {effect.stacks > 1 && ` ×${effect.stacks}`}
+                </span>
+                <span className="status-effect-remaining">{formatAge(effect.remaining)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </GlassPanel>
   );
 }
@@ -0,0 +1,43 @@
+import { useEffect, useState, type ImgHTMLAttributes, type ReactNode } from "react";
+import type { NarrativeLog } from "../utils/types";
+import { loadImage } from "../utils/imageStore";
+
+interface StoredImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src"> {
+  log: NarrativeLog;
+  fallback?: ReactNode; // Shown while the image loads from the image store
+}
+
+/**
+ * StoredImage Component
+ *
+ * Renders a log's generated image. Images in the image store are read only
+ * once this component mounts, so galleries that mount it for visible items
+ * load images lazily.
+ */
+export function StoredImage({ log, fallback = null, ...imageProps }: StoredImageProps) {
+  const [loaded, setLoaded] = useState<{ imageId: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    const imageId = log.imageId;
+    if (!imageId) {
+      return;
+    }
+
+    let isCurrent = true;
+    void loadImage(imageId).then((url) => {
+      if (isCurrent) setLoaded({ imageId, url });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [log.imageId]);
+
+  const src = log.imageId
+    ? loaded?.imageId === log.imageId ? loaded.url : null
+    : log.imageUrl;
+
+  if (!src) {
+    return <>{fallback}</>;
+  }
+  return <img src={src} {...imageProps} />;
+}
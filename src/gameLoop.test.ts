@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { GameLoop } from "./utils/gameLoop";
+import { createSimulationRunner } from "./utils/gameClock";
 import { useGameStore } from "./store";
+import type { GameLoopCommand, GameLoopTick } from "./utils/types";
 
 describe("GameLoop", () => {
   let gameLoop: GameLoop;
@@ -111,4 +113,98 @@ describe("GameLoop", () => {
     // Age should not have changed after stop
     expect(ageAfterStop).toBe(ageAfterStart);
   });
+
+  it("should catch up on minutes missed while timers were throttled", () => {
+    useGameStore.getState().initializePet("TestPet", "GLOOM", 0xff0000);
+
+    gameLoop.start();
+
+    // The browser delayed the timer: one callback after a full second
+    vi.setSystemTime(Date.now() + 900);
+    vi.advanceTimersByTime(100);
+
+    expect(useGameStore.getState().age).toBe(10);
+  });
+
+  it("should keep the partial minute when the speed changes", () => {
+    useGameStore.getState().initializePet("TestPet", "GLOOM", 0xff0000);
+
+    gameLoop.start();
+    vi.advanceTimersByTime(50);
+    gameLoop.setTickInterval(50);
+
+    // Half a minute at the old speed, then a minute and a half at the new one
+    vi.setSystemTime(Date.now() + 25);
+    vi.advanceTimersByTime(50);
+
+    expect(useGameStore.getState().age).toBe(2);
+  });
+});
+
+describe("GameLoop with a worker", () => {
+  let workers: FakeWorker[];
+
+  // Runs the worker's runner on this thread
+  class FakeWorker {
+    onmessage: ((event: MessageEvent<GameLoopTick>) => void) | null = null;
+    onerror: ((event: ErrorEvent) => void) | null = null;
+    runner = createSimulationRunner((tick) => {
+      this.onmessage?.({ data: structuredClone(tick) } as MessageEvent<GameLoopTick>);
+    });
+    commands: GameLoopCommand[] = [];
+
+    constructor() {
+      workers.push(this);
+    }
+
+    postMessage(command: GameLoopCommand) {
+      this.commands.push(command);
+      this.runner.handle(structuredClone(command));
+    }
+
+    terminate() {
+      this.runner.stop();
+    }
+  }
+
+  beforeEach(() => {
+    workers = [];
+    useGameStore.getState().reset();
+    vi.useFakeTimers();
+    vi.stubGlobal("Worker", FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("should apply ticks simulated by the worker", () => {
+    useGameStore.getState().initializePet("TestPet", "GLOOM", 0xff0000);
+    const gameLoop = new GameLoop(100);
+    gameLoop.start();
+
+    vi.advanceTimersByTime(300);
+
+    expect(useGameStore.getState().age).toBe(3);
+    expect(workers[0].commands.map((command) => command.type)).toEqual(["start"]);
+    gameLoop.stop();
+    expect(gameLoop.isRunning()).toBe(false);
+  });
+
+  it("should send store changes to the worker and keep them", () => {
+    useGameStore.getState().initializePet("TestPet", "GLOOM", 0xff0000);
+    const gameLoop = new GameLoop(100);
+    gameLoop.start();
+
+    vi.advanceTimersByTime(100);
+    useGameStore.setState({ stats: { hunger: 0, sanity: 40, corruption: 0 } });
+    vi.advanceTimersByTime(100);
+
+    const state = useGameStore.getState();
+    expect(workers[0].commands.map((command) => command.type)).toEqual(["start", "sync"]);
+    expect(state.age).toBe(2);
+    expect(state.stats.sanity).toBeLessThan(40);
+    gameLoop.stop();
+  });
 });
@@ -1,5 +1,16 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { useGameStore } from "./store";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useGameStore, flushSavedState } from "./store";
+import { SAVE_V0 } from "./test/fixtures/saves";
+import { createSaveFile } from "./utils/saveTransfer";
+import { migrateSave, SAVE_VERSION } from "./utils/saveSchema";
+import { readSave } from "./utils/savePersistence";
+import { loadImage } from "./utils/imageStore";
+import { ITEM_TYPES, OFFERING_ICONS } from "./utils/offerings";
+import { getQuantity } from "./utils/inventoryUtils";
+import { replaceGhosts } from "./utils/hauntSystem";
+import { GAME_RULE_PRESETS } from "./utils/gameRules";
+import { COSMETIC_IDS, TEETH_REWARDS, getMarketStock } from "./utils/market";
+import type { DeathCause, GhostData, PersistedGameState } from "./utils/types";
 
 describe("Game Store", () => {
   beforeEach(() => {
@@ -252,9 +263,9 @@ describe("Game Store", () => {
 
       const item = state.inventory[0];
       expect(item.id).toBeDefined();
-      expect(item.type).toMatch(/^(PURITY|ROT)$/);
+      expect(ITEM_TYPES).toContain(item.type);
       expect(item.description).toBeDefined();
-      expect(item.icon).toMatch(/^(✨|🦴)$/);
+      expect(OFFERING_ICONS).toContain(item.icon);
     });
 
     it("should not add item when inventory is full", async () => {
@@ -270,10 +281,56 @@ describe("Game Store", () => {
         ],
       });
 
+      const requests = vi.mocked(fetch).mock.calls.length;
       await store.scavenge();
 
       const state = useGameStore.getState();
       expect(state.inventory.length).toBe(3); // Should still be 3
+      expect(vi.mocked(fetch).mock.calls.length).toBe(requests); // Nothing was described
+    });
+
+    it("should not stack a find onto a full inventory", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const random = vi.spyOn(Math, "random").mockReturnValue(0.99);
+
+      await store.scavenge();
+      const [found] = useGameStore.getState().inventory;
+      const others = ITEM_TYPES.filter((type) => type !== found.type);
+      const full = [
+        found,
+        { id: "other-1", type: others[0], description: "Item 2", icon: "✨" },
+        { id: "other-2", type: others[1], description: "Item 3", icon: "✨" },
+      ];
+      useGameStore.setState({ inventory: full });
+
+      await store.scavenge();
+      random.mockRestore();
+
+      // Without a certain reading, an identical find gives nothing away by stacking
+      const state = useGameStore.getState();
+      expect(state.inventory).toEqual(full);
+      expect(state.teeth).toBe(TEETH_REWARDS.scavenge);
+    });
+
+    it("should not overfill an inventory that filled up while searching", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const random = vi.spyOn(Math, "random").mockReturnValue(0.99);
+
+      await store.scavenge();
+      const others = ITEM_TYPES.filter((type) => type !== useGameStore.getState().inventory[0].type);
+      useGameStore.setState({ inventory: [], teeth: 0 });
+
+      const searching = store.scavenge();
+      const full = others.slice(0, 3).map((type, i) => ({ id: `other-${i}`, type, description: "Item", icon: "✨" }));
+      useGameStore.setState({ inventory: full });
+      await searching;
+      random.mockRestore();
+
+      const state = useGameStore.getState();
+      expect(state.inventory).toEqual(full);
+      expect(state.teeth).toBe(0);
     });
 
     it("should generate UUID for each item", async () => {
@@ -284,8 +341,8 @@ describe("Game Store", () => {
       await store.scavenge();
 
       const state = useGameStore.getState();
-      expect(state.inventory.length).toBe(2);
-      expect(state.inventory[0].id).not.toBe(state.inventory[1].id);
+      expect(state.inventory).toHaveLength(2);
+      expect(new Set(state.inventory.map((item) => item.id)).size).toBe(2);
     });
   });
 
@@ -312,8 +369,10 @@ describe("Game Store", () => {
       const state = useGameStore.getState();
       expect(state.inventory.length).toBe(0);
       expect(state.stats.hunger).toBe(30); // 50 - 20
-      expect(state.stats.sanity).toBe(60); // 50 + 10
-      expect(state.stats.corruption).toBe(45); // 50 - 5
+      // Sanity and corruption seep in while the offering digests
+      expect(state.stats.sanity).toBe(50);
+      expect(state.stats.corruption).toBe(50);
+      expect(state.stomach).toEqual([{ type: "PURITY", remaining: 240 }]);
       expect(state.dailyFeeds).toBe(1);
     });
 
@@ -338,9 +397,15 @@ describe("Game Store", () => {
       const state = useGameStore.getState();
       expect(state.inventory.length).toBe(0);
       expect(state.stats.hunger).toBe(30); // 50 - 20
-      expect(state.stats.sanity).toBe(35); // 50 - 15
-      expect(state.stats.corruption).toBe(60); // 50 + 10
+      expect(state.stomach).toEqual([{ type: "ROT", remaining: 240 }]);
       expect(state.dailyFeeds).toBe(1);
+
+      // Digesting seeps ROT's -15 sanity and +10 corruption in over 240 minutes
+      useGameStore.setState({ stats: { ...state.stats, hunger: 0 } });
+      useGameStore.getState().tick(240);
+      const digested = useGameStore.getState();
+      expect(digested.stomach).toEqual([]);
+      expect(digested.stats.corruption).toBeCloseTo(60);
     });
 
     it("should generate narrative log with PURITY tone", async () => {
@@ -401,7 +466,7 @@ describe("Game Store", () => {
       expect(feedLog.text.length).toBeGreaterThan(0);
     });
 
-    it("should trigger vomit event when dailyFeeds exceeds 3", async () => {
+    it("should trigger vomit event when the stomach is full", async () => {
       const store = useGameStore.getState();
       store.initializePet("TestPet", "GLOOM", 0xff0000);
 
@@ -412,11 +477,12 @@ describe("Game Store", () => {
         icon: "✨",
       };
 
-      // Set dailyFeeds to 3 and sanity to 50
+      // Fill the stomach with three undigested offerings
       useGameStore.setState({
         inventory: [testItem],
         stats: { hunger: 50, sanity: 50, corruption: 50 },
         dailyFeeds: 3,
+        stomach: Array.from({ length: 3 }, () => ({ type: "ROT" as const, remaining: 240 })),
       });
 
       await store.feed("test-id");
@@ -426,15 +492,38 @@ describe("Game Store", () => {
 
       const state = useGameStore.getState();
       expect(state.dailyFeeds).toBe(4);
-      // PURITY adds 10 sanity, then vomit subtracts 20
-      // 50 + 10 - 20 = 40
-      expect(state.stats.sanity).toBe(40);
+      // Vomiting subtracts 20 sanity and flushes the stomach
+      expect(state.stats.sanity).toBe(30);
+      expect(state.stomach).toEqual([]);
       expect(state.logs.length).toBeGreaterThan(0);
       const vomitLog = state.logs[state.logs.length - 1];
       // Check for text content (mocked response will be "Test narrative text")
       expect(vomitLog.text.length).toBeGreaterThan(0);
     });
 
+    it("should apply the feed and vomit rules of the chosen difficulty", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000, "NIGHTMARE");
+      expect(useGameStore.getState().difficulty).toBe("NIGHTMARE");
+
+      useGameStore.setState({
+        inventory: [{ id: "test-id", type: "ROT", description: "Test item", icon: "🦴" }],
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+        stomach: [{ type: "PURITY", remaining: 300 }],
+      });
+
+      await store.feed("test-id");
+      expect(useGameStore.getState().stomach).toHaveLength(2);
+
+      useGameStore.setState({ inventory: [{ id: "test-id", type: "ROT", description: "Test item", icon: "🦴" }] });
+      await store.feed("test-id");
+
+      const state = useGameStore.getState();
+      // Nightmare ROT: -20 hunger, then a third offering overfills the two-offering stomach (-25 sanity)
+      expect(state.stats).toEqual({ hunger: 30, sanity: 25, corruption: 50 });
+      expect(state.vomitEffect.isActive).toBe(true);
+    });
+
     it("should not feed if item ID not found", () => {
       const store = useGameStore.getState();
       store.initializePet("TestPet", "GLOOM", 0xff0000);
@@ -480,21 +569,482 @@ describe("Game Store", () => {
 
       store.feed("purity-id");
 
-      const state = useGameStore.getState();
       // Hunger: 10 - 20 = -10, should clamp to 0
-      expect(state.stats.hunger).toBe(0);
-      // Sanity: 95 + 10 = 105, should clamp to 100
-      expect(state.stats.sanity).toBe(100);
-      // Corruption: 3 - 5 = -2, should clamp to 0
+      expect(useGameStore.getState().stats.hunger).toBe(0);
+
+      // Digest it: sanity 95 + 10 stays within 100, corruption 3 - 5 stops at 0
+      useGameStore.getState().tick(240);
+      const state = useGameStore.getState();
+      expect(state.stats.sanity).toBeGreaterThan(95);
+      expect(state.stats.sanity).toBeLessThanOrEqual(100);
       expect(state.stats.corruption).toBe(0);
     });
   });
+
+  describe("appraise", () => {
+    it("should keep a reading on the offering and cost sanity", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "ECHO", 0xff0000);
+
+      useGameStore.setState({
+        inventory: [{ id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" }],
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+      });
+
+      store.appraise("rot-id");
+
+      const state = useGameStore.getState();
+      const [item] = state.inventory;
+      expect(item.type).toBe("ROT");
+      expect(ITEM_TYPES).toContain(item.appraisal?.type);
+      expect(item.appraisal?.confidence).toBeGreaterThan(0);
+      expect(state.stats.sanity).toBe(45);
+      expect(state.logs[state.logs.length - 1].text).toMatch(/It seems \d+% /);
+    });
+
+    it("should ignore unknown offerings", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({ stats: { hunger: 50, sanity: 50, corruption: 50 } });
+
+      store.appraise("missing-id");
+
+      expect(useGameStore.getState().stats.sanity).toBe(50);
+    });
+  });
+
+  describe("stash", () => {
+    it("should move offerings into the stash and back, spoiling rot", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [{ id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" }],
+        age: 10,
+      });
+
+      store.stashItem("rot-id");
+      expect(useGameStore.getState().inventory).toEqual([]);
+      expect(useGameStore.getState().stash).toEqual([
+        { offering: { id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" }, stashedAt: 10 },
+      ]);
+
+      useGameStore.setState({ age: 10 + GAME_RULE_PRESETS.STANDARD.inventory.spoilMinutes });
+      store.retrieveItem("rot-id");
+
+      const state = useGameStore.getState();
+      expect(state.stash).toEqual([]);
+      expect(state.inventory[0]).toMatchObject({ id: "rot-id", type: "ROT", aspects: ["ROT"] });
+    });
+
+    it("should keep offerings stashed while the inventory is full", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [
+          { id: "1", type: "PURITY", description: "Item 1", icon: "✨" },
+          { id: "2", type: "ROT", description: "Item 2", icon: "🦴" },
+          { id: "3", type: "SWEET", description: "Item 3", icon: "🍬" },
+        ],
+        stash: [{ offering: { id: "4", type: "BONE", description: "Item 4", icon: "🦴" }, stashedAt: 0 }],
+      });
+
+      store.retrieveItem("4");
+
+      expect(useGameStore.getState().stash).toHaveLength(1);
+      expect(useGameStore.getState().inventory).toHaveLength(3);
+    });
+  });
+
+  describe("expeditions", () => {
+    it("should leave the pet alone until the keeper comes home", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({ age: 100 });
+
+      store.startExpedition("CELLAR");
+      expect(useGameStore.getState().expedition).toEqual({ location: "CELLAR", startedAt: 100, returnsAt: 160 });
+
+      // No second expedition, scavenging or placating while away
+      store.startExpedition("GRAVEYARD");
+      await store.scavenge();
+      await store.placate();
+      expect(useGameStore.getState().expedition?.location).toBe("CELLAR");
+      expect(useGameStore.getState().inventory).toEqual([]);
+      expect(useGameStore.getState().lastPlacateTime).toBeNull();
+
+      // Not due yet
+      await store.returnFromExpedition();
+      expect(useGameStore.getState().expedition).not.toBeNull();
+
+      useGameStore.setState({ age: 160 });
+      await store.returnFromExpedition();
+
+      const state = useGameStore.getState();
+      expect(state.expedition).toBeNull();
+      expect(state.inventory.reduce((sum, item) => sum + getQuantity(item), 0)).toBeGreaterThanOrEqual(1);
+      expect(state.logs.some((log) => !log.isPending && log.source === "PET")).toBe(true);
+    });
+
+    it("should only search locations that have opened", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+
+      store.setScavengeLocation("GRAVEYARD");
+      store.startExpedition("GRAVEYARD");
+      expect(useGameStore.getState().scavengeLocation).toBeNull();
+      expect(useGameStore.getState().expedition).toBeNull();
+
+      useGameStore.setState({ gameDay: 3, stage: "TEEN" });
+      store.setScavengeLocation("GRAVEYARD");
+      await store.scavenge();
+      expect(useGameStore.getState().scavengeLocation).toBe("GRAVEYARD");
+      expect(useGameStore.getState().inventory).toHaveLength(1);
+    });
+
+    it("should leave behind what does not fit in the inventory", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const full = [
+        { id: "1", type: "PURITY" as const, description: "Item 1", icon: "✨", quantity: 3 },
+        { id: "2", type: "ROT" as const, description: "Item 2", icon: "🍄", quantity: 3 },
+        { id: "3", type: "BONE" as const, description: "Item 3", icon: "🦴", quantity: 3 },
+      ];
+      useGameStore.setState({
+        inventory: full,
+        expedition: { location: "GRAVEYARD", startedAt: 0, returnsAt: 0 },
+      });
+
+      await store.returnFromExpedition();
+
+      const state = useGameStore.getState();
+      expect(state.expedition).toBeNull();
+      expect(state.inventory).toEqual(full);
+      expect(state.logs.some((log) => log.text.includes("No room to carry"))).toBe(true);
+    });
+
+    it("should still bring the finds home when the AI is unavailable", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({ expedition: { location: "CELLAR", startedAt: 0, returnsAt: 0 } });
+      const petLogs = useGameStore.getState().logs.filter((log) => log.source === "PET").length;
+      const offline = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+
+      try {
+        await Promise.all([store.returnFromExpedition(), store.returnFromExpedition()]);
+      } finally {
+        offline.mockRestore();
+      }
+
+      const state = useGameStore.getState();
+      expect(state.expedition).toBeNull();
+      const carried = state.inventory.reduce((sum, item) => sum + getQuantity(item), 0);
+      expect(carried).toBeGreaterThanOrEqual(1);
+      expect(state.inventory.every((item) => item.description.length > 0)).toBe(true);
+      expect(state.teeth).toBe(carried * TEETH_REWARDS.expeditionFind);
+      expect(state.logs.filter((log) => log.source === "PET")).toHaveLength(petLogs + 1);
+      expect(state.logs.some((log) => log.isPending)).toBe(false);
+    });
+  });
+
+  describe("performRitual", () => {
+    it("should craft a new offering and record the recipe", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [
+          { id: "pure-1", type: "PURITY", description: "Candle stub", icon: "🕯️" },
+          { id: "pure-2", type: "PURITY", description: "White feather", icon: "🤍" },
+          { id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" },
+        ],
+      });
+
+      await store.performRitual(["pure-2", "pure-1"]);
+
+      const state = useGameStore.getState();
+      expect(state.inventory.map((item) => item.type)).toEqual(["ROT", "MEDICINAL"]);
+      expect(state.discoveredRecipes).toEqual(["distillation"]);
+    });
+
+    it("should consume the offerings and cost sanity when nothing matches", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [
+          { id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" },
+          { id: "sweet-id", type: "SWEET", description: "Old candy", icon: "🍬" },
+        ],
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+      });
+
+      await store.performRitual(["rot-id", "sweet-id"]);
+
+      const state = useGameStore.getState();
+      expect(state.inventory).toEqual([]);
+      expect(state.stats.sanity).toBe(45);
+      expect(state.discoveredRecipes).toEqual([]);
+    });
+
+    it("should refuse without consuming anything when no slot is left for the result", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const inventory = [
+        { id: "pure-id", type: "PURITY" as const, description: "Candle stub", icon: "🕯️", quantity: 3 },
+        { id: "rot-id", type: "ROT" as const, description: "Soft fruit", icon: "🍄" },
+        { id: "sweet-id", type: "SWEET" as const, description: "Old candy", icon: "🍬" },
+      ];
+      useGameStore.setState({ inventory });
+
+      await store.performRitual(["pure-id", "pure-id"]);
+
+      const state = useGameStore.getState();
+      expect(state.inventory).toEqual(inventory);
+      expect(state.discoveredRecipes).toEqual([]);
+      expect(state.logs.some((log) => log.text.includes("no room"))).toBe(true);
+    });
+
+    it("should take two offerings from one stacked slot", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [{ id: "pure-id", type: "PURITY", description: "Candle stub", icon: "🕯️", quantity: 2 }],
+      });
+
+      await store.performRitual(["pure-id", "pure-id"]);
+
+      expect(useGameStore.getState().inventory.map((item) => item.type)).toEqual(["MEDICINAL"]);
+    });
+
+    it("should not run with a single offering", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        inventory: [{ id: "rot-id", type: "ROT", description: "Soft fruit", icon: "🍄" }],
+      });
+
+      await store.performRitual(["rot-id"]);
+
+      expect(useGameStore.getState().inventory).toHaveLength(1);
+    });
+  });
+
+  describe("triggerHaunt", () => {
+    const ghost = (deathCause: DeathCause): GhostData => ({
+      id: `ghost-${deathCause}`,
+      petName: "Old Bones",
+      archetype: "ECHO",
+      stage: "ELDER",
+      color: 0xaaaaaa,
+      deathCause,
+      deathTimestamp: 0,
+      finalCorruption: 0,
+      epitaph: "Here lies Old Bones.",
+    });
+
+    it("should cost sanity and leave night terrors", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({ stats: { hunger: 0, sanity: 40, corruption: 0 }, gameDay: 2 });
+
+      await store.triggerHaunt(false, ghost("INSANITY"));
+
+      const state = useGameStore.getState();
+      expect(state.stats.sanity).toBe(35);
+      expect(state.lastHauntGameDay).toBe(2);
+      expect(state.statusEffects.map((effect) => effect.type)).toContain("NIGHT_TERRORS");
+    });
+
+    it("should comfort instead when the ghost died of old age", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({ stats: { hunger: 0, sanity: 40, corruption: 0 }, gameDay: 2 });
+
+      await store.triggerHaunt(false, ghost("OLD_AGE"));
+
+      const state = useGameStore.getState();
+      expect(state.stats.sanity).toBe(45);
+      expect(state.lastHauntGameDay).toBe(2);
+      expect(state.statusEffects).toEqual([]);
+    });
+
+    it("should comfort when the simulation raises a haunt from a peaceful ghost", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      useGameStore.setState({
+        stage: "BABY",
+        age: 100,
+        gameDay: 2,
+        lastHauntGameDay: 1,
+        stats: { hunger: 0, sanity: 40, corruption: 0 },
+      });
+      replaceGhosts([ghost("OLD_AGE")]);
+      const random = vi.spyOn(Math, "random").mockReturnValue(0);
+
+      try {
+        store.tick();
+        await vi.waitFor(() => {
+          expect(useGameStore.getState().logs.some((log) => log.eventType === "haunt" && !log.isPending)).toBe(true);
+        });
+      } finally {
+        random.mockRestore();
+        replaceGhosts([]);
+      }
+
+      const state = useGameStore.getState();
+      expect(state.lastHauntGameDay).toBe(2);
+      expect(state.stats.sanity).toBeCloseTo(40 - 0.02 + 5);
+      expect(state.statusEffects).toEqual([]);
+    });
+  });
+
+  describe("night market", () => {
+    it("should sell a known offering for teeth, once a night", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const ware = getMarketStock(0).find((item) => item.kind === "offering")!;
+      useGameStore.setState({ teeth: ware.price + 1 });
+
+      store.buyWare(ware.id);
+      store.buyWare(ware.id);
+
+      const state = useGameStore.getState();
+      expect(state.teeth).toBe(1);
+      expect(state.soldWares).toEqual([ware.id]);
+      expect(state.inventory).toHaveLength(1);
+      expect(state.inventory[0].appraisal?.confidence).toBe(1);
+      expect(state.inventory[0].type).toBe(state.inventory[0].appraisal?.type);
+    });
+
+    it("should not sell without enough teeth, or wares from another night", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const ware = getMarketStock(0)[0];
+      useGameStore.setState({ teeth: ware.price - 1 });
+
+      store.buyWare(ware.id);
+      useGameStore.setState({ teeth: 100 });
+      store.buyWare(getMarketStock(1)[0].id);
+
+      const state = useGameStore.getState();
+      expect(state.teeth).toBe(100);
+      expect(state.soldWares).toEqual([]);
+    });
+
+    it("should put on a bought cosmetic, and take it off again", () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+      const ware = getMarketStock(2).find((item) => item.kind === "cosmetic")!;
+      useGameStore.setState({ teeth: 100, gameDay: 2 });
+
+      store.buyWare(ware.id);
+      const { cosmetics, equippedCosmetic } = useGameStore.getState();
+      expect(cosmetics).toHaveLength(1);
+      expect(equippedCosmetic).toBe(cosmetics[0]);
+
+      store.equipCosmetic(null);
+      expect(useGameStore.getState().equippedCosmetic).toBeNull();
+
+      // Only owned cosmetics can be worn
+      const unowned = COSMETIC_IDS.find((id) => !useGameStore.getState().cosmetics.includes(id))!;
+      store.equipCosmetic(unowned);
+      expect(useGameStore.getState().equippedCosmetic).toBeNull();
+    });
+
+    it("should pay teeth for scavenging and for surviving a day", async () => {
+      const store = useGameStore.getState();
+      store.initializePet("TestPet", "GLOOM", 0xff0000);
+
+      await store.scavenge();
+      expect(useGameStore.getState().teeth).toBe(TEETH_REWARDS.scavenge);
+
+      useGameStore.setState({ age: 1439 });
+      store.tick(1);
+      expect(useGameStore.getState().gameDay).toBe(1);
+      expect(useGameStore.getState().teeth).toBe(TEETH_REWARDS.scavenge + TEETH_REWARDS.dayRollover);
+    });
+  });
+});
+
+describe("pet roster", () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useGameStore.setState({ roster: [] });
+    localStorage.removeItem("creepy-companion-roster");
+  });
+
+  it("should move the active pet to the roster and show the picker", () => {
+    useGameStore.getState().initializePet("Gloomy", "GLOOM", 0x6b4c9a);
+    useGameStore.setState({ masterVolume: 0.3 });
+    useGameStore.getState().switchPet();
+
+    const state = useGameStore.getState();
+    expect(state.isInitialized).toBe(false);
+    expect(state.roster).toHaveLength(1);
+    expect(state.roster[0].pet.traits.name).toBe("Gloomy");
+    expect(state.masterVolume).toBe(0.3);
+    expect(JSON.parse(localStorage.getItem("creepy-companion-roster")!)).toHaveLength(1);
+  });
+
+  it("should swap pets and decay the one that was away", () => {
+    useGameStore.getState().initializePet("Gloomy", "GLOOM", 0x6b4c9a);
+    useGameStore.getState().switchPet();
+    useGameStore.getState().initializePet("Zappy", "SPARK", 0xffcc00);
+
+    // Gloomy has been in the roster for ten minutes
+    const [slot] = useGameStore.getState().roster;
+    useGameStore.setState({
+      roster: [{ ...slot, pet: { ...slot.pet, lastTickTime: Date.now() - 600_000 } }],
+    });
+
+    useGameStore.getState().loadPetSlot(slot.id);
+
+    const state = useGameStore.getState();
+    expect(state.traits.name).toBe("Gloomy");
+    expect(state.age).toBe(600);
+    expect(state.stats.hunger).toBeGreaterThan(0);
+    expect(state.roster.map((entry) => entry.pet.traits.name)).toEqual(["Zappy"]);
+  });
+
+  it("should release a pet from the roster", () => {
+    useGameStore.getState().initializePet("Gloomy", "GLOOM", 0x6b4c9a);
+    useGameStore.getState().switchPet();
+
+    const [slot] = useGameStore.getState().roster;
+    useGameStore.getState().deletePetSlot(slot.id);
+
+    expect(useGameStore.getState().roster).toEqual([]);
+    expect(localStorage.getItem("creepy-companion-roster")).toBeNull();
+  });
+});
+
+describe("log journal", () => {
+  it("should archive old entries and keep the full history readable", async () => {
+    useGameStore.getState().initializePet("Journal", "ECHO", 0x00ff00);
+    const logs = Array.from({ length: 151 }, (_, i) => ({
+      id: `journal-${i}`,
+      text: `Entry ${i}`,
+      source: "SYSTEM" as const,
+      timestamp: i,
+      ...(i === 0 ? { imageUrl: "https://example.com/first.png", imageStatus: "completed" as const } : {}),
+    }));
+    useGameStore.setState({ logs });
+
+    await vi.waitFor(() => expect(useGameStore.getState().archivedLogCount).toBe(51));
+
+    const state = useGameStore.getState();
+    expect(state.logs).toHaveLength(100);
+    expect(state.logs[0].id).toBe("journal-51");
+
+    const history = await state.getLogHistory();
+    expect(history.map((log) => log.id)).toEqual(logs.map((log) => log.id));
+    expect(await state.getCompletedImages()).toHaveLength(1);
+  });
 });
 
 describe("state persistence", () => {
   it("should save state to localStorage on state change", () => {
     const store = useGameStore.getState();
     store.initializePet("PersistTest", "GLOOM", 0xff0000);
+    flushSavedState();
 
     // Check that localStorage has the saved state
     const savedState = localStorage.getItem("creepy-companion-storage");
@@ -519,6 +1069,7 @@ describe("state persistence", () => {
     const savedHunger = useGameStore.getState().stats.hunger;
 
     // Simulate app restart by getting the saved state
+    flushSavedState();
     const savedState = localStorage.getItem("creepy-companion-storage");
     expect(savedState).toBeDefined();
 
@@ -551,21 +1102,20 @@ describe("state persistence", () => {
     );
   });
 
-  it("should trim logs when localStorage quota is exceeded", () => {
+  it("should save every log without trimming", () => {
     const store = useGameStore.getState();
     store.initializePet("LogTest", "ECHO", 0x0000ff);
 
-    // Add many logs to simulate quota issues
     for (let i = 0; i < 100; i++) {
       store.addLog(`Test log ${i}`, "SYSTEM");
     }
+    flushSavedState();
 
-    const state = useGameStore.getState();
-    expect(state.logs.length).toBe(100);
-
-    // The persistence middleware should handle this
-    // In a real quota exceeded scenario, it would trim to 50 logs
-    // We can't easily simulate QuotaExceededError in tests, but we verify the logic exists
+    // Logs are stored apart from the pet's state, so they never crowd it out
+    const saved = readSave("creepy-companion-storage");
+    expect(saved?.state.logs).toHaveLength(100);
+    expect(saved?.state.logs[99].text).toBe("Test log 99");
+    expect(JSON.parse(localStorage.getItem("creepy-companion-storage")!).state.logs).toBeUndefined();
   });
 
   it("should calculate offline decay correctly", () => {
@@ -597,6 +1147,100 @@ describe("state persistence", () => {
     expect(expectedAge).toBe(160);
   });
 
+  it("should resolve events that happened while away as backdated logs", async () => {
+    const store = useGameStore.getState();
+    store.initializePet("AwayTest", "GLOOM", 0xff0000);
+
+    // A starving pet left alone for 8 hours should die while away
+    useGameStore.setState({
+      stage: "TEEN",
+      age: 2000,
+      stats: { hunger: 95, sanity: 80, corruption: 10 },
+      lastTickTime: Date.now() - 8 * 60 * 60 * 1000,
+    });
+
+    await useGameStore.persist.rehydrate();
+
+    // Wait for dynamic import + death resolution
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const state = useGameStore.getState();
+    expect(state.isAlive).toBe(false);
+    expect(state.stats.hunger).toBe(100);
+    // Starved after ~50 minutes at 0.1/min, not after the full absence
+    expect(state.age).toBeLessThanOrEqual(2051);
+
+    const digest = state.logs.find((log) => log.text.startsWith("While you were gone…"));
+    expect(digest).toBeDefined();
+    expect(digest?.text).toContain("did not survive your absence");
+  });
+
+  it("should migrate and load a save from an older version", async () => {
+    // Write out earlier tests' saves first so they don't cover the old one
+    flushSavedState();
+    localStorage.setItem(
+      "creepy-companion-storage",
+      JSON.stringify({ ...SAVE_V0, state: { ...SAVE_V0.state, lastTickTime: Date.now() } })
+    );
+
+    await useGameStore.persist.rehydrate();
+
+    const state = useGameStore.getState();
+    expect(state.traits.name).toBe("Mochi");
+    expect(state.difficulty).toBe("STANDARD");
+    expect(state.inventory).toHaveLength(2);
+    flushSavedState();
+    expect(JSON.parse(localStorage.getItem("creepy-companion-storage")!).version).toBe(SAVE_VERSION);
+  });
+
+  it("should move inline images out of an older save", async () => {
+    flushSavedState();
+    localStorage.setItem(
+      "creepy-companion-storage",
+      JSON.stringify({
+        ...SAVE_V0,
+        state: {
+          ...SAVE_V0.state,
+          lastTickTime: Date.now(),
+          logs: [
+            { ...SAVE_V0.state.logs[0], imageUrl: "data:image/png;base64,OLD", imageStatus: "completed" },
+          ],
+        },
+      })
+    );
+
+    await useGameStore.persist.rehydrate();
+
+    await vi.waitFor(() => expect(useGameStore.getState().logs[0].imageId).toBeDefined());
+    const [log] = useGameStore.getState().logs;
+    expect(log.imageUrl).toBeUndefined();
+    expect(await loadImage(log.imageId!)).toBe("data:image/png;base64,OLD");
+    expect(await useGameStore.getState().getCompletedImages()).toHaveLength(1);
+
+    // Starting over releases the old pet's images
+    useGameStore.getState().startNewPet();
+    await vi.waitFor(async () => expect(await loadImage(log.imageId!)).toBeNull());
+  });
+
+  it("should import a save, keeping local settings on merge", async () => {
+    const imported = migrateSave(SAVE_V0.state, SAVE_V0.version) as unknown as PersistedGameState;
+    const file = await createSaveFile({ ...imported, masterVolume: 0.1, theme: "horror" }, []);
+
+    useGameStore.getState().initializePet("Local", "ECHO", 0x00ff00);
+    useGameStore.setState({ masterVolume: 0.9, theme: "cute" });
+    useGameStore.getState().importSave(file, "merge");
+
+    let state = useGameStore.getState();
+    expect(state.traits.name).toBe("Mochi");
+    expect(state.masterVolume).toBe(0.9);
+    expect(state.theme).toBe("cute");
+
+    useGameStore.getState().importSave(file, "replace");
+    state = useGameStore.getState();
+    expect(state.masterVolume).toBe(0.1);
+    expect(state.theme).toBe("horror");
+  });
+
   it("should not apply offline decay if pet is not alive", () => {
     const store = useGameStore.getState();
     store.initializePet("DeadTest", "GLOOM", 0xff0000);
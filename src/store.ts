@@ -1,12 +1,59 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { GameState, Archetype, LogSource, AudioState, SoundContext, Offering, Theme, ImageStatus, DeathData, DeathCause } from "./utils/types";
+import type { GameState, PersistedGameState, Archetype, Difficulty, SaveFile, ImportMode, LogSource, AudioState, SoundContext, Offering, Theme, ImageStatus, DeathData, DeathCause, SimulationEvent, SimulationResult, NarrativeLog, SaveSlot, LogFilters, StatusEffect, StomachItem, GhostData, StashedOffering, Expedition, LocationId, CosmeticId } from "./utils/types";
 import { logError, logWarning, logCritical, logInfo } from "./utils/errorLogger";
 import { soundManager } from "./utils/soundManager";
+import { simulate, applyFeed, applyPlacate } from "./utils/simulation";
+import { getGhostCounts, getHauntingGhost, loadGhosts, replaceGhosts } from "./utils/hauntSystem";
+import { addOffering, canAddOffering, getInventoryCapacity, getQuantity, hasRoomForFind, takeOffering, unstashOffering } from "./utils/inventoryUtils";
+import { getGameRules, DEFAULT_DIFFICULTY } from "./utils/gameRules";
+import { SAVE_VERSION, PREFERENCE_KEYS, migrateSave, validateSave } from "./utils/saveSchema";
+import { mergeGhosts } from "./utils/saveTransfer";
+import { createSaveSlot, loadRoster, restoreSaveSlot, saveRoster } from "./utils/saveSlots";
+import { canWriteSave, getTabRole } from "./utils/tabCoordinator";
+import { createSaveStorage } from "./utils/savePersistence";
+import { getLogImageIds, getLogImageUrl, hasLogImage, releaseImages, storeLogImages } from "./utils/imageStore";
+import { migrateCachedArt } from "./utils/petArtGenerator";
+import { MAX_RECENT_LOGS, archiveLogs, deleteJournal, getArchivableCount, readArchivedLogs } from "./utils/logJournal";
+import { EMPTY_LOG_FILTERS } from "./utils/logFilters";
+import { addStatusEffect } from "./utils/statusEffects";
+import { describeOffering, getItemWeights, rollWeightedOffering } from "./utils/offerings";
+import { appraiseOffering, formatAppraisal } from "./utils/appraisal";
+import { LOCATIONS, createExpedition, getLocationWeights, isLocationUnlocked, rollExpedition } from "./utils/expeditions";
+import { TEETH_REWARDS, applyConsumable, createMarketOffering, getMarketStock, getWareName, isWareFromDay } from "./utils/market";
+import { FAILED_RITUAL_SANITY_COST, MAX_RITUAL_OFFERINGS, MIN_RITUAL_OFFERINGS, applyRitual, createRitualOffering, findRecipe } from "./utils/rituals";
 
 // In-memory fallback storage for reactions when localStorage is unavailable (Requirement 10.4)
 let inMemoryReactions: Map<string, import("./utils/types").ReactionData[]> = new Map();
 
+// Set while triggerDeath is resolving so repeated death events are ignored
+let isDeathPending = false;
+
+// Set while returnFromExpedition is resolving so later ticks don't bring the keeper back twice
+let isExpeditionReturning = false;
+
+// Description for an expedition find when the AI cannot describe it
+const FALLBACK_FIND_DESCRIPTION = "Something you brought back. You don't remember picking it up.";
+
+/**
+ * Give a scavenged offering its AI description and an id.
+ */
+async function describeScavengedOffering(rolled: Pick<Offering, "type" | "aspects" | "icon">): Promise<Offering> {
+  const { generateText } = await import("./utils/aiClient");
+  const prompt = `Generate a one-sentence abstract description for a mysterious ${describeOffering(
+    rolled
+  )} offering. Be cryptic and unsettling.`;
+
+  const aiResponse = await generateText({ prompt, maxTokens: 50 });
+
+  // Create offering with UUID
+  return {
+    id: crypto.randomUUID(),
+    ...rolled,
+    description: aiResponse.text,
+  };
+}
+
 // ============================================
 // Compression Utilities for Story Summary (Requirement 14.4)
 // ============================================
@@ -70,16 +117,30 @@ const initialState = {
   stage: "EGG" as const,
   age: 0,
   isAlive: true,
+  difficulty: DEFAULT_DIFFICULTY as Difficulty,
   inventory: [],
   dailyFeeds: 0,
   gameDay: 0,
   logs: [],
+  petId: "",
+  archivedLogCount: 0,
   lastTickTime: Date.now(),
   currentPetSpriteUrl: null as string | null,
   // Death system state (Requirements 1.4, 6.4, 4.3)
   deathData: null as DeathData | null,
   lastPlacateTime: null as number | null,
   lastHauntGameDay: 0,
+  statusEffects: [] as StatusEffect[],
+  stomach: [] as StomachItem[],
+  discoveredRecipes: [] as string[],
+  stash: [] as StashedOffering[],
+  inventoryUpgrades: 0,
+  expedition: null as Expedition | null,
+  scavengeLocation: null as LocationId | null,
+  teeth: 0,
+  cosmetics: [] as CosmeticId[],
+  equippedCosmetic: null as CosmeticId | null,
+  soldWares: [] as string[],
   // Placate visual effect state (Requirement 7.1)
   placateEffect: {
     isActive: false,
@@ -103,6 +164,10 @@ const initialState = {
   galleryOpen: false,
   galleryFilter: "all" as import("./utils/types").GalleryFilter,
   galleryViewMode: "grid" as import("./utils/types").GalleryViewMode,
+  // Narrative log toolbar state
+  logFilters: EMPTY_LOG_FILTERS,
+  // Offerings waiting on the ritual altar
+  altarItemIds: [] as string[],
   // Visual traits for character consistency (narrative-enhancements)
   currentVisualTraits: null as import("./utils/types").VisualTraits | null,
   // Story summary cache (narrative-enhancements)
@@ -128,9 +193,6 @@ const initialSettingsState = {
   theme: "cute" as const,  // Default to cute theme (Requirement 1.4)
 };
 
-// Placate cooldown duration in game minutes (Requirement 6.4)
-const PLACATE_COOLDOWN_DURATION = 30;
-
 /**
  * Calculate remaining placate cooldown in game minutes.
  * Returns 0 if not on cooldown.
@@ -139,114 +201,316 @@ const PLACATE_COOLDOWN_DURATION = 30;
  */
 export const getPlacateCooldownRemaining = (
   lastPlacateTime: number | null,
-  currentAge: number
+  currentAge: number,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY
 ): number => {
   if (lastPlacateTime === null) {
     return 0;
   }
   
+  // Cooldown duration in game minutes (Requirement 6.4)
   const elapsed = currentAge - lastPlacateTime;
-  const remaining = PLACATE_COOLDOWN_DURATION - elapsed;
+  const remaining = getGameRules(difficulty).placate.cooldown - elapsed;
   
   return remaining > 0 ? remaining : 0;
 };
 
-// Helper function to calculate offline decay
-const calculateOfflineDecay = (state: any, elapsedRealSeconds: number) => {
+// Stage-based ambient mapping from design doc
+const STAGE_AMBIENT_MAP: Record<string, string> = {
+  EGG: "ambient_suburban_neighborhood_morning",
+  BABY: "ambient_rain_medium_2",
+  TEEN: "ambient_creepy_ambience_3",
+  ELDER: "ambient_old_house_creeky_metal_and_wood_ambiance_7",
+  ABOMINATION: "ambient_drone_doom",
+};
+
+/**
+ * Present the events produced by the simulation engine.
+ * The engine has already applied their stat effects; this only triggers
+ * narrative, sound and the death/insanity/haunt actions.
+ */
+const dispatchSimulationEvents = (events: SimulationEvent[]) => {
+  const store = useGameStore.getState();
+
+  for (const event of events) {
+    switch (event.type) {
+      case "evolution": {
+        const { fromStage, toStage, stats } = event;
+
+        // Add evolution log with AI narrative
+        import("./utils/narrativeGenerator").then(async ({ generateEvolutionNarrative, getPlaceholderText, buildNarrativeContext }) => {
+          const currentState = useGameStore.getState();
+          
+          // Build memory context (Requirements 5.1, 5.2, 5.3, 5.4)
+          const memoryContext = buildNarrativeContext(
+            currentState.logs,
+            { sanity: stats.sanity, corruption: stats.corruption }
+          );
+          
+          const placeholderType = fromStage === "EGG" ? "hatch" : "evolution";
+          const placeholderText = getPlaceholderText(placeholderType, currentState.traits.name);
+          // Requirement 4.1: Set autoGenerateImage for evolution events
+          const logId = currentState.addLog(placeholderText, "SYSTEM", true, "evolution");
+
+          logInfo("Evolution detected", { from: fromStage, to: toStage });
+
+          try {
+            const aiNarrative = await generateEvolutionNarrative({
+              petName: currentState.traits.name,
+              stage: toStage,
+              archetype: currentState.traits.archetype,
+              sanity: stats.sanity,
+              corruption: stats.corruption,
+              fromStage,
+              toStage,
+            }, undefined, memoryContext);
+            useGameStore.getState().updateLogText(logId, aiNarrative);
+          } catch (error) {
+            logWarning("Failed to generate evolution narrative", {
+              error: error instanceof Error ? error.message : "Unknown",
+            });
+          }
+        });
+
+        // Requirement 5.3: Play evolution sound and crossfade to stage ambient
+        store.playSound("evolution", { stage: toStage });
+        const newAmbient = STAGE_AMBIENT_MAP[toStage];
+        if (newAmbient) {
+          soundManager.setAmbient(newAmbient);
+        }
+        break;
+      }
+      case "death":
+        store.triggerDeath(event.cause);
+        break;
+      case "insanity":
+        store.triggerInsanityEvent(event.insanityType);
+        break;
+      case "haunt":
+        store.triggerHaunt(true, getHauntingGhost(event.peaceful) ?? undefined);
+        break;
+      case "dayRollover":
+        // Surviving another day is paid in teeth
+        useGameStore.setState((current) => ({ teeth: current.teeth + TEETH_REWARDS.dayRollover }));
+        logInfo("Game day advanced", { gameDay: event.gameDay });
+        break;
+    }
+  }
+};
+
+/**
+ * Resolve events that happened while the player was away.
+ * Each event becomes a log entry backdated to the game minute it happened,
+ * followed by a "While you were gone…" digest. An offline death is then
+ * resolved through the normal death flow.
+ */
+const resolveOfflineEvents = (events: SimulationEvent[], secondsAway: number) => {
+  import("./utils/narrativeGenerator").then(({ getOfflineEventText, buildOfflineDigest }) => {
+    const state = useGameStore.getState();
+    const petName = state.traits.name;
+
+    const backdatedLogs: NarrativeLog[] = events.flatMap((event): NarrativeLog[] => {
+      if (event.type !== "evolution" && event.type !== "insanity" && event.type !== "haunt") {
+        return [];
+      }
+
+      const ghost = event.type === "haunt" ? getHauntingGhost(event.peaceful) : null;
+
+      return [{
+        id: crypto.randomUUID(),
+        text: getOfflineEventText(event, petName, ghost?.petName, ghost?.deathCause),
+        source: event.type === "insanity" ? "PET" : "SYSTEM",
+        timestamp: event.age, // Game minute the event happened at
+        isPending: false,
+        eventType: event.type,
+      }];
+    });
+
+    const digestLog: NarrativeLog = {
+      id: crypto.randomUUID(),
+      text: buildOfflineDigest(petName, secondsAway, events),
+      source: "SYSTEM",
+      timestamp: state.age,
+      isPending: false,
+    };
+
+    useGameStore.setState((current) => ({
+      logs: [...current.logs, ...backdatedLogs, digestLog],
+    }));
+
+    const death = events.find((event) => event.type === "death");
+    if (death) {
+      useGameStore.getState().triggerDeath(death.cause);
+    }
+
+    logInfo("Offline events resolved", {
+      secondsAway,
+      eventCount: events.length,
+      died: death !== undefined,
+    });
+  });
+};
+
+/**
+ * Apply offline decay for the real time since the pet's last tick, both on
+ * page load and when a pet comes back from the roster.
+ */
+const catchUpOfflineTime = (state: GameState) => {
   if (!state.isInitialized || !state.isAlive) {
-    return state;
+    return;
   }
 
-  // 1 real second = 1 game minute
-  const gameMinutesElapsed = elapsedRealSeconds;
+  const now = Date.now();
+  const lastTick = state.lastTickTime || now;
+  const elapsedRealMs = now - lastTick;
+  const elapsedRealSeconds = Math.floor(elapsedRealMs / 1000);
+
+  // Only apply offline decay if more than 1 second has passed
+  if (elapsedRealSeconds > 0) {
+    // 1 real second = 1 game minute. The same rules as the live
+    // tick run over the whole absence, including random events.
+    const { state: decayedState, events } = simulate(
+      state,
+      elapsedRealSeconds,
+      Math.random,
+      { ...getGhostCounts(), rules: getGameRules(state.difficulty) }
+    );
+
+    // Update the store with decayed state, paying for the days survived
+    const daysSurvived = events.filter((event) => event.type === "dayRollover").length;
+    useGameStore.setState({
+      ...decayedState,
+      teeth: state.teeth + daysSurvived * TEETH_REWARDS.dayRollover,
+      lastTickTime: Date.now(),
+    });
 
-  // ============================================
-  // Starvation Consequences (Requirements 8.1, 8.2)
-  // ============================================
-  // For offline decay, we simulate minute-by-minute to properly apply
-  // accelerated decay rates when thresholds are crossed
-  
-  let currentHunger = state.stats.hunger;
-  let currentSanity = state.stats.sanity;
-  
-  for (let i = 0; i < gameMinutesElapsed; i++) {
-    // Base decay rates
-    let hungerIncreaseRate = 0.05;  // Base: 0.05 per minute
-    let sanityDecayRate = 0.02;     // Base: 0.02 per minute
-    
-    // Requirement 8.1: When hunger > 80, sanity decays at 0.05/min instead of 0.02/min
-    if (currentHunger > 80) {
-      sanityDecayRate = 0.05;
+    // Narrate what happened while away
+    if (elapsedRealSeconds >= 60 || events.length > 0) {
+      resolveOfflineEvents(events, elapsedRealSeconds);
     }
-    
-    // Requirement 8.2: When hunger >= 90, hunger increases at 0.1/min instead of 0.05/min
-    if (currentHunger >= 90) {
-      hungerIncreaseRate = 0.1;
+  }
+};
+
+/**
+ * Move images stored inline in logs (saves from before the image store,
+ * imported save files) into the image store, for the active pet and the
+ * roster. Logs keep the image id instead, so this only finds work once.
+ */
+const moveInlineImages = async (state: Pick<GameState, "logs" | "roster">) => {
+  try {
+    const storedLogs = new Map<string, NarrativeLog>();
+    for (const log of state.logs) {
+      const stored = await storeLogImages(log);
+      if (stored !== log) storedLogs.set(log.id, stored);
     }
-    
-    // Apply decay with calculated rates
-    currentHunger = Math.min(100, currentHunger + hungerIncreaseRate);
-    currentSanity = Math.max(0, currentSanity - sanityDecayRate);
-    
-    // Early exit if pet would die (hunger >= 100 or sanity <= 0)
-    if (currentHunger >= 100 || currentSanity <= 0) {
-      break;
+
+    const storedSlots = new Map<string, SaveSlot>();
+    for (const slot of state.roster) {
+      const logs = await Promise.all(slot.pet.logs.map(storeLogImages));
+      if (logs.some((log, index) => log !== slot.pet.logs[index])) {
+        storedSlots.set(slot.id, { ...slot, pet: { ...slot.pet, logs } });
+      }
     }
-  }
-  
-  const newHunger = currentHunger;
-  const newSanity = currentSanity;
-  const newAge = state.age + gameMinutesElapsed;
-
-  // Calculate daily resets
-  const minutesInDay = 24 * 60; // 1440 minutes
-  const oldDayCount = Math.floor(state.age / minutesInDay);
-  const newDayCount = Math.floor(newAge / minutesInDay);
-  const daysPassed = newDayCount - oldDayCount;
-
-  let newDailyFeeds = state.dailyFeeds;
-  let newGameDay = state.gameDay;
-
-  if (daysPassed > 0) {
-    newDailyFeeds = 0;
-    newGameDay = state.gameDay + daysPassed;
-  }
 
-  // Check for evolution
-  let newStage = state.stage;
+    if (storedLogs.size === 0 && storedSlots.size === 0) {
+      return;
+    }
 
-  // Corruption-based evolution (highest priority)
-  if (state.stats.corruption > 80 && state.stage !== "ABOMINATION") {
-    newStage = "ABOMINATION";
+    // Only the image fields change; the logs may have changed meanwhile
+    useGameStore.setState((current) => ({
+      logs: current.logs.map((log) => {
+        const stored = storedLogs.get(log.id);
+        if (!stored) return log;
+        return {
+          ...log,
+          imageUrl: stored.imageUrl,
+          imageId: stored.imageId,
+          sourceImages: stored.sourceImages,
+        };
+      }),
+      roster: current.roster.map((slot) => storedSlots.get(slot.id) ?? slot),
+    }));
+    if (storedSlots.size > 0) {
+      saveRoster(useGameStore.getState().roster);
+    }
+
+    logInfo("Moved inline images to the image store", {
+      logs: storedLogs.size,
+      pets: storedSlots.size,
+    });
+  } catch (error) {
+    logError(
+      "Failed to move images to the image store",
+      error instanceof Error ? error : undefined
+    );
   }
-  // Age-based evolution
-  else if (state.stage === "EGG" && newAge >= 5) {
-    newStage = "BABY";
-  } else if (state.stage === "BABY" && newAge >= 24 * 60) {
-    newStage = "TEEN";
+};
+
+/**
+ * Delete a pet's journal and release the images of its whole history.
+ */
+const releasePetHistory = async ({ petId, archivedLogCount, logs }: Pick<GameState, "petId" | "archivedLogCount" | "logs">) => {
+  const archived = await readArchivedLogs(petId, 0, archivedLogCount);
+  await releaseImages(getLogImageIds([...archived, ...logs]));
+  await deleteJournal(petId);
+};
+
+let isArchiving = false;
+
+/**
+ * Move the oldest log entries of the active pet to its journal, keeping a
+ * window of recent entries in the store (and in the save).
+ */
+const archiveOldLogs = async () => {
+  const { petId, logs, archivedLogCount } = useGameStore.getState();
+  const count = getArchivableCount(logs);
+  if (isArchiving || count === 0 || !petId) {
+    return;
   }
 
-  return {
-    ...state,
-    age: newAge,
-    stage: newStage,
-    stats: {
-      ...state.stats,
-      hunger: newHunger,
-      sanity: newSanity,
-    },
-    dailyFeeds: newDailyFeeds,
-    gameDay: newGameDay,
-    lastTickTime: Date.now(),
-  };
+  isArchiving = true;
+  try {
+    const archived = logs.slice(0, count);
+    await archiveLogs(petId, archivedLogCount, archived);
+
+    // Drop them from the store only once they are safely in the journal
+    const archivedIds = new Set(archived.map((log) => log.id));
+    useGameStore.setState((state) =>
+      state.petId === petId && state.archivedLogCount === archivedLogCount
+        ? {
+            logs: state.logs.filter((log) => !archivedIds.has(log.id)),
+            archivedLogCount: archivedLogCount + count,
+          }
+        : {}
+    );
+    logInfo("Archived log entries", { petId, count });
+  } catch (error) {
+    logError(
+      "Failed to archive log entries",
+      error instanceof Error ? error : undefined,
+      { petId, count }
+    );
+  } finally {
+    isArchiving = false;
+  }
 };
 
+// Saves are written at most every few seconds and on pagehide (see savePersistence.ts)
+const saveStorage = createSaveStorage({ canWrite: canWriteSave });
+
+/**
+ * Write any pending save right away, e.g. before reading it back.
+ */
+export const flushSavedState = (): void => saveStorage.flush();
+
 export const useGameStore = create<GameState>()(
   persist(
     (set, get) => ({
       ...initialState,
       ...initialAudioState,
       ...initialSettingsState,
+      roster: loadRoster(),
+      tabRole: getTabRole(),
 
       // ============================================
       // Audio Actions (Requirements 4.1, 4.2, 4.3, 4.4)
@@ -460,13 +724,13 @@ export const useGameStore = create<GameState>()(
 
           // SECONDARY: Previous narrative image from same log chain (for continuity)
           const previousLogs = state.logs.filter(
-            l => l.id !== logId && l.imageUrl && l.imageStatus === "completed"
+            l => l.id !== logId && hasLogImage(l)
           );
           if (previousLogs.length > 0) {
             // Get the most recent previous image
-            const lastImageLog = previousLogs[previousLogs.length - 1];
-            if (lastImageLog.imageUrl) {
-              sourceImages.push(lastImageLog.imageUrl);
+            const lastImageUrl = await getLogImageUrl(previousLogs[previousLogs.length - 1]);
+            if (lastImageUrl) {
+              sourceImages.push(lastImageUrl);
             }
           }
 
@@ -530,6 +794,7 @@ export const useGameStore = create<GameState>()(
             EGG: ["pulsing energy", "mysterious shell"],
             BABY: ["small vulnerable form", "developing features"],
             TEEN: ["growing body", "maturing characteristics"],
+            ELDER: ["greying fur", "stooped frame", "clouded eyes"],
             ABOMINATION: ["twisted form", "corrupted appearance", "horrific features"],
           };
           newVisualTraits.keyFeatures.push(...(stageFeatures[state.stage] || []));
@@ -546,15 +811,20 @@ export const useGameStore = create<GameState>()(
           // Store visual traits (Requirement 8.4)
           get().storeVisualTraits(logId, newVisualTraits);
 
+          // Keep the image data in the image store, out of the save
+          const imageLog = await storeLogImages({ ...log, imageUrl: result.imageUrl, sourceImages });
+          const replacedImageIds = getLogImageIds(get().logs.filter(l => l.id === logId));
+
           // Update log with generated image (Requirement 4.6)
           set({
             logs: get().logs.map(l =>
               l.id === logId
                 ? {
                     ...l,
-                    imageUrl: result.imageUrl,
+                    imageUrl: imageLog.imageUrl,
+                    imageId: imageLog.imageId,
                     imageStatus: "completed" as ImageStatus,
-                    sourceImages,
+                    sourceImages: imageLog.sourceImages,
                     visualTraits: newVisualTraits, // Store traits in log (Requirement 8.4)
                     generationProgress: undefined, // Clear progress on completion
                   }
@@ -562,6 +832,9 @@ export const useGameStore = create<GameState>()(
             ),
           });
 
+          // A regenerated image replaces the old one
+          void releaseImages(replacedImageIds);
+
           // Update the current pet sprite to use the latest generated image
           // This ensures the canvas displays the most recent narrative image
           get().updatePetSprite(result.imageUrl);
@@ -660,7 +933,7 @@ export const useGameStore = create<GameState>()(
       // Game Actions
       // ============================================
 
-      initializePet: (name: string, archetype: Archetype, color: number) => {
+      initializePet: (name: string, archetype: Archetype, color: number, difficulty: Difficulty = DEFAULT_DIFFICULTY) => {
         set({
           isInitialized: true,
           traits: {
@@ -676,156 +949,115 @@ export const useGameStore = create<GameState>()(
           stage: "EGG",
           age: 0,
           isAlive: true,
+          difficulty,
           inventory: [],
           dailyFeeds: 0,
           gameDay: 0,
           logs: [],
+          petId: crypto.randomUUID(),
+          archivedLogCount: 0,
           lastTickTime: Date.now(),
+          lastHauntGameDay: 0,
+          statusEffects: [],
+          stomach: [],
+          discoveredRecipes: [],
+          stash: [],
+          inventoryUpgrades: 0,
+          expedition: null,
+          scavengeLocation: null,
+          teeth: 0,
+          cosmetics: [],
+          equippedCosmetic: null,
+          soldWares: [],
         });
       },
 
-      tick: () => {
-        const state = get();
+      /**
+       * Load a pet from an imported save file.
+       * Replace takes everything from the file; merge keeps this device's
+       * preferences and adds the file's ghosts to the local ones.
+       * The pet resumes from the exported moment, without offline decay.
+       */
+      importSave: (file: SaveFile, mode: ImportMode) => {
+        const current = get();
+        const preferences = Object.fromEntries(PREFERENCE_KEYS.map((key) => [key, current[key]]));
+        const save = mode === "merge" ? { ...file.save, ...preferences } : file.save;
 
-        if (!state.isAlive || !state.isInitialized) {
-          return;
-        }
+        // The current pet moves to the roster instead of being overwritten
+        const roster = current.isInitialized
+          ? [...current.roster, createSaveSlot({ ...current, lastTickTime: Date.now() })]
+          : current.roster;
+        saveRoster(roster);
 
-        // Advance game time by 1 minute (1 real second = 1 game minute)
-        const newAge = state.age + 1;
+        set({
+          ...initialState,
+          ...save,
+          // Save files carry the whole history, and the pet may still exist here
+          petId: crypto.randomUUID(),
+          archivedLogCount: 0,
+          roster,
+          lastTickTime: Date.now(),
+        });
 
-        // ============================================
-        // Starvation Consequences (Requirements 8.1, 8.2)
-        // ============================================
-        
-        // Base decay rates
-        let hungerIncreaseRate = 0.05;  // Base: 0.05 per minute
-        let sanityDecayRate = 0.02;     // Base: 0.02 per minute
-        
-        // Requirement 8.1: When hunger > 80, sanity decays at 0.05/min instead of 0.02/min
-        if (state.stats.hunger > 80) {
-          sanityDecayRate = 0.05;
-        }
-        
-        // Requirement 8.2: When hunger >= 90, hunger increases at 0.1/min instead of 0.05/min
-        if (state.stats.hunger >= 90) {
-          hungerIncreaseRate = 0.1;
-        }
+        replaceGhosts(mode === "merge" ? mergeGhosts(loadGhosts(), file.ghosts) : file.ghosts);
 
-        // Apply decay with calculated rates
-        const newHunger = Math.min(100, state.stats.hunger + hungerIncreaseRate);
-        const newSanity = Math.max(0, state.stats.sanity - sanityDecayRate);
+        // Save files carry their images inline
+        void moveInlineImages(get());
 
-        // Check for daily reset (24 game hours = 1440 minutes)
-        let newDailyFeeds = state.dailyFeeds;
-        let newGameDay = state.gameDay;
-        const minutesInDay = 24 * 60; // 1440 minutes
+        // Apply imported audio settings (Requirement 4.2)
+        const { masterVolume, sfxVolume, ambientVolume, isMuted } = get();
+        soundManager.setMasterVolume(masterVolume);
+        soundManager.setSfxVolume(sfxVolume);
+        soundManager.setAmbientVolume(ambientVolume);
+        soundManager.setMuted(isMuted);
 
-        if (newAge > 0 && newAge % minutesInDay === 0) {
-          newDailyFeeds = 0;
-          newGameDay = state.gameDay + 1;
-        }
+        logInfo("Save imported", {
+          mode,
+          petName: file.save.traits.name,
+          ghosts: file.ghosts.length,
+        });
+      },
 
-        // Check for evolution
-        let newStage = state.stage;
-        let evolutionOccurred = false;
-        let fromStage = state.stage;
+      /**
+       * Advance the pet on the main thread (1 real second = 1 game minute).
+       * The game loop normally simulates in a worker and calls applySimulation.
+       */
+      tick: (minutes: number = 1) => {
+        const state = get();
 
-        // Corruption-based evolution (highest priority)
-        if (state.stats.corruption > 80 && state.stage !== "ABOMINATION") {
-          newStage = "ABOMINATION";
-          evolutionOccurred = true;
+        if (!state.isAlive || !state.isInitialized) {
+          return;
         }
-        // Age-based evolution
-        else if (state.stage === "EGG" && newAge >= 5) {
-          newStage = "BABY";
-          evolutionOccurred = true;
-        } else if (state.stage === "BABY" && newAge >= 24 * 60) {
-          // 24 hours = 1440 minutes
-          newStage = "TEEN";
-          evolutionOccurred = true;
+
+        get().applySimulation(
+          simulate(state, minutes, Math.random, {
+            ...getGhostCounts(),
+            rules: getGameRules(state.difficulty),
+          })
+        );
+      },
+
+      /**
+       * Apply minutes simulated elsewhere and present what happened:
+       * sanity ambient changes, narrative, sounds and the event actions.
+       */
+      applySimulation: ({ state: nextState, events }: SimulationResult) => {
+        const state = get();
+
+        if (!state.isAlive || !state.isInitialized) {
+          return;
         }
 
-        // Update state
         set({
-          age: newAge,
-          stage: newStage,
-          dailyFeeds: newDailyFeeds,
-          gameDay: newGameDay,
-          stats: {
-            ...state.stats,
-            hunger: newHunger,
-            sanity: newSanity,
-          },
+          ...nextState,
           lastTickTime: Date.now(),
         });
 
-        // Add evolution log with AI narrative if evolution occurred
-        if (evolutionOccurred) {
-          // Import narrative generator dynamically
-          import("./utils/narrativeGenerator").then(async ({ generateEvolutionNarrative, getPlaceholderText, buildNarrativeContext }) => {
-            const currentState = get();
-            
-            // Build memory context (Requirements 5.1, 5.2, 5.3, 5.4)
-            const memoryContext = buildNarrativeContext(
-              currentState.logs,
-              { sanity: newSanity, corruption: currentState.stats.corruption },
-              { sanity: state.stats.sanity, corruption: state.stats.corruption }
-            );
-            
-            const eventType = fromStage === "EGG" ? "hatch" : "evolution";
-            const placeholderText = getPlaceholderText(eventType, state.traits.name);
-            // Requirement 4.1: Set autoGenerateImage for evolution events
-            // Pass "evolution" as eventType to trigger auto-generation
-            const logId = get().addLog(placeholderText, "SYSTEM", true, "evolution");
-
-            // Log evolution for debugging
-            logInfo("Evolution detected", { from: fromStage, to: newStage });
-
-            try {
-              const aiNarrative = await generateEvolutionNarrative({
-                petName: state.traits.name,
-                stage: newStage,
-                archetype: state.traits.archetype,
-                sanity: newSanity,
-                corruption: currentState.stats.corruption,
-                fromStage,
-                toStage: newStage,
-              }, undefined, memoryContext);
-              get().updateLogText(logId, aiNarrative);
-            } catch (error) {
-              logWarning("Failed to generate evolution narrative", {
-                error: error instanceof Error ? error.message : "Unknown",
-              });
-            }
-          });
-        }
-
-        // Requirement 5.3: Play evolution sound when stage changes
-        if (newStage !== state.stage) {
-          // Call playSound with eventType "evolution" and new stage
-          get().playSound("evolution", {
-            stage: newStage,
-          });
-          
-          // Trigger ambient crossfade to stage-appropriate ambient
-          // Stage-based ambient mapping from design doc
-          const stageAmbientMap: Record<string, string> = {
-            EGG: "ambient_suburban_neighborhood_morning",
-            BABY: "ambient_rain_medium_2",
-            TEEN: "ambient_creepy_ambience_3",
-            ABOMINATION: "ambient_drone_doom",
-          };
-          const newAmbient = stageAmbientMap[newStage];
-          if (newAmbient) {
-            soundManager.setAmbient(newAmbient);
-          }
-        }
-
         // Requirements 5.4, 5.5: Sanity-based ambient management
         // Detect threshold crossing (above/below 30)
         const SANITY_THRESHOLD = 30;
         const previousSanity = state.stats.sanity;
+        const newSanity = nextState.stats.sanity;
         const crossedBelowThreshold = previousSanity >= SANITY_THRESHOLD && newSanity < SANITY_THRESHOLD;
         const crossedAboveThreshold = previousSanity < SANITY_THRESHOLD && newSanity >= SANITY_THRESHOLD;
 
@@ -834,118 +1066,53 @@ export const useGameStore = create<GameState>()(
           soundManager.setAmbient("ambient_creepy_ambience_3");
         } else if (crossedAboveThreshold) {
           // Sanity rose above 30 - switch to normal ambient based on stage
-          const stageAmbientMap: Record<string, string> = {
-            EGG: "ambient_suburban_neighborhood_morning",
-            BABY: "ambient_rain_medium_2",
-            TEEN: "ambient_creepy_ambience_3",
-            ABOMINATION: "ambient_drone_doom",
-          };
-          const normalAmbient = stageAmbientMap[newStage];
+          const normalAmbient = STAGE_AMBIENT_MAP[nextState.stage];
           if (normalAmbient) {
             soundManager.setAmbient(normalAmbient);
           }
         }
 
-        // ============================================
-        // Death Detection (Requirements 1.1, 1.2)
-        // ============================================
-        
-        // Check for death conditions AFTER state update
-        // Hunger >= 100 triggers STARVATION death
-        if (newHunger >= 100) {
-          get().triggerDeath("STARVATION");
-          return; // Stop tick processing after death
-        }
-        
-        // Sanity <= 0 triggers INSANITY death
-        if (newSanity <= 0) {
-          get().triggerDeath("INSANITY");
-          return; // Stop tick processing after death
-        }
-
-        // Check for critical events and add warnings (only on first occurrence)
-        if (newHunger >= 100 && state.stats.hunger < 100) {
-          get().addLog(`WARNING: ${state.traits.name} is starving!`, "SYSTEM");
-        }
+        dispatchSimulationEvents(events);
 
-        if (newSanity <= 0 && state.stats.sanity > 0) {
-          get().addLog(
-            `WARNING: ${state.traits.name} has lost all sanity!`,
-            "SYSTEM"
-          );
-        }
-
-        if (newDailyFeeds > 3 && state.dailyFeeds === 3) {
-          get().addLog(
-            `WARNING: ${state.traits.name} has eaten too much today!`,
-            "SYSTEM"
-          );
-        }
-
-        // ============================================
-        // Insanity Events (Requirements 10.1, 10.2)
-        // ============================================
-        // 1% chance per tick when sanity < 30
-        if (newSanity < 30) {
-          const insanityRoll = Math.random();
-          if (insanityRoll < 0.01) {
-            // Trigger insanity event asynchronously
-            get().triggerInsanityEvent();
-          }
+        // The keeper comes home once the expedition is due
+        if (state.expedition && nextState.age >= state.expedition.returnsAt) {
+          void get().returnFromExpedition();
         }
-
-        // ============================================
-        // Haunt Events (Requirements 4.1, 4.2, 4.3)
-        // ============================================
-        // Evaluate haunt trigger each tick when sanity < 50
-        // Uses shouldTriggerHaunt which checks:
-        // - Sanity < 50 threshold (Requirement 4.2)
-        // - 1% chance per tick (Requirement 4.2)
-        // - Max 1 haunt per game day (Requirement 4.3)
-        // - Ghosts exist in storage (Requirement 4.1)
-        import("./utils/hauntSystem").then(({ shouldTriggerHaunt }) => {
-          // Use the updated gameDay (newGameDay) for the check
-          const currentGameDay = newGameDay;
-          const lastHauntDay = get().lastHauntGameDay;
-          
-          if (shouldTriggerHaunt(newSanity, lastHauntDay, currentGameDay)) {
-            // Trigger haunt event asynchronously
-            get().triggerHaunt();
-          }
-        });
       },
 
       scavenge: async () => {
         const state = get();
 
-        // Check if inventory is full
-        if (state.inventory.length >= 3) {
+        // The keeper is out on an expedition
+        if (state.expedition) {
           return;
         }
 
-        // Generate random item type (50/50 PURITY/ROT)
-        const itemType: "PURITY" | "ROT" =
-          Math.random() < 0.5 ? "PURITY" : "ROT";
-
-        // Generate AI description
-        const { generateText } = await import("./utils/aiClient");
-        const prompt = `Generate a one-sentence abstract description for a mysterious ${
-          itemType === "PURITY" ? "pure" : "rotting"
-        } offering. Be cryptic and unsettling.`;
-
-        const aiResponse = await generateText({ prompt, maxTokens: 50 });
+        // Check inventory capacity before asking the AI for a description
+        const rules = getGameRules(state.difficulty);
+        if (!hasRoomForFind(state.inventory, getInventoryCapacity(state.inventoryUpgrades, rules))) {
+          return;
+        }
 
-        // Create offering with UUID
-        const offering = {
-          id: crypto.randomUUID(),
-          type: itemType,
-          description: aiResponse.text,
-          icon: itemType === "PURITY" ? "✨" : "🦴",
-        };
+        // Roll the hidden classes; what turns up depends on where the search
+        // is, and on stage and corruption
+        const { scavengeLocation: location, stage, stats } = state;
+        const weights =
+          location && isLocationUnlocked(location, state.gameDay, stage)
+            ? getLocationWeights(location, stage, stats.corruption)
+            : getItemWeights(stage, stats.corruption);
+        const offering = await describeScavengedOffering(rollWeightedOffering(weights));
+
+        // The inventory may have changed while the offering was described
+        const current = get();
+        const capacity = getInventoryCapacity(current.inventoryUpgrades, rules);
+        if (!hasRoomForFind(current.inventory, capacity)) {
+          return;
+        }
 
-        // Add to inventory
         set({
-          inventory: [...state.inventory, offering],
+          inventory: addOffering(current.inventory, offering, rules),
+          teeth: current.teeth + TEETH_REWARDS.scavenge,
         });
 
         // Requirement 5.2: Play discovery sound effect on successful scavenge
@@ -962,45 +1129,17 @@ export const useGameStore = create<GameState>()(
           return;
         }
 
-        // Apply stat changes based on item type
-        let newHunger = state.stats.hunger;
-        let newSanity = state.stats.sanity;
-        let newCorruption = state.stats.corruption;
+        // Relieve hunger and start digesting, vomiting past a full stomach
+        const { isOverfed, ...fed } = applyFeed(state, offering, getGameRules(state.difficulty));
+        const { sanity: newSanity, corruption: newCorruption } = fed.stats;
 
-        if (offering.type === "PURITY") {
-          newHunger = Math.max(0, state.stats.hunger - 20);
-          newSanity = Math.min(100, state.stats.sanity + 10);
-          newCorruption = Math.max(0, state.stats.corruption - 5);
-        } else {
-          // ROT
-          newHunger = Math.max(0, state.stats.hunger - 20);
-          newSanity = Math.max(0, state.stats.sanity - 15);
-          newCorruption = Math.min(100, state.stats.corruption + 10);
-        }
-
-        // Remove offering from inventory
-        const newInventory = state.inventory.filter(
-          (item) => item.id !== itemId
-        );
-
-        // Increment dailyFeeds counter
-        const newDailyFeeds = state.dailyFeeds + 1;
-        const isOverfed = newDailyFeeds > 3;
-
-        // Check for vomit event (more than 3 feeds)
-        if (isOverfed) {
-          newSanity = Math.max(0, newSanity - 20);
-        }
+        // Take one offering off its slot
+        const newInventory = takeOffering(state.inventory, itemId);
 
         // Update state immediately
         set({
-          stats: {
-            hunger: newHunger,
-            sanity: newSanity,
-            corruption: newCorruption,
-          },
+          ...fed,
           inventory: newInventory,
-          dailyFeeds: newDailyFeeds,
           // Trigger vomit effect if overfed (Requirement 9.2)
           ...(isOverfed && { vomitEffect: { isActive: true, timestamp: Date.now() } }),
         });
@@ -1061,6 +1200,7 @@ export const useGameStore = create<GameState>()(
               corruption: newCorruption,
               itemName: offering.description,
               itemType: offering.type,
+              aspects: offering.aspects,
               isOverfed,
             }, undefined, memoryContext);
           }
@@ -1082,6 +1222,389 @@ export const useGameStore = create<GameState>()(
         }
       },
 
+      /**
+       * Appraise an offering, spending sanity for a reading of its hidden
+       * class. The reading is kept on the offering and replaces any earlier one.
+       */
+      appraise: (itemId: string) => {
+        const state = get();
+
+        if (!state.isAlive) {
+          logWarning("Cannot appraise: pet is not alive");
+          return;
+        }
+
+        const offering = state.inventory.find((item) => item.id === itemId);
+        if (!offering) {
+          return;
+        }
+
+        // Read at the sanity the pet has before paying for it
+        const appraisal = appraiseOffering(offering, state.stats.sanity, state.traits.archetype);
+        const { sanityCost } = getGameRules(state.difficulty).appraisal;
+
+        set({
+          stats: { ...state.stats, sanity: Math.max(0, state.stats.sanity - sanityCost) },
+          inventory: state.inventory.map((item) => (item.id === itemId ? { ...item, appraisal } : item)),
+        });
+
+        get().addLog(
+          `${state.traits.name} stares at the ${offering.icon} until it stares back. It seems ${formatAppraisal(appraisal)}.`,
+          "SYSTEM"
+        );
+      },
+
+      /**
+       * Combine two or three offerings at the ritual altar.
+       * A matching recipe changes the pet, leaves a new offering or calls up a
+       * ghost, and is added to the recipe book; any other combination fails,
+       * costing sanity. The offerings are consumed either way, but only when
+       * a slot is left free for the result.
+       */
+      performRitual: async (itemIds: string[]) => {
+        const state = get();
+
+        if (!state.isAlive) {
+          logWarning("Cannot perform ritual: pet is not alive");
+          return;
+        }
+
+        // A stacked slot can give more than one offering
+        const offerings = itemIds
+          .map((id) => state.inventory.find((item) => item.id === id))
+          .filter((item): item is Offering => item !== undefined);
+        const hasEnough = offerings.every(
+          (item) => getQuantity(item) >= itemIds.filter((id) => id === item.id).length
+        );
+        if (
+          offerings.length !== itemIds.length ||
+          !hasEnough ||
+          offerings.length < MIN_RITUAL_OFFERINGS ||
+          offerings.length > MAX_RITUAL_OFFERINGS
+        ) {
+          logWarning("Cannot perform ritual: needs two or three offerings from the inventory", { itemIds });
+          return;
+        }
+
+        const rules = getGameRules(state.difficulty);
+        const remaining = itemIds.reduce((inventory, id) => takeOffering(inventory, id), state.inventory);
+
+        // What the altar gives back needs a free slot, so nothing is consumed without one
+        if (!hasRoomForFind(remaining, getInventoryCapacity(state.inventoryUpgrades, rules))) {
+          logWarning("Cannot perform ritual: no free slot for the result", { itemIds });
+          get().addLog("The altar will not take them. There is no room for what it might give back.", "SYSTEM");
+          return;
+        }
+
+        const recipe = findRecipe(offerings);
+
+        if (!recipe) {
+          const newSanity = Math.max(0, state.stats.sanity - FAILED_RITUAL_SANITY_COST);
+          set({
+            inventory: remaining,
+            stats: { ...state.stats, sanity: newSanity },
+          });
+
+          const logId = get().addLog(`The altar shudders under ${state.traits.name}'s gaze...`, "PET", true);
+          const { generateRitualFailureNarrative, buildNarrativeContext } = await import("./utils/narrativeGenerator");
+          const narrative = await generateRitualFailureNarrative(
+            {
+              petName: state.traits.name,
+              archetype: state.traits.archetype,
+              stage: state.stage,
+              sanity: newSanity,
+              corruption: state.stats.corruption,
+              offerings,
+            },
+            undefined,
+            buildNarrativeContext(
+              state.logs,
+              { sanity: newSanity, corruption: state.stats.corruption },
+              { sanity: state.stats.sanity, corruption: state.stats.corruption }
+            )
+          );
+          get().updateLogText(logId, narrative);
+          return;
+        }
+
+        const created = createRitualOffering(recipe);
+        set({
+          ...applyRitual(state, recipe),
+          inventory: created ? addOffering(remaining, { id: crypto.randomUUID(), ...created }, rules) : remaining,
+          inventoryUpgrades: recipe.upgradesInventory
+            ? Math.min(state.inventoryUpgrades + 1, rules.inventory.maxUpgrades)
+            : state.inventoryUpgrades,
+          discoveredRecipes: state.discoveredRecipes.includes(recipe.id)
+            ? state.discoveredRecipes
+            : [...state.discoveredRecipes, recipe.id],
+        });
+        get().addLog(`The altar accepts the ${recipe.name}. ${recipe.description}`, "SYSTEM");
+        logInfo("Ritual performed", { recipe: recipe.id });
+
+        if (recipe.summons) {
+          const { getRandomGhost } = await import("./utils/hauntSystem");
+          const ghost = getRandomGhost(recipe.summons);
+          if (ghost) {
+            await get().triggerHaunt(false, ghost);
+          } else {
+            get().addLog("Nothing answers the summons.", "SYSTEM");
+          }
+        }
+      },
+
+      /**
+       * Move a whole inventory slot into the stash, if the stash has room.
+       * Stashed offerings with rot in them keep spoiling.
+       */
+      stashItem: (itemId: string) => {
+        const state = get();
+        const offering = state.inventory.find((item) => item.id === itemId);
+        if (!offering) {
+          return;
+        }
+
+        if (state.stash.length >= getGameRules(state.difficulty).inventory.stashCapacity) {
+          logWarning("Cannot stash offering: stash is full");
+          return;
+        }
+
+        set({
+          inventory: state.inventory.filter((item) => item.id !== itemId),
+          stash: [...state.stash, { offering, stashedAt: state.age }],
+          altarItemIds: state.altarItemIds.filter((id) => id !== itemId),
+        });
+      },
+
+      /**
+       * Move an offering from the stash back into the inventory, with any
+       * rot it gathered while stashed.
+       */
+      retrieveItem: (itemId: string) => {
+        const state = get();
+        const stashed = state.stash.find((item) => item.offering.id === itemId);
+        if (!stashed) {
+          return;
+        }
+
+        const rules = getGameRules(state.difficulty);
+        const offering = unstashOffering(stashed, state.age, rules);
+        if (!canAddOffering(state.inventory, offering, getInventoryCapacity(state.inventoryUpgrades, rules), rules)) {
+          logWarning("Cannot retrieve offering: inventory is full");
+          return;
+        }
+
+        set({
+          inventory: addOffering(state.inventory, offering, rules),
+          stash: state.stash.filter((item) => item !== stashed),
+        });
+      },
+
+      /**
+       * Send the keeper out to search a location. The pet is left alone,
+       * with no one to placate it, until the expedition is due.
+       */
+      startExpedition: (location: LocationId) => {
+        const state = get();
+
+        if (!state.isAlive) {
+          logWarning("Cannot start expedition: pet is not alive");
+          return;
+        }
+
+        if (state.expedition) {
+          logWarning("Cannot start expedition: keeper is already away", { location: state.expedition.location });
+          return;
+        }
+
+        if (!isLocationUnlocked(location, state.gameDay, state.stage)) {
+          logWarning("Cannot start expedition: location is locked", { location });
+          return;
+        }
+
+        set({ expedition: createExpedition(location, state.age) });
+        get().addLog(`You set out for ${LOCATIONS[location].name}. ${state.traits.name} watches the door close.`, "SYSTEM");
+        logInfo("Expedition started", { location });
+      },
+
+      /**
+       * Choose where scavenging searches, from the unlocked locations.
+       * Null searches around the house.
+       */
+      setScavengeLocation: (location: LocationId | null) => {
+        const state = get();
+        if (location && !isLocationUnlocked(location, state.gameDay, state.stage)) {
+          logWarning("Cannot scavenge there: location is locked", { location });
+          return;
+        }
+        set({ scavengeLocation: location });
+      },
+
+      /**
+       * Bring the keeper home from a due expedition: roll what was found and
+       * what happened out there, carry back what fits in the inventory and
+       * narrate the return.
+       */
+      returnFromExpedition: async () => {
+        const state = get();
+        const { expedition } = state;
+
+        if (isExpeditionReturning || !state.isAlive || !expedition || state.age < expedition.returnsAt) {
+          return;
+        }
+
+        isExpeditionReturning = true;
+        try {
+          const location = LOCATIONS[expedition.location];
+          const { finds, encounter } = rollExpedition(expedition.location, state.stage, state.stats.corruption);
+          const sanityCost = encounter?.sanityCost ?? 0;
+
+          // A find the AI cannot describe is still carried home
+          const offerings = await Promise.all(
+            finds.map(async (find) => {
+              try {
+                return await describeScavengedOffering(find);
+              } catch (error) {
+                logWarning("Failed to describe expedition find, using fallback", {
+                  error: error instanceof Error ? error.message : "Unknown",
+                  location: expedition.location,
+                });
+                return { id: crypto.randomUUID(), ...find, description: FALLBACK_FIND_DESCRIPTION };
+              }
+            })
+          );
+
+          // Whatever does not fit in the inventory is left behind
+          const current = get();
+          const rules = getGameRules(current.difficulty);
+          const capacity = getInventoryCapacity(current.inventoryUpgrades, rules);
+          const { inventory, carried } = offerings.reduce(
+            (bag, offering) =>
+              canAddOffering(bag.inventory, offering, capacity, rules)
+                ? { inventory: addOffering(bag.inventory, offering, rules), carried: bag.carried + 1 }
+                : bag,
+            { inventory: current.inventory, carried: 0 }
+          );
+          const newSanity = Math.max(0, current.stats.sanity - sanityCost);
+          set({
+            expedition: null,
+            stats: { ...current.stats, sanity: newSanity },
+            inventory,
+            teeth: current.teeth + carried * TEETH_REWARDS.expeditionFind,
+          });
+
+          const logId = get().addLog(`The door opens. You are back from ${location.name}...`, "PET", true, "expedition");
+          soundManager.play("character_woosh");
+
+          const { generateExpeditionNarrative, buildNarrativeContext } = await import("./utils/narrativeGenerator");
+          const narrative = await generateExpeditionNarrative(
+            {
+              petName: state.traits.name,
+              archetype: state.traits.archetype,
+              stage: state.stage,
+              sanity: newSanity,
+              corruption: current.stats.corruption,
+              locationName: location.name,
+              minutesAway: state.age - expedition.startedAt,
+              finds,
+              encounter: encounter?.description,
+            },
+            undefined,
+            buildNarrativeContext(
+              current.logs,
+              { sanity: newSanity, corruption: current.stats.corruption },
+              { sanity: current.stats.sanity, corruption: current.stats.corruption }
+            )
+          );
+          get().updateLogText(logId, narrative);
+
+          if (encounter) {
+            get().addLog(encounter.description, "SYSTEM");
+          }
+          const leftBehind = offerings.length - carried;
+          if (leftBehind > 0) {
+            get().addLog(`No room to carry ${leftBehind} of what you found. It stays out there.`, "SYSTEM");
+          }
+          logInfo("Expedition returned", { location: expedition.location, finds: finds.length, carried });
+        } finally {
+          isExpeditionReturning = false;
+        }
+      },
+
+      /**
+       * Buy a ware from tonight's stock at the night market with teeth.
+       * Offerings go into the inventory already appraised, consumables work
+       * on the pet at once and cosmetics are put on.
+       */
+      buyWare: (wareId: string) => {
+        const state = get();
+
+        if (!state.isAlive) {
+          logWarning("Cannot buy: pet is not alive");
+          return;
+        }
+
+        if (state.expedition) {
+          logWarning("Cannot buy: keeper is away on an expedition");
+          return;
+        }
+
+        const ware = getMarketStock(state.gameDay).find((item) => item.id === wareId);
+        if (!ware || state.soldWares.includes(wareId)) {
+          logWarning("Cannot buy: ware is not on sale tonight", { wareId });
+          return;
+        }
+
+        if (state.teeth < ware.price) {
+          logWarning("Cannot buy: not enough teeth", { wareId, price: ware.price, teeth: state.teeth });
+          return;
+        }
+
+        if (ware.kind === "cosmetic" && state.cosmetics.includes(ware.cosmetic)) {
+          logWarning("Cannot buy: cosmetic is already owned", { cosmetic: ware.cosmetic });
+          return;
+        }
+
+        const rules = getGameRules(state.difficulty);
+        const offering = ware.kind === "offering"
+          ? { id: crypto.randomUUID(), ...createMarketOffering(ware.itemType) }
+          : null;
+        if (
+          offering &&
+          !canAddOffering(state.inventory, offering, getInventoryCapacity(state.inventoryUpgrades, rules), rules)
+        ) {
+          logWarning("Cannot buy: inventory is full");
+          return;
+        }
+
+        set({
+          teeth: state.teeth - ware.price,
+          // Only tonight's sales are kept
+          soldWares: [...state.soldWares.filter((id) => isWareFromDay(id, state.gameDay)), wareId],
+          ...(offering && { inventory: addOffering(state.inventory, offering, rules) }),
+          ...(ware.kind === "consumable" && applyConsumable(state, ware.consumable)),
+          ...(ware.kind === "cosmetic" && {
+            cosmetics: [...state.cosmetics, ware.cosmetic],
+            equippedCosmetic: ware.cosmetic,
+          }),
+        });
+
+        get().addLog(`You trade ${ware.price} teeth at the night market for ${getWareName(ware).toLowerCase()}.`, "SYSTEM");
+        soundManager.play("character_woosh");
+        logInfo("Ware bought", { wareId, price: ware.price });
+      },
+
+      /**
+       * Put on one of the pet's cosmetics, or take it off with null.
+       */
+      equipCosmetic: (cosmetic: CosmeticId | null) => {
+        const state = get();
+        if (cosmetic && !state.cosmetics.includes(cosmetic)) {
+          logWarning("Cannot equip cosmetic: not owned", { cosmetic });
+          return;
+        }
+        set({ equippedCosmetic: cosmetic });
+      },
+
       reorderInventory: (newInventory: Offering[]) => {
         // Update inventory order and persist to localStorage
         set({ inventory: newInventory });
@@ -1141,10 +1664,12 @@ export const useGameStore = create<GameState>()(
       triggerDeath: async (cause: DeathCause) => {
         const state = get();
         
-        // Don't trigger death if already dead
-        if (!state.isAlive) {
+        // Don't trigger death if already dead, or while a death is being
+        // resolved (ticks keep running while the narrative is generated)
+        if (!state.isAlive || isDeathPending) {
           return;
         }
+        isDeathPending = true;
 
         // Import narrative generator for death narrative and epitaph
         const { generateDeathNarrative, generateEpitaph } = await import("./utils/narrativeGenerator");
@@ -1216,6 +1741,7 @@ export const useGameStore = create<GameState>()(
           isAlive: false,
           deathData,
         });
+        isDeathPending = false;
 
         // Add death log entry with auto-generation (Requirement 4.2)
         get().addLog(deathNarrative, "SYSTEM", false, "death");
@@ -1250,6 +1776,9 @@ export const useGameStore = create<GameState>()(
        * Requirements: 5.3, 5.4
        */
       startNewPet: () => {
+        // The old pet's journal and images go with it
+        void releasePetHistory(get());
+
         // Reset game state to initial values
         // Ghost data is stored in separate localStorage key ("creepy-companion-ghosts")
         // and is NOT affected by this reset
@@ -1268,6 +1797,82 @@ export const useGameStore = create<GameState>()(
         logInfo("New pet started - game state reset");
       },
 
+      // ============================================
+      // Pet Roster Actions
+      // ============================================
+
+      /**
+       * Put the active pet into the roster and return to the slot picker.
+       * Preferences stay with the device; the pet keeps decaying while away.
+       */
+      switchPet: () => {
+        const state = get();
+        if (!state.isInitialized) {
+          return;
+        }
+
+        const roster = [...state.roster, createSaveSlot({ ...state, lastTickTime: Date.now() })];
+        saveRoster(roster);
+
+        set({
+          ...initialState,
+          roster,
+          isInitialized: false,
+          lastTickTime: Date.now(),
+        });
+
+        logInfo("Pet moved to roster", { petName: state.traits.name, rosterSize: roster.length });
+      },
+
+      /**
+       * Make a pet from the roster the active pet.
+       * An active pet takes its place in the roster. The loaded pet catches up
+       * on the time it spent in the roster with the normal offline decay.
+       */
+      loadPetSlot: (slotId: string) => {
+        const current = get();
+        const slot = current.roster.find((entry) => entry.id === slotId);
+        if (!slot) {
+          logWarning("Cannot load pet: slot not found", { slotId });
+          return;
+        }
+
+        const roster = current.roster.filter((entry) => entry.id !== slotId);
+        if (current.isInitialized) {
+          roster.push(createSaveSlot({ ...current, lastTickTime: Date.now() }));
+        }
+        saveRoster(roster);
+
+        const { state, repairs } = restoreSaveSlot(slot, { ...current, ...initialState });
+        if (repairs.length > 0) {
+          logWarning("Repaired pet from roster", { slotId, repairs });
+        }
+
+        set({
+          ...initialState,
+          ...state,
+          roster,
+        });
+
+        logInfo("Pet loaded from roster", { petName: state.traits.name, slotId });
+
+        catchUpOfflineTime(get());
+      },
+
+      /**
+       * Release a pet from the roster for good.
+       */
+      deletePetSlot: (slotId: string) => {
+        const released = get().roster.find((entry) => entry.id === slotId);
+        const roster = get().roster.filter((entry) => entry.id !== slotId);
+        saveRoster(roster);
+        if (released) {
+          void releasePetHistory(released.pet);
+        }
+        set({ roster });
+        logInfo("Pet released from roster", { slotId });
+      },
+
       // ============================================
       // Placate Action (Requirements 6.1, 6.2, 6.3, 6.4, 6.6)
       // ============================================
@@ -1275,8 +1880,8 @@ export const useGameStore = create<GameState>()(
       /**
        * Execute placate action to restore sanity.
        * - Check isAlive and cooldown before executing
-       * - Increase sanity by 15 (or 5 if sanity >= 80 and corruption < 50)
-       * - Increase hunger by 5
+       * - Increase sanity by the rules' gain (reduced when calm and mostly pure)
+       * - Increase hunger by the rules' hunger cost
        * - Set lastPlacateTime to current age
        * - Play placate sound
        * 
@@ -1294,33 +1899,27 @@ export const useGameStore = create<GameState>()(
         // Check cooldown (Requirement 6.4)
         const cooldownRemaining = getPlacateCooldownRemaining(
           state.lastPlacateTime,
-          state.age
+          state.age,
+          state.difficulty
         );
         if (cooldownRemaining > 0) {
           logWarning("Cannot placate: on cooldown", { cooldownRemaining });
           return;
         }
 
-        // Calculate sanity increase (Requirements 6.1, 6.2)
-        // Normal: +15 sanity
-        // Reduced: +5 sanity if sanity >= 80 AND corruption < 50
-        let sanityIncrease = 15;
-        if (state.stats.sanity >= 80 && state.stats.corruption < 50) {
-          sanityIncrease = 5;
+        // Nobody is home to comfort it while the keeper is on an expedition
+        if (state.expedition) {
+          logWarning("Cannot placate: keeper is away on an expedition");
+          return;
         }
 
-        const newSanity = Math.min(100, state.stats.sanity + sanityIncrease);
-        
-        // Increase hunger by 5 (Requirement 6.3)
-        const newHunger = Math.min(100, state.stats.hunger + 5);
+        // Restore sanity at the cost of hunger (Requirements 6.1, 6.2, 6.3)
+        const { stats: newStats, sanityIncrease } = applyPlacate(state.stats, getGameRules(state.difficulty));
+        const { sanity: newSanity, hunger: newHunger } = newStats;
 
         // Update state
         set({
-          stats: {
-            ...state.stats,
-            sanity: newSanity,
-            hunger: newHunger,
-          },
+          stats: newStats,
           // Set lastPlacateTime to current age (Requirement 6.4)
           lastPlacateTime: state.age,
         });
@@ -1442,14 +2041,15 @@ export const useGameStore = create<GameState>()(
 
       /**
        * Trigger an insanity event with random event type.
-       * - Select random InsanityEventType (WHISPERS, SHADOWS, GLITCH, INVERSION)
+       * - Select random InsanityEventType (WHISPERS, SHADOWS, GLITCH, INVERSION),
+       *   or use the one rolled by the simulation engine
        * - Play appropriate sound based on event type
        * - Generate insanity narrative
        * - Trigger visual effect
        * 
        * Requirements: 10.1, 10.2, 10.3, 10.4, 10.5, 10.6
        */
-      triggerInsanityEvent: async () => {
+      triggerInsanityEvent: async (forcedEventType?: import("./utils/types").InsanityEventType) => {
         const state = get();
 
         // Don't trigger if pet is not alive
@@ -1457,13 +2057,14 @@ export const useGameStore = create<GameState>()(
           return;
         }
 
-        // Select random InsanityEventType (Requirement 10.2)
+        // Select random InsanityEventType unless the simulation already rolled one (Requirement 10.2)
         const eventTypes: import("./utils/types").InsanityEventType[] = ["WHISPERS", "SHADOWS", "GLITCH", "INVERSION"];
-        const randomIndex = Math.floor(Math.random() * eventTypes.length);
-        const eventType = eventTypes[randomIndex];
+        const eventType = forcedEventType ?? eventTypes[Math.floor(Math.random() * eventTypes.length)];
 
-        // Trigger visual effect (Requirement 10.6)
+        // Trigger visual effect (Requirement 10.6); the simulation leaves
+        // night terrors behind for the events it rolls itself
         set({
+          ...(!forcedEventType && { statusEffects: addStatusEffect(state.statusEffects, "NIGHT_TERRORS") }),
           insanityEffect: {
             isActive: true,
             eventType,
@@ -1551,14 +2152,15 @@ export const useGameStore = create<GameState>()(
       /**
        * Trigger a haunt event from a deceased pet's ghost.
        * - Select random ghost from storage
-       * - Reduce sanity by 5
+       * - Reduce sanity by 5 (or restore 5 for a peaceful ghost) and update
+       *   lastHauntGameDay (skipped when the simulation engine has already
+       *   applied the haunt's effects)
        * - Generate haunt narrative
-       * - Update lastHauntGameDay
        * - Play haunt sound
        * 
        * Requirements: 4.4, 4.5, 4.6
        */
-      triggerHaunt: async () => {
+      triggerHaunt: async (effectsApplied = false, summonedGhost?: GhostData) => {
         const state = get();
 
         // Don't trigger if pet is not alive
@@ -1567,26 +2169,34 @@ export const useGameStore = create<GameState>()(
         }
 
         // Import haunt system functions
-        const { getRandomGhost } = await import("./utils/hauntSystem");
+        const { getRandomGhost, isPeacefulGhost, HAUNT_SANITY_PENALTY } = await import("./utils/hauntSystem");
 
-        // Select random ghost from storage (Requirement 4.3)
-        const ghost = getRandomGhost();
+        // Select random ghost from storage unless a ritual called one up (Requirement 4.3)
+        const ghost = summonedGhost ?? getRandomGhost();
         if (!ghost) {
           logWarning("Cannot trigger haunt: no ghosts available");
           return;
         }
 
-        // Reduce sanity by 5 (Requirement 4.5)
-        const newSanity = Math.max(0, state.stats.sanity - 5);
+        // Reduce sanity by 5 (Requirement 4.5); a ghost that died of old age
+        // comforts the pet and gives as much back instead
+        const isPeaceful = isPeacefulGhost(ghost);
+        const sanityChange = isPeaceful ? HAUNT_SANITY_PENALTY : -HAUNT_SANITY_PENALTY;
+        const clampSanity = (sanity: number) => Math.min(100, Math.max(0, sanity));
+        const previousSanity = effectsApplied ? clampSanity(state.stats.sanity - sanityChange) : state.stats.sanity;
+        const newSanity = effectsApplied ? state.stats.sanity : clampSanity(previousSanity + sanityChange);
 
         // Update state with new sanity and lastHauntGameDay
-        set({
-          stats: {
-            ...state.stats,
-            sanity: newSanity,
-          },
-          lastHauntGameDay: state.gameDay,
-        });
+        if (!effectsApplied) {
+          set({
+            stats: {
+              ...state.stats,
+              sanity: newSanity,
+            },
+            lastHauntGameDay: state.gameDay,
+            statusEffects: isPeaceful ? state.statusEffects : addStatusEffect(state.statusEffects, "NIGHT_TERRORS"),
+          });
+        }
 
         // Play haunt sound (Requirement 4.6)
         get().playSound("haunt", {
@@ -1605,7 +2215,7 @@ export const useGameStore = create<GameState>()(
           const memoryContext = buildNarrativeContext(
             state.logs,
             { sanity: newSanity, corruption: state.stats.corruption },
-            { sanity: state.stats.sanity, corruption: state.stats.corruption }
+            { sanity: previousSanity, corruption: state.stats.corruption }
           );
           
           // Add placeholder log immediately
@@ -1638,7 +2248,7 @@ export const useGameStore = create<GameState>()(
         logInfo("Haunt event triggered", {
           ghostName: ghost.petName,
           ghostArchetype: ghost.archetype,
-          sanityReduction: 5,
+          sanityChange,
           newSanity,
           gameDay: state.gameDay,
         });
@@ -1835,6 +2445,7 @@ export const useGameStore = create<GameState>()(
           // Update log with selected choice (Requirement 6.3)
           set({
             stats: newStats,
+            teeth: state.teeth + TEETH_REWARDS.dialogueChoice,
             logs: state.logs.map(l =>
               l.id === logId && l.dialogueChoice
                 ? {
@@ -1928,17 +2539,24 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
       // Gallery System Actions (Requirements 1.1, 2.2)
       // ============================================
 
+      /**
+       * Get the pet's whole life history, including the archived entries.
+       */
+      getLogHistory: async () => {
+        const { petId, archivedLogCount, logs } = get();
+        const archived = await readArchivedLogs(petId, 0, archivedLogCount);
+        return [...archived, ...logs];
+      },
+
       /**
        * Get all completed images from narrative logs.
-       * Returns logs with imageStatus === "completed" and imageUrl !== null.
+       * Returns logs with imageStatus === "completed" and a stored image or URL.
        * 
        * Requirement 1.1: Display all narrative log images with completed status
        */
-      getCompletedImages: (): import("./utils/types").NarrativeLog[] => {
-        const state = get();
-        return state.logs.filter(
-          log => log.imageStatus === "completed" && log.imageUrl !== null && log.imageUrl !== undefined
-        );
+      getCompletedImages: async (): Promise<import("./utils/types").NarrativeLog[]> => {
+        const logs = await get().getLogHistory();
+        return logs.filter(hasLogImage);
       },
 
       /**
@@ -1947,14 +2565,10 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
        * 
        * Requirement 2.2: Filter images by event type
        */
-      getImagesByEventType: (eventType: import("./utils/types").EventType): import("./utils/types").NarrativeLog[] => {
-        const state = get();
-        return state.logs.filter(
-          log => 
-            log.imageStatus === "completed" && 
-            log.imageUrl !== null && 
-            log.imageUrl !== undefined &&
-            log.eventType === eventType
+      getImagesByEventType: async (eventType: import("./utils/types").EventType): Promise<import("./utils/types").NarrativeLog[]> => {
+        const logs = await get().getLogHistory();
+        return logs.filter(
+          log => hasLogImage(log) && log.eventType === eventType
         );
       },
 
@@ -1985,6 +2599,44 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
         set({ galleryViewMode: viewMode });
       },
 
+      /**
+       * Update the narrative log's filters and search.
+       */
+      setLogFilters: (filters: Partial<LogFilters>) => {
+        set((state) => ({ logFilters: { ...state.logFilters, ...filters } }));
+      },
+
+      /**
+       * Put an offering on the ritual altar, unless its whole stack is there
+       * already or the altar is full. Offerings no longer in the inventory
+       * are cleared off.
+       */
+      placeOnAltar: (itemId: string) => {
+        set((state) => {
+          const placed = state.altarItemIds.filter((id) => state.inventory.some((item) => item.id === id));
+          const item = state.inventory.find((offering) => offering.id === itemId);
+          const onAltar = placed.filter((id) => id === itemId).length;
+          if (!item || onAltar >= getQuantity(item) || placed.length >= MAX_RITUAL_OFFERINGS) {
+            return { altarItemIds: placed };
+          }
+          return { altarItemIds: [...placed, itemId] };
+        });
+      },
+
+      /**
+       * Take one offering off the ritual altar.
+       */
+      removeFromAltar: (itemId: string) => {
+        set((state) => {
+          const index = state.altarItemIds.lastIndexOf(itemId);
+          return { altarItemIds: state.altarItemIds.filter((_, i) => i !== index) };
+        });
+      },
+
+      clearAltar: () => {
+        set({ altarItemIds: [] });
+      },
+
       // ============================================
       // Visual Traits System Actions (Requirements 8.4, 8.5)
       // ============================================
@@ -2133,12 +2785,13 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
             }
           }
 
-          // Call storySummary API (Requirement 7.1)
+          // Call storySummary API (Requirement 7.1) with the whole life, archived entries included
+          const logs = await get().getLogHistory();
           const response = await fetch("/api/storySummary", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              logs: state.logs,
+              logs,
               petName: state.traits.name,
               finalStats: state.stats,
               totalAge: state.age,
@@ -2186,9 +2839,10 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
           );
 
           const state = get();
+          const logs = await get().getLogHistory();
 
           // Create fallback summary from log entries
-          const keyLogs = state.logs
+          const keyLogs = logs
             .filter(log => log.eventType && ["evolution", "death", "placate", "haunt", "insanity", "vomit"].includes(log.eventType))
             .slice(-10); // Last 10 key events
 
@@ -2223,8 +2877,22 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
     }),
     {
       name: "creepy-companion-storage",
+      // Versioned save format; older saves are upgraded by the migration chain
+      version: SAVE_VERSION,
+      migrate: (persistedState, version) => {
+        logInfo("Migrating saved state", { from: version, to: SAVE_VERSION });
+        return migrateSave(persistedState, version) as unknown as GameState;
+      },
+      // Validate the save and repair half-shaped fields instead of wiping it
+      merge: (persistedState, currentState) => {
+        const { state, repairs } = validateSave(persistedState, currentState);
+        if (repairs.length > 0) {
+          logWarning("Repaired saved state", { repairs });
+        }
+        return { ...currentState, ...state };
+      },
       // Persist both game state and audio state (Requirement 4.1)
-      partialize: (state) => ({
+      partialize: (state): PersistedGameState => ({
         // Game state
         isInitialized: state.isInitialized,
         traits: state.traits,
@@ -2232,10 +2900,13 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
         stage: state.stage,
         age: state.age,
         isAlive: state.isAlive,
+        difficulty: state.difficulty,
         inventory: state.inventory,
         dailyFeeds: state.dailyFeeds,
         gameDay: state.gameDay,
         logs: state.logs, // Includes reaction data (Requirement 6.1, 6.2)
+        petId: state.petId,
+        archivedLogCount: state.archivedLogCount,
         lastTickTime: state.lastTickTime,
         // Pet sprite state (for image generation continuity)
         currentPetSpriteUrl: state.currentPetSpriteUrl,
@@ -2254,79 +2925,23 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
         deathData: state.deathData,
         lastPlacateTime: state.lastPlacateTime,
         lastHauntGameDay: state.lastHauntGameDay,
+        statusEffects: state.statusEffects,
+        stomach: state.stomach,
+        discoveredRecipes: state.discoveredRecipes,
+        stash: state.stash,
+        inventoryUpgrades: state.inventoryUpgrades,
+        expedition: state.expedition,
+        scavengeLocation: state.scavengeLocation,
+        teeth: state.teeth,
+        cosmetics: state.cosmetics,
+        equippedCosmetic: state.equippedCosmetic,
+        soldWares: state.soldWares,
         // Auto-image generation flag (Requirement 8.2)
         autoGenerateImages: state.autoGenerateImages,
         // Note: hasUserInteracted is NOT persisted - must be re-established each session
       }),
-      // Custom storage with error handling
-      storage: {
-        getItem: (name: string) => {
-          try {
-            const str = localStorage.getItem(name);
-            if (!str) return null;
-
-            const parsed = JSON.parse(str);
-            return parsed;
-          } catch (error) {
-            logError(
-              "Failed to parse stored state",
-              error instanceof Error ? error : undefined,
-              { storageName: name }
-            );
-            // Clear corrupted state
-            localStorage.removeItem(name);
-            return null;
-          }
-        },
-        setItem: (name: string, value: any) => {
-          try {
-            localStorage.setItem(name, JSON.stringify(value));
-          } catch (error) {
-            logError(
-              "Failed to save state",
-              error instanceof Error ? error : undefined,
-              { storageName: name }
-            );
-            // Handle quota exceeded by clearing old logs
-            if (error instanceof Error && error.name === "QuotaExceededError") {
-              logWarning("localStorage quota exceeded, trimming logs", {
-                storageName: name,
-              });
-              try {
-                const state = value.state;
-                if (state && state.logs && state.logs.length > 50) {
-                  // Keep only last 50 logs
-                  const trimmedState = {
-                    ...value,
-                    state: {
-                      ...state,
-                      logs: state.logs.slice(-50),
-                    },
-                  };
-                  localStorage.setItem(name, JSON.stringify(trimmedState));
-                }
-              } catch (retryError) {
-                logCritical(
-                  "Failed to save state even after trimming",
-                  retryError instanceof Error ? retryError : undefined,
-                  { storageName: name }
-                );
-              }
-            }
-          }
-        },
-        removeItem: (name: string) => {
-          try {
-            localStorage.removeItem(name);
-          } catch (error) {
-            logError(
-              "Failed to remove state",
-              error instanceof Error ? error : undefined,
-              { storageName: name }
-            );
-          }
-        },
-      },
+      // Throttled, diff-aware storage; only the leader tab saves, followers mirror its saves
+      storage: saveStorage,
       // Apply offline decay and restore audio settings when state is restored
       onRehydrateStorage: () => {
         return (state, error) => {
@@ -2352,6 +2967,12 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
               isMuted: state.isMuted,
             });
             
+            // Move images in older saves to the image store (the leader does it for every tab)
+            if (getTabRole() === "leader") {
+              void moveInlineImages(state);
+              void migrateCachedArt();
+            }
+
             // Detect mobile viewport and set autoGenerateImages flag (Requirement 8.2)
             const isMobile = typeof window !== 'undefined' && window.innerWidth <= 768;
             useGameStore.setState({ autoGenerateImages: !isMobile });
@@ -2362,36 +2983,19 @@ Generate 1-2 sentences describing how ${state.traits.name} responds to the playe
             });
           }
 
-          if (state && state.isInitialized && state.isAlive) {
-            const now = Date.now();
-            const lastTick = state.lastTickTime || now;
-            const elapsedRealMs = now - lastTick;
-            const elapsedRealSeconds = Math.floor(elapsedRealMs / 1000);
-
-            // Only apply offline decay if more than 1 second has passed
-            if (elapsedRealSeconds > 0) {
-              const decayedState = calculateOfflineDecay(
-                state,
-                elapsedRealSeconds
-              );
-
-              // Update the store with decayed state
-              useGameStore.setState(decayedState);
-
-              // Add a log about the offline period
-              if (elapsedRealSeconds >= 60) {
-                const minutesOffline = Math.floor(elapsedRealSeconds / 60);
-                state.addLog(
-                  `You were away for ${minutesOffline} minute${
-                    minutesOffline !== 1 ? "s" : ""
-                  }. ${state.traits.name} has been waiting...`,
-                  "SYSTEM"
-                );
-              }
-            }
+          // A follower tab leaves the catch-up to the leader
+          if (state && getTabRole() === "leader") {
+            catchUpOfflineTime(state);
           }
         };
       },
     }
   )
 );
+
+// The leader archives old log entries as they pile up
+useGameStore.subscribe((state) => {
+  if (state.logs.length > MAX_RECENT_LOGS && getTabRole() === "leader") {
+    void archiveOldLogs();
+  }
+});
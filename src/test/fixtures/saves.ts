@@ -0,0 +1,83 @@
+/**
+ * Save Fixtures
+ * Persisted states as written by earlier versions of the game, used by the
+ * save schema migration tests. Each fixture is the full localStorage envelope.
+ */
+
+// Version 0: before difficulty presets. Written without a `version` bump,
+// so zustand stored it as version 0.
+export const SAVE_V0 = {
+  version: 0,
+  state: {
+    isInitialized: true,
+    traits: { name: "Mochi", archetype: "GLOOM", color: 0x6b4c9a },
+    stats: { hunger: 42.5, sanity: 61.2, corruption: 18 },
+    stage: "BABY",
+    age: 912,
+    isAlive: true,
+    inventory: [
+      { id: "c1a0", type: "PURITY", description: "A warm, humming stone", icon: "✨" },
+      { id: "c1a1", type: "ROT", description: "Something that used to be fruit", icon: "🍄" },
+    ],
+    dailyFeeds: 2,
+    gameDay: 0,
+    logs: [
+      { id: "log-1", text: "Mochi hatched.", source: "SYSTEM", timestamp: 5, eventType: "evolution" },
+      { id: "log-2", text: "It nibbles the stone.", source: "PET", timestamp: 300, reactions: [] },
+    ],
+    lastTickTime: 1730000000000,
+    currentPetSpriteUrl: null,
+    masterVolume: 0.7,
+    sfxVolume: 0.8,
+    ambientVolume: 0.5,
+    isMuted: false,
+    gameSpeed: 1,
+    crtEnabled: false,
+    reduceMotion: false,
+    retroMode: false,
+    theme: "cute",
+    deathData: null,
+    lastPlacateTime: 880,
+    lastHauntGameDay: 0,
+    autoGenerateImages: true,
+  },
+};
+
+// Version 0 save damaged by an interrupted write and a hand-edited field
+export const SAVE_V0_DAMAGED = {
+  version: 0,
+  state: {
+    isInitialized: true,
+    traits: { name: "Grub", archetype: "SPARK" },
+    stats: { hunger: 130, corruption: 55 },
+    stage: "TEEN",
+    age: 3000,
+    isAlive: true,
+    inventory: [
+      { id: "d0", type: "PURITY", description: "A pearl", icon: "✨" },
+      { id: "d1", type: "GOLD", description: "Not from here", icon: "?" },
+      null,
+    ],
+    dailyFeeds: 1,
+    gameDay: 2,
+    logs: [
+      { id: "log-1", text: "Grub hatched.", source: "SYSTEM", timestamp: 5 },
+      { text: "orphaned line" },
+    ],
+    lastTickTime: 1730000000000,
+    currentPetSpriteUrl: null,
+    masterVolume: 3,
+    sfxVolume: 0.8,
+    ambientVolume: 0.5,
+    isMuted: "no",
+    gameSpeed: 1,
+    crtEnabled: false,
+    reduceMotion: false,
+    retroMode: false,
+    theme: "cute",
+    deathData: null,
+    lastPlacateTime: 9999,
+    autoGenerateImages: true,
+    placateEffect: null,
+  },
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { appraiseOffering, formatAppraisal, getAppraisalAccuracy } from "./appraisal";
+import { ITEM_TYPES } from "./offerings";
+import { createSeededRng } from "./simulation";
+import type { Archetype } from "./types";
+
+const ARCHETYPES: Archetype[] = ["GLOOM", "SPARK", "ECHO"];
+
+describe("Appraisal", () => {
+  it("should read less truly as sanity falls", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.constantFrom(...ARCHETYPES),
+        (a, b, archetype) => {
+          const [low, high] = a < b ? [a, b] : [b, a];
+          expect(getAppraisalAccuracy(low, archetype)).toBeLessThanOrEqual(getAppraisalAccuracy(high, archetype));
+        }
+      )
+    );
+  });
+
+  it("should let ECHO read truer and SPARK lie more often", () => {
+    for (const sanity of [0, 50, 100]) {
+      expect(getAppraisalAccuracy(sanity, "ECHO")).toBeGreaterThan(getAppraisalAccuracy(sanity, "GLOOM"));
+      expect(getAppraisalAccuracy(sanity, "SPARK")).toBeLessThan(getAppraisalAccuracy(sanity, "GLOOM"));
+    }
+  });
+
+  it("should name the true class on a lucky roll and a decoy otherwise", () => {
+    expect(appraiseOffering({ type: "ROT" }, 100, "GLOOM", () => 0).type).toBe("ROT");
+    expect(appraiseOffering({ type: "ROT" }, 100, "GLOOM", () => 0.99).type).not.toBe("ROT");
+  });
+
+  it("should give readings a known class and a confidence within 0-1", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...ITEM_TYPES),
+        fc.integer({ min: 0, max: 100 }),
+        fc.constantFrom(...ARCHETYPES),
+        fc.integer(),
+        (type, sanity, archetype, seed) => {
+          const reading = appraiseOffering({ type }, sanity, archetype, createSeededRng(seed));
+          expect(ITEM_TYPES).toContain(reading.type);
+          expect(reading.confidence).toBeGreaterThan(0);
+          expect(reading.confidence).toBeLessThan(1);
+        }
+      )
+    );
+  });
+
+  it("should format a reading as a percentage and descriptor", () => {
+    expect(formatAppraisal({ type: "PURITY", confidence: 0.7 })).toBe("70% pure");
+  });
+});
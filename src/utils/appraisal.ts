@@ -0,0 +1,83 @@
+/**
+ * Appraisal
+ * Probabilistic readings of an offering's hidden class.
+ *
+ * Appraising an offering costs the pet some sanity and names a class with a
+ * claimed confidence, e.g. "70% pure". The reading is right with a chance
+ * that falls as sanity falls; a wrong reading names some other class. ECHO
+ * pets read truer, while SPARK pets get it wrong more often and sound surer
+ * about it.
+ */
+
+import type { Appraisal, Archetype, ItemType, Offering } from "./types";
+import { ITEM_CLASSES, ITEM_TYPES } from "./offerings";
+
+// ============================================
+// Accuracy
+// ============================================
+
+interface ArchetypeInsight {
+  accuracy: number; // Added to the chance of a true reading
+  bravado: number; // Added to the confidence a reading claims
+}
+
+const ARCHETYPE_INSIGHT: Record<Archetype, ArchetypeInsight> = {
+  GLOOM: { accuracy: 0, bravado: 0 },
+  SPARK: { accuracy: -0.15, bravado: 0.15 },
+  ECHO: { accuracy: 0.1, bravado: 0 },
+};
+
+// Chance of a true reading at 0 and 100 sanity, before the archetype
+const MIN_ACCURACY = 0.4;
+const MAX_ACCURACY = 0.9;
+
+// How far a claimed confidence strays from the true accuracy either way
+const CONFIDENCE_BLUR = 0.1;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Chance that an appraisal names the offering's true class.
+ *
+ * @param sanity - Pet sanity, 0-100
+ */
+export function getAppraisalAccuracy(sanity: number, archetype: Archetype): number {
+  const base = MIN_ACCURACY + ((MAX_ACCURACY - MIN_ACCURACY) * clamp(sanity, 0, 100)) / 100;
+  return clamp(base + ARCHETYPE_INSIGHT[archetype].accuracy, 0.1, 0.95);
+}
+
+// ============================================
+// Readings
+// ============================================
+
+/**
+ * Read an offering's main class.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function appraiseOffering(
+  offering: Pick<Offering, "type">,
+  sanity: number,
+  archetype: Archetype,
+  rng: () => number = Math.random
+): Appraisal {
+  const accuracy = getAppraisalAccuracy(sanity, archetype);
+
+  let type: ItemType = offering.type;
+  if (rng() >= accuracy) {
+    const decoys = ITEM_TYPES.filter((decoy) => decoy !== offering.type);
+    type = decoys[Math.floor(rng() * decoys.length)];
+  }
+
+  const blur = (rng() * 2 - 1) * CONFIDENCE_BLUR;
+  const confidence = clamp(accuracy + ARCHETYPE_INSIGHT[archetype].bravado + blur, 0.05, 0.99);
+
+  return { type, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/**
+ * How a reading is shown to the player, e.g. "70% pure".
+ */
+export function formatAppraisal({ type, confidence }: Appraisal): string {
+  return `${Math.round(confidence * 100)}% ${ITEM_CLASSES[type].descriptor}`;
+}
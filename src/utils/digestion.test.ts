@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  advanceDigestion,
+  getDigestionRates,
+  getMinutesUntilDigested,
+  getStomachFullness,
+  isStomachFull,
+} from "./digestion";
+import { GAME_RULE_PRESETS } from "./gameRules";
+import type { StomachItem } from "./types";
+
+const rules = GAME_RULE_PRESETS.STANDARD;
+
+describe("Digestion", () => {
+  describe("getStomachFullness", () => {
+    it("should count partly digested offerings by what is left", () => {
+      const stomach: StomachItem[] = [
+        { type: "PURITY", remaining: 120 },
+        { type: "ROT", remaining: 240 },
+      ];
+      expect(getStomachFullness([], rules)).toBe(0);
+      expect(getStomachFullness(stomach, rules)).toBe(1.5);
+    });
+
+    it("should only be full when one more offering would pass the capacity", () => {
+      const stomach: StomachItem[] = [
+        { type: "PURITY", remaining: 240 },
+        { type: "ROT", remaining: 240 },
+      ];
+      expect(isStomachFull(stomach, rules)).toBe(false);
+      expect(isStomachFull([...stomach, { type: "ROT", remaining: 1 }], rules)).toBe(true);
+    });
+  });
+
+  describe("advanceDigestion", () => {
+    it("should digest the oldest offering first and carry leftover minutes on", () => {
+      const stomach: StomachItem[] = [
+        { type: "PURITY", remaining: 30 },
+        { type: "ROT", remaining: 240 },
+      ];
+      expect(advanceDigestion(stomach, 10)).toEqual([
+        { type: "PURITY", remaining: 20 },
+        { type: "ROT", remaining: 240 },
+      ]);
+      expect(advanceDigestion(stomach, 50)).toEqual([{ type: "ROT", remaining: 220 }]);
+      expect(advanceDigestion(stomach, 1000)).toEqual([]);
+      expect(stomach[0].remaining).toBe(30);
+    });
+  });
+
+  describe("getDigestionRates", () => {
+    it("should spread the digesting offering's effect over its digestion time", () => {
+      const stomach: StomachItem[] = [{ type: "ROT", remaining: 10 }];
+      const rates = getDigestionRates(stomach, rules);
+      expect(rates.hunger).toBe(0);
+      expect(rates.sanity * rules.feeding.digestMinutes).toBeCloseTo(-15);
+      expect(rates.corruption * rules.feeding.digestMinutes).toBeCloseTo(10);
+      expect(getMinutesUntilDigested(stomach)).toBe(10);
+      expect(getMinutesUntilDigested([])).toBe(Infinity);
+    });
+  });
+});
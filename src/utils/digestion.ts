@@ -0,0 +1,87 @@
+/**
+ * Digestion
+ * Offerings wait in the pet's stomach and are digested one at a time.
+ *
+ * Feeding relieves hunger straight away, but an offering's sanity and
+ * corruption seep in over `digestMinutes` of game time while it is at the
+ * front of the queue (every class of a mixed offering counts). Vomiting flushes everything still undigested, so
+ * those effects are lost. The simulation engine advances the stomach, so
+ * offline time digests too.
+ */
+
+import type { GameRules, StatDelta, StomachItem } from "./types";
+import { getOfferingEffect } from "./offerings";
+
+// ============================================
+// Fullness
+// ============================================
+
+/**
+ * How many whole offerings' worth of food is still in the stomach.
+ * A half-digested offering counts as half.
+ */
+export function getStomachFullness(stomach: StomachItem[], { feeding }: GameRules): number {
+  return getUndigestedMinutes(stomach) / feeding.digestMinutes;
+}
+
+/**
+ * Whether one more offering would overfill the stomach.
+ */
+export function isStomachFull(stomach: StomachItem[], { feeding }: GameRules): boolean {
+  // Compared in whole minutes so partly digested offerings never round the wrong way
+  return getUndigestedMinutes(stomach) + feeding.digestMinutes > feeding.stomachCapacity * feeding.digestMinutes;
+}
+
+const getUndigestedMinutes = (stomach: StomachItem[]): number =>
+  stomach.reduce((total, item) => total + item.remaining, 0);
+
+// ============================================
+// Digesting
+// ============================================
+
+/**
+ * Digest for some game minutes, oldest offering first.
+ *
+ * @returns The same stomach when it is empty
+ */
+export function advanceDigestion(stomach: StomachItem[], minutes: number): StomachItem[] {
+  if (stomach.length === 0 || minutes === 0) {
+    return stomach;
+  }
+
+  let left = minutes;
+  let index = 0;
+  while (index < stomach.length && stomach[index].remaining <= left) {
+    left -= stomach[index].remaining;
+    index++;
+  }
+
+  const rest = stomach.slice(index);
+  if (rest.length > 0 && left > 0) {
+    rest[0] = { ...rest[0], remaining: rest[0].remaining - left };
+  }
+  return rest;
+}
+
+/**
+ * Stat change per game minute from the offering being digested.
+ */
+export function getDigestionRates(stomach: StomachItem[], rules: GameRules): Required<StatDelta> {
+  const [digesting] = stomach;
+  if (!digesting) {
+    return { hunger: 0, sanity: 0, corruption: 0 };
+  }
+  const effect = getOfferingEffect(digesting, rules);
+  return {
+    hunger: 0,
+    sanity: effect.sanity / rules.feeding.digestMinutes,
+    corruption: effect.corruption / rules.feeding.digestMinutes,
+  };
+}
+
+/**
+ * Game minutes until the offering being digested is done (Infinity when empty).
+ */
+export function getMinutesUntilDigested(stomach: StomachItem[]): number {
+  return stomach.length > 0 ? stomach[0].remaining : Infinity;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  BLIGHT_THRESHOLDS,
+  LOCATIONS,
+  LOCATION_IDS,
+  createExpedition,
+  describeUnlock,
+  getBlight,
+  getExpeditionRemaining,
+  getLocationWeights,
+  isLocationUnlocked,
+  rollExpedition,
+} from "./expeditions";
+import { ITEM_TYPES, getItemWeights } from "./offerings";
+
+// Random source that always returns the same value
+const fixed = (value: number) => () => value;
+
+describe("Expeditions", () => {
+  it("should scale the scavenging weights by the location's own", () => {
+    const base = getItemWeights("TEEN", 20);
+    const graveyard = getLocationWeights("GRAVEYARD", "TEEN", 20);
+    expect(graveyard.BONE).toBe(base.BONE * 3);
+    expect(graveyard.MEDICINAL).toBe(base.MEDICINAL);
+  });
+
+  it("should bring back one offering per search, plus any encounter find", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...LOCATION_IDS),
+        fc.array(fc.double({ min: 0, max: 0.999, noNaN: true }), { minLength: 1, maxLength: 20 }),
+        (location, rolls) => {
+          let i = 0;
+          const rng = () => rolls[i++ % rolls.length];
+          const { finds, encounter } = rollExpedition(location, "TEEN", 30, rng);
+
+          expect(finds).toHaveLength(LOCATIONS[location].searches + (encounter?.find ? 1 : 0));
+          expect(finds.every((find) => ITEM_TYPES.includes(find.type))).toBe(true);
+          if (encounter) {
+            expect(LOCATIONS[location].encounters).toContain(encounter);
+          }
+        }
+      )
+    );
+  });
+
+  it("should only meet an encounter within the location's chance", () => {
+    expect(rollExpedition("CELLAR", "BABY", 0, fixed(0.99)).encounter).toBeNull();
+
+    const { finds, encounter } = rollExpedition("GRAVEYARD", "TEEN", 0, fixed(0.01));
+    expect(encounter?.id).toBe("open_grave");
+    expect(encounter?.sanityCost).toBeGreaterThan(0);
+    expect(finds).toHaveLength(LOCATIONS.GRAVEYARD.searches);
+  });
+
+  it("should count down to the keeper's return", () => {
+    const expedition = createExpedition("SUBURBAN_STREET", 100);
+    expect(expedition.returnsAt).toBe(100 + LOCATIONS.SUBURBAN_STREET.duration);
+    expect(getExpeditionRemaining(expedition, 130)).toBe(LOCATIONS.SUBURBAN_STREET.duration - 30);
+    expect(getExpeditionRemaining(expedition, 10_000)).toBe(0);
+  });
+});
+
+describe("Neighbourhood", () => {
+  it("should open locations by days survived and stage", () => {
+    expect(isLocationUnlocked("CELLAR", 0, "EGG")).toBe(true);
+    expect(isLocationUnlocked("GRAVEYARD", 10, "BABY")).toBe(false);
+    expect(isLocationUnlocked("GRAVEYARD", 2, "TEEN")).toBe(false);
+    expect(isLocationUnlocked("GRAVEYARD", 3, "TEEN")).toBe(true);
+    expect(isLocationUnlocked("GRAVEYARD", 3, "ABOMINATION")).toBe(true);
+    expect(describeUnlock("GRAVEYARD")).toBe("Opens on day 3, once your pet is a teen");
+  });
+
+  it("should never close a location again as the pet ages", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...LOCATION_IDS), fc.nat(30), fc.nat(30), (location, day, later) => {
+        if (isLocationUnlocked(location, day, "TEEN")) {
+          expect(isLocationUnlocked(location, day + later, "TEEN")).toBe(true);
+          expect(isLocationUnlocked(location, day, "ABOMINATION")).toBe(true);
+        }
+      })
+    );
+  });
+
+  it("should board up, then flood, the neighbourhood as corruption rises", () => {
+    expect(getBlight(0)).toBe("CLEAN");
+    expect(getBlight(BLIGHT_THRESHOLDS.BOARDED)).toBe("BOARDED");
+    expect(getBlight(BLIGHT_THRESHOLDS.FLOODED)).toBe("FLOODED");
+    expect(getBlight(100)).toBe("FLOODED");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Expeditions
+ * Named places the keeper can search for offerings.
+ *
+ * An expedition takes the keeper away for a while; the pet is left alone and
+ * keeps decaying until they come home. Each location turns up its own mix of
+ * offerings, and may throw an encounter at the keeper that costs the pet
+ * sanity or brings back something rare. Further locations open up as the
+ * pet survives more days and grows, and the whole neighbourhood decays with
+ * its corruption.
+ */
+
+import type {
+  Expedition,
+  ExpeditionOutcome,
+  ItemType,
+  LocationDefinition,
+  LocationId,
+  NeighbourhoodBlight,
+  PetStage,
+} from "./types";
+import { ITEM_TYPES, getItemWeights, rollOfferingIcon, rollWeightedOffering } from "./offerings";
+
+// ============================================
+// Locations
+// ============================================
+
+export const LOCATIONS: Record<LocationId, LocationDefinition> = {
+  CELLAR: {
+    name: "the Cellar",
+    description: "Damp shelves of forgotten jars, just below the floorboards.",
+    duration: 60,
+    unlockDay: 0,
+    unlockStage: "EGG",
+    searches: 1,
+    weights: { ROT: 2, SWEET: 1.5, PURITY: 0.5, BONE: 0.5 },
+    encounterChance: 0.2,
+    encounters: [
+      {
+        id: "boiler",
+        description: "Something breathed behind the boiler, slow and patient.",
+        sanityCost: 6,
+      },
+      {
+        id: "bricked_jar",
+        description: "A jar sealed behind a loose brick, holding nothing at all.",
+        find: { type: "VOID" },
+      },
+    ],
+  },
+  SUBURBAN_STREET: {
+    name: "the Suburban Street",
+    description: "Trimmed lawns and porch lights. Nobody looks out of the windows.",
+    duration: 120,
+    unlockDay: 1,
+    unlockStage: "BABY",
+    searches: 2,
+    weights: { SWEET: 2, MEDICINAL: 1.5, PURITY: 1.5, ROT: 0.5, BONE: 0.5 },
+    encounterChance: 0.15,
+    encounters: [
+      {
+        id: "porch_light",
+        description: "A porch light followed the keeper from house to house.",
+        sanityCost: 4,
+      },
+      {
+        id: "candy_bag",
+        description: "A trick-or-treat bag, left full on a step, still warm.",
+        find: { type: "SWEET", aspects: ["PURITY"] },
+      },
+    ],
+  },
+  GRAVEYARD: {
+    name: "the Graveyard",
+    description: "Leaning stones and soft earth. Some of it was turned recently.",
+    duration: 240,
+    unlockDay: 3,
+    unlockStage: "TEEN",
+    searches: 3,
+    weights: { BONE: 3, CURSED: 2.5, PURITY: 0.5, SWEET: 0.3 },
+    encounterChance: 0.4,
+    encounters: [
+      {
+        id: "open_grave",
+        description: "A grave stood open, and then, when the keeper looked back, it did not.",
+        sanityCost: 12,
+      },
+      {
+        id: "offered_hand",
+        description: "A hand in the soil held something out, and let go of it.",
+        find: { type: "CURSED", aspects: ["VOID"] },
+      },
+    ],
+  },
+};
+
+export const LOCATION_IDS = Object.keys(LOCATIONS) as LocationId[];
+
+// Stages in the order they open locations; an abomination has outgrown them all
+const STAGE_ORDER: PetStage[] = ["EGG", "BABY", "TEEN", "ELDER", "ABOMINATION"];
+
+// Corruption at which the neighbourhood starts to fall apart
+export const BLIGHT_THRESHOLDS = {
+  BOARDED: 40,
+  FLOODED: 70,
+} as const;
+
+// ============================================
+// Unlocks
+// ============================================
+
+/**
+ * Whether the pet has survived long enough, and grown enough, to search a
+ * location.
+ */
+export function isLocationUnlocked(location: LocationId, gameDay: number, stage: PetStage): boolean {
+  const { unlockDay, unlockStage } = LOCATIONS[location];
+  return gameDay >= unlockDay && STAGE_ORDER.indexOf(stage) >= STAGE_ORDER.indexOf(unlockStage);
+}
+
+/**
+ * What a locked location is waiting for, e.g. "Opens on day 3, once your pet is a teen".
+ */
+export function describeUnlock(location: LocationId): string {
+  const { unlockDay, unlockStage } = LOCATIONS[location];
+  const stage = unlockStage === "EGG" ? "" : `, once your pet is a ${unlockStage.toLowerCase()}`;
+  return `Opens on day ${unlockDay}${stage}`;
+}
+
+/**
+ * How far the neighbourhood has fallen: houses are boarded up, then the
+ * street floods.
+ */
+export function getBlight(corruption: number): NeighbourhoodBlight {
+  if (corruption >= BLIGHT_THRESHOLDS.FLOODED) {
+    return "FLOODED";
+  }
+  return corruption >= BLIGHT_THRESHOLDS.BOARDED ? "BOARDED" : "CLEAN";
+}
+
+// ============================================
+// Expeditions
+// ============================================
+
+/**
+ * Relative chance of finding each class at a location: the usual scavenging
+ * weights for the pet's stage and corruption, scaled by the location's own.
+ */
+export function getLocationWeights(
+  location: LocationId,
+  stage: PetStage,
+  corruption: number
+): Record<ItemType, number> {
+  const base = getItemWeights(stage, corruption);
+  const { weights } = LOCATIONS[location];
+  return Object.fromEntries(
+    ITEM_TYPES.map((type) => [type, base[type] * (weights[type] ?? 1)])
+  ) as Record<ItemType, number>;
+}
+
+/**
+ * Begin a search of a location at the pet's current age.
+ */
+export function createExpedition(location: LocationId, age: number): Expedition {
+  return { location, startedAt: age, returnsAt: age + LOCATIONS[location].duration };
+}
+
+/**
+ * Game minutes until the keeper comes home, 0 once they are due.
+ */
+export function getExpeditionRemaining({ returnsAt }: Expedition, age: number): number {
+  return Math.max(0, returnsAt - age);
+}
+
+/**
+ * Roll what an expedition brings back and what happened on the way.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function rollExpedition(
+  location: LocationId,
+  stage: PetStage,
+  corruption: number,
+  rng: () => number = Math.random
+): ExpeditionOutcome {
+  const { searches, encounterChance, encounters } = LOCATIONS[location];
+  const weights = getLocationWeights(location, stage, corruption);
+  const finds = Array.from({ length: searches }, () => rollWeightedOffering(weights, rng));
+
+  if (encounters.length === 0 || rng() >= encounterChance) {
+    return { finds, encounter: null };
+  }
+
+  const encounter = encounters[Math.floor(rng() * encounters.length)];
+  if (encounter.find) {
+    finds.push({ ...encounter.find, icon: rollOfferingIcon(rng) });
+  }
+  return { finds, encounter };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  MAX_BATCH_MINUTES,
+  advanceGameClock,
+  createGameClock,
+  createSimulationRunner,
+  splitIntoBatches,
+} from "./gameClock";
+import type { GameLoopSnapshot, GameLoopTick } from "./types";
+
+const snapshot: GameLoopSnapshot = {
+  isInitialized: true,
+  isAlive: true,
+  difficulty: "STANDARD",
+  stats: { hunger: 0, sanity: 100, corruption: 0 },
+  stage: "EGG",
+  age: 0,
+  dailyFeeds: 0,
+  gameDay: 0,
+  lastHauntGameDay: 0,
+  statusEffects: [],
+  stomach: [],
+};
+
+describe("Game Clock", () => {
+  it("should hand out whole minutes and carry the fraction", () => {
+    let clock = createGameClock(1000, 0);
+
+    let result = advanceGameClock(clock, 1500);
+    expect(result.minutes).toBe(1);
+    clock = result.clock;
+
+    result = advanceGameClock(clock, 2000);
+    expect(result.minutes).toBe(1);
+    expect(result.clock.carry).toBeCloseTo(0);
+  });
+
+  it("should scale with the tick interval", () => {
+    const result = advanceGameClock(createGameClock(250, 0), 1000);
+    expect(result.minutes).toBe(4);
+  });
+
+  it("should not run backwards when the system time changes", () => {
+    const result = advanceGameClock(createGameClock(1000, 10_000), 5_000);
+    expect(result.minutes).toBe(0);
+    expect(result.clock.lastTime).toBe(5_000);
+  });
+
+  it("should split long gaps into batches", () => {
+    expect(splitIntoBatches(0)).toEqual([]);
+    expect(splitIntoBatches(MAX_BATCH_MINUTES * 2 + 5)).toEqual([
+      MAX_BATCH_MINUTES,
+      MAX_BATCH_MINUTES,
+      5,
+    ]);
+  });
+});
+
+describe("Simulation Runner", () => {
+  let now: number;
+  let ticks: GameLoopTick[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    now = 0;
+    ticks = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const start = () => {
+    const runner = createSimulationRunner((tick) => ticks.push(tick), () => now);
+    runner.handle({ type: "start", tickInterval: 1000, revision: 0, snapshot, ghostCount: 0, peacefulGhostCount: 0 });
+    return runner;
+  };
+
+  it("should advance the pet by wall time", () => {
+    const runner = start();
+
+    now = 3000;
+    vi.advanceTimersByTime(1000);
+
+    expect(ticks).toHaveLength(1);
+    expect(ticks[0].minutes).toBe(3);
+    expect(ticks[0].result.state.age).toBe(3);
+    runner.stop();
+  });
+
+  it("should catch up a long stall in batches", () => {
+    const runner = start();
+
+    now = (MAX_BATCH_MINUTES + 30) * 1000;
+    vi.advanceTimersByTime(1000);
+
+    expect(ticks.map((tick) => tick.minutes)).toEqual([MAX_BATCH_MINUTES, 30]);
+    expect(ticks[1].result.state.age).toBe(MAX_BATCH_MINUTES + 30);
+    runner.stop();
+  });
+
+  it("should continue from a synced snapshot and redo requeued minutes", () => {
+    const runner = start();
+
+    runner.handle({
+      type: "sync",
+      revision: 1,
+      snapshot: { ...snapshot, age: 10, stats: { hunger: 50, sanity: 80, corruption: 0 } },
+      ghostCount: 0,
+      peacefulGhostCount: 0,
+    });
+    runner.handle({ type: "requeue", minutes: 2 });
+
+    expect(ticks).toHaveLength(1);
+    expect(ticks[0].revision).toBe(1);
+    expect(ticks[0].result.state.age).toBe(12);
+    runner.stop();
+  });
+
+  it("should stop simulating a dead pet", () => {
+    const runner = start();
+    runner.handle({
+      type: "sync",
+      revision: 1,
+      snapshot: { ...snapshot, isAlive: false },
+      ghostCount: 0,
+      peacefulGhostCount: 0,
+    });
+
+    now = 5000;
+    vi.advanceTimersByTime(1000);
+
+    expect(ticks).toEqual([]);
+    runner.stop();
+  });
+});
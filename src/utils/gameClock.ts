@@ -0,0 +1,170 @@
+/**
+ * Game Clock
+ * Wall-time game clock and the simulation runner behind the game loop.
+ *
+ * Game time is derived from elapsed real time instead of counting timer
+ * callbacks, so throttled timers (hidden tabs, a busy machine) only delay
+ * ticks and never lose them. Fractions of a minute carry over to the next
+ * tick, and a long gap is caught up in batches of at most MAX_BATCH_MINUTES.
+ *
+ * The runner holds its own copy of the pet and advances it with the
+ * simulation engine. It runs inside the game loop worker, so the UI thread
+ * only applies finished results.
+ */
+
+import type { GameLoopCommand, GameLoopSync, GameLoopTick } from "./types";
+import { simulate } from "./simulation";
+import { getGameRules } from "./gameRules";
+
+// Largest number of game minutes simulated and posted as one tick
+export const MAX_BATCH_MINUTES = 120;
+
+// ============================================
+// Clock
+// ============================================
+
+export interface GameClock {
+  tickInterval: number; // Real milliseconds per game minute (1000 / gameSpeed)
+  lastTime: number; // Real timestamp the clock last advanced to
+  carry: number; // Fraction of a game minute not yet handed out
+}
+
+export function createGameClock(tickInterval: number, now: number): GameClock {
+  return { tickInterval, lastTime: now, carry: 0 };
+}
+
+/**
+ * Advance the clock to `now` and hand out the whole game minutes that passed.
+ * A clock that moved backwards (e.g. the system time changed) yields nothing.
+ */
+export function advanceGameClock(
+  clock: GameClock,
+  now: number
+): { clock: GameClock; minutes: number } {
+  const elapsed = Math.max(0, now - clock.lastTime);
+  const total = clock.carry + elapsed / clock.tickInterval;
+  const minutes = Math.floor(total);
+  return {
+    clock: { ...clock, lastTime: now, carry: total - minutes },
+    minutes,
+  };
+}
+
+/**
+ * Split a number of minutes into catch-up batches.
+ */
+export function splitIntoBatches(minutes: number): number[] {
+  const batches: number[] = [];
+  for (let remaining = minutes; remaining > 0; remaining -= MAX_BATCH_MINUTES) {
+    batches.push(Math.min(remaining, MAX_BATCH_MINUTES));
+  }
+  return batches;
+}
+
+// ============================================
+// Simulation Runner
+// ============================================
+
+export interface SimulationRunner {
+  handle: (command: GameLoopCommand) => void;
+  stop: () => void;
+}
+
+/**
+ * Create the runner that answers game loop commands with ticks.
+ *
+ * @param post - Sends a finished tick to the main thread
+ * @param now - Real time source
+ */
+export function createSimulationRunner(
+  post: (tick: GameLoopTick) => void,
+  now: () => number = Date.now
+): SimulationRunner {
+  let clock: GameClock | null = null;
+  let sync: GameLoopSync | null = null;
+  let pendingMinutes = 0;
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+
+  const flush = () => {
+    while (pendingMinutes > 0 && sync) {
+      const { snapshot } = sync;
+      if (!snapshot.isInitialized || !snapshot.isAlive) {
+        pendingMinutes = 0;
+        return;
+      }
+
+      const minutes = Math.min(pendingMinutes, MAX_BATCH_MINUTES);
+      pendingMinutes -= minutes;
+
+      const result = simulate(snapshot, minutes, Math.random, {
+        ghostCount: sync.ghostCount,
+        peacefulGhostCount: sync.peacefulGhostCount,
+        rules: getGameRules(snapshot.difficulty),
+      });
+      const died = result.events.some((event) => event.type === "death");
+
+      sync = { ...sync, snapshot: { ...snapshot, ...result.state, isAlive: !died } };
+      post({ type: "tick", revision: sync.revision, minutes, result });
+    }
+  };
+
+  const run = () => {
+    if (!clock) return;
+    const advanced = advanceGameClock(clock, now());
+    clock = advanced.clock;
+    pendingMinutes += advanced.minutes;
+    flush();
+  };
+
+  const schedule = (tickInterval: number) => {
+    if (intervalId !== null) clearInterval(intervalId);
+    // Poll at least once a second so slow speeds still land close to each minute
+    intervalId = setInterval(run, Math.min(tickInterval, 1000));
+  };
+
+  const stop = () => {
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+  };
+
+  const handle = (command: GameLoopCommand) => {
+    switch (command.type) {
+      case "start":
+        sync = {
+          revision: command.revision,
+          snapshot: command.snapshot,
+          ghostCount: command.ghostCount,
+          peacefulGhostCount: command.peacefulGhostCount,
+        };
+        clock = createGameClock(command.tickInterval, now());
+        pendingMinutes = 0;
+        schedule(command.tickInterval);
+        break;
+      case "sync":
+        // The main thread changed the pet; continue from its copy
+        sync = {
+          revision: command.revision,
+          snapshot: command.snapshot,
+          ghostCount: command.ghostCount,
+          peacefulGhostCount: command.peacefulGhostCount,
+        };
+        break;
+      case "speed":
+        // Hand out the minutes earned at the old speed first
+        run();
+        if (clock) {
+          clock = { ...clock, tickInterval: command.tickInterval };
+          schedule(command.tickInterval);
+        }
+        break;
+      case "requeue":
+        pendingMinutes += command.minutes;
+        flush();
+        break;
+    }
+  };
+
+  return { handle, stop };
+}
@@ -1,14 +1,57 @@
 import { useGameStore } from "../store";
-import { logError } from "./errorLogger";
+import { logError, logWarning } from "./errorLogger";
+import { getGhostCounts } from "./hauntSystem";
+import {
+  advanceGameClock,
+  createGameClock,
+  splitIntoBatches,
+  type GameClock,
+} from "./gameClock";
+import type { GameLoopCommand, GameLoopSnapshot, GameLoopSync, GameLoopTick, GameState } from "./types";
+
+/**
+ * Pick what the worker needs out of the store.
+ */
+const getSnapshot = (state: GameState): GameLoopSnapshot => ({
+  isInitialized: state.isInitialized,
+  isAlive: state.isAlive,
+  difficulty: state.difficulty,
+  stats: state.stats,
+  stage: state.stage,
+  age: state.age,
+  dailyFeeds: state.dailyFeeds,
+  gameDay: state.gameDay,
+  lastHauntGameDay: state.lastHauntGameDay,
+  statusEffects: state.statusEffects,
+  stomach: state.stomach,
+});
+
+const isSameSnapshot = (a: GameLoopSnapshot, b: GameLoopSnapshot): boolean =>
+  (Object.keys(a) as (keyof GameLoopSnapshot)[]).every((key) => a[key] === b[key]);
 
 /**
  * GameLoop manages the real-time game tick system.
- * 1 real second = 1 game minute
+ * 1 real second = 1 game minute at 1x speed.
+ *
+ * Game time follows the wall clock (see gameClock.ts). The clock and the
+ * simulation run in a Web Worker that posts finished ticks back; the store
+ * only applies them. Whenever the store changes outside the loop (feeding,
+ * placating, switching pets) the new snapshot is sent to the worker under a
+ * new revision, and ticks simulated on an older snapshot are sent back to be
+ * redone. Without Worker support the same clock ticks on the main thread.
  */
 export class GameLoop {
   private intervalId: number | null = null;
-  private readonly tickInterval: number;
+  private clock: GameClock | null = null;
+  private worker: Worker | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private snapshot: GameLoopSnapshot | null = null;
+  private revision = 0;
+  private tickInterval: number;
 
+  /**
+   * @param tickInterval - Real milliseconds per game minute (1000 / gameSpeed)
+   */
   constructor(tickInterval: number = 1000) {
     this.tickInterval = tickInterval;
   }
@@ -17,24 +60,24 @@ export class GameLoop {
    * Start the game loop
    */
   start(): void {
-    // Prevent multiple intervals
-    if (this.intervalId !== null) {
+    // Prevent multiple loops
+    if (this.isRunning()) {
       return;
     }
 
-    this.intervalId = window.setInterval(() => {
+    if (typeof Worker !== "undefined") {
       try {
-        // Call the store's tick action
-        useGameStore.getState().tick();
+        this.startWorker();
+        return;
       } catch (error) {
-        // Log error but don't crash the game loop
-        logError(
-          "Error during game tick",
-          error instanceof Error ? error : undefined,
-          { tickInterval: this.tickInterval }
-        );
+        logWarning("Game loop worker unavailable, ticking on the main thread", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.stop();
       }
-    }, this.tickInterval);
+    }
+
+    this.startInline();
   }
 
   /**
@@ -45,12 +88,132 @@ export class GameLoop {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.clock = null;
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.snapshot = null;
   }
 
   /**
    * Check if the game loop is currently running
    */
   isRunning(): boolean {
-    return this.intervalId !== null;
+    return this.intervalId !== null || this.worker !== null;
+  }
+
+  /**
+   * Change the game speed without losing the fraction of a minute in progress.
+   *
+   * @param tickInterval - Real milliseconds per game minute
+   */
+  setTickInterval(tickInterval: number): void {
+    if (tickInterval === this.tickInterval) {
+      return;
+    }
+
+    if (this.worker) {
+      this.tickInterval = tickInterval;
+      this.post({ type: "speed", tickInterval });
+    } else if (this.intervalId !== null) {
+      this.runInline();
+      this.tickInterval = tickInterval;
+      clearInterval(this.intervalId);
+      this.clock = this.clock && { ...this.clock, tickInterval };
+      this.intervalId = window.setInterval(() => this.runInline(), tickInterval);
+    } else {
+      this.tickInterval = tickInterval;
+    }
+  }
+
+  // ============================================
+  // Worker
+  // ============================================
+
+  private startWorker(): void {
+    this.worker = new Worker(new URL("./gameLoop.worker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<GameLoopTick>) => this.applyTick(event.data);
+    this.worker.onerror = (event) => {
+      logError("Game loop worker failed, ticking on the main thread", undefined, {
+        message: event.message,
+      });
+      this.stop();
+      this.startInline();
+    };
+
+    this.post({ type: "start", tickInterval: this.tickInterval, ...this.createSync() });
+
+    // Keep the worker's copy of the pet in step with changes made outside the loop
+    this.unsubscribe = useGameStore.subscribe((state) => {
+      if (this.snapshot && !isSameSnapshot(getSnapshot(state), this.snapshot)) {
+        this.revision++;
+        this.post({ type: "sync", ...this.createSync() });
+      }
+    });
+  }
+
+  private createSync(): GameLoopSync {
+    this.snapshot = getSnapshot(useGameStore.getState());
+    return { revision: this.revision, snapshot: this.snapshot, ...getGhostCounts() };
+  }
+
+  private post(command: GameLoopCommand): void {
+    this.worker?.postMessage(command);
+  }
+
+  private applyTick(tick: GameLoopTick): void {
+    if (tick.revision !== this.revision) {
+      // Simulated on a pet that has changed since; redo the minutes on the current one
+      this.post({ type: "requeue", minutes: tick.minutes });
+      return;
+    }
+
+    // The worker already has this state, so applying it must not trigger a sync
+    this.snapshot = { ...getSnapshot(useGameStore.getState()), ...tick.result.state };
+
+    try {
+      useGameStore.getState().applySimulation(tick.result);
+    } catch (error) {
+      // Log error but don't crash the game loop
+      logError(
+        "Error during game tick",
+        error instanceof Error ? error : undefined,
+        { tickInterval: this.tickInterval }
+      );
+    }
+  }
+
+  // ============================================
+  // Main Thread Fallback
+  // ============================================
+
+  private startInline(): void {
+    this.clock = createGameClock(this.tickInterval, Date.now());
+    this.intervalId = window.setInterval(() => this.runInline(), this.tickInterval);
+  }
+
+  private runInline(): void {
+    if (!this.clock) {
+      return;
+    }
+
+    const advanced = advanceGameClock(this.clock, Date.now());
+    this.clock = advanced.clock;
+
+    try {
+      // Call the store's tick action, catching up in batches after a stall
+      for (const minutes of splitIntoBatches(advanced.minutes)) {
+        useGameStore.getState().tick(minutes);
+      }
+    } catch (error) {
+      // Log error but don't crash the game loop
+      logError(
+        "Error during game tick",
+        error instanceof Error ? error : undefined,
+        { tickInterval: this.tickInterval }
+      );
+    }
   }
 }
@@ -0,0 +1,15 @@
+/**
+ * Game Loop Worker
+ * Runs the game clock and the simulation off the UI thread.
+ * See src/utils/gameClock.ts for the runner and src/utils/gameLoop.ts for
+ * the main thread side.
+ */
+
+import type { GameLoopCommand } from "./types";
+import { createSimulationRunner } from "./gameClock";
+
+const runner = createSimulationRunner((tick) => self.postMessage(tick));
+
+self.onmessage = (event: MessageEvent<GameLoopCommand>) => {
+  runner.handle(event.data);
+};
@@ -0,0 +1,238 @@
+/**
+ * Game Rules
+ * Balance values for every rule in the game, grouped into difficulty presets.
+ *
+ * The player picks a preset when creating a pet and it is stored with the
+ * pet. Designers tune balance here; action code only reads `getGameRules`.
+ */
+
+import type { Difficulty, GameRules } from "./types";
+
+// ============================================
+// Presets
+// ============================================
+
+/**
+ * The original balance of the game.
+ */
+const STANDARD_RULES: GameRules = {
+  // Requirements 8.1, 8.2
+  decay: {
+    hungerRate: 0.05,
+    starvingHungerRate: 0.1,
+    sanityRate: 0.02,
+    hungrySanityRate: 0.05,
+    hungryThreshold: 80,
+    starvingThreshold: 90,
+  },
+  // Requirement 9.1: feeding past a full stomach causes vomiting
+  feeding: {
+    effects: {
+      PURITY: { hunger: -20, sanity: 10, corruption: -5 },
+      ROT: { hunger: -20, sanity: -15, corruption: 10 },
+      CURSED: { hunger: -15, sanity: -20, corruption: 15 },
+      MEDICINAL: { hunger: -5, sanity: 15, corruption: -2 },
+      VOID: { hunger: -10, sanity: -5, corruption: 0 },
+      SWEET: { hunger: -10, sanity: 8, corruption: 2 },
+      BONE: { hunger: -30, sanity: -3, corruption: 3 },
+    },
+    stomachCapacity: 3,
+    digestMinutes: 240,
+    vomitSanityPenalty: 20,
+  },
+  // Requirements 6.1 - 6.4
+  placate: {
+    cooldown: 30,
+    sanityGain: 15,
+    reducedSanityGain: 5,
+    reducedAboveSanity: 80,
+    reducedBelowCorruption: 50,
+    hungerCost: 5,
+  },
+  appraisal: {
+    sanityCost: 5,
+  },
+  inventory: {
+    capacity: 3,
+    maxUpgrades: 3,
+    stackSize: 3,
+    stashCapacity: 6,
+    spoilMinutes: 720,
+    maxSpoilage: 2,
+  },
+  evolution: {
+    babyAge: 5,
+    teenAge: 24 * 60,
+    abominationCorruption: 80,
+  },
+  lifespan: {
+    elderDay: 7,
+    elderMaxCorruption: 30,
+    oldAgeDay: 14,
+    elderHungerRate: 0.6,
+    elderSanityRate: 1.25,
+    frailtyPerDay: 0.25,
+  },
+};
+
+/**
+ * Slower decay and kinder offerings for players who want to explore.
+ */
+const GENTLE_RULES: GameRules = {
+  decay: {
+    hungerRate: 0.03,
+    starvingHungerRate: 0.06,
+    sanityRate: 0.01,
+    hungrySanityRate: 0.03,
+    hungryThreshold: 80,
+    starvingThreshold: 90,
+  },
+  feeding: {
+    effects: {
+      PURITY: { hunger: -25, sanity: 15, corruption: -5 },
+      ROT: { hunger: -20, sanity: -10, corruption: 5 },
+      CURSED: { hunger: -15, sanity: -15, corruption: 10 },
+      MEDICINAL: { hunger: -5, sanity: 20, corruption: -3 },
+      VOID: { hunger: -10, sanity: -3, corruption: 0 },
+      SWEET: { hunger: -12, sanity: 10, corruption: 1 },
+      BONE: { hunger: -35, sanity: -2, corruption: 2 },
+    },
+    stomachCapacity: 4,
+    digestMinutes: 180,
+    vomitSanityPenalty: 10,
+  },
+  placate: {
+    cooldown: 20,
+    sanityGain: 15,
+    reducedSanityGain: 5,
+    reducedAboveSanity: 80,
+    reducedBelowCorruption: 50,
+    hungerCost: 3,
+  },
+  appraisal: {
+    sanityCost: 3,
+  },
+  inventory: {
+    capacity: 4,
+    maxUpgrades: 3,
+    stackSize: 5,
+    stashCapacity: 8,
+    spoilMinutes: 1440,
+    maxSpoilage: 1,
+  },
+  evolution: {
+    babyAge: 5,
+    teenAge: 24 * 60,
+    abominationCorruption: 85,
+  },
+  lifespan: {
+    elderDay: 7,
+    elderMaxCorruption: 40,
+    oldAgeDay: 21,
+    elderHungerRate: 0.5,
+    elderSanityRate: 1,
+    frailtyPerDay: 0.15,
+  },
+};
+
+/**
+ * Fast decay, harsh offerings and an early slide into ABOMINATION.
+ */
+const NIGHTMARE_RULES: GameRules = {
+  decay: {
+    hungerRate: 0.08,
+    starvingHungerRate: 0.15,
+    sanityRate: 0.03,
+    hungrySanityRate: 0.08,
+    hungryThreshold: 70,
+    starvingThreshold: 85,
+  },
+  feeding: {
+    effects: {
+      PURITY: { hunger: -15, sanity: 8, corruption: -3 },
+      ROT: { hunger: -20, sanity: -20, corruption: 15 },
+      CURSED: { hunger: -15, sanity: -25, corruption: 20 },
+      MEDICINAL: { hunger: -3, sanity: 12, corruption: -1 },
+      VOID: { hunger: -8, sanity: -8, corruption: 2 },
+      SWEET: { hunger: -8, sanity: 6, corruption: 4 },
+      BONE: { hunger: -25, sanity: -5, corruption: 5 },
+    },
+    stomachCapacity: 2,
+    digestMinutes: 300,
+    vomitSanityPenalty: 25,
+  },
+  placate: {
+    cooldown: 45,
+    sanityGain: 12,
+    reducedSanityGain: 4,
+    reducedAboveSanity: 80,
+    reducedBelowCorruption: 50,
+    hungerCost: 8,
+  },
+  appraisal: {
+    sanityCost: 8,
+  },
+  inventory: {
+    capacity: 2,
+    maxUpgrades: 2,
+    stackSize: 2,
+    stashCapacity: 4,
+    spoilMinutes: 480,
+    maxSpoilage: 3,
+  },
+  evolution: {
+    babyAge: 5,
+    teenAge: 24 * 60,
+    abominationCorruption: 70,
+  },
+  lifespan: {
+    elderDay: 5,
+    elderMaxCorruption: 25,
+    oldAgeDay: 10,
+    elderHungerRate: 0.7,
+    elderSanityRate: 1.5,
+    frailtyPerDay: 0.35,
+  },
+};
+
+export const GAME_RULE_PRESETS: Record<Difficulty, GameRules> = {
+  GENTLE: GENTLE_RULES,
+  STANDARD: STANDARD_RULES,
+  NIGHTMARE: NIGHTMARE_RULES,
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = "STANDARD";
+
+// Display order and copy for the creation screen
+export const DIFFICULTIES: { type: Difficulty; label: string; description: string }[] = [
+  {
+    type: "GENTLE",
+    label: "Gentle",
+    description: "It hungers slowly and forgives often",
+  },
+  {
+    type: "STANDARD",
+    label: "Standard",
+    description: "The bargain as it was first written",
+  },
+  {
+    type: "NIGHTMARE",
+    label: "Nightmare",
+    description: "It starves fast and rots faster",
+  },
+];
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Get the rules for a difficulty preset.
+ * Unknown values (e.g. from an old save) fall back to the standard rules.
+ *
+ * @param difficulty - Preset stored with the pet
+ * @returns The rules to apply
+ */
+export function getGameRules(difficulty: Difficulty | undefined): GameRules {
+  return (difficulty && GAME_RULE_PRESETS[difficulty]) || GAME_RULE_PRESETS[DEFAULT_DIFFICULTY];
+}
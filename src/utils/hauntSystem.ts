@@ -13,6 +13,7 @@ const GHOST_STORAGE_KEY = "creepy-companion-ghosts";
 const MAX_GHOSTS = 10;
 const HAUNT_CHANCE = 0.01; // 1% chance per tick
 const SANITY_THRESHOLD_FOR_HAUNT = 50;
+const HAUNT_SANITY_PENALTY = 5;
 
 /**
  * Save a ghost to localStorage.
@@ -49,6 +50,19 @@ export function saveGhost(ghost: GhostData): void {
   }
 }
 
+/**
+ * Basic shape check for a stored ghost.
+ */
+export function isGhostData(ghost: unknown): ghost is GhostData {
+  if (typeof ghost !== "object" || ghost === null) return false;
+  const g = ghost as Record<string, unknown>;
+  return (
+    typeof g.id === "string" &&
+    typeof g.petName === "string" &&
+    typeof g.deathTimestamp === "number"
+  );
+}
+
 /**
  * Load all ghosts from localStorage.
  * Returns empty array on error or if no ghosts exist.
@@ -75,15 +89,7 @@ export function loadGhosts(): GhostData[] {
     }
     
     // Basic validation of ghost objects
-    const validGhosts = parsed.filter((ghost: unknown): ghost is GhostData => {
-      if (typeof ghost !== "object" || ghost === null) return false;
-      const g = ghost as Record<string, unknown>;
-      return (
-        typeof g.id === "string" &&
-        typeof g.petName === "string" &&
-        typeof g.deathTimestamp === "number"
-      );
-    });
+    const validGhosts = parsed.filter(isGhostData);
     
     if (validGhosts.length !== parsed.length) {
       logWarning("Some ghost entries were invalid and filtered out", {
@@ -120,16 +126,38 @@ export function clearGhosts(): void {
   }
 }
 
+/**
+ * Replace all stored ghosts, e.g. when importing a save.
+ * Keeps only the newest MAX_GHOSTS.
+ * 
+ * @param ghosts - The ghosts to store
+ */
+export function replaceGhosts(ghosts: GhostData[]): void {
+  try {
+    const newest = [...ghosts]
+      .sort((a, b) => a.deathTimestamp - b.deathTimestamp)
+      .slice(-MAX_GHOSTS);
+    localStorage.setItem(GHOST_STORAGE_KEY, JSON.stringify(newest));
+    logInfo("Ghosts replaced", { count: newest.length });
+  } catch (error) {
+    logError(
+      "Failed to replace ghosts",
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
+
 /**
  * Get a random ghost from storage.
  * Returns null if no ghosts exist.
  * 
  * Requirements: 4.3
  * 
+ * @param cause - Only pick ghosts that died this way (ritual summons)
  * @returns Random ghost or null
  */
-export function getRandomGhost(): GhostData | null {
-  const ghosts = loadGhosts();
+export function getRandomGhost(cause?: DeathCause): GhostData | null {
+  const ghosts = loadGhosts().filter((ghost) => cause === undefined || ghost.deathCause === cause);
   if (ghosts.length === 0) {
     return null;
   }
@@ -139,17 +167,54 @@ export function getRandomGhost(): GhostData | null {
 }
 
 /**
- * Evaluate whether a haunt event should trigger.
- * 1% chance when sanity < 50, max 1 per game day.
+ * Whether a ghost died peacefully of old age. Such ghosts visit to keep
+ * the pet company rather than to frighten it.
+ *
+ * @param ghost - The visiting ghost
+ */
+export function isPeacefulGhost(ghost: Pick<GhostData, "deathCause">): boolean {
+  return ghost.deathCause === "OLD_AGE";
+}
+
+/**
+ * Count the stored ghosts the simulation can haunt with, and how many of
+ * them are peaceful.
+ *
+ * @returns Ghost counts for the simulation options
+ */
+export function getGhostCounts(): { ghostCount: number; peacefulGhostCount: number } {
+  const ghosts = loadGhosts();
+  return { ghostCount: ghosts.length, peacefulGhostCount: ghosts.filter(isPeacefulGhost).length };
+}
+
+/**
+ * Get a random ghost that matches a haunt raised by the simulation, which
+ * already decided whether the visiting ghost was peaceful.
+ *
+ * @param peaceful - Whether the haunt was peaceful
+ * @returns Random matching ghost or null
+ */
+export function getHauntingGhost(peaceful: boolean): GhostData | null {
+  const ghosts = loadGhosts().filter((ghost) => isPeacefulGhost(ghost) === peaceful);
+  if (ghosts.length === 0) {
+    return null;
+  }
+
+  return ghosts[Math.floor(Math.random() * ghosts.length)];
+}
+
+/**
+ * Check the deterministic haunt preconditions (no roll, no storage access).
+ * Haunts need sanity below 50 and at most one haunt per game day.
  * 
  * Requirements: 4.2, 4.3
  * 
  * @param sanity - Current pet sanity (0-100)
  * @param lastHauntGameDay - Game day of last haunt event
  * @param currentGameDay - Current game day
- * @returns Whether a haunt should trigger
+ * @returns Whether a haunt may be rolled for
  */
-export function shouldTriggerHaunt(
+export function isHauntEligible(
   sanity: number,
   lastHauntGameDay: number,
   currentGameDay: number
@@ -160,7 +225,26 @@ export function shouldTriggerHaunt(
   }
   
   // Check if already haunted today (max 1 per game day)
-  if (lastHauntGameDay >= currentGameDay) {
+  return lastHauntGameDay < currentGameDay;
+}
+
+/**
+ * Evaluate whether a haunt event should trigger.
+ * 1% chance when sanity < 50, max 1 per game day.
+ * 
+ * Requirements: 4.2, 4.3
+ * 
+ * @param sanity - Current pet sanity (0-100)
+ * @param lastHauntGameDay - Game day of last haunt event
+ * @param currentGameDay - Current game day
+ * @returns Whether a haunt should trigger
+ */
+export function shouldTriggerHaunt(
+  sanity: number,
+  lastHauntGameDay: number,
+  currentGameDay: number
+): boolean {
+  if (!isHauntEligible(sanity, lastHauntGameDay, currentGameDay)) {
     return false;
   }
   
@@ -207,4 +291,4 @@ export function createGhostFromPet(
 }
 
 // Export constants for testing
-export { MAX_GHOSTS, HAUNT_CHANCE, SANITY_THRESHOLD_FOR_HAUNT, GHOST_STORAGE_KEY };
+export { MAX_GHOSTS, HAUNT_CHANCE, SANITY_THRESHOLD_FOR_HAUNT, HAUNT_SANITY_PENALTY, GHOST_STORAGE_KEY };
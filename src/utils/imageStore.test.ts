@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  getLogImageIds,
+  hasLogImage,
+  inlineLogImages,
+  isImageId,
+  loadImage,
+  releaseImages,
+  storeImage,
+  storeLogImages,
+} from "./imageStore";
+import type { NarrativeLog } from "./types";
+
+const createLog = (overrides: Partial<NarrativeLog>): NarrativeLog => ({
+  id: "log-1",
+  text: "It stares at the wall.",
+  source: "PET",
+  timestamp: 10,
+  imageStatus: "completed",
+  ...overrides,
+});
+
+describe("Image Store", () => {
+  it("should keep one copy of the same image", async () => {
+    const first = await storeImage("data:image/png;base64,SAME");
+    const second = await storeImage("data:image/png;base64,SAME");
+
+    expect(isImageId(first)).toBe(true);
+    expect(second).toBe(first);
+    expect(await loadImage(first)).toBe("data:image/png;base64,SAME");
+  });
+
+  it("should delete an image once nothing refers to it", async () => {
+    const id = await storeImage("data:image/png;base64,COUNTED");
+    await storeImage("data:image/png;base64,COUNTED");
+
+    await releaseImages([id]);
+    expect(await loadImage(id)).toBe("data:image/png;base64,COUNTED");
+
+    await releaseImages([id]);
+    expect(await loadImage(id)).toBeNull();
+  });
+
+  it("should move inline images out of a log", async () => {
+    const log = createLog({
+      imageUrl: "data:image/png;base64,SCENE",
+      sourceImages: ["data:image/png;base64,SPRITE", "https://example.com/pet.png"],
+    });
+
+    const stored = await storeLogImages(log);
+
+    expect(stored.imageUrl).toBeUndefined();
+    expect(await loadImage(stored.imageId!)).toBe("data:image/png;base64,SCENE");
+    expect(isImageId(stored.sourceImages![0])).toBe(true);
+    expect(stored.sourceImages![1]).toBe("https://example.com/pet.png");
+    expect(getLogImageIds([stored])).toEqual([stored.imageId, stored.sourceImages![0]]);
+    expect(hasLogImage(stored)).toBe(true);
+    expect(log.imageUrl).toBe("data:image/png;base64,SCENE");
+  });
+
+  it("should leave logs without inline images alone", async () => {
+    const log = createLog({ imageUrl: "https://example.com/scene.png" });
+    expect(await storeLogImages(log)).toBe(log);
+  });
+
+  it("should put stored images back for a save file", async () => {
+    const stored = await storeLogImages(
+      createLog({ imageUrl: "data:image/png;base64,EXPORT", sourceImages: ["data:image/png;base64,SRC"] })
+    );
+
+    const [inlined] = await inlineLogImages([stored]);
+
+    expect(inlined.imageId).toBeUndefined();
+    expect(inlined.imageUrl).toBe("data:image/png;base64,EXPORT");
+    expect(inlined.sourceImages).toEqual(["data:image/png;base64,SRC"]);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Image Store
+ * Content-addressed storage for generated artwork in IndexedDB.
+ *
+ * Generated scene images arrive as base64 data URLs, which fill the
+ * localStorage quota after a handful of images. They are stored here instead,
+ * under an id derived from their SHA-256, and logs keep only the id. Storing
+ * the same image twice keeps one copy.
+ *
+ * Every stored reference counts: storeImage adds one and releaseImages takes
+ * one away. An image is deleted once nothing refers to it, e.g. when a pet is
+ * released or a new pet replaces a dead one.
+ *
+ * Without IndexedDB (private modes, tests) images are kept in memory for the
+ * session.
+ */
+
+import type { NarrativeLog } from "./types";
+import { logError, logInfo } from "./errorLogger";
+
+const IMAGE_DB_NAME = "creepy-companion-images";
+const IMAGE_DB_VERSION = 1;
+const IMAGE_STORE_NAME = "images";
+const IMAGE_ID_PREFIX = "img-";
+
+interface StoredImage {
+  id: string;
+  data: string; // Data URL or remote URL
+  refCount: number;
+}
+
+// ============================================
+// Database
+// ============================================
+
+// In-memory fallback when IndexedDB is unavailable
+const memoryImages = new Map<string, StoredImage>();
+
+// Loaded images, so galleries don't read the same image again on every render
+const loadedImages = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(IMAGE_DB_NAME, IMAGE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IMAGE_STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logError("Failed to open image store, keeping images in memory", request.error ?? undefined);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Read and replace one image in a single transaction.
+ * `update` returns the new record, or null to delete it.
+ */
+async function updateImage(
+  id: string,
+  update: (image: StoredImage | undefined) => StoredImage | null
+): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    const next = update(memoryImages.get(id));
+    if (next) memoryImages.set(id, next);
+    else memoryImages.delete(id);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_STORE_NAME, "readwrite");
+    const store = transaction.objectStore(IMAGE_STORE_NAME);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const next = update(request.result as StoredImage | undefined);
+      if (next) store.put(next);
+      else store.delete(id);
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function readImage(id: string): Promise<StoredImage | undefined> {
+  const db = await openDatabase();
+  if (!db) {
+    return memoryImages.get(id);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(IMAGE_STORE_NAME).objectStore(IMAGE_STORE_NAME).get(id);
+    request.onsuccess = () => resolve(request.result as StoredImage | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================
+// Images
+// ============================================
+
+/**
+ * Whether a string is an image store id rather than a URL.
+ */
+export const isImageId = (value: string): boolean => value.startsWith(IMAGE_ID_PREFIX);
+
+/**
+ * Whether a URL carries the image itself (and belongs in the image store).
+ */
+export const isInlineImage = (url: string): boolean => url.startsWith("data:");
+
+async function getImageId(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `${IMAGE_ID_PREFIX}${hash}`;
+}
+
+/**
+ * Store an image and add a reference to it.
+ *
+ * @param data - Data URL (or any image URL) to store
+ * @returns The image's id
+ */
+export async function storeImage(data: string): Promise<string> {
+  const id = await getImageId(data);
+  await updateImage(id, (image) => ({ id, data, refCount: (image?.refCount ?? 0) + 1 }));
+  loadedImages.set(id, data);
+  return id;
+}
+
+/**
+ * Load an image by id.
+ *
+ * @returns The image URL, or null if it is not stored
+ */
+export async function loadImage(id: string): Promise<string | null> {
+  const loaded = loadedImages.get(id);
+  if (loaded) {
+    return loaded;
+  }
+
+  try {
+    const image = await readImage(id);
+    if (!image) {
+      return null;
+    }
+    loadedImages.set(id, image.data);
+    return image.data;
+  } catch (error) {
+    logError("Failed to load image", error instanceof Error ? error : undefined, { imageId: id });
+    return null;
+  }
+}
+
+/**
+ * Drop one reference to each image, deleting images nothing refers to.
+ *
+ * @param ids - One entry per reference being dropped
+ */
+export async function releaseImages(ids: string[]): Promise<void> {
+  let deleted = 0;
+  for (const id of ids) {
+    try {
+      let isDeleted = false;
+      await updateImage(id, (image) => {
+        if (!image || image.refCount <= 1) {
+          isDeleted = true;
+          return null;
+        }
+        return { ...image, refCount: image.refCount - 1 };
+      });
+      if (isDeleted) {
+        loadedImages.delete(id);
+        deleted++;
+      }
+    } catch (error) {
+      logError("Failed to release image", error instanceof Error ? error : undefined, { imageId: id });
+    }
+  }
+
+  if (deleted > 0) {
+    logInfo("Released images", { deleted });
+  }
+}
+
+// ============================================
+// Log Images
+// ============================================
+
+/**
+ * Whether a log has a finished image, stored or by URL.
+ */
+export const hasLogImage = (log: NarrativeLog): boolean =>
+  log.imageStatus === "completed" && Boolean(log.imageId || log.imageUrl);
+
+/**
+ * Image URL for a log, loading it from the store if needed.
+ */
+export async function getLogImageUrl(log: NarrativeLog): Promise<string | null> {
+  if (log.imageId) {
+    return loadImage(log.imageId);
+  }
+  return log.imageUrl ?? null;
+}
+
+/**
+ * Every image reference held by the logs, one entry per reference.
+ */
+export function getLogImageIds(logs: NarrativeLog[]): string[] {
+  return logs.flatMap((log) => [
+    ...(log.imageId ? [log.imageId] : []),
+    ...(log.sourceImages ?? []).filter(isImageId),
+  ]);
+}
+
+/**
+ * Move a log's inline images into the store.
+ *
+ * @returns The log referring to its images by id, or the same log if it
+ *   had nothing inline
+ */
+export async function storeLogImages(log: NarrativeLog): Promise<NarrativeLog> {
+  const hasInlineImage = Boolean(log.imageUrl && isInlineImage(log.imageUrl));
+  const hasInlineSources = Boolean(log.sourceImages?.some(isInlineImage));
+  if (!hasInlineImage && !hasInlineSources) {
+    return log;
+  }
+
+  const { imageUrl, ...rest } = log;
+  const stored: NarrativeLog = hasInlineImage ? { ...rest, imageId: await storeImage(imageUrl!) } : { ...log };
+  if (hasInlineSources) {
+    stored.sourceImages = await Promise.all(
+      log.sourceImages!.map((source) => (isInlineImage(source) ? storeImage(source) : source))
+    );
+  }
+  return stored;
+}
+
+/**
+ * Put stored images back into logs, e.g. for a save file that has to stand
+ * on its own. Images missing from the store are left out.
+ */
+export async function inlineLogImages(logs: NarrativeLog[]): Promise<NarrativeLog[]> {
+  return Promise.all(
+    logs.map(async (log) => {
+      if (!log.imageId && !log.sourceImages?.some(isImageId)) {
+        return log;
+      }
+
+      const { imageId, ...rest } = log;
+      const inlined: NarrativeLog = rest;
+      if (imageId) {
+        const imageUrl = await loadImage(imageId);
+        if (imageUrl) inlined.imageUrl = imageUrl;
+      }
+      if (log.sourceImages) {
+        const sources = await Promise.all(
+          log.sourceImages.map((source) => (isImageId(source) ? loadImage(source) : source))
+        );
+        inlined.sourceImages = sources.filter((source): source is string => source !== null);
+      }
+      return inlined;
+    })
+  );
+}
+
+export { IMAGE_DB_NAME };
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  addOffering,
+  canAddOffering,
+  getInventoryCapacity,
+  getQuantity,
+  getSpoilage,
+  hasRoomForFind,
+  takeOffering,
+  unstashOffering,
+} from "./inventoryUtils";
+import { GAME_RULE_PRESETS } from "./gameRules";
+import { ITEM_TYPES } from "./offerings";
+import type { Offering } from "./types";
+
+const rules = GAME_RULE_PRESETS.STANDARD;
+const { stackSize, spoilMinutes, maxSpoilage } = rules.inventory;
+
+const offering = (id: string, type: Offering["type"], quantity?: number): Offering => ({
+  id,
+  type,
+  description: `Offering ${id}`,
+  icon: "🍄",
+  ...(quantity !== undefined && { quantity }),
+});
+
+// An offering with a certain reading, as the night market sells them
+const known = (id: string, type: Offering["type"], quantity?: number): Offering => ({
+  ...offering(id, type, quantity),
+  description: `A ${type} thing`,
+  appraisal: { type, confidence: 1 },
+});
+
+describe("Inventory", () => {
+  it("should grow capacity with upgrades up to the rules' maximum", () => {
+    expect(getInventoryCapacity(0, rules)).toBe(rules.inventory.capacity);
+    expect(getInventoryCapacity(99, rules)).toBe(rules.inventory.capacity + rules.inventory.maxUpgrades);
+  });
+
+  it("should stack identical known offerings up to the stack size", () => {
+    let inventory: Offering[] = [];
+    for (let i = 0; i < stackSize + 1; i++) {
+      inventory = addOffering(inventory, known(`rot-${i}`, "ROT"), rules);
+    }
+    expect(inventory.map(getQuantity)).toEqual([stackSize, 1]);
+
+    // Different readings never share a slot
+    expect(addOffering(inventory, known("sweet", "SWEET"), rules)).toHaveLength(3);
+  });
+
+  it("should never stack offerings without a certain reading", () => {
+    const inventory = [known("rot", "ROT")];
+    expect(addOffering(inventory, offering("unread", "ROT"), rules)).toHaveLength(2);
+    expect(addOffering(inventory, { ...offering("guessed", "ROT"), appraisal: { type: "ROT", confidence: 0.99 } }, rules)).toHaveLength(2);
+    expect(addOffering([offering("a", "ROT")], offering("b", "ROT"), rules)).toHaveLength(2);
+  });
+
+  it("should keep every offering when adding and taking", () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom(...ITEM_TYPES), { maxLength: 12 }), (types) => {
+        const inventory = types.reduce<Offering[]>(
+          (items, type, i) => addOffering(items, known(`${i}`, type), rules),
+          []
+        );
+        expect(inventory.reduce((sum, item) => sum + getQuantity(item), 0)).toBe(types.length);
+        expect(inventory.every((item) => getQuantity(item) <= stackSize)).toBe(true);
+
+        if (inventory.length > 0) {
+          const [first] = inventory;
+          const taken = takeOffering(inventory, first.id);
+          expect(taken.length).toBe(getQuantity(first) > 1 ? inventory.length : inventory.length - 1);
+        }
+      })
+    );
+  });
+
+  it("should fit an offering on a matching stack when the slots are full", () => {
+    const full = [known("rot", "ROT"), known("pure", "PURITY", stackSize)];
+    expect(canAddOffering(full, known("new-rot", "ROT"), 2, rules)).toBe(true);
+    expect(canAddOffering(full, known("new-pure", "PURITY"), 2, rules)).toBe(false);
+    expect(canAddOffering(full, offering("unread-rot", "ROT"), 2, rules)).toBe(false);
+  });
+
+  it("should only have room for a find in a free slot", () => {
+    const inventory = [known("rot", "ROT"), known("pure", "PURITY")];
+    expect(hasRoomForFind(inventory, 3)).toBe(true);
+    expect(hasRoomForFind(inventory, 2)).toBe(false);
+  });
+});
+
+describe("Stash", () => {
+  it("should spoil only offerings with rot in them", () => {
+    const age = spoilMinutes * 10;
+    expect(getSpoilage({ offering: offering("pure", "PURITY"), stashedAt: 0 }, age, rules)).toBe(0);
+    expect(getSpoilage({ offering: offering("rot", "ROT"), stashedAt: 0 }, spoilMinutes - 1, rules)).toBe(0);
+    expect(getSpoilage({ offering: offering("rot", "ROT"), stashedAt: 0 }, age, rules)).toBe(maxSpoilage);
+  });
+
+  it("should add the gathered rot when taking an offering out", () => {
+    const stashed = {
+      offering: { ...offering("sweet", "SWEET"), aspects: ["ROT" as const], appraisal: { type: "SWEET" as const, confidence: 0.8 } },
+      stashedAt: 100,
+    };
+    const taken = unstashOffering(stashed, 100 + spoilMinutes, rules);
+    expect(taken.aspects).toEqual(["ROT", "ROT"]);
+    expect(taken.appraisal).toBeUndefined();
+
+    // Spoiling stops once the offering has gathered all the rot it can
+    expect(unstashOffering({ offering: taken, stashedAt: 0 }, spoilMinutes * 10, rules).aspects).toHaveLength(maxSpoilage);
+  });
+});
@@ -1,4 +1,5 @@
-import type { Offering } from './types';
+import type { GameRules, Offering, StashedOffering } from './types';
+import { getOfferingTypes } from './offerings';
 
 /**
  * Reorders an inventory array by moving an item from one index to another.
@@ -44,3 +45,130 @@ export function reorderInventory(
   
   return result;
 }
+
+// ============================================
+// Capacity & Stacking
+// ============================================
+
+/**
+ * How many identical offerings a slot holds.
+ */
+export function getQuantity(offering: Offering): number {
+  return offering.quantity ?? 1;
+}
+
+/**
+ * Inventory slots after upgrades, never beyond the rules' maximum.
+ */
+export function getInventoryCapacity(upgrades: number, { inventory }: GameRules): number {
+  return inventory.capacity + Math.min(upgrades, inventory.maxUpgrades);
+}
+
+// Offerings stack only when they look alike and a certain reading vouches
+// for both, so a slot never gives away what an unread find really is
+const isSameOffering = (a: Offering, b: Offering): boolean =>
+  a.appraisal?.confidence === 1 &&
+  b.appraisal?.confidence === 1 &&
+  a.appraisal.type === b.appraisal.type &&
+  a.icon === b.icon &&
+  a.description === b.description;
+
+// The slot an offering would join, if one has room for all of it
+const findStack = (inventory: Offering[], offering: Offering, { inventory: rules }: GameRules) =>
+  inventory.find(
+    (item) =>
+      item.id !== offering.id &&
+      isSameOffering(item, offering) &&
+      getQuantity(item) + getQuantity(offering) <= rules.stackSize
+  );
+
+/**
+ * Whether an offering fits, either on a matching stack or in a free slot.
+ */
+export function canAddOffering(
+  inventory: Offering[],
+  offering: Offering,
+  capacity: number,
+  rules: GameRules
+): boolean {
+  return inventory.length < capacity || findStack(inventory, offering, rules) !== undefined;
+}
+
+/**
+ * Whether a fresh find fits. Finds come without a certain reading, so they
+ * never stack and need a free slot.
+ */
+export function hasRoomForFind(inventory: Offering[], capacity: number): boolean {
+  return inventory.length < capacity;
+}
+
+/**
+ * Add an offering, stacking it onto a matching slot when there is room.
+ * Capacity is the caller's concern.
+ *
+ * @returns A new inventory
+ */
+export function addOffering(inventory: Offering[], offering: Offering, rules: GameRules): Offering[] {
+  const stack = findStack(inventory, offering, rules);
+  if (!stack) {
+    return [...inventory, offering];
+  }
+  return inventory.map((item) =>
+    item === stack ? { ...item, quantity: getQuantity(item) + getQuantity(offering) } : item
+  );
+}
+
+/**
+ * Take offerings off a slot, emptying it when none are left.
+ *
+ * @returns A new inventory
+ */
+export function takeOffering(inventory: Offering[], itemId: string, count = 1): Offering[] {
+  return inventory.flatMap((item) => {
+    if (item.id !== itemId) {
+      return [item];
+    }
+    const quantity = getQuantity(item) - count;
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
+}
+
+// ============================================
+// Stash
+// ============================================
+
+// Rot already gathered on top of the offering's main class
+const getRotAspects = (offering: Offering): number =>
+  (offering.aspects ?? []).filter((aspect) => aspect === 'ROT').length;
+
+/**
+ * Steps of rot a stashed offering has gathered since it was stashed.
+ * Only offerings with rot in them spoil.
+ *
+ * @param age - Pet age in game minutes
+ */
+export function getSpoilage({ offering, stashedAt }: StashedOffering, age: number, { inventory }: GameRules): number {
+  if (!getOfferingTypes(offering).includes('ROT')) {
+    return 0;
+  }
+  const steps = Math.floor(Math.max(0, age - stashedAt) / inventory.spoilMinutes);
+  return Math.min(steps, Math.max(0, inventory.maxSpoilage - getRotAspects(offering)));
+}
+
+/**
+ * Take an offering out of the stash, adding the rot it gathered.
+ *
+ * @param age - Pet age in game minutes
+ */
+export function unstashOffering(item: StashedOffering, age: number, rules: GameRules): Offering {
+  const spoilage = getSpoilage(item, age, rules);
+  if (spoilage === 0) {
+    return item.offering;
+  }
+  return {
+    ...item.offering,
+    aspects: [...(item.offering.aspects ?? []), ...Array.from({ length: spoilage }, () => 'ROT' as const)],
+    // The old reading no longer matches what it has become
+    appraisal: undefined,
+  };
+}
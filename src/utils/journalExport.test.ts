@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { createJournalMarkdown, formatLogClock, getJournalFileName } from "./journalExport";
+import { MINUTES_PER_DAY } from "./simulation";
+import type { NarrativeLog } from "./types";
+
+const pet = { name: "Mochi", archetype: "GLOOM" as const, stage: "BABY" as const };
+
+describe("Journal Export", () => {
+  it("should show the game time of day", () => {
+    const log: NarrativeLog = { id: "a", text: "", source: "SYSTEM", timestamp: MINUTES_PER_DAY + 7 * 60 + 5 };
+    expect(formatLogClock(log)).toBe("07:05");
+  });
+
+  it("should group entries by day with reactions and chosen dialogue", () => {
+    const logs: NarrativeLog[] = [
+      { id: "a", text: "The egg hatched.", source: "SYSTEM", timestamp: 30 },
+      {
+        id: "b",
+        text: "It *hums* at the moon.",
+        source: "PET",
+        timestamp: MINUTES_PER_DAY + 60,
+        reactions: [{ reactionType: "LOVE", timestamp: 0, statDelta: { sanity: 2 } }],
+        dialogueChoice: {
+          logId: "b",
+          choices: [
+            { id: "c1", text: "Sing along", emotionalTone: "loving", statDelta: {} },
+            { id: "c2", text: "Back away", emotionalTone: "fearful", statDelta: {} },
+          ],
+          selectedChoiceId: "c1",
+          timestamp: 0,
+        },
+      },
+      { id: "c", text: "...", source: "PET", timestamp: MINUTES_PER_DAY + 61, isPending: true },
+    ];
+
+    const markdown = createJournalMarkdown(pet, logs);
+
+    expect(markdown).toContain("# The Journal of Mochi");
+    expect(markdown).toContain("## Day 1\n\n**00:30** — *System*: The egg hatched.");
+    expect(markdown).toContain("## Day 2\n\n**01:00** — *Mochi*: It \\*hums\\* at the moon.");
+    expect(markdown).toContain("> Reaction: Love");
+    expect(markdown).toContain('> You said: "Sing along"');
+    expect(markdown).not.toContain("...");
+  });
+
+  it("should name the file after the pet", () => {
+    expect(getJournalFileName("Mr. Whiskers!")).toBe("mr-whiskers-journal.md");
+    expect(getJournalFileName("???")).toBe("pet-journal.md");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Journal Export
+ * Turns a pet's narrative log into a Markdown diary players can share.
+ */
+
+import type { Archetype, NarrativeLog, PetStage, ReactionType } from "./types";
+import { MINUTES_PER_DAY } from "./simulation";
+import { getLogGameDay } from "./logFilters";
+
+interface JournalPet {
+  name: string;
+  archetype: Archetype;
+  stage: PetStage;
+}
+
+const REACTION_NAMES: Record<ReactionType, string> = {
+  COMFORT: "Comfort",
+  FEAR: "Fear",
+  LOVE: "Love",
+  DREAD: "Dread",
+  HOPE: "Hope",
+};
+
+/**
+ * Game time of day for a log entry, e.g. "07:45".
+ */
+export function formatLogClock(log: NarrativeLog): string {
+  const minuteOfDay = Math.floor(log.timestamp % MINUTES_PER_DAY);
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// Keep entry text from being read as Markdown headings, lists or quotes
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_[\]#>|])/g, "\\$1").replace(/\n+/g, " ");
+
+/**
+ * Build the Markdown journal for a pet's life, grouped by game day.
+ *
+ * @param pet - Pet the journal belongs to
+ * @param logs - Log entries, oldest first
+ */
+export function createJournalMarkdown(pet: JournalPet, logs: NarrativeLog[]): string {
+  const lines = [`# The Journal of ${pet.name}`, "", `*${pet.archetype} · ${pet.stage}*`];
+  let currentDay: number | null = null;
+
+  for (const log of logs) {
+    if (log.isPending) {
+      continue;
+    }
+
+    const day = getLogGameDay(log);
+    if (day !== currentDay) {
+      lines.push("", `## Day ${day}`);
+      currentDay = day;
+    }
+
+    const speaker = log.source === "PET" ? pet.name : "System";
+    lines.push("", `**${formatLogClock(log)}** — *${speaker}*: ${escapeMarkdown(log.text)}`);
+
+    if (log.reactions && log.reactions.length > 0) {
+      const reactions = log.reactions.map((reaction) => REACTION_NAMES[reaction.reactionType]);
+      lines.push(`> Reaction: ${reactions.join(", ")}`);
+    }
+
+    const choice = log.dialogueChoice?.choices.find(
+      (option) => option.id === log.dialogueChoice?.selectedChoiceId
+    );
+    if (choice) {
+      lines.push(`> You said: "${escapeMarkdown(choice.text)}"`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * File name for a pet's journal, e.g. "mochi-journal.md".
+ */
+export function getJournalFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "pet"}-journal.md`;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_LOG_FILTERS,
+  getLogGameDay,
+  hasActiveLogFilters,
+  matchesLogFilters,
+  splitSearchMatches,
+} from "./logFilters";
+import { MINUTES_PER_DAY } from "./simulation";
+import type { NarrativeLog } from "./types";
+
+const createLog = (overrides: Partial<NarrativeLog>): NarrativeLog => ({
+  id: "log-1",
+  text: "It gnaws on the Bone.",
+  source: "PET",
+  timestamp: 10,
+  ...overrides,
+});
+
+describe("Log Filters", () => {
+  it("should count game days from 1", () => {
+    expect(getLogGameDay(createLog({ timestamp: 0 }))).toBe(1);
+    expect(getLogGameDay(createLog({ timestamp: MINUTES_PER_DAY - 1 }))).toBe(1);
+    expect(getLogGameDay(createLog({ timestamp: MINUTES_PER_DAY * 2 }))).toBe(3);
+  });
+
+  it("should only be active when something narrows the log", () => {
+    expect(hasActiveLogFilters(EMPTY_LOG_FILTERS)).toBe(false);
+    expect(hasActiveLogFilters({ ...EMPTY_LOG_FILTERS, query: "   " })).toBe(false);
+    expect(hasActiveLogFilters({ ...EMPTY_LOG_FILTERS, fromDay: 2 })).toBe(true);
+  });
+
+  it("should filter by event type, source and day range", () => {
+    const feed = createLog({ eventType: "feed", timestamp: MINUTES_PER_DAY + 5 });
+
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, eventTypes: ["feed", "haunt"] })).toBe(true);
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, eventTypes: ["haunt"] })).toBe(false);
+    expect(matchesLogFilters(createLog({}), { ...EMPTY_LOG_FILTERS, eventTypes: ["feed"] })).toBe(false);
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, sources: ["SYSTEM"] })).toBe(false);
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, fromDay: 2, toDay: 2 })).toBe(true);
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, fromDay: 3 })).toBe(false);
+    expect(matchesLogFilters(feed, { ...EMPTY_LOG_FILTERS, toDay: 1 })).toBe(false);
+  });
+
+  it("should search text regardless of case", () => {
+    expect(matchesLogFilters(createLog({}), { ...EMPTY_LOG_FILTERS, query: "bone" })).toBe(true);
+    expect(matchesLogFilters(createLog({}), { ...EMPTY_LOG_FILTERS, query: "skull" })).toBe(false);
+  });
+
+  it("should split text around every match", () => {
+    expect(splitSearchMatches("Bone by bone", "bone")).toEqual([
+      { text: "Bone", isMatch: true },
+      { text: " by ", isMatch: false },
+      { text: "bone", isMatch: true },
+    ]);
+    expect(splitSearchMatches("Nothing here", "")).toEqual([{ text: "Nothing here", isMatch: false }]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Log Filters
+ * Filtering and search for the narrative log toolbar.
+ */
+
+import type { LogFilters, NarrativeLog } from "./types";
+import { MINUTES_PER_DAY } from "./simulation";
+
+export const EMPTY_LOG_FILTERS: LogFilters = {
+  eventTypes: [],
+  sources: [],
+  fromDay: null,
+  toDay: null,
+  query: "",
+};
+
+/**
+ * Game day (1-based) a log entry was written on.
+ */
+export const getLogGameDay = (log: NarrativeLog): number =>
+  Math.floor(log.timestamp / MINUTES_PER_DAY) + 1;
+
+/**
+ * Whether any filter or search narrows the log.
+ */
+export function hasActiveLogFilters(filters: LogFilters): boolean {
+  return (
+    filters.eventTypes.length > 0 ||
+    filters.sources.length > 0 ||
+    filters.fromDay !== null ||
+    filters.toDay !== null ||
+    filters.query.trim() !== ""
+  );
+}
+
+/**
+ * Whether a log entry passes every filter and contains the search text.
+ */
+export function matchesLogFilters(log: NarrativeLog, filters: LogFilters): boolean {
+  if (filters.eventTypes.length > 0 && !(log.eventType && filters.eventTypes.includes(log.eventType))) {
+    return false;
+  }
+  if (filters.sources.length > 0 && !filters.sources.includes(log.source)) {
+    return false;
+  }
+
+  const day = getLogGameDay(log);
+  if ((filters.fromDay !== null && day < filters.fromDay) || (filters.toDay !== null && day > filters.toDay)) {
+    return false;
+  }
+
+  const query = filters.query.trim().toLowerCase();
+  return query === "" || log.text.toLowerCase().includes(query);
+}
+
+/**
+ * Split text into matching and non-matching parts for highlighting.
+ *
+ * @returns Parts in order; joined they give back the text
+ */
+export function splitSearchMatches(text: string, query: string): Array<{ text: string; isMatch: boolean }> {
+  const needle = query.trim().toLowerCase();
+  if (needle === "") {
+    return [{ text, isMatch: false }];
+  }
+
+  const parts: Array<{ text: string; isMatch: boolean }> = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+  let match = haystack.indexOf(needle);
+  while (match !== -1) {
+    if (match > position) {
+      parts.push({ text: text.slice(position, match), isMatch: false });
+    }
+    parts.push({ text: text.slice(match, match + needle.length), isMatch: true });
+    position = match + needle.length;
+    match = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), isMatch: false });
+  }
+  return parts;
+}
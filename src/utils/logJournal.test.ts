@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  archiveLogs,
+  deleteJournal,
+  getArchivableCount,
+  readArchivedLogs,
+  MAX_RECENT_LOGS,
+  RECENT_LOG_WINDOW,
+} from "./logJournal";
+import type { NarrativeLog } from "./types";
+
+const createLogs = (count: number, from = 0): NarrativeLog[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `log-${from + i}`,
+    text: `Entry ${from + i}`,
+    source: "SYSTEM",
+    timestamp: from + i,
+  }));
+
+describe("Log Journal", () => {
+  it("should read back a range of archived entries", async () => {
+    await archiveLogs("pet-range", 0, createLogs(10));
+    await archiveLogs("pet-range", 10, createLogs(5, 10));
+
+    const page = await readArchivedLogs("pet-range", 8, 12);
+
+    expect(page.map((log) => log.id)).toEqual(["log-8", "log-9", "log-10", "log-11"]);
+    expect(await readArchivedLogs("pet-range", 5, 5)).toEqual([]);
+  });
+
+  it("should keep each pet's journal separate", async () => {
+    await archiveLogs("pet-a", 0, createLogs(3));
+    await archiveLogs("pet-b", 0, createLogs(2, 100));
+
+    await deleteJournal("pet-a");
+
+    expect(await readArchivedLogs("pet-a", 0, 3)).toEqual([]);
+    expect((await readArchivedLogs("pet-b", 0, 2)).map((log) => log.id)).toEqual(["log-100", "log-101"]);
+  });
+
+  it("should archive down to the recent window once over the limit", () => {
+    expect(getArchivableCount(createLogs(MAX_RECENT_LOGS))).toBe(0);
+    expect(getArchivableCount(createLogs(MAX_RECENT_LOGS + 1))).toBe(MAX_RECENT_LOGS + 1 - RECENT_LOG_WINDOW);
+  });
+
+  it("should stop archiving at an entry that is still being written", () => {
+    const logs = createLogs(MAX_RECENT_LOGS + 10);
+    logs[20] = { ...logs[20], isPending: true };
+
+    expect(getArchivableCount(logs)).toBe(20);
+
+    logs[20] = { ...logs[20], isPending: false, imageStatus: "generating" };
+    expect(getArchivableCount(logs)).toBe(20);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Log Journal
+ * Per-pet archive of older narrative log entries in IndexedDB.
+ *
+ * The store keeps a window of recent entries. Once a pet has more than
+ * MAX_RECENT_LOGS entries, the oldest ones are appended to its journal and
+ * leave the store, down to RECENT_LOG_WINDOW. Each pet has a `petId`, and
+ * `archivedLogCount` says how many of its first entries are in the journal,
+ * so entry `i` of the pet's life is archived entry `i` while
+ * `i < archivedLogCount`, and `logs[i - archivedLogCount]` after that.
+ *
+ * Without IndexedDB (private modes, tests) the journal is kept in memory for
+ * the session.
+ */
+
+import type { NarrativeLog } from "./types";
+import { logError } from "./errorLogger";
+
+const JOURNAL_DB_NAME = "creepy-companion-journal";
+const JOURNAL_DB_VERSION = 1;
+const JOURNAL_STORE_NAME = "logs";
+
+export const RECENT_LOG_WINDOW = 100; // Entries kept in the store after archiving
+export const MAX_RECENT_LOGS = 150; // Entries in the store that trigger archiving
+export const ARCHIVE_PAGE_SIZE = 50; // Entries loaded per page in the narrative log
+
+interface JournalEntry {
+  petId: string;
+  index: number; // Position in the pet's life history
+  log: NarrativeLog;
+}
+
+// ============================================
+// Database
+// ============================================
+
+// In-memory fallback when IndexedDB is unavailable
+const memoryJournals = new Map<string, NarrativeLog[]>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(JOURNAL_DB_NAME, JOURNAL_DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(JOURNAL_STORE_NAME, { keyPath: ["petId", "index"] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logError("Failed to open log journal, keeping it in memory", request.error ?? undefined);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const getRange = (petId: string, start: number, end: number) =>
+  IDBKeyRange.bound([petId, start], [petId, end], false, true);
+
+// ============================================
+// Journal
+// ============================================
+
+/**
+ * Append entries to a pet's journal.
+ *
+ * @param petId - Pet the entries belong to
+ * @param startIndex - Position of the first entry in the pet's life history
+ * @param logs - Entries to archive, oldest first
+ */
+export async function archiveLogs(petId: string, startIndex: number, logs: NarrativeLog[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    const journal = memoryJournals.get(petId) ?? [];
+    logs.forEach((log, offset) => {
+      journal[startIndex + offset] = log;
+    });
+    memoryJournals.set(petId, journal);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(JOURNAL_STORE_NAME, "readwrite");
+    const store = transaction.objectStore(JOURNAL_STORE_NAME);
+    logs.forEach((log, offset) => {
+      store.put({ petId, index: startIndex + offset, log } satisfies JournalEntry);
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Read archived entries `start` (inclusive) to `end` (exclusive).
+ *
+ * @returns The entries, oldest first; missing entries are skipped
+ */
+export async function readArchivedLogs(petId: string, start: number, end: number): Promise<NarrativeLog[]> {
+  if (end <= start) {
+    return [];
+  }
+
+  try {
+    const db = await openDatabase();
+    if (!db) {
+      return (memoryJournals.get(petId) ?? []).slice(start, end).filter(Boolean);
+    }
+
+    return await new Promise((resolve, reject) => {
+      const request = db
+        .transaction(JOURNAL_STORE_NAME)
+        .objectStore(JOURNAL_STORE_NAME)
+        .getAll(getRange(petId, start, end));
+      request.onsuccess = () => resolve((request.result as JournalEntry[]).map((entry) => entry.log));
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    logError("Failed to read log journal", error instanceof Error ? error : undefined, { petId, start, end });
+    return [];
+  }
+}
+
+/**
+ * Delete a pet's journal, e.g. when the pet is released.
+ */
+export async function deleteJournal(petId: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) {
+      memoryJournals.delete(petId);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(JOURNAL_STORE_NAME, "readwrite");
+      transaction.objectStore(JOURNAL_STORE_NAME).delete(getRange(petId, 0, Infinity));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    logError("Failed to delete log journal", error instanceof Error ? error : undefined, { petId });
+  }
+}
+
+/**
+ * How many of the oldest entries can be archived now. Archiving stops at
+ * the first entry that is still changing (text or image being generated).
+ */
+export function getArchivableCount(logs: NarrativeLog[]): number {
+  if (logs.length <= MAX_RECENT_LOGS) {
+    return 0;
+  }
+  const candidates = logs.slice(0, logs.length - RECENT_LOG_WINDOW);
+  const busy = candidates.findIndex((log) => log.isPending || log.imageStatus === "generating");
+  return busy === -1 ? candidates.length : busy;
+}
+
+export { JOURNAL_DB_NAME };
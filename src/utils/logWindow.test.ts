@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { getLogOffsets, getLogWindow } from "./logWindow";
+
+describe("Log Window", () => {
+  it("should add up entry offsets", () => {
+    expect(getLogOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    expect(getLogOffsets([])).toEqual([0]);
+  });
+
+  it("should mount only the entries around the viewport", () => {
+    const offsets = getLogOffsets(Array(1000).fill(50));
+
+    const window = getLogWindow(offsets, 5000, 200, 2);
+
+    // Entries 100-104 are visible
+    expect(window).toEqual({ start: 98, end: 107, paddingTop: 4900, paddingBottom: 44650 });
+  });
+
+  it("should clamp to the ends of the list", () => {
+    const offsets = getLogOffsets([40, 40, 40]);
+
+    expect(getLogWindow(offsets, 0, 1000, 2)).toEqual({ start: 0, end: 3, paddingTop: 0, paddingBottom: 0 });
+    expect(getLogWindow(offsets, 5000, 100, 0)).toEqual({ start: 2, end: 3, paddingTop: 80, paddingBottom: 0 });
+    expect(getLogWindow([0], 0, 100)).toEqual({ start: 0, end: 0, paddingTop: 0, paddingBottom: 0 });
+  });
+
+  it("should always cover the viewport and keep the list height", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 400 }), { minLength: 1, maxLength: 300 }),
+        fc.nat(100000),
+        fc.integer({ min: 1, max: 2000 }),
+        (heights, scroll, viewportHeight) => {
+          const offsets = getLogOffsets(heights);
+          const total = offsets[offsets.length - 1];
+          const scrollTop = scroll % total;
+          const { start, end, paddingTop, paddingBottom } = getLogWindow(offsets, scrollTop, viewportHeight, 0);
+
+          expect(start).toBeLessThan(end);
+          expect(paddingTop).toBeLessThanOrEqual(scrollTop);
+          expect(offsets[end] >= Math.min(total, scrollTop + viewportHeight)).toBe(true);
+          expect(paddingTop + (offsets[end] - offsets[start]) + paddingBottom).toBe(total);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Log Window
+ * Which narrative log entries to mount for the current scroll position.
+ *
+ * Entries have different heights (images, dialogue choices, reactions), so
+ * the log measures the entries it mounts and estimates the rest. Entries
+ * outside the window are replaced by padding of the same height, which
+ * keeps the scrollbar and scroll position stable.
+ */
+
+export const ESTIMATED_LOG_HEIGHT = 72; // px, for entries not yet measured
+export const FALLBACK_VIEWPORT_HEIGHT = 600; // px, before the log is laid out
+export const LOG_OVERSCAN = 4; // Entries mounted above and below the viewport
+
+export interface LogWindow {
+  start: number; // First mounted entry
+  end: number; // One past the last mounted entry
+  paddingTop: number; // Height of the entries before `start`
+  paddingBottom: number; // Height of the entries from `end`
+}
+
+/**
+ * Top offset of every entry, plus the total height as the last element.
+ *
+ * @param heights - Height of each entry, oldest first
+ */
+export function getLogOffsets(heights: number[]): number[] {
+  const offsets = [0];
+  for (const height of heights) {
+    offsets.push(offsets[offsets.length - 1] + height);
+  }
+  return offsets;
+}
+
+// Index of the entry at a scroll position, clamped to the list
+function findEntryAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Entries to mount so the viewport (plus overscan) is covered.
+ *
+ * @param offsets - From getLogOffsets
+ * @param scrollTop - Scroll position relative to the top of the list
+ * @param viewportHeight - Visible height of the log
+ */
+export function getLogWindow(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number = LOG_OVERSCAN
+): LogWindow {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  const first = findEntryAt(offsets, scrollTop);
+  const last = findEntryAt(offsets, scrollTop + viewportHeight);
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + 1 + overscan);
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+  };
+}
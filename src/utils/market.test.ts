@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  CONSUMABLES,
+  COSMETICS,
+  MARKET_STOCK,
+  OFFERING_PRICES,
+  applyConsumable,
+  createMarketOffering,
+  getMarketStock,
+  getWareName,
+  isWareFromDay,
+} from "./market";
+
+const gameDay = fc.integer({ min: 0, max: 10000 });
+
+describe("Night Market", () => {
+  it("should stock the same wares every time on the same day", () => {
+    fc.assert(
+      fc.property(gameDay, (day) => {
+        expect(getMarketStock(day)).toEqual(getMarketStock(day));
+      })
+    );
+  });
+
+  it("should stock each kind of ware, all different, with ids from that day", () => {
+    fc.assert(
+      fc.property(gameDay, (day) => {
+        const stock = getMarketStock(day);
+        const countOf = (kind: string) => stock.filter((ware) => ware.kind === kind).length;
+
+        expect(countOf("offering")).toBe(MARKET_STOCK.offerings);
+        expect(countOf("consumable")).toBe(MARKET_STOCK.consumables);
+        expect(countOf("cosmetic")).toBe(MARKET_STOCK.cosmetics);
+        expect(new Set(stock.map((ware) => ware.id)).size).toBe(stock.length);
+        expect(stock.every((ware) => isWareFromDay(ware.id, day))).toBe(true);
+      })
+    );
+  });
+
+  it("should rotate the stock from day to day", () => {
+    const stocks = new Set(
+      Array.from({ length: 10 }, (_, day) =>
+        getMarketStock(day)
+          .map((ware) => ware.id.slice(ware.id.indexOf("-")))
+          .join()
+      )
+    );
+    expect(stocks.size).toBeGreaterThan(1);
+  });
+
+  it("should price wares from the tuning tables", () => {
+    for (const ware of getMarketStock(4)) {
+      const price =
+        ware.kind === "offering"
+          ? OFFERING_PRICES[ware.itemType]
+          : ware.kind === "consumable"
+          ? CONSUMABLES[ware.consumable].price
+          : COSMETICS[ware.cosmetic].price;
+      expect(ware.price).toBe(price);
+    }
+  });
+
+  it("should not mistake another day's ware for today's", () => {
+    expect(isWareFromDay("1-offering-ROT", 1)).toBe(true);
+    expect(isWareFromDay("11-offering-ROT", 1)).toBe(false);
+  });
+
+  it("should sell offerings with a true and certain reading", () => {
+    const offering = createMarketOffering("MEDICINAL");
+    expect(offering.type).toBe("MEDICINAL");
+    expect(offering.appraisal).toEqual({ type: "MEDICINAL", confidence: 1 });
+    expect(getWareName({ id: "0-offering-MEDICINAL", kind: "offering", itemType: "MEDICINAL", price: 5 })).toBe(
+      "A medicinal offering"
+    );
+  });
+
+  it("should apply a consumable's stat changes within bounds", () => {
+    const result = applyConsumable(
+      { stats: { hunger: 10, sanity: 98, corruption: 5 }, statusEffects: [] },
+      "HOLY_WATER"
+    );
+    expect(result.stats).toEqual({ hunger: 10, sanity: 93, corruption: 0 });
+
+    const salted = applyConsumable({ stats: { hunger: 10, sanity: 98, corruption: 5 }, statusEffects: [] }, "SMELLING_SALTS");
+    expect(salted.stats.sanity).toBe(100);
+  });
+
+  it("should bring on a consumable's status effects", () => {
+    const { statusEffects } = applyConsumable(
+      { stats: { hunger: 0, sanity: 50, corruption: 0 }, statusEffects: [] },
+      "WARDING_CHARM"
+    );
+    expect(statusEffects.map((effect) => effect.type)).toEqual(["BLESSED"]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Night Market
+ * Where the keeper trades teeth for what scavenging won't turn up.
+ *
+ * Teeth are earned by scavenging, by the pet surviving another day and by
+ * answering it. The market sells offerings of a known class, consumables
+ * that work on the pet at once and cosmetics for it to wear. Its stock
+ * changes every game day, and is the same for everyone on the same day.
+ * Every price and reward is tuned here.
+ */
+
+import type {
+  ConsumableDefinition,
+  ConsumableId,
+  CosmeticDefinition,
+  CosmeticId,
+  ItemType,
+  MarketWare,
+  Offering,
+} from "./types";
+import { ITEM_CLASSES, ITEM_TYPES } from "./offerings";
+import { applyInstantChange, createSeededRng, type InstantChangeState, type Rng } from "./simulation";
+
+// ============================================
+// Prices & Rewards
+// ============================================
+
+// Teeth earned for each source
+export const TEETH_REWARDS = {
+  scavenge: 1, // Per successful scavenge
+  expeditionFind: 1, // Per offering carried home from an expedition
+  dayRollover: 5, // Per game day the pet survives
+  dialogueChoice: 2, // Per dialogue choice answered
+} as const;
+
+// An offering whose class is known up front; the rarer and more useful, the dearer
+export const OFFERING_PRICES: Record<ItemType, number> = {
+  PURITY: 6,
+  MEDICINAL: 5,
+  SWEET: 3,
+  BONE: 3,
+  ROT: 2,
+  CURSED: 7,
+  VOID: 8,
+};
+
+// Wares of each kind on sale each night
+export const MARKET_STOCK = {
+  offerings: 3,
+  consumables: 2,
+  cosmetics: 1,
+} as const;
+
+// Market offerings come wrapped in newspaper, whatever is inside
+export const MARKET_OFFERING_ICON = "🗞️";
+
+// ============================================
+// Wares
+// ============================================
+
+export const CONSUMABLES: Record<ConsumableId, ConsumableDefinition> = {
+  SMELLING_SALTS: {
+    name: "Smelling Salts",
+    description: "A sharp breath that drags the mind back to the room.",
+    icon: "🧂",
+    price: 4,
+    stats: { sanity: 10 },
+  },
+  WARM_MILK: {
+    name: "Warm Milk",
+    description: "Still steaming, though nobody saw it heated.",
+    icon: "🥛",
+    price: 3,
+    stats: { hunger: -15 },
+  },
+  HOLY_WATER: {
+    name: "Holy Water",
+    description: "Burns the rot out, and a little of everything else with it.",
+    icon: "💧",
+    price: 6,
+    stats: { corruption: -10, sanity: -5 },
+  },
+  WARDING_CHARM: {
+    name: "Warding Charm",
+    description: "Knotted twine and a saint's tooth. Something out there keeps its distance.",
+    icon: "🧿",
+    price: 8,
+    statusEffects: ["BLESSED"],
+  },
+};
+
+export const COSMETICS: Record<CosmeticId, CosmeticDefinition> = {
+  WITCH_HAT: {
+    name: "Witch Hat",
+    description: "Pointed, crooked and a size too big.",
+    icon: "🎩",
+    price: 10,
+  },
+  RIBBON: {
+    name: "Ribbon",
+    description: "A bow in a colour that does not quite exist.",
+    icon: "🎀",
+    price: 8,
+  },
+  BONE_CROWN: {
+    name: "Bone Crown",
+    description: "Small bones, wired together. They still twitch.",
+    icon: "👑",
+    price: 15,
+  },
+  HALO: {
+    name: "Halo",
+    description: "Flickers whenever the pet does something it shouldn't.",
+    icon: "😇",
+    price: 20,
+  },
+};
+
+export const CONSUMABLE_IDS = Object.keys(CONSUMABLES) as ConsumableId[];
+export const COSMETIC_IDS = Object.keys(COSMETICS) as CosmeticId[];
+
+// ============================================
+// Stock
+// ============================================
+
+/**
+ * Pick `count` different entries from a list, in random order.
+ */
+function pickDistinct<T>(list: readonly T[], count: number, rng: Rng): T[] {
+  const pool = [...list];
+  for (let i = 0; i < Math.min(count, pool.length); i++) {
+    const j = i + Math.floor(rng() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+/**
+ * What the market sells on a game day. The same day always has the same
+ * stock; ware ids start with the day so they never match another day's.
+ */
+export function getMarketStock(gameDay: number): MarketWare[] {
+  const rng = createSeededRng(gameDay);
+
+  const offerings = pickDistinct(ITEM_TYPES, MARKET_STOCK.offerings, rng).map(
+    (itemType): MarketWare => ({
+      id: `${gameDay}-offering-${itemType}`,
+      kind: "offering",
+      itemType,
+      price: OFFERING_PRICES[itemType],
+    })
+  );
+  const consumables = pickDistinct(CONSUMABLE_IDS, MARKET_STOCK.consumables, rng).map(
+    (consumable): MarketWare => ({
+      id: `${gameDay}-consumable-${consumable}`,
+      kind: "consumable",
+      consumable,
+      price: CONSUMABLES[consumable].price,
+    })
+  );
+  const cosmetics = pickDistinct(COSMETIC_IDS, MARKET_STOCK.cosmetics, rng).map(
+    (cosmetic): MarketWare => ({
+      id: `${gameDay}-cosmetic-${cosmetic}`,
+      kind: "cosmetic",
+      cosmetic,
+      price: COSMETICS[cosmetic].price,
+    })
+  );
+
+  return [...offerings, ...consumables, ...cosmetics];
+}
+
+/**
+ * Whether a sold ware's id belongs to a game day's stock.
+ */
+export function isWareFromDay(wareId: string, gameDay: number): boolean {
+  return wareId.startsWith(`${gameDay}-`);
+}
+
+/**
+ * The name a ware is listed under, e.g. "A sweet offering" or "Warm Milk".
+ */
+export function getWareName(ware: MarketWare): string {
+  switch (ware.kind) {
+    case "offering":
+      return `A ${ITEM_CLASSES[ware.itemType].descriptor} offering`;
+    case "consumable":
+      return CONSUMABLES[ware.consumable].name;
+    case "cosmetic":
+      return COSMETICS[ware.cosmetic].name;
+  }
+}
+
+// ============================================
+// Buying
+// ============================================
+
+/**
+ * An offering bought at the market, without an id. The seller vouches for
+ * its class, so it comes with a reading that is certain and true.
+ */
+export function createMarketOffering(itemType: ItemType): Omit<Offering, "id"> {
+  return {
+    type: itemType,
+    description: `A ${ITEM_CLASSES[itemType].descriptor} thing wrapped in newspaper. The seller swore to what it was.`,
+    icon: MARKET_OFFERING_ICON,
+    appraisal: { type: itemType, confidence: 1 },
+  };
+}
+
+/**
+ * Use a consumable on the pet: its stat changes at once, and any status
+ * effects it brings on.
+ */
+export function applyConsumable(state: InstantChangeState, consumable: ConsumableId): InstantChangeState {
+  return applyInstantChange(state, CONSUMABLES[consumable]);
+}
@@ -3,8 +3,8 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { mapReactionsToToneKeywords, deduplicateToneKeywords } from "./narrativeGenerator";
-import type { ReactionData } from "./types";
+import { mapReactionsToToneKeywords, deduplicateToneKeywords, getOfflineEventText, buildOfflineDigest } from "./narrativeGenerator";
+import type { ReactionData, SimulationEvent } from "./types";
 
 describe("Tone Influence Helper Functions", () => {
   describe("mapReactionsToToneKeywords", () => {
@@ -317,3 +317,58 @@ describe("Memory System Functions", () => {
     });
   });
 });
+
+describe("Offline Absence Narrative", () => {
+  const stats = { hunger: 50, sanity: 40, corruption: 10 };
+
+  describe("getOfflineEventText", () => {
+    it("should name the ghost for haunt events", () => {
+      const event: SimulationEvent = { type: "haunt", age: 100, stats, gameDay: 1, peaceful: false };
+      expect(getOfflineEventText(event, "Mochi", "Old Bones")).toContain("Old Bones");
+    });
+
+    it("should tell a gentle visit from a ghost that died of old age", () => {
+      const event: SimulationEvent = { type: "haunt", age: 100, stats, gameDay: 1, peaceful: false };
+      expect(getOfflineEventText(event, "Mochi", "Old Bones", "OLD_AGE")).toContain("has come to sit with it");
+    });
+
+    it("should use the hatch pool when leaving the egg", () => {
+      const event: SimulationEvent = { type: "evolution", age: 5, stats, fromStage: "EGG", toStage: "BABY" };
+      const text = getOfflineEventText(event, "Mochi");
+      expect(text.startsWith("Mochi ")).toBe(true);
+    });
+  });
+
+  describe("buildOfflineDigest", () => {
+    it("should fall back to a waiting line when nothing happened", () => {
+      expect(buildOfflineDigest("Mochi", 300, [])).toBe("While you were gone… (5m) Mochi has been waiting...");
+    });
+
+    it("should summarise days, evolutions, madness, haunts and death", () => {
+      const events: SimulationEvent[] = [
+        { type: "dayRollover", age: 1440, stats, gameDay: 1 },
+        { type: "evolution", age: 1440, stats, fromStage: "BABY", toStage: "TEEN" },
+        { type: "insanity", age: 1500, stats, insanityType: "GLITCH" },
+        { type: "insanity", age: 1600, stats, insanityType: "SHADOWS" },
+        { type: "haunt", age: 1700, stats, gameDay: 1, peaceful: false },
+        { type: "death", age: 1800, stats, cause: "STARVATION" },
+      ];
+
+      const digest = buildOfflineDigest("Mochi", 8 * 3600, events);
+      expect(digest).toBe(
+        "While you were gone… (8h 0m) 1 day passed, Mochi became a TEEN, 2 episodes of madness came and went, the dead visited once, Mochi did not survive your absence."
+      );
+    });
+
+    it("should tell of growing old and a peaceful death", () => {
+      const events: SimulationEvent[] = [
+        { type: "evolution", age: 10080, stats, fromStage: "TEEN", toStage: "ELDER" },
+        { type: "death", age: 20160, stats, cause: "OLD_AGE" },
+      ];
+
+      expect(buildOfflineDigest("Mochi", 300, events)).toBe(
+        "While you were gone… (5m) Mochi became an ELDER, Mochi passed away peacefully in its sleep."
+      );
+    });
+  });
+});
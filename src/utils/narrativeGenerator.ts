@@ -4,8 +4,9 @@
  */
 
 import { logWarning } from "./errorLogger";
-import type { Archetype, PetStage, ReactionData, ToneInfluence, NarrativeLog, NarrativeContext, EventType } from "./types";
+import type { Archetype, ItemType, PetStage, ReactionData, ToneInfluence, NarrativeLog, NarrativeContext, EventType } from "./types";
 import { REACTION_TONE_KEYWORDS } from "./types";
+import { describeOffering } from "./offerings";
 
 import type { DeathCause } from "./types";
 
@@ -21,6 +22,31 @@ const FALLBACK_MESSAGES = {
     "writhes with pleasure as decay spreads through it.",
     "consumes the rot. Its eyes gleam with hunger.",
   ],
+  feed_cursed: [
+    "swallows the cursed thing. The shadows lean closer.",
+    "eats, and for a moment something else looks out of its eyes.",
+    "accepts the curse without hesitation. The room grows colder.",
+  ],
+  feed_medicinal: [
+    "chews the bitter remedy, grimacing, and seems steadier for it.",
+    "takes the medicine. Its trembling slowly eases.",
+    "swallows the cure. Something knotted inside it loosens.",
+  ],
+  feed_void: [
+    "swallows the emptiness. For a moment it feels nothing at all.",
+    "consumes the void, and the void consumes a little of it back.",
+    "eats the lightless thing. Its eyes go briefly, terribly blank.",
+  ],
+  feed_sweet: [
+    "gobbles the sweet offering, sticky and briefly delighted.",
+    "licks at the sugar with an unsettling, childlike greed.",
+    "devours the sweetness. It wants more. It always wants more.",
+  ],
+  feed_bone: [
+    "cracks the bone open and sucks out the marrow.",
+    "gnaws the bone with a sound like splintering furniture.",
+    "crunches through the bone, slow and thorough.",
+  ],
   overfeed: [
     "convulses violently. Too much, too soon.",
     "retches and shudders. Greed has consequences.",
@@ -36,6 +62,11 @@ const FALLBACK_MESSAGES = {
     "breaks free, its first breath a rattling gasp.",
     "hatches into existence, already watching.",
   ],
+  grow_old: [
+    "has gone grey around the eyes. It moves slower now, and sleeps more.",
+    "settles into old age, its edges softened and its colour faded.",
+    "grows old at last. Whatever it was becoming, it has stopped.",
+  ],
   // Death narrative fallbacks (Requirement 2.5)
   death_starvation: [
     "succumbs to the gnawing emptiness within.",
@@ -47,6 +78,11 @@ const FALLBACK_MESSAGES = {
     "shatters into fragments of what once was.",
     "dissolves into the madness that claimed it.",
   ],
+  death_old_age: [
+    "curls up in its favourite corner and does not wake.",
+    "lets out one long, contented breath, and then is still.",
+    "slips away quietly, as if it had simply grown tired of waiting.",
+  ],
   // Placate narrative fallbacks (Requirement 6.8)
   placate: [
     "finds momentary peace in your presence.",
@@ -80,12 +116,28 @@ const FALLBACK_MESSAGES = {
     "up becomes down, light becomes dark, nothing makes sense anymore.",
     "the world turns inside out, familiar things becoming alien and wrong.",
   ],
+  ritual_failure: [
+    "watches the altar spit the offerings back out, blackened and wrong.",
+    "flinches as the ritual collapses with a sound like a held breath let go.",
+    "stares at the smoking altar. Whatever was listening did not like that.",
+  ],
+  expedition: [
+    "is waiting by the door when you come home, and will not say how long it has been waiting.",
+    "sniffs at what you brought back, then at you, as if checking you are still you.",
+    "has rearranged itself while you were gone. It pretends it has not.",
+  ],
   // Haunt narrative fallbacks (Requirement 4.7)
   haunt: [
     "senses a familiar presence stirring in the shadows, watching from beyond.",
     "feels the air grow cold with memories of the departed.",
     "perceives something watching from beyond the veil, a spirit that lingers.",
   ],
+  // A ghost that died of old age visits gently
+  haunt_old_age: [
+    "feels a warm weight settle beside it, the way an old friend would sit.",
+    "hears a familiar, unhurried breathing in the dark, and is not afraid.",
+    "notices the cold has lifted. Someone who once lived here is keeping watch.",
+  ],
 };
 
 type FallbackEventType = keyof typeof FALLBACK_MESSAGES;
@@ -385,7 +437,8 @@ interface BaseNarrativeContext {
 
 interface FeedingContext extends BaseNarrativeContext {
   itemName: string;
-  itemType: "PURITY" | "ROT";
+  itemType: ItemType;
+  aspects?: ItemType[]; // Further classes of a mixed offering
   isOverfed: boolean;
 }
 
@@ -403,7 +456,7 @@ export async function generateFeedingNarrative(
   toneInfluence?: ToneInfluence,
   memoryContext?: NarrativeContext
 ): Promise<string> {
-  const { petName, stage, archetype, sanity, corruption, itemName, itemType, isOverfed } = context;
+  const { petName, stage, archetype, sanity, corruption, itemName, itemType, aspects, isOverfed } = context;
 
   // Handle overfeeding separately
   if (isOverfed) {
@@ -413,7 +466,7 @@ export async function generateFeedingNarrative(
   const toneContext = buildToneContext(toneInfluence);
   const memoryContextString = memoryContext ? formatNarrativeContextString(memoryContext) : "";
   
-  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature consumes "${itemName}" (a ${itemType.toLowerCase()} offering). Current sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of atmospheric horror narrative describing this feeding moment.`;
+  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature consumes "${itemName}" (a ${describeOffering({ type: itemType, aspects })} offering). Current sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of atmospheric horror narrative describing this feeding moment.`;
 
   try {
     const response = await fetch("/api/chat", {
@@ -443,8 +496,7 @@ export async function generateFeedingNarrative(
       eventType: `feed_${itemType.toLowerCase()}`,
     });
     
-    const eventType = itemType === "PURITY" ? "feed_purity" : "feed_rot";
-    return getFallbackMessage(eventType, petName);
+    return getFallbackMessage(`feed_${itemType.toLowerCase()}` as FallbackEventType, petName);
   }
 }
 
@@ -508,12 +560,13 @@ export async function generateEvolutionNarrative(
   const { petName, archetype, sanity, corruption, fromStage, toStage } = context;
 
   const isHatching = fromStage === "EGG";
+  const eventType = getEvolutionFallback(fromStage, toStage);
   const toneContext = buildToneContext(toneInfluence);
   const memoryContextString = memoryContext ? formatNarrativeContextString(memoryContext) : "";
   
   const prompt = isHatching
     ? `${petName} the ${archetype.toLowerCase()} creature hatches from its egg, emerging as a ${toStage.toLowerCase()}.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of atmospheric horror narrative about this birth.`
-    : `${petName} the ${archetype.toLowerCase()} creature evolves from ${fromStage.toLowerCase()} to ${toStage.toLowerCase()}. Sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of body-horror narrative about this transformation.`;
+    : `${petName} the ${archetype.toLowerCase()} creature evolves from ${fromStage.toLowerCase()} to ${toStage.toLowerCase()}. Sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of ${toStage === "ELDER" ? "quiet, wistful narrative about it growing old" : "body-horror narrative about this transformation"}.`;
 
   try {
     const response = await fetch("/api/chat", {
@@ -540,14 +593,21 @@ export async function generateEvolutionNarrative(
   } catch (error) {
     logWarning("AI narrative generation failed, using fallback", {
       error: error instanceof Error ? error.message : "Unknown",
-      eventType: isHatching ? "hatch" : "evolution",
+      eventType,
     });
     
-    const eventType = isHatching ? "hatch" : "evolution";
     return getFallbackMessage(eventType, petName);
   }
 }
 
+/**
+ * Fallback pool for a stage change: hatching, growing old or transforming.
+ */
+function getEvolutionFallback(fromStage: PetStage, toStage: PetStage): FallbackEventType {
+  if (fromStage === "EGG") return "hatch";
+  return toStage === "ELDER" ? "grow_old" : "evolution";
+}
+
 /**
  * Generate placeholder text shown while AI is loading
  */
@@ -579,6 +639,20 @@ export function getPlaceholderText(
 // Death Narrative Generation (Requirements 2.1, 2.2, 2.5)
 // ============================================
 
+// How each cause of death is described to the AI
+const DEATH_CAUSE_DESCRIPTIONS: Record<DeathCause, string> = {
+  STARVATION: "starved to death from neglect",
+  INSANITY: "lost its mind to insanity",
+  OLD_AGE: "died peacefully of old age after a long life",
+};
+
+// Fallback pool for each cause of death
+const DEATH_FALLBACKS: Record<DeathCause, FallbackEventType> = {
+  STARVATION: "death_starvation",
+  INSANITY: "death_insanity",
+  OLD_AGE: "death_old_age",
+};
+
 interface DeathContext {
   petName: string;
   archetype: Archetype;
@@ -609,12 +683,13 @@ export async function generateDeathNarrative(
 ): Promise<string> {
   const { petName, archetype, stage, age, cause, sanity = 0, corruption = 0 } = context;
 
-  const causeDescription = cause === "STARVATION" 
-    ? "starved to death from neglect" 
-    : "lost its mind to insanity";
+  // Dying of old age is the one gentle ending
+  const style = cause === "OLD_AGE"
+    ? "gentle, bittersweet narrative describing this creature's last quiet moments"
+    : "somber, atmospheric horror narrative describing this creature's final moments";
 
   const toneContext = buildToneContext(toneInfluence);
-  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature has ${causeDescription}. Age: ${age} minutes, final sanity: ${sanity}%, corruption: ${corruption}%.${toneContext} Generate 2-3 sentences of somber, atmospheric horror narrative describing this creature's final moments and passing.`;
+  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature has ${DEATH_CAUSE_DESCRIPTIONS[cause]}. Age: ${age} minutes, final sanity: ${sanity}%, corruption: ${corruption}%.${toneContext} Generate 2-3 sentences of ${style} and passing.`;
 
   try {
     const response = await fetch("/api/chat", {
@@ -644,8 +719,7 @@ export async function generateDeathNarrative(
       cause,
     });
     
-    const eventType = cause === "STARVATION" ? "death_starvation" : "death_insanity";
-    return getFallbackMessage(eventType as FallbackEventType, petName);
+    return getFallbackMessage(DEATH_FALLBACKS[cause], petName);
   }
 }
 
@@ -668,8 +742,11 @@ export async function generateEpitaph(
     ? `${hours} hour${hours !== 1 ? 's' : ''} and ${minutes} minute${minutes !== 1 ? 's' : ''}`
     : `${minutes} minute${minutes !== 1 ? 's' : ''}`;
 
+  const isPeaceful = cause === "OLD_AGE";
+  const causeName = isPeaceful ? "old age" : cause.toLowerCase();
+
   const toneContext = buildToneContext(toneInfluence);
-  const prompt = `Write a brief, poetic epitaph (1-2 sentences) for ${petName}, a ${archetype.toLowerCase()} creature who reached the ${stage.toLowerCase()} stage and lived for ${ageString} before dying of ${cause.toLowerCase()}.${toneContext} Make it somber and memorable.`;
+  const prompt = `Write a brief, poetic epitaph (1-2 sentences) for ${petName}, a ${archetype.toLowerCase()} creature who reached the ${stage.toLowerCase()} stage and lived for ${ageString} before dying of ${causeName}.${toneContext} Make it ${isPeaceful ? "tender and peaceful, a life well kept" : "somber and memorable"}.`;
 
   try {
     const response = await fetch("/api/chat", {
@@ -699,6 +776,9 @@ export async function generateEpitaph(
     });
     
     // Fallback epitaph
+    if (isPeaceful) {
+      return `Here lies ${petName}, a ${archetype.toLowerCase()} soul who grew old and fell asleep. Kept well, to the very end.`;
+    }
     return `Here lies ${petName}, a ${archetype.toLowerCase()} soul who reached ${stage.toLowerCase()} stage. Gone but not forgotten.`;
   }
 }
@@ -835,6 +915,136 @@ export async function generateVomitNarrative(
   }
 }
 
+// ============================================
+// Ritual Failure Narrative Generation
+// ============================================
+
+interface RitualFailureContext {
+  petName: string;
+  archetype: Archetype;
+  stage: PetStage;
+  sanity: number;
+  corruption: number;
+  offerings: Array<{ type: ItemType; aspects?: ItemType[] }>; // What went on the altar
+}
+
+/**
+ * Generate AI narrative for offerings that make no known recipe.
+ * Returns fallback message on failure.
+ */
+export async function generateRitualFailureNarrative(
+  context: RitualFailureContext,
+  toneInfluence?: ToneInfluence,
+  memoryContext?: NarrativeContext
+): Promise<string> {
+  const { petName, archetype, stage, sanity, corruption, offerings } = context;
+
+  const offeringList = offerings.map((offering) => `a ${describeOffering(offering)} offering`).join(", ");
+  const toneContext = buildToneContext(toneInfluence);
+  const memoryContextString = memoryContext ? formatNarrativeContextString(memoryContext) : "";
+
+  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature watched its keeper combine ${offeringList} on a ritual altar, and the ritual failed. Sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of eerie horror narrative describing the ritual going wrong and how this creature reacts. Do not name a recipe or explain what would have worked.`;
+
+  try {
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        prompt,
+        temperature: 0.8,
+        maxTokens: 100,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    
+    if (data.text && data.text.trim()) {
+      return data.text.trim();
+    }
+    
+    throw new Error("Empty response from AI");
+  } catch (error) {
+    logWarning("AI ritual failure narrative generation failed, using fallback", {
+      error: error instanceof Error ? error.message : "Unknown",
+      archetype,
+    });
+    
+    return getFallbackMessage("ritual_failure", petName);
+  }
+}
+
+// ============================================
+// Expedition Narrative Generation
+// ============================================
+
+interface ExpeditionContext {
+  petName: string;
+  archetype: Archetype;
+  stage: PetStage;
+  sanity: number;
+  corruption: number;
+  locationName: string;
+  minutesAway: number;
+  finds: Array<{ type: ItemType; aspects?: ItemType[] }>; // What the keeper brought back
+  encounter?: string; // What happened out there, if anything
+}
+
+/**
+ * Generate AI narrative for the keeper coming home from an expedition.
+ * Returns fallback message on failure.
+ */
+export async function generateExpeditionNarrative(
+  context: ExpeditionContext,
+  toneInfluence?: ToneInfluence,
+  memoryContext?: NarrativeContext
+): Promise<string> {
+  const { petName, archetype, stage, sanity, corruption, locationName, minutesAway, finds, encounter } = context;
+
+  const findList = finds.length > 0
+    ? finds.map((find) => `a ${describeOffering(find)} offering`).join(", ")
+    : "nothing";
+  const encounterContext = encounter ? ` On the way, this happened: ${encounter}` : "";
+  const toneContext = buildToneContext(toneInfluence);
+  const memoryContextString = memoryContext ? formatNarrativeContextString(memoryContext) : "";
+
+  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature was left alone for ${minutesAway} minutes while its keeper searched ${locationName}. The keeper came home with ${findList}.${encounterContext} Sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of eerie horror narrative describing the keeper's return and how this creature reacts. Do not reveal what the offerings really are.`;
+
+  try {
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        prompt,
+        temperature: 0.8,
+        maxTokens: 100,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    
+    if (data.text && data.text.trim()) {
+      return data.text.trim();
+    }
+    
+    throw new Error("Empty response from AI");
+  } catch (error) {
+    logWarning("AI expedition narrative generation failed, using fallback", {
+      error: error instanceof Error ? error.message : "Unknown",
+      archetype,
+    });
+    
+    return getFallbackMessage("expedition", petName);
+  }
+}
+
 // ============================================
 // Insanity Narrative Generation (Requirements 10.5, 10.7)
 // ============================================
@@ -887,8 +1097,15 @@ export async function generateHauntNarrative(
 
   const toneContext = buildToneContext(toneInfluence);
   const memoryContextString = memoryContext ? formatNarrativeContextString(memoryContext) : "";
+
+  // A ghost that died of old age comes to keep the pet company, not to frighten it
+  const isPeaceful = ghostDeathCause === "OLD_AGE";
+  const ghostCause = isPeaceful ? "old age" : ghostDeathCause.toLowerCase();
+  const style = isPeaceful
+    ? "quiet, comforting narrative describing this gentle visit"
+    : "atmospheric horror narrative describing this haunting encounter";
   
-  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature is being haunted by the ghost of ${ghostName}, a ${ghostArchetype.toLowerCase()} creature who died as a ${ghostStage.toLowerCase()} from ${ghostDeathCause.toLowerCase()}. Current sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of atmospheric horror narrative describing this haunting encounter. Reference the ghost's presence and how it affects ${petName}.`;
+  const prompt = `${petName} the ${stage.toLowerCase()} ${archetype.toLowerCase()} creature is being haunted by the ghost of ${ghostName}, a ${ghostArchetype.toLowerCase()} creature who died as a ${ghostStage.toLowerCase()} from ${ghostCause}. Current sanity: ${sanity}%, corruption: ${corruption}%.${toneContext}${memoryContextString ? `\n\nContext:\n${memoryContextString}` : ""} Generate 1-2 sentences of ${style}. Reference the ghost's presence and how it affects ${petName}.`;
 
   try {
     const response = await fetch("/api/chat", {
@@ -919,19 +1136,24 @@ export async function generateHauntNarrative(
     });
     
     // Fallback message referencing the ghost's name (Requirement 4.7)
-    return getHauntFallbackMessage(petName, ghostName);
+    return getHauntFallbackMessage(petName, ghostName, ghostDeathCause);
   }
 }
 
 /**
  * Get a haunt fallback message that references the ghost's name
  * Requirement 4.7
+ *
+ * @param ghostDeathCause - How the ghost died; those that died of old age visit gently
  */
-function getHauntFallbackMessage(petName: string, ghostName: string): string {
-  const messages = FALLBACK_MESSAGES.haunt;
+function getHauntFallbackMessage(petName: string, ghostName: string, ghostDeathCause?: string): string {
+  const isPeaceful = ghostDeathCause === "OLD_AGE";
+  const messages = FALLBACK_MESSAGES[isPeaceful ? "haunt_old_age" : "haunt"];
   const baseMessage = messages[Math.floor(Math.random() * messages.length)];
   // Append ghost reference to the fallback message
-  return `${petName} ${baseMessage} The spirit of ${ghostName} draws near.`;
+  return isPeaceful
+    ? `${petName} ${baseMessage} The spirit of ${ghostName} has come to sit with it.`
+    : `${petName} ${baseMessage} The spirit of ${ghostName} draws near.`;
 }
 
 export async function generateInsanityNarrative(
@@ -989,6 +1211,123 @@ export async function generateInsanityNarrative(
   }
 }
 
+// ============================================
+// Offline Absence Narrative
+// ============================================
+
+import type { SimulationEvent } from "./types";
+
+/**
+ * Get log text for an event that happened while the player was away.
+ * Uses the fallback pools synchronously so a long absence never fans out
+ * into dozens of AI requests on load.
+ * 
+ * @param event - Event produced by the simulation engine
+ * @param petName - Name of the pet
+ * @param ghostName - Name of the haunting ghost (haunt events only)
+ * @param ghostDeathCause - How the haunting ghost died (haunt events only)
+ */
+export function getOfflineEventText(
+  event: SimulationEvent,
+  petName: string,
+  ghostName?: string,
+  ghostDeathCause?: DeathCause
+): string {
+  switch (event.type) {
+    case "evolution":
+      return getFallbackMessage(getEvolutionFallback(event.fromStage, event.toStage), petName);
+    case "insanity":
+      return getFallbackMessage(
+        `insanity_${event.insanityType.toLowerCase()}` as FallbackEventType,
+        petName
+      );
+    case "haunt":
+      return ghostName
+        ? getHauntFallbackMessage(petName, ghostName, ghostDeathCause)
+        : getFallbackMessage("haunt", petName);
+    case "death":
+      return getFallbackMessage(DEATH_FALLBACKS[event.cause], petName);
+    case "dayRollover":
+      return `Day ${event.gameDay} dawns over ${petName}.`;
+  }
+}
+
+/**
+ * Format a real-world duration for the absence digest (e.g. "8h 5m").
+ */
+function formatAbsence(seconds: number): string {
+  const totalMinutes = Math.floor(seconds / 60);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Summarise everything that happened during an absence in a single line.
+ * 
+ * @param petName - Name of the pet
+ * @param secondsAway - Real seconds the player was away
+ * @param events - Events resolved during the absence, in order
+ */
+export function buildOfflineDigest(
+  petName: string,
+  secondsAway: number,
+  events: SimulationEvent[]
+): string {
+  const parts: string[] = [];
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+  const days = events.filter((event) => event.type === "dayRollover").length;
+  if (days > 0) {
+    parts.push(`${plural(days, "day")} passed`);
+  }
+
+  for (const event of events) {
+    if (event.type === "evolution") {
+      parts.push(
+        event.fromStage === "EGG"
+          ? `${petName} hatched`
+          : `${petName} became ${/^[AEIOU]/.test(event.toStage) ? "an" : "a"} ${event.toStage}`
+      );
+    }
+  }
+
+  const insanity = events.filter((event) => event.type === "insanity").length;
+  if (insanity > 0) {
+    parts.push(`${plural(insanity, "episode")} of madness came and went`);
+  }
+
+  const haunts = events.filter((event) => event.type === "haunt").length;
+  if (haunts > 0) {
+    parts.push(`the dead visited ${haunts === 1 ? "once" : `${haunts} times`}`);
+  }
+
+  const death = events.find((event) => event.type === "death");
+  if (death) {
+    parts.push(
+      death.type === "death" && death.cause === "OLD_AGE"
+        ? `${petName} passed away peacefully in its sleep`
+        : `${petName} did not survive your absence`
+    );
+  }
+
+  const header = `While you were gone… (${formatAbsence(secondsAway)})`;
+  if (parts.length === 0) {
+    return `${header} ${petName} has been waiting...`;
+  }
+
+  const summary = parts.join(", ");
+  return `${header} ${summary.charAt(0).toUpperCase()}${summary.slice(1)}.`;
+}
+
 // ============================================
 // Dialogue Choice Generation (Requirements 6.1, 6.2)
 // ============================================
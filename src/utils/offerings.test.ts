@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  ITEM_TYPES,
+  OFFERING_ICONS,
+  applyOfferingSideEffects,
+  describeOffering,
+  getItemWeights,
+  getOfferingEffect,
+  rollItemType,
+  rollOffering,
+} from "./offerings";
+import { GAME_RULE_PRESETS } from "./gameRules";
+import { createSeededRng } from "./simulation";
+import type { PetStage } from "./types";
+
+const rules = GAME_RULE_PRESETS.STANDARD;
+
+describe("Offerings", () => {
+  it("should give every class a stat profile in every preset", () => {
+    for (const preset of Object.values(GAME_RULE_PRESETS)) {
+      expect(Object.keys(preset.feeding.effects).sort()).toEqual([...ITEM_TYPES].sort());
+    }
+  });
+
+  it("should sum the stat profiles of a mixed offering", () => {
+    expect(getOfferingEffect({ type: "SWEET", aspects: ["CURSED"] }, rules)).toEqual({
+      hunger: -25,
+      sanity: -12,
+      corruption: 17,
+    });
+    expect(describeOffering({ type: "SWEET", aspects: ["CURSED"] })).toBe("sickly sweet, cursed");
+  });
+
+  it("should cure before applying side effects", () => {
+    const terrors = [{ type: "NIGHT_TERRORS" as const, remaining: 60, stacks: 2 }];
+    expect(applyOfferingSideEffects(terrors, { type: "MEDICINAL" })).toEqual([]);
+    expect(applyOfferingSideEffects(terrors, { type: "CURSED" })).toEqual([
+      { type: "NIGHT_TERRORS", remaining: 180, stacks: 3 },
+    ]);
+    expect(applyOfferingSideEffects([{ type: "SATED", remaining: 60, stacks: 1 }], { type: "VOID" })).toEqual([]);
+  });
+
+  it("should make pure offerings scarcer and cursed ones likelier as corruption rises", () => {
+    const pure = getItemWeights("TEEN", 0);
+    const corrupt = getItemWeights("TEEN", 90);
+    expect(corrupt.PURITY).toBeLessThan(pure.PURITY);
+    expect(corrupt.CURSED).toBeGreaterThan(pure.CURSED);
+    expect(getItemWeights("EGG", 0).CURSED).toBe(0);
+    expect(getItemWeights("BABY", 10).VOID).toBe(0);
+    expect(getItemWeights("ABOMINATION", 10).VOID).toBeGreaterThan(0);
+  });
+
+  it("should never roll a class with no weight", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<PetStage>("EGG", "BABY", "TEEN", "ABOMINATION"),
+        fc.double({ min: 0, max: 100, noNaN: true }),
+        fc.integer(),
+        (stage, corruption, seed) => {
+          const weights = getItemWeights(stage, corruption);
+          const rng = createSeededRng(seed);
+          expect(weights[rollItemType(weights, rng)]).toBeGreaterThan(0);
+
+          const offering = rollOffering(stage, corruption, rng);
+          expect(OFFERING_ICONS).toContain(offering.icon);
+          for (const aspect of offering.aspects ?? []) {
+            expect(aspect).not.toBe(offering.type);
+            expect(weights[aspect]).toBeGreaterThan(0);
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Offerings
+ * The hidden classes an offering can belong to and how scavenging rolls them.
+ *
+ * Every offering has a main class (`type`) and may carry further classes
+ * (`aspects`). Feeding applies the stat profile (from the difficulty's
+ * feeding rules) and side effects of each of them. What turns up while
+ * scavenging depends on the pet's stage and corruption.
+ */
+
+import type { GameRules, ItemClassDefinition, ItemType, Offering, PetStage, StatDelta, StatusEffect } from "./types";
+import { STATUS_EFFECTS, addStatusEffect } from "./statusEffects";
+
+// ============================================
+// Classes
+// ============================================
+
+export const ITEM_CLASSES: Record<ItemType, ItemClassDefinition> = {
+  PURITY: {
+    descriptor: "pure",
+    sideEffects: ["BLESSED"],
+    cures: [],
+  },
+  ROT: {
+    descriptor: "rotting",
+    sideEffects: [],
+    cures: [],
+  },
+  CURSED: {
+    descriptor: "cursed",
+    sideEffects: ["NIGHT_TERRORS"],
+    cures: [],
+  },
+  MEDICINAL: {
+    descriptor: "medicinal",
+    sideEffects: [],
+    cures: ["NAUSEOUS", "NIGHT_TERRORS"],
+  },
+  // Swallows everything the pet was feeling, good or bad
+  VOID: {
+    descriptor: "hollow, lightless",
+    sideEffects: [],
+    cures: Object.keys(STATUS_EFFECTS) as ItemClassDefinition["cures"],
+  },
+  SWEET: {
+    descriptor: "sickly sweet",
+    sideEffects: [],
+    cures: [],
+  },
+  BONE: {
+    descriptor: "bony, marrow-filled",
+    sideEffects: [],
+    cures: [],
+  },
+};
+
+export const ITEM_TYPES = Object.keys(ITEM_CLASSES) as ItemType[];
+
+// Icons are drawn from one pool for every class, so an icon never gives
+// away what an offering really is
+export const OFFERING_ICONS = ["🫙", "🗝️", "🪆", "🧸", "🪞", "🐚", "🪨", "🧶", "🥀", "🕯️", "🦴", "🍄"];
+
+// Chance for a scavenged offering to carry a second class
+const ASPECT_CHANCE = 0.2;
+
+// ============================================
+// Effects
+// ============================================
+
+type OfferingClasses = Pick<Offering, "type" | "aspects">;
+
+/**
+ * Every class an offering belongs to, main class first.
+ */
+export function getOfferingTypes({ type, aspects = [] }: OfferingClasses): ItemType[] {
+  return [type, ...aspects];
+}
+
+/**
+ * Combined stat profile of every class an offering belongs to.
+ */
+export function getOfferingEffect(offering: OfferingClasses, { feeding }: GameRules): Required<StatDelta> {
+  return getOfferingTypes(offering).reduce(
+    (total, type) => ({
+      hunger: total.hunger + feeding.effects[type].hunger,
+      sanity: total.sanity + feeding.effects[type].sanity,
+      corruption: total.corruption + feeding.effects[type].corruption,
+    }),
+    { hunger: 0, sanity: 0, corruption: 0 }
+  );
+}
+
+/**
+ * Apply an offering's side effects: cures first, then the effects it leaves.
+ *
+ * @returns A new list of effects
+ */
+export function applyOfferingSideEffects(effects: StatusEffect[], offering: OfferingClasses): StatusEffect[] {
+  const classes = getOfferingTypes(offering).map((type) => ITEM_CLASSES[type]);
+  const cured = new Set(classes.flatMap((definition) => definition.cures));
+
+  return classes
+    .flatMap((definition) => definition.sideEffects)
+    .reduce(addStatusEffect, effects.filter((effect) => !cured.has(effect.type)));
+}
+
+/**
+ * How prompts describe an offering, e.g. "sickly sweet, cursed".
+ */
+export function describeOffering(offering: OfferingClasses): string {
+  return getOfferingTypes(offering)
+    .map((type) => ITEM_CLASSES[type].descriptor)
+    .join(", ");
+}
+
+// ============================================
+// Scavenging
+// ============================================
+
+/**
+ * Relative chance of scavenging each class. Pure offerings grow scarce as
+ * the pet corrupts, while cursed and void ones only turn up for a pet that
+ * has already slipped.
+ */
+export function getItemWeights(stage: PetStage, corruption: number): Record<ItemType, number> {
+  const isYoung = stage === "EGG" || stage === "BABY";
+  return {
+    PURITY: Math.max(5, 30 - corruption * 0.25),
+    ROT: 25 + corruption * 0.1,
+    CURSED: stage === "EGG" ? 0 : 3 + corruption * 0.15,
+    MEDICINAL: 10,
+    VOID: stage === "ABOMINATION" || corruption >= 60 ? 4 : 0,
+    SWEET: isYoung ? 20 : 10,
+    BONE: isYoung ? 5 : 15,
+  };
+}
+
+/**
+ * Pick a class by weight.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function rollItemType(weights: Record<ItemType, number>, rng: () => number): ItemType {
+  const total = ITEM_TYPES.reduce((sum, type) => sum + weights[type], 0);
+  let roll = rng() * total;
+  for (const type of ITEM_TYPES) {
+    roll -= weights[type];
+    if (roll < 0) {
+      return type;
+    }
+  }
+  return ITEM_TYPES.filter((type) => weights[type] > 0).pop() ?? "ROT";
+}
+
+/**
+ * Roll the hidden classes and icon of a scavenged offering.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function rollOffering(
+  stage: PetStage,
+  corruption: number,
+  rng: () => number = Math.random
+): Pick<Offering, "type" | "aspects" | "icon"> {
+  return rollWeightedOffering(getItemWeights(stage, corruption), rng);
+}
+
+/**
+ * Roll an icon from the shared pool.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function rollOfferingIcon(rng: () => number = Math.random): string {
+  return OFFERING_ICONS[Math.floor(rng() * OFFERING_ICONS.length)];
+}
+
+/**
+ * Roll the hidden classes and icon of an offering from the given class weights.
+ *
+ * @param rng - Random source returning [0, 1)
+ */
+export function rollWeightedOffering(
+  weights: Record<ItemType, number>,
+  rng: () => number = Math.random
+): Pick<Offering, "type" | "aspects" | "icon"> {
+  const type = rollItemType(weights, rng);
+  const icon = rollOfferingIcon(rng);
+
+  if (rng() < ASPECT_CHANCE) {
+    const aspect = rollItemType({ ...weights, [type]: 0 }, rng);
+    return { type, aspects: [aspect], icon };
+  }
+  return { type, icon };
+}
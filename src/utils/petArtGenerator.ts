@@ -1,5 +1,8 @@
 import { logError, logWarning } from "./errorLogger";
 import type { Archetype, PetStage } from "./types";
+import { isImageId, loadImage, releaseImages, storeImage } from "./imageStore";
+
+const ART_CACHE_PREFIX = "pet-art-";
 
 /**
  * Get placeholder image path for a given archetype and stage
@@ -40,6 +43,7 @@ export function generatePetPrompt(
     EGG: "unhatched egg form, glowing from within, mysterious aura",
     BABY: "small cute but unsettling creature, childlike innocent appearance",
     TEEN: "medium-sized creature with defined features, slightly menacing presence",
+    ELDER: "old frail creature, greying and stooped, clouded gentle eyes, weary dignified presence",
     ABOMINATION: "large terrifying grotesque creature, multiple eyes, twisted horrifying form, nightmare fuel",
   };
 
@@ -254,20 +258,22 @@ export function getArtCacheKey(
   archetype: Archetype,
   stage: PetStage
 ): string {
-  return `pet-art-${petName}-${archetype}-${stage}`;
+  return `${ART_CACHE_PREFIX}${petName}-${archetype}-${stage}`;
 }
 
 /**
- * Load cached art URL from localStorage
+ * Load cached art URL from the image store.
+ * The cache key in localStorage holds only the image's id.
  */
-export function loadCachedArt(
+export async function loadCachedArt(
   petName: string,
   archetype: Archetype,
   stage: PetStage
-): string | null {
+): Promise<string | null> {
   try {
     const key = getArtCacheKey(petName, archetype, stage);
-    return localStorage.getItem(key);
+    const imageId = localStorage.getItem(key);
+    return imageId ? await loadImage(imageId) : null;
   } catch (error) {
     logError("Failed to load cached art", error instanceof Error ? error : undefined);
     return null;
@@ -275,18 +281,41 @@ export function loadCachedArt(
 }
 
 /**
- * Save art URL to localStorage cache
+ * Save art URL to the image store, replacing any art cached under the same key
  */
-export function saveCachedArt(
+export async function saveCachedArt(
   petName: string,
   archetype: Archetype,
   stage: PetStage,
   imageUrl: string
-): void {
+): Promise<void> {
   try {
     const key = getArtCacheKey(petName, archetype, stage);
-    localStorage.setItem(key, imageUrl);
+    const previousId = localStorage.getItem(key);
+    localStorage.setItem(key, await storeImage(imageUrl));
+    if (previousId && isImageId(previousId)) {
+      await releaseImages([previousId]);
+    }
   } catch (error) {
     logError("Failed to save cached art", error instanceof Error ? error : undefined);
   }
 }
+
+/**
+ * Move art cached in localStorage by earlier versions into the image store.
+ * Runs once per entry: moved entries hold an image id afterwards.
+ */
+export async function migrateCachedArt(): Promise<void> {
+  const keys = Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+    .filter((key): key is string => key !== null && key.startsWith(ART_CACHE_PREFIX));
+
+  for (const key of keys) {
+    const cached = localStorage.getItem(key);
+    if (!cached || isImageId(cached)) continue;
+    try {
+      localStorage.setItem(key, await storeImage(cached));
+    } catch (error) {
+      logError("Failed to move cached art", error instanceof Error ? error : undefined, { key });
+    }
+  }
+}
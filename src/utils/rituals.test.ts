@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  MAX_RITUAL_OFFERINGS,
+  MIN_RITUAL_OFFERINGS,
+  RITUAL_OFFERING_ICON,
+  RITUAL_RECIPES,
+  applyRitual,
+  createRitualOffering,
+  describeIngredients,
+  findRecipe,
+} from "./rituals";
+
+const recipe = (id: string) => RITUAL_RECIPES.find((r) => r.id === id)!;
+
+describe("Rituals", () => {
+  it("should give every recipe a unique id and combination", () => {
+    const ids = RITUAL_RECIPES.map((r) => r.id);
+    const combinations = RITUAL_RECIPES.map((r) => [...r.ingredients].sort().join(","));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(combinations).size).toBe(combinations.length);
+    for (const r of RITUAL_RECIPES) {
+      expect(r.ingredients.length).toBeGreaterThanOrEqual(MIN_RITUAL_OFFERINGS);
+      expect(r.ingredients.length).toBeLessThanOrEqual(MAX_RITUAL_OFFERINGS);
+    }
+  });
+
+  it("should find a recipe whatever order its offerings are in", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...RITUAL_RECIPES).chain((r) =>
+          fc.tuple(
+            fc.constant(r),
+            fc.shuffledSubarray(r.ingredients, { minLength: r.ingredients.length, maxLength: r.ingredients.length })
+          )
+        ),
+        ([r, shuffled]) => {
+          expect(findRecipe(shuffled.map((type) => ({ type })))).toBe(r);
+        }
+      )
+    );
+    expect(findRecipe([{ type: "ROT" }, { type: "SWEET" }])).toBeUndefined();
+  });
+
+  it("should apply a recipe's stats within bounds and its status effects", () => {
+    const purged = applyRitual(
+      { stats: { hunger: 50, sanity: 10, corruption: 20 }, statusEffects: [] },
+      recipe("purging_rite")
+    );
+    expect(purged.stats).toEqual({ hunger: 50, sanity: 0, corruption: 0 });
+
+    const anointed = applyRitual(
+      { stats: { hunger: 50, sanity: 50, corruption: 50 }, statusEffects: [] },
+      recipe("anointing")
+    );
+    expect(anointed.stats.sanity).toBe(55);
+    expect(anointed.statusEffects.map((effect) => effect.type)).toEqual(["BLESSED"]);
+  });
+
+  it("should create offerings only for crafting recipes", () => {
+    expect(createRitualOffering(recipe("candied_marrow"))).toMatchObject({ type: "BONE", aspects: ["SWEET"], icon: RITUAL_OFFERING_ICON });
+    expect(createRitualOffering(recipe("purging_rite"))).toBeNull();
+    expect(describeIngredients(recipe("distillation"))).toBe("pure + pure");
+  });
+});
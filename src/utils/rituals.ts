@@ -0,0 +1,139 @@
+/**
+ * Rituals
+ * Recipes for combining offerings at the ritual altar.
+ *
+ * Two or three offerings placed on the altar are consumed together. When
+ * their main classes match a recipe, the ritual creates a new offering,
+ * changes the pet's stats and status effects, enlarges the inventory or
+ * calls up a ghost. Any other combination fails and costs the pet some
+ * sanity.
+ */
+
+import type { ItemType, Offering, RitualRecipe } from "./types";
+import { ITEM_CLASSES } from "./offerings";
+import { applyInstantChange, type InstantChangeState } from "./simulation";
+
+// ============================================
+// Recipes
+// ============================================
+
+export const RITUAL_RECIPES: RitualRecipe[] = [
+  {
+    id: "purging_rite",
+    name: "Purging Rite",
+    description: "Burns the rot out of it, and some of its mind with it.",
+    ingredients: ["PURITY", "MEDICINAL", "VOID"],
+    stats: { corruption: -25, sanity: -15 },
+  },
+  {
+    id: "curse_breaking",
+    name: "Curse Breaking",
+    description: "Scrubs a cursed thing clean, leaving something pure behind.",
+    ingredients: ["CURSED", "PURITY", "MEDICINAL"],
+    creates: { type: "PURITY", description: "A charm, scrubbed raw of its curse. It still feels warm." },
+  },
+  {
+    id: "distillation",
+    name: "Distillation",
+    description: "Two pure things, boiled down to something that heals.",
+    ingredients: ["PURITY", "PURITY"],
+    creates: { type: "MEDICINAL", description: "A clear, bitter tincture that smells faintly of candles." },
+  },
+  {
+    id: "hollowing",
+    name: "Hollowing",
+    description: "Enough rot in one place eats itself down to nothing.",
+    ingredients: ["ROT", "ROT", "ROT"],
+    creates: { type: "VOID", description: "A knot of nothing where three rotten things used to be." },
+  },
+  {
+    id: "candied_marrow",
+    name: "Candied Marrow",
+    description: "Bone glazed in sugar, for a pet that won't eat its greens.",
+    ingredients: ["SWEET", "BONE"],
+    creates: {
+      type: "BONE",
+      aspects: ["SWEET"],
+      description: "A marrow bone lacquered in something sticky and bright.",
+    },
+  },
+  {
+    id: "anointing",
+    name: "Anointing",
+    description: "A sweetened salve, dabbed on its brow. It glows, a little.",
+    ingredients: ["MEDICINAL", "SWEET"],
+    stats: { sanity: 5 },
+    statusEffects: ["BLESSED"],
+  },
+  {
+    id: "ossuary_pocket",
+    name: "Ossuary Pocket",
+    description: "Three bones sewn into a pouch that holds a little more than it should.",
+    ingredients: ["BONE", "BONE", "BONE"],
+    upgradesInventory: true,
+  },
+  {
+    id: "seance_of_the_starved",
+    name: "Séance of the Starved",
+    description: "Bones and rot call to a pet that died hungry.",
+    ingredients: ["BONE", "BONE", "ROT"],
+    summons: "STARVATION",
+  },
+  {
+    id: "seance_of_the_lost",
+    name: "Séance of the Lost",
+    description: "A cursed bone calls to a pet that lost its mind.",
+    ingredients: ["BONE", "CURSED"],
+    summons: "INSANITY",
+  },
+];
+
+// Offerings a ritual takes
+export const MIN_RITUAL_OFFERINGS = 2;
+export const MAX_RITUAL_OFFERINGS = 3;
+
+// Sanity lost when the altar rejects a combination
+export const FAILED_RITUAL_SANITY_COST = 5;
+
+// Icon of the offering a recipe leaves on the altar
+export const RITUAL_OFFERING_ICON = "🔮";
+
+const sortTypes = (types: ItemType[]): string => [...types].sort().join(",");
+
+// ============================================
+// Rituals
+// ============================================
+
+/**
+ * The recipe the offerings' main classes make, if any.
+ */
+export function findRecipe(offerings: Pick<Offering, "type">[]): RitualRecipe | undefined {
+  const key = sortTypes(offerings.map((offering) => offering.type));
+  return RITUAL_RECIPES.find((recipe) => sortTypes(recipe.ingredients) === key);
+}
+
+/**
+ * Apply a recipe's stat changes and status effects to the pet.
+ *
+ * @returns The pet's new stats and effects
+ */
+export function applyRitual(state: InstantChangeState, recipe: RitualRecipe): InstantChangeState {
+  return applyInstantChange(state, recipe);
+}
+
+/**
+ * The offering a recipe leaves on the altar, without an id.
+ */
+export function createRitualOffering(recipe: RitualRecipe): Omit<Offering, "id"> | null {
+  if (!recipe.creates) {
+    return null;
+  }
+  return { ...recipe.creates, icon: RITUAL_OFFERING_ICON };
+}
+
+/**
+ * How the recipe book lists a recipe's ingredients, e.g. "pure + medicinal".
+ */
+export function describeIngredients(recipe: RitualRecipe): string {
+  return recipe.ingredients.map((type) => ITEM_CLASSES[type].descriptor).join(" + ");
+}
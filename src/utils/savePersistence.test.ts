@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { LOG_CHUNK_SIZE, SAVE_THROTTLE_MS, createSaveStorage, readSave } from "./savePersistence";
+import { migrateSave } from "./saveSchema";
+import { SAVE_V0 } from "../test/fixtures/saves";
+import type { NarrativeLog, PersistedGameState } from "./types";
+
+const NAME = "test-save";
+
+const pet = migrateSave(SAVE_V0.state, SAVE_V0.version) as unknown as PersistedGameState;
+
+const createLogs = (count: number): NarrativeLog[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `log-${index}`,
+    text: `Entry ${index}`,
+    source: "SYSTEM",
+    timestamp: index,
+  }));
+
+describe("Save Persistence", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("should write at most once per throttle window, with the latest state", () => {
+    const storage = createSaveStorage();
+    storage.setItem(NAME, { state: { ...pet, age: 1 }, version: 1 });
+    storage.setItem(NAME, { state: { ...pet, age: 2 }, version: 1 });
+    expect(localStorage.getItem(NAME)).toBeNull();
+
+    vi.advanceTimersByTime(SAVE_THROTTLE_MS);
+    expect(readSave(NAME)?.state.age).toBe(2);
+  });
+
+  it("should keep logs and the sprite out of the hot state", () => {
+    const storage = createSaveStorage();
+    const logs = createLogs(LOG_CHUNK_SIZE + 5);
+    storage.setItem(NAME, { state: { ...pet, logs, currentPetSpriteUrl: "data:image/png;base64,AA" }, version: 1 });
+    storage.flush();
+
+    const hot = JSON.parse(localStorage.getItem(NAME)!);
+    expect(hot.logChunks).toBe(2);
+    expect(hot.state.logs).toBeUndefined();
+    expect(hot.state.currentPetSpriteUrl).toBeUndefined();
+    expect(hot.state.traits.name).toBe("Mochi");
+
+    const saved = readSave(NAME);
+    expect(saved?.version).toBe(1);
+    expect(saved?.state.logs).toEqual(logs);
+    expect(saved?.state.currentPetSpriteUrl).toBe("data:image/png;base64,AA");
+  });
+
+  it("should only rewrite the parts that changed", () => {
+    const storage = createSaveStorage();
+    const logs = createLogs(LOG_CHUNK_SIZE * 2);
+    storage.setItem(NAME, { state: { ...pet, logs }, version: 1 });
+    storage.flush();
+
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+    const appended = [...logs, ...createLogs(1)];
+    storage.setItem(NAME, { state: { ...pet, logs: appended, age: 913 }, version: 1 });
+    storage.flush();
+
+    expect(setItem.mock.calls.map(([key]) => key)).toEqual([`${NAME}-logs-2`, NAME]);
+    expect(readSave(NAME)?.state.logs).toHaveLength(LOG_CHUNK_SIZE * 2 + 1);
+  });
+
+  it("should drop log chunks a new pet no longer uses", () => {
+    const storage = createSaveStorage();
+    storage.setItem(NAME, { state: { ...pet, logs: createLogs(LOG_CHUNK_SIZE * 2) }, version: 1 });
+    storage.flush();
+    storage.setItem(NAME, { state: { ...pet, logs: createLogs(1) }, version: 1 });
+    storage.flush();
+
+    expect(localStorage.getItem(`${NAME}-logs-1`)).toBeNull();
+    expect(readSave(NAME)?.state.logs).toHaveLength(1);
+  });
+
+  it("should flush when the page is hidden", () => {
+    const storage = createSaveStorage();
+    storage.setItem(NAME, { state: pet, version: 1 });
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(readSave(NAME)?.state.traits.name).toBe("Mochi");
+  });
+
+  it("should not write while another tab owns the save", () => {
+    const storage = createSaveStorage({ canWrite: () => false });
+    storage.setItem(NAME, { state: pet, version: 1 });
+    storage.flush();
+
+    expect(localStorage.length).toBe(0);
+  });
+
+  it("should read a save written under a single key", () => {
+    localStorage.setItem(NAME, JSON.stringify(SAVE_V0));
+    const storage = createSaveStorage();
+
+    expect(storage.getItem(NAME)).toEqual(SAVE_V0);
+  });
+
+  it("should keep the pet's state when the logs do not fit", () => {
+    const storage = createSaveStorage();
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(function (this: Storage, key, value) {
+      if (key.startsWith(`${NAME}-logs-`)) {
+        throw new DOMException("Storage is full", "QuotaExceededError");
+      }
+      setItem.call(this, key, value);
+    });
+
+    storage.setItem(NAME, { state: { ...pet, logs: createLogs(3), age: 1000 }, version: 1 });
+    storage.flush();
+    expect(readSave(NAME)?.state.age).toBe(1000);
+
+    // The logs are written once there is room again
+    vi.restoreAllMocks();
+    storage.setItem(NAME, { state: { ...pet, logs: createLogs(3), age: 1001 }, version: 1 });
+    storage.flush();
+    expect(readSave(NAME)?.state.logs).toHaveLength(3);
+  });
+
+  it("should clear a corrupted save", () => {
+    localStorage.setItem(NAME, "{ invalid json");
+    const storage = createSaveStorage();
+
+    expect(storage.getItem(NAME)).toBeNull();
+    expect(localStorage.getItem(NAME)).toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Save Persistence
+ * Throttled, diff-aware localStorage storage for the persisted store.
+ *
+ * Every tick changes the store, but only a few fields change each second.
+ * Writes are collected in memory and flushed at most every SAVE_THROTTLE_MS,
+ * and right away when the page is hidden or closed.
+ *
+ * A save is split by how often its parts change:
+ * - hot: stats, age and everything else small, under the save's own key
+ * - cold: narrative logs in chunks of LOG_CHUNK_SIZE, and the pet sprite,
+ *   under `<key>-logs-<n>` and `<key>-sprite`
+ * A flush only writes the parts that changed since the last one. Logs are
+ * append-only in practice, so usually just the last chunk is rewritten.
+ *
+ * The hot part is written last and records how many log chunks belong to
+ * it, so a reader never sees it ahead of its logs. Saves written before the
+ * split (everything under one key) are read as they are and split on the
+ * next flush.
+ */
+
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import type { NarrativeLog, PersistedGameState } from "./types";
+import { logCritical, logError } from "./errorLogger";
+
+export const SAVE_THROTTLE_MS = 5000;
+export const LOG_CHUNK_SIZE = 25;
+
+type SaveValue = StorageValue<PersistedGameState>;
+type HotState = Omit<PersistedGameState, "logs" | "currentPetSpriteUrl">;
+
+interface HotSave {
+  state: HotState;
+  version?: number;
+  logChunks: number;
+}
+
+const getLogChunkKey = (name: string, index: number) => `${name}-logs-${index}`;
+const getSpriteKey = (name: string) => `${name}-sprite`;
+
+/**
+ * Whether a storage key belongs to the save, e.g. for `storage` events.
+ */
+export function isSaveStorageKey(name: string, key: string | null): boolean {
+  return key !== null && (key === name || key.startsWith(`${name}-logs-`) || key === getSpriteKey(name));
+}
+
+const isSameChunk = (a: NarrativeLog[] | undefined, b: NarrativeLog[]) =>
+  a !== undefined && a.length === b.length && a.every((log, index) => log === b[index]);
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Read a save and put its parts back together.
+ * Throws if the hot part is not valid JSON.
+ */
+function readParts(name: string): { save: SaveValue; chunks: NarrativeLog[][]; sprite: string | null } | null {
+  const stored = localStorage.getItem(name);
+  if (!stored) {
+    return null;
+  }
+
+  const parsed = JSON.parse(stored);
+  if (typeof parsed?.logChunks !== "number") {
+    // Saved before the split: everything is under one key
+    return { save: parsed, chunks: [], sprite: null };
+  }
+
+  const { state, version, logChunks } = parsed as HotSave;
+  const chunks: NarrativeLog[][] = [];
+  for (let index = 0; index < logChunks; index++) {
+    try {
+      const chunk = JSON.parse(localStorage.getItem(getLogChunkKey(name, index)) ?? "[]");
+      chunks.push(Array.isArray(chunk) ? chunk : []);
+    } catch {
+      // A damaged chunk loses its own logs, not the save
+      chunks.push([]);
+    }
+  }
+
+  let sprite: string | null = null;
+  try {
+    sprite = JSON.parse(localStorage.getItem(getSpriteKey(name)) ?? "null");
+  } catch {
+    sprite = null;
+  }
+
+  return {
+    save: { version, state: { ...state, logs: chunks.flat(), currentPetSpriteUrl: sprite } },
+    chunks,
+    sprite,
+  };
+}
+
+/**
+ * Read the save as currently stored, e.g. to mirror another tab's save.
+ */
+export function readSave(name: string): SaveValue | null {
+  try {
+    return readParts(name)?.save ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Storage
+// ============================================
+
+export interface SaveStorage extends PersistStorage<PersistedGameState> {
+  flush: () => void; // Write the pending save now
+}
+
+export interface SaveStorageOptions {
+  canWrite?: () => boolean; // E.g. only the leader tab writes
+}
+
+/**
+ * Create the storage used by the store's persist middleware.
+ *
+ * @param options - Optional write gate
+ */
+export function createSaveStorage(options: SaveStorageOptions = {}): SaveStorage {
+  const canWrite = options.canWrite ?? (() => true);
+
+  let pending: { name: string; value: SaveValue } | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  // What storage holds, to skip unchanged parts
+  let writtenHot: string | null = null;
+  let writtenChunks: NarrativeLog[][] = [];
+  let writtenSprite: string | null | undefined;
+
+  const forgetWritten = () => {
+    writtenHot = null;
+    writtenChunks = [];
+    writtenSprite = undefined;
+  };
+
+  const write = (name: string, { state, version }: SaveValue) => {
+    const { logs, currentPetSpriteUrl, ...hot } = state;
+    const chunkCount = Math.ceil(logs.length / LOG_CHUNK_SIZE);
+    const previousChunkCount = writtenChunks.length;
+    const chunks: NarrativeLog[][] = [];
+
+    for (let index = 0; index < chunkCount; index++) {
+      const chunk = logs.slice(index * LOG_CHUNK_SIZE, (index + 1) * LOG_CHUNK_SIZE);
+      if (isSameChunk(writtenChunks[index], chunk)) {
+        chunks.push(writtenChunks[index]);
+        continue;
+      }
+      try {
+        localStorage.setItem(getLogChunkKey(name, index), JSON.stringify(chunk));
+        chunks.push(chunk);
+      } catch (error) {
+        // Keep going: the pet's state matters more, and the chunk is retried next flush
+        logCritical(
+          "Failed to save narrative logs",
+          error instanceof Error ? error : undefined,
+          { storageName: name, chunk: index, logCount: chunk.length }
+        );
+        chunks.push([]);
+      }
+    }
+    writtenChunks = chunks;
+
+    if (currentPetSpriteUrl !== writtenSprite) {
+      try {
+        localStorage.setItem(getSpriteKey(name), JSON.stringify(currentPetSpriteUrl));
+        writtenSprite = currentPetSpriteUrl;
+      } catch (error) {
+        logError(
+          "Failed to save pet sprite",
+          error instanceof Error ? error : undefined,
+          { storageName: name }
+        );
+      }
+    }
+
+    const hotJson = JSON.stringify({ state: hot, version, logChunks: chunkCount } satisfies HotSave);
+    if (hotJson !== writtenHot) {
+      try {
+        localStorage.setItem(name, hotJson);
+        writtenHot = hotJson;
+      } catch (error) {
+        logCritical(
+          "Failed to save state",
+          error instanceof Error ? error : undefined,
+          { storageName: name }
+        );
+      }
+    }
+
+    // Drop chunks the save no longer uses (e.g. after starting a new pet)
+    for (let index = chunkCount; index < previousChunkCount; index++) {
+      localStorage.removeItem(getLogChunkKey(name, index));
+    }
+  };
+
+  const flush = () => {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+    if (!pending) {
+      return;
+    }
+
+    const { name, value } = pending;
+    pending = null;
+    if (canWrite()) {
+      write(name, value);
+    }
+  };
+
+  if (typeof window !== "undefined") {
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+    window.addEventListener("pagehide", flush);
+  }
+
+  return {
+    flush,
+
+    getItem: (name: string) => {
+      // Read back what the store last saved, not what was written before it
+      flush();
+      try {
+        const parts = readParts(name);
+        if (!parts) {
+          forgetWritten();
+          return null;
+        }
+        // The store keeps these exact arrays, so unchanged chunks are not rewritten
+        writtenChunks = parts.chunks;
+        writtenSprite = parts.chunks.length > 0 ? parts.sprite : undefined;
+        writtenHot = null;
+        return parts.save;
+      } catch (error) {
+        logError(
+          "Failed to parse stored state",
+          error instanceof Error ? error : undefined,
+          { storageName: name }
+        );
+        // Clear corrupted state
+        localStorage.removeItem(name);
+        forgetWritten();
+        return null;
+      }
+    },
+
+    setItem: (name: string, value: SaveValue) => {
+      if (!canWrite()) {
+        pending = null;
+        return;
+      }
+      pending = { name, value };
+      if (timeoutId === null) {
+        timeoutId = setTimeout(flush, SAVE_THROTTLE_MS);
+      }
+    },
+
+    removeItem: (name: string) => {
+      pending = null;
+      try {
+        const chunkCount = Math.max(writtenChunks.length, readHotChunkCount(name));
+        for (let index = 0; index < chunkCount; index++) {
+          localStorage.removeItem(getLogChunkKey(name, index));
+        }
+        localStorage.removeItem(getSpriteKey(name));
+        localStorage.removeItem(name);
+      } catch (error) {
+        logError(
+          "Failed to remove state",
+          error instanceof Error ? error : undefined,
+          { storageName: name }
+        );
+      }
+      forgetWritten();
+    },
+  };
+}
+
+function readHotChunkCount(name: string): number {
+  try {
+    const logChunks = JSON.parse(localStorage.getItem(name) ?? "{}")?.logChunks;
+    return typeof logChunks === "number" ? logChunks : 0;
+  } catch {
+    return 0;
+  }
+}
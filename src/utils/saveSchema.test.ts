@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { SAVE_VERSION, MIGRATIONS, migrateSave, validateSave } from "./saveSchema";
+import { SAVE_V0, SAVE_V0_DAMAGED } from "../test/fixtures/saves";
+import type { PersistedGameState } from "./types";
+
+const defaults: PersistedGameState = {
+  isInitialized: false,
+  traits: { name: "", archetype: "GLOOM", color: 0 },
+  stats: { hunger: 0, sanity: 100, corruption: 0 },
+  stage: "EGG",
+  age: 0,
+  isAlive: true,
+  difficulty: "STANDARD",
+  inventory: [],
+  dailyFeeds: 0,
+  gameDay: 0,
+  logs: [],
+  petId: "",
+  archivedLogCount: 0,
+  lastTickTime: 0,
+  currentPetSpriteUrl: null,
+  masterVolume: 0.7,
+  sfxVolume: 0.8,
+  ambientVolume: 0.5,
+  isMuted: false,
+  gameSpeed: 1,
+  crtEnabled: false,
+  reduceMotion: false,
+  retroMode: false,
+  theme: "cute",
+  deathData: null,
+  lastPlacateTime: null,
+  lastHauntGameDay: 0,
+  statusEffects: [],
+  stomach: [],
+  discoveredRecipes: [],
+  stash: [],
+  inventoryUpgrades: 0,
+  expedition: null,
+  scavengeLocation: null,
+  teeth: 0,
+  cosmetics: [],
+  equippedCosmetic: null,
+  soldWares: [],
+  autoGenerateImages: true,
+};
+
+describe("Save Schema", () => {
+  describe("migrations", () => {
+    it("should have a migration for every version up to the current one", () => {
+      for (let version = 1; version <= SAVE_VERSION; version++) {
+        expect(MIGRATIONS[version]).toBeDefined();
+      }
+    });
+
+    it("should upgrade a v0 save to the standard difficulty (v1)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.difficulty).toBe("STANDARD");
+      expect(migrated.traits).toEqual(SAVE_V0.state.traits);
+      expect(migrated.logs).toEqual(SAVE_V0.state.logs);
+    });
+
+    it("should give older pets an id and an empty journal (v2)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(typeof migrated.petId).toBe("string");
+      expect(migrated.petId).not.toBe("");
+      expect(migrated.archivedLogCount).toBe(0);
+      expect(migrateSave({ ...migrated, difficulty: "GENTLE" }, 1).petId).toBe(migrated.petId);
+    });
+
+    it("should start older pets without status effects (v3)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.statusEffects).toEqual([]);
+    });
+
+    it("should start older pets with an empty stomach (v4)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.stomach).toEqual([]);
+    });
+
+    it("should start older pets with an empty recipe book (v5)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.discoveredRecipes).toEqual([]);
+    });
+
+    it("should start older pets with an empty stash and no upgrades (v6)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.stash).toEqual([]);
+      expect(migrated.inventoryUpgrades).toBe(0);
+    });
+
+    it("should start older pets with the keeper at home (v7)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.expedition).toBeNull();
+    });
+
+    it("should start older pets scavenging around the house (v8)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.scavengeLocation).toBeNull();
+    });
+
+    it("should start older pets with no teeth and nothing bought (v9)", () => {
+      const migrated = migrateSave(SAVE_V0.state, SAVE_V0.version);
+      expect(migrated.teeth).toBe(0);
+      expect(migrated.cosmetics).toEqual([]);
+      expect(migrated.equippedCosmetic).toBeNull();
+      expect(migrated.soldWares).toEqual([]);
+    });
+
+    it("should keep a difficulty already present in a v0 save", () => {
+      const migrated = migrateSave({ ...SAVE_V0.state, difficulty: "NIGHTMARE" }, 0);
+      expect(migrated.difficulty).toBe("NIGHTMARE");
+    });
+
+    it("should pass saves from a newer version through unchanged", () => {
+      const future = { ...SAVE_V0.state, difficulty: "GENTLE", somethingNew: true };
+      expect(migrateSave(future, SAVE_VERSION + 1)).toEqual(future);
+    });
+
+    it("should produce a valid save from the v0 fixture without repairs", () => {
+      const { state, repairs } = validateSave(migrateSave(SAVE_V0.state, SAVE_V0.version), defaults);
+      expect(repairs).toEqual([]);
+      expect(state.stats).toEqual(SAVE_V0.state.stats);
+      expect(state.difficulty).toBe("STANDARD");
+    });
+  });
+
+  describe("validateSave", () => {
+    const { state, repairs } = validateSave(
+      migrateSave(SAVE_V0_DAMAGED.state, SAVE_V0_DAMAGED.version),
+      defaults
+    );
+
+    it("should default missing fields instead of dropping the save", () => {
+      expect(state.traits).toEqual({ name: "Grub", archetype: "SPARK", color: 0 });
+      expect(state.lastHauntGameDay).toBe(0);
+      expect(repairs).toContain("lastHauntGameDay: missing");
+      expect(state.stage).toBe("TEEN");
+      expect(state.age).toBe(3000);
+    });
+
+    it("should clamp stats and fill in missing ones", () => {
+      expect(state.stats).toEqual({ hunger: 100, sanity: 100, corruption: 55 });
+      expect(repairs).toContain("stats: repaired");
+    });
+
+    it("should drop malformed inventory items and logs", () => {
+      expect(state.inventory.map((item) => item.id)).toEqual(["d0"]);
+      expect(state.logs.map((log) => log.id)).toEqual(["log-1"]);
+    });
+
+    it("should drop malformed and expired status effects", () => {
+      const blessed = { type: "BLESSED", remaining: 30, stacks: 1 };
+      const result = validateSave(
+        {
+          ...SAVE_V0.state,
+          difficulty: "STANDARD",
+          statusEffects: [blessed, { type: "CURSED", remaining: 30, stacks: 1 }, { type: "SATED", remaining: 0, stacks: 1 }],
+        },
+        defaults
+      );
+      expect(result.state.statusEffects).toEqual([blessed]);
+    });
+
+    it("should reset invalid settings to defaults", () => {
+      expect(state.masterVolume).toBe(0.7);
+      expect(state.isMuted).toBe(false);
+      expect(repairs).toEqual(expect.arrayContaining(["masterVolume: invalid", "isMuted: invalid"]));
+    });
+
+    it("should clear a placate cooldown from the future", () => {
+      expect(state.lastPlacateTime).toBeNull();
+      expect(repairs).toContain("lastPlacateTime: ahead of age");
+    });
+
+    it("should drop transient fields such as placateEffect", () => {
+      expect(state).not.toHaveProperty("placateEffect");
+    });
+
+    it("should pull lastHauntGameDay back to the current day", () => {
+      const result = validateSave({ ...SAVE_V0.state, difficulty: "STANDARD", lastHauntGameDay: 5 }, defaults);
+      expect(result.state.lastHauntGameDay).toBe(0);
+    });
+
+    it("should take off a cosmetic the pet does not own", () => {
+      const result = validateSave(
+        { ...SAVE_V0.state, difficulty: "STANDARD", cosmetics: ["RIBBON"], equippedCosmetic: "HALO" },
+        defaults
+      );
+      expect(result.state.equippedCosmetic).toBeNull();
+      expect(result.repairs).toContain("equippedCosmetic: not owned");
+    });
+
+    it("should fall back to defaults for a save that is not an object", () => {
+      const result = validateSave("garbage", defaults);
+      expect(result.state).toEqual(defaults);
+    });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Save Schema
+ * Versioning, migration and validation of the persisted game state.
+ *
+ * Saves are written with `SAVE_VERSION`. Older saves are upgraded one
+ * version at a time through `MIGRATIONS`, then `validateSave` checks the
+ * shape of every persisted field. Missing or malformed fields are repaired
+ * or reset to their defaults so a damaged save keeps the pet alive instead
+ * of being wiped.
+ */
+
+import type {
+  Archetype,
+  CosmeticId,
+  DeathCause,
+  DeathData,
+  Difficulty,
+  Expedition,
+  ItemType,
+  LogSource,
+  NarrativeLog,
+  Offering,
+  PersistedGameState,
+  PetStage,
+  PetStats,
+  PetTraits,
+  PreferenceKey,
+  StashedOffering,
+  StatusEffect,
+  StatusEffectType,
+  StomachItem,
+  Theme,
+} from "./types";
+import { DEFAULT_DIFFICULTY, GAME_RULE_PRESETS } from "./gameRules";
+import { STATUS_EFFECTS } from "./statusEffects";
+import { ITEM_TYPES } from "./offerings";
+import { RITUAL_RECIPES } from "./rituals";
+import { LOCATION_IDS } from "./expeditions";
+import { COSMETIC_IDS } from "./market";
+
+// ============================================
+// Versions & Migrations
+// ============================================
+
+/**
+ * Current save format version. Bump it together with a new migration.
+ */
+export const SAVE_VERSION = 9;
+
+type SaveData = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade a save to.
+ * Each one receives a save in the previous version's shape.
+ */
+export const MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {
+  // v1: pets gained a difficulty preset; earlier pets keep the original balance
+  1: (save) => ({ ...save, difficulty: save.difficulty ?? DEFAULT_DIFFICULTY }),
+  // v2: older log entries move to a journal per pet, so pets need an id
+  2: (save) => ({
+    ...save,
+    petId: typeof save.petId === "string" ? save.petId : crypto.randomUUID(),
+    archivedLogCount: save.archivedLogCount ?? 0,
+  }),
+  // v3: pets carry timed status effects
+  3: (save) => ({ ...save, statusEffects: save.statusEffects ?? [] }),
+  // v4: offerings are digested over time; older pets start with an empty stomach
+  4: (save) => ({ ...save, stomach: save.stomach ?? [] }),
+  // v5: pets keep a book of the ritual recipes they have found
+  5: (save) => ({ ...save, discoveredRecipes: save.discoveredRecipes ?? [] }),
+  // v6: offerings can be kept in a stash, and the inventory can grow
+  6: (save) => ({ ...save, stash: save.stash ?? [], inventoryUpgrades: save.inventoryUpgrades ?? 0 }),
+  // v7: the keeper can be away on an expedition
+  7: (save) => ({ ...save, expedition: save.expedition ?? null }),
+  // v8: scavenging searches a location chosen on the map, around the house by default
+  8: (save) => ({ ...save, scavengeLocation: save.scavengeLocation ?? null }),
+  // v9: pets earn teeth to spend at the night market; older pets start with none
+  9: (save) => ({
+    ...save,
+    teeth: save.teeth ?? 0,
+    cosmetics: save.cosmetics ?? [],
+    equippedCosmetic: save.equippedCosmetic ?? null,
+    soldWares: save.soldWares ?? [],
+  }),
+};
+
+/**
+ * Upgrade a persisted save to the current version.
+ * Saves from a newer version are passed through for validation to repair.
+ *
+ * @param persisted - Raw persisted state
+ * @param version - Version the save was written with
+ * @returns The save in the current version's shape
+ */
+export function migrateSave(persisted: unknown, version: number): SaveData {
+  let save: SaveData = isRecord(persisted) ? persisted : {};
+
+  for (let next = version + 1; next <= SAVE_VERSION; next++) {
+    const migration = MIGRATIONS[next];
+    if (migration) {
+      save = migration(save);
+    }
+  }
+
+  return save;
+}
+
+// ============================================
+// Field Rules
+// ============================================
+
+/**
+ * Returns the value to keep (the same reference when it is already valid,
+ * a repaired copy otherwise), or undefined when it cannot be used.
+ */
+type FieldRule<T> = (value: unknown, fallback: T) => T | undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const ARCHETYPES: readonly Archetype[] = ["GLOOM", "SPARK", "ECHO"];
+const PET_STAGES: readonly PetStage[] = ["EGG", "BABY", "TEEN", "ELDER", "ABOMINATION"];
+const LOG_SOURCES: readonly LogSource[] = ["SYSTEM", "PET"];
+const DEATH_CAUSES: readonly DeathCause[] = ["STARVATION", "INSANITY", "OLD_AGE"];
+const STATUS_EFFECT_TYPES = Object.keys(STATUS_EFFECTS) as StatusEffectType[];
+const THEMES: readonly Theme[] = ["cute", "horror"];
+const DIFFICULTIES = Object.keys(GAME_RULE_PRESETS) as Difficulty[];
+
+const oneOf =
+  <T extends string>(options: readonly T[]): FieldRule<T> =>
+  (value) =>
+    options.includes(value as T) ? (value as T) : undefined;
+
+const boolean: FieldRule<boolean> = (value) => (typeof value === "boolean" ? value : undefined);
+
+const string: FieldRule<string> = (value) => (typeof value === "string" ? value : undefined);
+
+const nonNegativeInteger: FieldRule<number> = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 ? (value as number) : undefined;
+
+const nonNegativeNumber: FieldRule<number> = (value) =>
+  isFiniteNumber(value) && value >= 0 ? value : undefined;
+
+const positiveNumber: FieldRule<number> = (value) =>
+  isFiniteNumber(value) && value > 0 ? value : undefined;
+
+const volume: FieldRule<number> = (value) =>
+  isFiniteNumber(value) && value >= 0 && value <= 1 ? value : undefined;
+
+const nullable =
+  <T>(rule: FieldRule<T>): FieldRule<T | null> =>
+  (value, fallback) =>
+    value === null ? null : rule(value, fallback as T);
+
+const traits: FieldRule<PetTraits> = (value, fallback) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const repaired: PetTraits = {
+    name: string(value.name, fallback.name) ?? fallback.name,
+    archetype: oneOf(ARCHETYPES)(value.archetype, fallback.archetype) ?? fallback.archetype,
+    color: isFiniteNumber(value.color) ? value.color : fallback.color,
+  };
+  return repaired.name === value.name &&
+    repaired.archetype === value.archetype &&
+    repaired.color === value.color
+    ? (value as unknown as PetTraits)
+    : repaired;
+};
+
+const stats: FieldRule<PetStats> = (value, fallback) => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const stat = (key: keyof PetStats) =>
+    isFiniteNumber(value[key]) ? Math.min(100, Math.max(0, value[key] as number)) : fallback[key];
+  const repaired: PetStats = {
+    hunger: stat("hunger"),
+    sanity: stat("sanity"),
+    corruption: stat("corruption"),
+  };
+  return repaired.hunger === value.hunger &&
+    repaired.sanity === value.sanity &&
+    repaired.corruption === value.corruption
+    ? (value as unknown as PetStats)
+    : repaired;
+};
+
+// Offerings and stomach items may carry further classes
+const hasValidAspects = (item: Record<string, unknown>): boolean =>
+  item.aspects === undefined ||
+  (Array.isArray(item.aspects) && item.aspects.every((aspect) => ITEM_TYPES.includes(aspect as ItemType)));
+
+const hasValidAppraisal = (item: Record<string, unknown>): boolean =>
+  item.appraisal === undefined ||
+  (isRecord(item.appraisal) &&
+    ITEM_TYPES.includes(item.appraisal.type as ItemType) &&
+    isFiniteNumber(item.appraisal.confidence) &&
+    item.appraisal.confidence >= 0 &&
+    item.appraisal.confidence <= 1);
+
+const isOffering = (item: unknown): item is Offering =>
+  isRecord(item) &&
+  typeof item.id === "string" &&
+  ITEM_TYPES.includes(item.type as ItemType) &&
+  hasValidAspects(item) &&
+  hasValidAppraisal(item) &&
+  (item.quantity === undefined || (Number.isInteger(item.quantity) && (item.quantity as number) >= 1)) &&
+  typeof item.description === "string" &&
+  typeof item.icon === "string";
+
+const isStashedOffering = (item: unknown): item is StashedOffering =>
+  isRecord(item) && isOffering(item.offering) && isFiniteNumber(item.stashedAt) && item.stashedAt >= 0;
+
+const isNarrativeLog = (log: unknown): log is NarrativeLog =>
+  isRecord(log) &&
+  typeof log.id === "string" &&
+  typeof log.text === "string" &&
+  LOG_SOURCES.includes(log.source as LogSource) &&
+  isFiniteNumber(log.timestamp);
+
+const isStatusEffect = (effect: unknown): effect is StatusEffect =>
+  isRecord(effect) &&
+  STATUS_EFFECT_TYPES.includes(effect.type as StatusEffectType) &&
+  isFiniteNumber(effect.remaining) &&
+  effect.remaining > 0 &&
+  Number.isInteger(effect.stacks) &&
+  (effect.stacks as number) > 0;
+
+const isStomachItem = (item: unknown): item is StomachItem =>
+  isRecord(item) &&
+  ITEM_TYPES.includes(item.type as ItemType) &&
+  hasValidAspects(item) &&
+  Number.isInteger(item.remaining) &&
+  (item.remaining as number) > 0;
+
+const isRecipeId = (id: unknown): id is string =>
+  RITUAL_RECIPES.some((recipe) => recipe.id === id);
+
+const isCosmeticId = (id: unknown): id is CosmeticId =>
+  COSMETIC_IDS.includes(id as CosmeticId);
+
+const isWareId = (id: unknown): id is string => typeof id === "string";
+
+/**
+ * Keep the valid entries of a list, dropping the rest.
+ */
+const listOf =
+  <T>(isValid: (item: unknown) => item is T): FieldRule<T[]> =>
+  (value) => {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    const valid = value.filter(isValid);
+    return valid.length === value.length ? (value as T[]) : valid;
+  };
+
+const deathData: FieldRule<DeathData> = (value) =>
+  isRecord(value) &&
+  typeof value.petName === "string" &&
+  ARCHETYPES.includes(value.archetype as Archetype) &&
+  PET_STAGES.includes(value.stage as PetStage) &&
+  isFiniteNumber(value.age) &&
+  DEATH_CAUSES.includes(value.cause as DeathCause) &&
+  isRecord(value.finalStats) &&
+  typeof value.deathNarrative === "string" &&
+  typeof value.epitaph === "string"
+    ? (value as unknown as DeathData)
+    : undefined;
+
+const expedition: FieldRule<Expedition> = (value) =>
+  isRecord(value) &&
+  LOCATION_IDS.includes(value.location as Expedition["location"]) &&
+  Number.isInteger(value.startedAt) &&
+  Number.isInteger(value.returnsAt) &&
+  (value.startedAt as number) >= 0 &&
+  (value.returnsAt as number) >= (value.startedAt as number)
+    ? (value as unknown as Expedition)
+    : undefined;
+
+const SAVE_SCHEMA: { [K in keyof PersistedGameState]: FieldRule<PersistedGameState[K]> } = {
+  isInitialized: boolean,
+  traits,
+  stats,
+  stage: oneOf(PET_STAGES),
+  age: nonNegativeInteger,
+  isAlive: boolean,
+  difficulty: oneOf(DIFFICULTIES),
+  inventory: listOf(isOffering),
+  dailyFeeds: nonNegativeInteger,
+  gameDay: nonNegativeInteger,
+  logs: listOf(isNarrativeLog),
+  petId: string,
+  archivedLogCount: nonNegativeInteger,
+  lastTickTime: nonNegativeNumber,
+  currentPetSpriteUrl: nullable(string),
+  masterVolume: volume,
+  sfxVolume: volume,
+  ambientVolume: volume,
+  isMuted: boolean,
+  gameSpeed: positiveNumber,
+  crtEnabled: boolean,
+  reduceMotion: boolean,
+  retroMode: boolean,
+  theme: oneOf(THEMES),
+  deathData: nullable(deathData),
+  lastPlacateTime: nullable(nonNegativeInteger),
+  lastHauntGameDay: nonNegativeInteger,
+  statusEffects: listOf(isStatusEffect),
+  stomach: listOf(isStomachItem),
+  discoveredRecipes: listOf(isRecipeId),
+  stash: listOf(isStashedOffering),
+  inventoryUpgrades: nonNegativeInteger,
+  expedition: nullable(expedition),
+  scavengeLocation: nullable(oneOf(LOCATION_IDS)),
+  teeth: nonNegativeInteger,
+  cosmetics: listOf(isCosmeticId),
+  equippedCosmetic: nullable(oneOf(COSMETIC_IDS)),
+  soldWares: listOf(isWareId),
+  autoGenerateImages: boolean,
+};
+
+// ============================================
+// Validation
+// ============================================
+
+// Player preferences, shared by every pet on this device rather than saved per pet
+export const PREFERENCE_KEYS = [
+  "masterVolume",
+  "sfxVolume",
+  "ambientVolume",
+  "isMuted",
+  "gameSpeed",
+  "crtEnabled",
+  "reduceMotion",
+  "retroMode",
+  "theme",
+  "autoGenerateImages",
+] as const satisfies readonly PreferenceKey[];
+
+/**
+ * Pick the persisted fields out of a full game state.
+ */
+export function getPersistedState(state: PersistedGameState): PersistedGameState {
+  const persisted = {} as Record<keyof PersistedGameState, unknown>;
+  for (const key of Object.keys(SAVE_SCHEMA) as (keyof PersistedGameState)[]) {
+    persisted[key] = state[key];
+  }
+  return persisted as PersistedGameState;
+}
+
+export interface ValidatedSave {
+  state: PersistedGameState;
+  repairs: string[]; // Human-readable list of what was fixed, for logging
+}
+
+/**
+ * Check every persisted field and repair what can be repaired.
+ * Fields that are missing or unusable take their default value; unknown
+ * fields (including transient UI state such as `placateEffect`) are dropped.
+ *
+ * @param persisted - Migrated save
+ * @param defaults - Values used for missing or invalid fields
+ * @returns The repaired state and the repairs that were made
+ */
+export function validateSave(persisted: unknown, defaults: PersistedGameState): ValidatedSave {
+  const save = isRecord(persisted) ? persisted : {};
+  const repairs: string[] = [];
+  const state = {} as Record<keyof PersistedGameState, unknown>;
+
+  for (const key of Object.keys(SAVE_SCHEMA) as (keyof PersistedGameState)[]) {
+    const rule = SAVE_SCHEMA[key] as FieldRule<unknown>;
+    const value = save[key];
+
+    if (value === undefined) {
+      repairs.push(`${key}: missing`);
+      state[key] = defaults[key];
+      continue;
+    }
+
+    const result = rule(value, defaults[key]);
+    if (result === undefined) {
+      repairs.push(`${key}: invalid`);
+      state[key] = defaults[key];
+    } else {
+      if (result !== value) {
+        repairs.push(`${key}: repaired`);
+      }
+      state[key] = result;
+    }
+  }
+
+  const validated = state as PersistedGameState;
+
+  // Cross-field rules: cooldowns and haunt days cannot be in the future
+  if (validated.lastHauntGameDay > validated.gameDay) {
+    repairs.push("lastHauntGameDay: ahead of gameDay");
+    validated.lastHauntGameDay = validated.gameDay;
+  }
+  if (validated.lastPlacateTime !== null && validated.lastPlacateTime > validated.age) {
+    repairs.push("lastPlacateTime: ahead of age");
+    validated.lastPlacateTime = null;
+  }
+  // Only an owned cosmetic can be worn
+  if (validated.equippedCosmetic !== null && !validated.cosmetics.includes(validated.equippedCosmetic)) {
+    repairs.push("equippedCosmetic: not owned");
+    validated.equippedCosmetic = null;
+  }
+
+  return { state: validated, repairs };
+}
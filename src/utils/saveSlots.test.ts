@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  ROSTER_STORAGE_KEY,
+  createSaveSlot,
+  getPetSave,
+  loadRoster,
+  restoreSaveSlot,
+  saveRoster,
+} from "./saveSlots";
+import { SAVE_VERSION, migrateSave } from "./saveSchema";
+import { SAVE_V0 } from "../test/fixtures/saves";
+import type { PersistedGameState, SaveSlot } from "./types";
+
+const pet = migrateSave(SAVE_V0.state, SAVE_V0.version) as unknown as PersistedGameState;
+
+describe("Save Slots", () => {
+  beforeEach(() => {
+    localStorage.removeItem(ROSTER_STORAGE_KEY);
+  });
+
+  it("should keep preferences out of a slot", () => {
+    const save = getPetSave(pet);
+    expect(save.traits).toEqual(pet.traits);
+    expect(save.lastTickTime).toBe(pet.lastTickTime);
+    expect(save).not.toHaveProperty("masterVolume");
+    expect(save).not.toHaveProperty("theme");
+  });
+
+  it("should restore a pet with the current preferences", () => {
+    const slot = createSaveSlot(pet, 1000);
+    expect(slot.version).toBe(SAVE_VERSION);
+    expect(slot.savedAt).toBe(1000);
+
+    const current: PersistedGameState = { ...pet, masterVolume: 0.2, theme: "horror" };
+    const { state, repairs } = restoreSaveSlot(slot, current);
+    expect(repairs).toEqual([]);
+    expect(state.stats).toEqual(pet.stats);
+    expect(state.lastTickTime).toBe(pet.lastTickTime);
+    expect(state.masterVolume).toBe(0.2);
+    expect(state.theme).toBe("horror");
+  });
+
+  it("should migrate a slot stored with an older version", () => {
+    const legacy: SaveSlot = {
+      id: "old",
+      version: 0,
+      savedAt: 0,
+      pet: SAVE_V0.state as unknown as SaveSlot["pet"],
+    };
+    const { state } = restoreSaveSlot(legacy, pet);
+    expect(state.difficulty).toBe("STANDARD");
+    expect(state.traits.name).toBe("Mochi");
+  });
+
+  it("should store and load the roster, dropping malformed slots", () => {
+    const slot = createSaveSlot(pet);
+    saveRoster([slot]);
+    expect(loadRoster()).toEqual([slot]);
+
+    localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify([slot, { id: 3 }, null]));
+    expect(loadRoster()).toEqual([slot]);
+
+    localStorage.setItem(ROSTER_STORAGE_KEY, "{broken");
+    expect(loadRoster()).toEqual([]);
+  });
+
+  it("should clear the storage key when the roster is empty", () => {
+    saveRoster([createSaveSlot(pet)]);
+    saveRoster([]);
+    expect(localStorage.getItem(ROSTER_STORAGE_KEY)).toBeNull();
+  });
+});
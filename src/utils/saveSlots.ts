@@ -0,0 +1,147 @@
+/**
+ * Save Slots
+ * The pet roster: pets that are put away while another pet is active.
+ *
+ * The active pet lives in `creepy-companion-storage` as before. Switching
+ * pets moves it into a slot under `creepy-companion-roster` together with
+ * the save version and the time it was put away. Preferences are not part of
+ * a slot; they belong to the device and are shared by every pet.
+ *
+ * A slot keeps its own `lastTickTime`, so a pet taken out of the roster
+ * catches up on the time it spent there with the normal offline decay.
+ */
+
+import type { PersistedGameState, PetSave, SaveSlot } from "./types";
+import {
+  PREFERENCE_KEYS,
+  SAVE_VERSION,
+  getPersistedState,
+  migrateSave,
+  validateSave,
+  type ValidatedSave,
+} from "./saveSchema";
+import { logError, logWarning } from "./errorLogger";
+
+const ROSTER_STORAGE_KEY = "creepy-companion-roster";
+
+// ============================================
+// Slots
+// ============================================
+
+/**
+ * Pick the fields that belong to the pet out of a full game state.
+ */
+export function getPetSave(state: PersistedGameState): PetSave {
+  const persisted: Partial<PersistedGameState> = getPersistedState(state);
+  for (const key of PREFERENCE_KEYS) {
+    delete persisted[key];
+  }
+  return persisted as PetSave;
+}
+
+/**
+ * Put the active pet into a new slot.
+ *
+ * @param state - Current game state
+ * @param savedAt - Real-world time the pet is put away
+ */
+export function createSaveSlot(state: PersistedGameState, savedAt: number = Date.now()): SaveSlot {
+  return {
+    id: crypto.randomUUID(),
+    version: SAVE_VERSION,
+    savedAt,
+    pet: getPetSave(state),
+  };
+}
+
+/**
+ * Take a pet out of its slot.
+ * The pet is migrated and validated like any other save; preferences come
+ * from the current state.
+ *
+ * @param slot - Slot to restore
+ * @param current - Current game state, also used for missing or invalid fields
+ */
+export function restoreSaveSlot(slot: SaveSlot, current: PersistedGameState): ValidatedSave {
+  const preferences = Object.fromEntries(PREFERENCE_KEYS.map((key) => [key, current[key]]));
+  return validateSave({ ...migrateSave(slot.pet, slot.version), ...preferences }, current);
+}
+
+/**
+ * Basic shape check for a stored slot. The pet itself is validated on restore.
+ */
+export function isSaveSlot(slot: unknown): slot is SaveSlot {
+  if (typeof slot !== "object" || slot === null) return false;
+  const s = slot as Record<string, unknown>;
+  return (
+    typeof s.id === "string" &&
+    typeof s.version === "number" &&
+    typeof s.savedAt === "number" &&
+    typeof s.pet === "object" &&
+    s.pet !== null
+  );
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * Load the roster from localStorage.
+ * Returns an empty roster on error or if no pets are stored.
+ */
+export function loadRoster(): SaveSlot[] {
+  try {
+    const stored = localStorage.getItem(ROSTER_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      logWarning("Roster storage corrupted - not an array, resetting", {
+        type: typeof parsed,
+      });
+      return [];
+    }
+
+    const validSlots = parsed.filter(isSaveSlot);
+    if (validSlots.length !== parsed.length) {
+      logWarning("Some roster slots were invalid and filtered out", {
+        original: parsed.length,
+        valid: validSlots.length,
+      });
+    }
+
+    return validSlots;
+  } catch (error) {
+    logError(
+      "Failed to load roster",
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return [];
+  }
+}
+
+/**
+ * Write the roster to localStorage.
+ *
+ * @param slots - Every pet in the roster
+ */
+export function saveRoster(slots: SaveSlot[]): void {
+  try {
+    if (slots.length === 0) {
+      localStorage.removeItem(ROSTER_STORAGE_KEY);
+    } else {
+      localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(slots));
+    }
+  } catch (error) {
+    logError(
+      "Failed to save roster",
+      error instanceof Error ? error : new Error(String(error)),
+      { slotCount: slots.length }
+    );
+  }
+}
+
+export { ROSTER_STORAGE_KEY };
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  SAVE_FILE_FORMAT,
+  createSaveFile,
+  getSaveFileName,
+  mergeGhosts,
+  parseSaveFile,
+} from "./saveTransfer";
+import { SAVE_VERSION, migrateSave } from "./saveSchema";
+import { SAVE_V0 } from "../test/fixtures/saves";
+import type { GhostData, PersistedGameState } from "./types";
+
+const defaults: PersistedGameState = {
+  isInitialized: false,
+  traits: { name: "", archetype: "GLOOM", color: 0 },
+  stats: { hunger: 0, sanity: 100, corruption: 0 },
+  stage: "EGG",
+  age: 0,
+  isAlive: true,
+  difficulty: "STANDARD",
+  inventory: [],
+  dailyFeeds: 0,
+  gameDay: 0,
+  logs: [],
+  petId: "",
+  archivedLogCount: 0,
+  lastTickTime: 0,
+  currentPetSpriteUrl: null,
+  masterVolume: 0.7,
+  sfxVolume: 0.8,
+  ambientVolume: 0.5,
+  isMuted: false,
+  gameSpeed: 1,
+  crtEnabled: false,
+  reduceMotion: false,
+  retroMode: false,
+  theme: "cute",
+  deathData: null,
+  lastPlacateTime: null,
+  lastHauntGameDay: 0,
+  statusEffects: [],
+  stomach: [],
+  discoveredRecipes: [],
+  stash: [],
+  inventoryUpgrades: 0,
+  expedition: null,
+  scavengeLocation: null,
+  teeth: 0,
+  cosmetics: [],
+  equippedCosmetic: null,
+  soldWares: [],
+  autoGenerateImages: true,
+};
+
+const pet = migrateSave(SAVE_V0.state, SAVE_V0.version) as unknown as PersistedGameState;
+
+const ghost = (id: string, deathTimestamp: number): GhostData => ({
+  id,
+  petName: `Ghost ${id}`,
+  archetype: "ECHO",
+  stage: "BABY",
+  color: 0,
+  deathCause: "STARVATION",
+  deathTimestamp,
+  finalCorruption: 10,
+  epitaph: "Gone but not fed.",
+});
+
+describe("Save Transfer", () => {
+  it("should round-trip a save file", async () => {
+    const file = await createSaveFile(pet, [ghost("g1", 1)]);
+    expect(file.format).toBe(SAVE_FILE_FORMAT);
+    expect(file.version).toBe(SAVE_VERSION);
+
+    const result = await parseSaveFile(JSON.stringify(file), defaults);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.file.save).toEqual(pet);
+    expect(result.file.ghosts).toHaveLength(1);
+    expect(result.repairs).toEqual([]);
+    expect(result.preview).toMatchObject({
+      name: pet.traits.name,
+      stage: pet.stage,
+      age: pet.age,
+      logCount: pet.logs.length,
+      ghostCount: 1,
+    });
+  });
+
+  it("should reject a file whose contents were edited", async () => {
+    const file = await createSaveFile(pet, []);
+    const tampered = { ...file, save: { ...file.save, stats: { ...file.save.stats, hunger: 0 } } };
+
+    const result = await parseSaveFile(JSON.stringify(tampered), defaults);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(/checksum/i);
+  });
+
+  it("should reject files that are not saves", async () => {
+    expect((await parseSaveFile("{not json", defaults)).ok).toBe(false);
+    expect((await parseSaveFile(JSON.stringify({ format: "other" }), defaults)).ok).toBe(false);
+    expect((await parseSaveFile(JSON.stringify({ format: SAVE_FILE_FORMAT }), defaults)).ok).toBe(
+      false
+    );
+  });
+
+  it("should reject saves from a newer version", async () => {
+    const file = await createSaveFile(pet, []);
+    const result = await parseSaveFile(
+      JSON.stringify({ ...file, version: SAVE_VERSION + 1 }),
+      defaults
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(/newer version/);
+  });
+
+  it("should reject a save without a pet", async () => {
+    const file = await createSaveFile(defaults, []);
+    const result = await parseSaveFile(JSON.stringify(file), defaults);
+    expect(result.ok).toBe(false);
+  });
+
+  it("should name the file after the pet and day", async () => {
+    const file = await createSaveFile(
+      { ...pet, traits: { ...pet.traits, name: "Mr. Wiggles!" }, gameDay: 3 },
+      []
+    );
+    expect(getSaveFileName(file)).toBe("mr-wiggles-day-3.creepy.json");
+  });
+
+  it("should merge ghosts without duplicates", () => {
+    const merged = mergeGhosts([ghost("a", 1), ghost("b", 2)], [ghost("b", 2), ghost("c", 3)]);
+    expect(merged.map((g) => g.id)).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Save Transfer
+ * Export the pet to a portable JSON file and import it back, e.g. to hand a
+ * specific pet in a specific state to another player.
+ *
+ * A save file carries the persisted game state, the ghosts from
+ * `creepy-companion-ghosts`, the schema version it was written with and a
+ * SHA-256 checksum. Imports are migrated and validated with the same rules
+ * as a normal rehydrate before anything is applied.
+ */
+
+import type {
+  GhostData,
+  PersistedGameState,
+  SaveFile,
+  SavePreview,
+} from "./types";
+import { SAVE_VERSION, getPersistedState, migrateSave, validateSave } from "./saveSchema";
+import { isGhostData } from "./hauntSystem";
+
+export const SAVE_FILE_FORMAT = "creepy-companion-save";
+
+// ============================================
+// Checksum
+// ============================================
+
+/**
+ * SHA-256 over the parts of the file that matter, as lowercase hex.
+ */
+async function computeChecksum(
+  version: number,
+  save: unknown,
+  ghosts: unknown
+): Promise<string> {
+  const payload = new TextEncoder().encode(JSON.stringify({ version, save, ghosts }));
+  const digest = await crypto.subtle.digest("SHA-256", payload);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Build a save file from the current state.
+ *
+ * @param state - Current game state (only persisted fields are exported)
+ * @param ghosts - Ghosts from storage
+ */
+export async function createSaveFile(
+  state: PersistedGameState,
+  ghosts: GhostData[]
+): Promise<SaveFile> {
+  const save = getPersistedState(state);
+  return {
+    format: SAVE_FILE_FORMAT,
+    version: SAVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await computeChecksum(SAVE_VERSION, save, ghosts),
+    save,
+    ghosts,
+  };
+}
+
+/**
+ * File name for a download, e.g. "mochi-day-3.creepy.json".
+ */
+export function getSaveFileName(file: SaveFile): string {
+  const name = file.save.traits.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${name || "pet"}-day-${file.save.gameDay}.creepy.json`;
+}
+
+// ============================================
+// Import
+// ============================================
+
+export type ParsedSaveFile =
+  | { ok: true; file: SaveFile; preview: SavePreview; repairs: string[] }
+  | { ok: false; error: string };
+
+/**
+ * Parse and validate an imported save file.
+ * The save is migrated to the current version and repaired where needed;
+ * the checksum must match the contents as exported.
+ *
+ * @param text - File contents
+ * @param defaults - Values used for missing or invalid fields
+ */
+export async function parseSaveFile(
+  text: string,
+  defaults: PersistedGameState
+): Promise<ParsedSaveFile> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file is not valid JSON." };
+  }
+
+  if (typeof raw !== "object" || raw === null || (raw as SaveFile).format !== SAVE_FILE_FORMAT) {
+    return { ok: false, error: "This is not a Creepy Companion save file." };
+  }
+
+  const { version, checksum, save, ghosts, exportedAt } = raw as Record<string, unknown>;
+
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    return { ok: false, error: "The save file has no schema version." };
+  }
+  if ((version as number) > SAVE_VERSION) {
+    return { ok: false, error: "This save comes from a newer version of the game." };
+  }
+  if (checksum !== (await computeChecksum(version as number, save, ghosts))) {
+    return { ok: false, error: "The checksum does not match. The file was changed or damaged." };
+  }
+
+  const { state, repairs } = validateSave(migrateSave(save, version as number), defaults);
+  if (!state.isInitialized) {
+    return { ok: false, error: "The save file does not contain a pet." };
+  }
+
+  const validGhosts = Array.isArray(ghosts) ? ghosts.filter(isGhostData) : [];
+
+  return {
+    ok: true,
+    file: {
+      format: SAVE_FILE_FORMAT,
+      version: SAVE_VERSION,
+      exportedAt: typeof exportedAt === "string" ? exportedAt : "",
+      checksum: checksum as string,
+      save: state,
+      ghosts: validGhosts,
+    },
+    preview: {
+      name: state.traits.name,
+      archetype: state.traits.archetype,
+      stage: state.stage,
+      age: state.age,
+      isAlive: state.isAlive,
+      difficulty: state.difficulty,
+      logCount: state.logs.length,
+      ghostCount: validGhosts.length,
+      exportedAt: typeof exportedAt === "string" ? exportedAt : "",
+    },
+    repairs,
+  };
+}
+
+/**
+ * Combine two ghost lists, keeping one entry per ghost ID.
+ */
+export function mergeGhosts(current: GhostData[], imported: GhostData[]): GhostData[] {
+  const byId = new Map(current.map((ghost) => [ghost.id, ghost]));
+  for (const ghost of imported) {
+    byId.set(ghost.id, ghost);
+  }
+  return Array.from(byId.values());
+}
@@ -0,0 +1,535 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  simulate,
+  simulateByMinute,
+  createSeededRng,
+  applyFeed,
+  applyPlacate,
+  applyInstantChange,
+  getEvolutionTarget,
+  getElderDecayMultipliers,
+  MINUTES_PER_DAY,
+} from "./simulation";
+import { GAME_RULE_PRESETS } from "./gameRules";
+import { STATUS_EFFECTS } from "./statusEffects";
+import { ITEM_TYPES } from "./offerings";
+import type { SimulationState, StatusEffectType } from "./types";
+
+const baseState = (overrides: Partial<SimulationState> = {}): SimulationState => ({
+  stats: { hunger: 0, sanity: 100, corruption: 0 },
+  stage: "EGG",
+  age: 0,
+  dailyFeeds: 0,
+  gameDay: 0,
+  lastHauntGameDay: 0,
+  statusEffects: [],
+  stomach: [],
+  ...overrides,
+});
+
+// Random source that never triggers a chance-based event
+const neverRoll = () => 0.99;
+
+describe("Simulation Engine", () => {
+  describe("createSeededRng", () => {
+    it("should produce the same sequence for the same seed", () => {
+      const a = createSeededRng(42);
+      const b = createSeededRng(42);
+      const seqA = Array.from({ length: 10 }, () => a());
+      const seqB = Array.from({ length: 10 }, () => b());
+      expect(seqA).toEqual(seqB);
+      seqA.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it("should produce different sequences for different seeds", () => {
+      const a = createSeededRng(1);
+      const b = createSeededRng(2);
+      expect(a()).not.toBe(b());
+    });
+  });
+
+  describe("decay", () => {
+    it("should apply base decay rates per minute", () => {
+      const { state } = simulate(baseState({ stage: "BABY", age: 10 }), 60, neverRoll);
+      expect(state.age).toBe(70);
+      expect(state.stats.hunger).toBeCloseTo(3);
+      expect(state.stats.sanity).toBeCloseTo(98.8);
+    });
+
+    it("should accelerate sanity decay when hunger > 80", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 81, sanity: 50, corruption: 0 } }),
+        1,
+        neverRoll
+      );
+      expect(state.stats.hunger).toBeCloseTo(81.05);
+      expect(state.stats.sanity).toBeCloseTo(49.95);
+    });
+
+    it("should accelerate hunger when hunger >= 90", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 90, sanity: 50, corruption: 0 } }),
+        1,
+        neverRoll
+      );
+      expect(state.stats.hunger).toBeCloseTo(90.1);
+    });
+
+    it("should not mutate the input snapshot", () => {
+      const snapshot = baseState({ stage: "BABY", age: 10 });
+      simulate(snapshot, 10, neverRoll);
+      expect(snapshot.age).toBe(10);
+      expect(snapshot.stats.hunger).toBe(0);
+    });
+  });
+
+  describe("rules", () => {
+    it("should decay at the rates of the given preset", () => {
+      const snapshot = baseState({ stage: "BABY", age: 10 });
+      const gentle = simulate(snapshot, 100, neverRoll, { rules: GAME_RULE_PRESETS.GENTLE });
+      const nightmare = simulate(snapshot, 100, neverRoll, { rules: GAME_RULE_PRESETS.NIGHTMARE });
+      expect(gentle.state.stats.hunger).toBeCloseTo(3);
+      expect(nightmare.state.stats.hunger).toBeCloseTo(8);
+      expect(nightmare.state.stats.sanity).toBeLessThan(gentle.state.stats.sanity);
+    });
+
+    it("should evolve into an ABOMINATION at the preset's corruption threshold", () => {
+      expect(getEvolutionTarget("BABY", 75, 10, GAME_RULE_PRESETS.STANDARD)).toBeNull();
+      expect(getEvolutionTarget("BABY", 75, 10, GAME_RULE_PRESETS.NIGHTMARE)).toBe("ABOMINATION");
+    });
+  });
+
+  describe("day rollover", () => {
+    it("should reset daily feeds and emit an event at each day boundary", () => {
+      const { state, events } = simulate(
+        baseState({ stage: "TEEN", age: MINUTES_PER_DAY - 1, dailyFeeds: 3 }),
+        MINUTES_PER_DAY + 1,
+        neverRoll
+      );
+      expect(state.gameDay).toBe(2);
+      expect(state.dailyFeeds).toBe(0);
+      const rollovers = events.filter((event) => event.type === "dayRollover");
+      expect(rollovers.map((event) => event.age)).toEqual([MINUTES_PER_DAY, 2 * MINUTES_PER_DAY]);
+    });
+  });
+
+  describe("evolution", () => {
+    it("should evolve through EGG, BABY and TEEN in order", () => {
+      const { state, events } = simulate(baseState(), MINUTES_PER_DAY, neverRoll);
+      expect(state.stage).toBe("TEEN");
+      const evolutions = events.filter((event) => event.type === "evolution");
+      expect(evolutions).toMatchObject([
+        { fromStage: "EGG", toStage: "BABY", age: 5 },
+        { fromStage: "BABY", toStage: "TEEN", age: MINUTES_PER_DAY },
+      ]);
+    });
+
+    it("should prioritize corruption-based evolution over age-based", () => {
+      const rules = GAME_RULE_PRESETS.STANDARD;
+      expect(getEvolutionTarget("EGG", 85, 10, rules)).toBe("ABOMINATION");
+      expect(getEvolutionTarget("ABOMINATION", 85, 10, rules)).toBeNull();
+      expect(getEvolutionTarget("EGG", 80, 4, rules)).toBeNull();
+    });
+
+    it("should grow a clean teen old on the elder day, but not a corrupt one", () => {
+      const { lifespan } = GAME_RULE_PRESETS.STANDARD;
+      const elderAge = lifespan.elderDay * MINUTES_PER_DAY;
+      const teen = baseState({ stage: "TEEN", age: elderAge - 10, gameDay: lifespan.elderDay - 1 });
+
+      const clean = simulate(teen, 20, neverRoll);
+      expect(clean.state.stage).toBe("ELDER");
+      expect(clean.events).toContainEqual(expect.objectContaining({ type: "evolution", toStage: "ELDER", age: elderAge }));
+
+      const corrupt = simulate({ ...teen, stats: { hunger: 0, sanity: 100, corruption: 50 } }, 20, neverRoll);
+      expect(corrupt.state.stage).toBe("TEEN");
+    });
+
+    it("should grow an older teen old once its corruption falls below the limit", () => {
+      const rules = GAME_RULE_PRESETS.STANDARD;
+      const age = (rules.lifespan.elderDay + 1) * MINUTES_PER_DAY + 10;
+      expect(getEvolutionTarget("TEEN", rules.lifespan.elderMaxCorruption, age, rules)).toBeNull();
+      expect(getEvolutionTarget("TEEN", rules.lifespan.elderMaxCorruption - 1, age, rules)).toBe("ELDER");
+    });
+  });
+
+  describe("old age", () => {
+    it("should slow an elder's hunger and wear its sanity down faster each day", () => {
+      const rules = GAME_RULE_PRESETS.STANDARD;
+      const { elderDay, elderHungerRate, elderSanityRate, frailtyPerDay } = rules.lifespan;
+      expect(getElderDecayMultipliers(elderDay, rules)).toEqual({ hunger: elderHungerRate, sanity: elderSanityRate });
+      expect(getElderDecayMultipliers(elderDay + 2, rules).sanity).toBe(elderSanityRate + 2 * frailtyPerDay);
+
+      const elder = simulate(baseState({ stage: "ELDER", age: elderDay * MINUTES_PER_DAY, gameDay: elderDay }), 1, neverRoll);
+      const teen = simulate(baseState({ stage: "TEEN", age: MINUTES_PER_DAY, gameDay: 1 }), 1, neverRoll);
+      expect(elder.state.stats.hunger).toBeLessThan(teen.state.stats.hunger);
+      expect(elder.state.stats.sanity).toBeLessThan(teen.state.stats.sanity);
+    });
+
+    it("should die peacefully of old age on the old age day", () => {
+      const { lifespan } = GAME_RULE_PRESETS.STANDARD;
+      const oldAge = lifespan.oldAgeDay * MINUTES_PER_DAY;
+      const { state, events } = simulate(
+        baseState({ stage: "ELDER", age: oldAge - 100, gameDay: lifespan.oldAgeDay - 1 }),
+        500,
+        neverRoll
+      );
+      expect(state.age).toBe(oldAge);
+      expect(events[events.length - 1]).toMatchObject({ type: "death", cause: "OLD_AGE", age: oldAge });
+    });
+  });
+
+  describe("long absences", () => {
+    it("should solve steady decay without stepping through every minute", () => {
+      // Hunger 0 -> 80 at base rates, crossing no other rule boundaries
+      const snapshot = baseState({ stage: "TEEN", age: MINUTES_PER_DAY });
+      const { state, events } = simulate(snapshot, 1439, neverRoll);
+      expect(events).toHaveLength(0);
+      expect(state.stats.hunger).toBe(71.95);
+      expect(state.stats.sanity).toBe(71.22);
+      expect(state).toEqual(simulateByMinute(snapshot, 1439, neverRoll).state);
+    });
+
+    it("should resolve a month-long absence up to the death", () => {
+      const { state, events } = simulate(baseState({ stage: "TEEN", age: MINUTES_PER_DAY }), 30 * MINUTES_PER_DAY, Math.random);
+      expect(events[events.length - 1]).toMatchObject({ type: "death" });
+      expect(state.age).toBeLessThan(3 * MINUTES_PER_DAY);
+    });
+  });
+
+  describe("death", () => {
+    it("should stop at starvation and emit a death event last", () => {
+      const { state, events } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 99.95, sanity: 50, corruption: 0 } }),
+        100,
+        neverRoll
+      );
+      expect(state.age).toBe(11);
+      expect(events[events.length - 1]).toMatchObject({ type: "death", cause: "STARVATION", age: 11 });
+    });
+
+    it("should stop at insanity", () => {
+      const { events } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 0, sanity: 0.01, corruption: 0 } }),
+        100,
+        neverRoll
+      );
+      expect(events[events.length - 1]).toMatchObject({ type: "death", cause: "INSANITY" });
+    });
+  });
+
+  describe("random events", () => {
+    it("should roll insanity events only when sanity < 30", () => {
+      const alwaysRoll = () => 0;
+      const sane = simulate(baseState({ stage: "BABY", age: 10, stats: { hunger: 0, sanity: 50, corruption: 0 } }), 1, alwaysRoll);
+      expect(sane.events).toHaveLength(0);
+
+      const insane = simulate(baseState({ stage: "BABY", age: 10, stats: { hunger: 0, sanity: 20, corruption: 0 } }), 1, alwaysRoll);
+      expect(insane.events).toMatchObject([{ type: "insanity", insanityType: "WHISPERS" }]);
+    });
+
+    it("should only haunt when ghosts exist, at most once per game day", () => {
+      const alwaysRoll = () => 0;
+      const snapshot = baseState({
+        stage: "BABY",
+        age: 10,
+        gameDay: 1,
+        stats: { hunger: 0, sanity: 45, corruption: 0 },
+      });
+
+      expect(simulate(snapshot, 10, alwaysRoll).events.filter((e) => e.type === "haunt")).toHaveLength(0);
+
+      const { state, events } = simulate(snapshot, 10, alwaysRoll, { ghostCount: 2 });
+      const haunts = events.filter((event) => event.type === "haunt");
+      expect(haunts).toHaveLength(1);
+      expect(state.lastHauntGameDay).toBe(1);
+      expect(state.statusEffects).toMatchObject([{ type: "NIGHT_TERRORS", stacks: 1 }]);
+      // 10 minutes of base decay, the haunt penalty and 9 minutes of night terrors
+      expect(state.stats.sanity).toBeCloseTo(45 - 10 * 0.02 - 5 - 9 * 0.02);
+    });
+
+    it("should restore sanity without night terrors when a peaceful ghost visits", () => {
+      const alwaysRoll = () => 0;
+      const snapshot = baseState({
+        stage: "BABY",
+        age: 10,
+        gameDay: 1,
+        stats: { hunger: 0, sanity: 45, corruption: 0 },
+      });
+
+      const { state, events } = simulate(snapshot, 10, alwaysRoll, { ghostCount: 2, peacefulGhostCount: 1 });
+      expect(events.filter((event) => event.type === "haunt")).toMatchObject([{ peaceful: true }]);
+      expect(state.lastHauntGameDay).toBe(1);
+      expect(state.statusEffects).toEqual([]);
+      expect(state.stats.sanity).toBeCloseTo(45 - 10 * 0.02 + 5);
+    });
+  });
+
+  describe("status effects", () => {
+    it("should add effect rates to decay while active", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, statusEffects: [{ type: "SATED", remaining: 120, stacks: 1 }] }),
+        60,
+        neverRoll
+      );
+      // Sated slows hunger from 0.05 to 0.01 per minute
+      expect(state.stats.hunger).toBeCloseTo(0.6);
+      expect(state.statusEffects).toEqual([{ type: "SATED", remaining: 60, stacks: 1 }]);
+    });
+
+    it("should expire effects and return to base decay offline", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, statusEffects: [{ type: "NAUSEOUS", remaining: 30, stacks: 1 }] }),
+        90,
+        neverRoll
+      );
+      expect(state.statusEffects).toEqual([]);
+      expect(state.stats.hunger).toBeCloseTo(30 * 0.1 + 60 * 0.05);
+    });
+
+    it("should multiply stacked effects and rest stats at their bounds", () => {
+      const { state } = simulate(
+        baseState({
+          stage: "BABY",
+          age: 10,
+          stats: { hunger: 0, sanity: 100, corruption: 0 },
+          statusEffects: [{ type: "NIGHT_TERRORS", remaining: 180, stacks: 3 }],
+        }),
+        100,
+        neverRoll
+      );
+      expect(state.stats.sanity).toBeCloseTo(100 - 100 * (0.02 + 3 * 0.02));
+      expect(state.stats.corruption).toBeCloseTo(100 * 3 * 0.005);
+
+      const blessed = simulate(
+        baseState({ stage: "BABY", age: 10, statusEffects: [{ type: "BLESSED", remaining: 90, stacks: 1 }] }),
+        90,
+        neverRoll
+      );
+      expect(blessed.state.stats.sanity).toBe(100);
+      expect(blessed.state.stats.corruption).toBe(0);
+    });
+
+    it("should leave night terrors after an insanity event", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 0, sanity: 20, corruption: 0 } }),
+        1,
+        () => 0
+      );
+      expect(state.statusEffects).toEqual([{ type: "NIGHT_TERRORS", remaining: 180, stacks: 1 }]);
+    });
+  });
+
+  describe("digestion", () => {
+    it("should seep an offering's sanity and corruption in while it digests", () => {
+      const { state } = simulate(
+        baseState({ stage: "BABY", age: 10, stats: { hunger: 0, sanity: 50, corruption: 50 }, stomach: [{ type: "ROT", remaining: 240 }] }),
+        120,
+        neverRoll
+      );
+      // Half of ROT's -15 sanity and +10 corruption, on top of base decay
+      expect(state.stats.sanity).toBeCloseTo(50 - 7.5 - 120 * 0.02);
+      expect(state.stats.corruption).toBeCloseTo(55);
+      expect(state.stomach).toEqual([{ type: "ROT", remaining: 120 }]);
+    });
+
+    it("should digest offerings one at a time, oldest first", () => {
+      const { state } = simulate(
+        baseState({
+          stage: "BABY",
+          age: 10,
+          stats: { hunger: 0, sanity: 50, corruption: 50 },
+          stomach: [
+            { type: "PURITY", remaining: 240 },
+            { type: "ROT", remaining: 240 },
+          ],
+        }),
+        300,
+        neverRoll
+      );
+      expect(state.stomach).toEqual([{ type: "ROT", remaining: 180 }]);
+      // All of PURITY's -5 corruption, then a quarter of ROT's +10
+      expect(state.stats.corruption).toBeCloseTo(47.5);
+    });
+  });
+
+  describe("caretaker actions", () => {
+    const rules = GAME_RULE_PRESETS.STANDARD;
+
+    it("should relieve hunger at once and queue the offering for digestion", () => {
+      const fed = {
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+        dailyFeeds: 0,
+        statusEffects: [],
+        stomach: [],
+      };
+      expect(applyFeed(fed, { type: "PURITY" }, rules)).toEqual({
+        stats: { hunger: 30, sanity: 50, corruption: 50 },
+        dailyFeeds: 1,
+        isOverfed: false,
+        statusEffects: [
+          { type: "SATED", remaining: 120, stacks: 1 },
+          { type: "BLESSED", remaining: 90, stacks: 1 },
+        ],
+        stomach: [{ type: "PURITY", remaining: 240 }],
+      });
+    });
+
+    it("should apply an instant change within bounds and bring on its effects", () => {
+      const result = applyInstantChange(
+        { stats: { hunger: 5, sanity: 98, corruption: 50 }, statusEffects: [] },
+        { stats: { hunger: -10, sanity: 5 }, statusEffects: ["BLESSED"] }
+      );
+      expect(result.stats).toEqual({ hunger: 0, sanity: 100, corruption: 50 });
+      expect(result.statusEffects.map((effect) => effect.type)).toEqual(["BLESSED"]);
+    });
+
+    it("should apply every class of a mixed offering", () => {
+      const fed = {
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+        dailyFeeds: 0,
+        statusEffects: [{ type: "NAUSEOUS" as const, remaining: 30, stacks: 1 }],
+        stomach: [],
+      };
+      const result = applyFeed(fed, { type: "BONE", aspects: ["MEDICINAL"] }, rules);
+      // BONE -30 and MEDICINAL -5 hunger; medicine settles the nausea
+      expect(result.stats.hunger).toBe(15);
+      expect(result.statusEffects).toEqual([{ type: "SATED", remaining: 120, stacks: 1 }]);
+      expect(result.stomach).toEqual([{ type: "BONE", aspects: ["MEDICINAL"], remaining: 240 }]);
+    });
+
+    it("should vomit and flush the stomach when feeding past its capacity", () => {
+      const full = {
+        stats: { hunger: 50, sanity: 50, corruption: 50 },
+        dailyFeeds: 3,
+        statusEffects: [],
+        stomach: [
+          { type: "ROT" as const, remaining: 100 },
+          { type: "ROT" as const, remaining: 240 },
+          { type: "PURITY" as const, remaining: 240 },
+        ],
+      };
+      expect(applyFeed(full, { type: "ROT" }, rules)).toEqual({
+        stats: { hunger: 50, sanity: 30, corruption: 50 },
+        dailyFeeds: 4,
+        isOverfed: true,
+        statusEffects: [{ type: "NAUSEOUS", remaining: 60, stacks: 1 }],
+        stomach: [],
+      });
+
+      // Once the oldest offering is digested there is room again
+      expect(applyFeed({ ...full, stomach: full.stomach.slice(1) }, { type: "ROT" }, rules).isOverfed).toBe(false);
+    });
+
+    it("should reduce the placate gain when calm and mostly pure", () => {
+      expect(applyPlacate({ hunger: 10, sanity: 50, corruption: 60 }, rules)).toEqual({
+        stats: { hunger: 15, sanity: 65, corruption: 60 },
+        sanityIncrease: 15,
+      });
+      expect(applyPlacate({ hunger: 10, sanity: 90, corruption: 10 }, rules).sanityIncrease).toBe(5);
+    });
+  });
+
+  describe("properties", () => {
+    const stateArbitrary = fc.record({
+      stats: fc.record({
+        hunger: fc.double({ min: 0, max: 99, noNaN: true }),
+        sanity: fc.double({ min: 1, max: 100, noNaN: true }),
+        corruption: fc.double({ min: 0, max: 100, noNaN: true }),
+      }),
+      stage: fc.constantFrom("EGG" as const, "BABY" as const, "TEEN" as const, "ELDER" as const, "ABOMINATION" as const),
+      age: fc.integer({ min: 0, max: 25000 }),
+      dailyFeeds: fc.integer({ min: 0, max: 5 }),
+      gameDay: fc.integer({ min: 0, max: 20 }),
+      lastHauntGameDay: fc.integer({ min: 0, max: 7 }),
+      statusEffects: fc.uniqueArray(
+        fc.record({
+          type: fc.constantFrom(...(Object.keys(STATUS_EFFECTS) as StatusEffectType[])),
+          remaining: fc.integer({ min: 1, max: 240 }),
+          stacks: fc.integer({ min: 1, max: 3 }),
+        }),
+        { selector: (effect) => effect.type, maxLength: 4 }
+      ),
+      stomach: fc.array(
+        fc.record({
+          type: fc.constantFrom(...ITEM_TYPES),
+          aspects: fc.option(fc.array(fc.constantFrom(...ITEM_TYPES), { maxLength: 2 }), { nil: undefined }),
+          remaining: fc.integer({ min: 1, max: 300 }),
+        }),
+        { maxLength: 4 }
+      ),
+    });
+
+    it("should be deterministic for a given seed", () => {
+      fc.assert(
+        fc.property(stateArbitrary, fc.integer(), fc.integer({ min: 0, max: 500 }), (state, seed, minutes) => {
+          const a = simulate(state, minutes, createSeededRng(seed), { ghostCount: 1 });
+          const b = simulate(state, minutes, createSeededRng(seed), { ghostCount: 1 });
+          expect(a).toEqual(b);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it("should give the same result when split into chunks", () => {
+      fc.assert(
+        fc.property(
+          stateArbitrary,
+          fc.integer(),
+          fc.integer({ min: 0, max: 300 }),
+          fc.integer({ min: 0, max: 300 }),
+          (state, seed, first, second) => {
+            const whole = simulate(state, first + second, createSeededRng(seed), { ghostCount: 1 });
+
+            const rng = createSeededRng(seed);
+            const partA = simulate(state, first, rng, { ghostCount: 1 });
+            const diedEarly = partA.events.some((event) => event.type === "death");
+            const partB = diedEarly
+              ? { state: partA.state, events: [] }
+              : simulate(partA.state, second, rng, { ghostCount: 1 });
+
+            expect(partB.state).toEqual(whole.state);
+            expect([...partA.events, ...partB.events]).toEqual(whole.events);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it("should match the minute-by-minute loop exactly", () => {
+      fc.assert(
+        fc.property(
+          stateArbitrary,
+          fc.integer(),
+          fc.integer({ min: 0, max: 20000 }),
+          fc.integer({ min: 0, max: 3 }),
+          fc.integer({ min: 0, max: 3 }),
+          fc.constantFrom(...Object.values(GAME_RULE_PRESETS)),
+          (state, seed, minutes, ghostCount, peaceful, rules) => {
+            const options = { ghostCount, peacefulGhostCount: Math.min(peaceful, ghostCount), rules };
+            const fast = simulate(state, minutes, createSeededRng(seed), options);
+            const loop = simulateByMinute(state, minutes, createSeededRng(seed), options);
+            expect(fast).toEqual(loop);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should keep stats within 0-100", () => {
+      fc.assert(
+        fc.property(stateArbitrary, fc.integer(), (state, seed) => {
+          const { state: next } = simulate(state, 2000, createSeededRng(seed), { ghostCount: 1 });
+          for (const value of Object.values(next.stats)) {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThanOrEqual(100);
+          }
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * Simulation Engine
+ * Pure, seedable implementation of the game's time-based rules.
+ *
+ * Both the live tick and offline decay run through `simulate`, so the
+ * rules cannot drift apart. The engine never touches the store, storage,
+ * sounds or AI - it returns the next state plus the events that happened,
+ * and the caller decides how to present them.
+ */
+
+import type {
+  GameRules,
+  GameState,
+  InsanityEventType,
+  Offering,
+  PetStage,
+  PetStats,
+  SimulationEvent,
+  SimulationResult,
+  SimulationState,
+  StatDelta,
+  StatusEffectType,
+} from "./types";
+import {
+  isHauntEligible,
+  HAUNT_CHANCE,
+  HAUNT_SANITY_PENALTY,
+  SANITY_THRESHOLD_FOR_HAUNT,
+} from "./hauntSystem";
+import { GAME_RULE_PRESETS } from "./gameRules";
+import {
+  addStatusEffect,
+  advanceStatusEffects,
+  getMinutesUntilExpiry,
+  getStatusEffectRates,
+} from "./statusEffects";
+import { applyOfferingSideEffects, getOfferingEffect } from "./offerings";
+import {
+  advanceDigestion,
+  getDigestionRates,
+  getMinutesUntilDigested,
+  isStomachFull,
+} from "./digestion";
+
+// ============================================
+// Rule Constants
+// ============================================
+
+export const MINUTES_PER_DAY = 24 * 60; // 1440 minutes
+
+// Insanity events: 1% chance per minute when sanity < 30 (Requirements 10.1, 10.2)
+export const INSANITY_EVENT_CHANCE = 0.01;
+export const INSANITY_SANITY_THRESHOLD = 30;
+export const INSANITY_EVENT_TYPES: InsanityEventType[] = ["WHISPERS", "SHADOWS", "GLITCH", "INVERSION"];
+
+// ============================================
+// Random Number Generation
+// ============================================
+
+/** Random source returning a float in [0, 1), e.g. `Math.random` */
+export type Rng = () => number;
+
+/**
+ * Create a deterministic random source (mulberry32).
+ * The same seed always yields the same sequence.
+ *
+ * @param seed - Any 32-bit integer
+ * @returns Seeded random source
+ */
+export function createSeededRng(seed: number): Rng {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================
+// Rules
+// ============================================
+
+export interface SimulationOptions {
+  ghostCount: number; // Ghosts available to haunt (0 disables haunts)
+  peacefulGhostCount: number; // Of those, ghosts that died of old age and comfort the pet
+  rules: GameRules; // Balance preset stored with the pet
+}
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+  ghostCount: 0,
+  peacefulGhostCount: 0,
+  rules: GAME_RULE_PRESETS.STANDARD,
+};
+
+/**
+ * Determine which stage (if any) the pet evolves into.
+ * Corruption-based evolution takes priority over age-based evolution, and
+ * only a teen kept below the elder corruption limit grows old.
+ *
+ * @param stage - Current stage
+ * @param corruption - Corruption before this minute's update
+ * @param age - Age after this minute's update
+ * @param rules - Evolution rules to apply
+ * @returns The new stage, or null if the pet does not evolve
+ */
+export function getEvolutionTarget(
+  stage: PetStage,
+  corruption: number,
+  age: number,
+  { evolution, lifespan }: GameRules
+): PetStage | null {
+  if (corruption > evolution.abominationCorruption && stage !== "ABOMINATION") {
+    return "ABOMINATION";
+  }
+  if (stage === "EGG" && age >= evolution.babyAge) {
+    return "BABY";
+  }
+  if (stage === "BABY" && age >= evolution.teenAge) {
+    return "TEEN";
+  }
+  if (stage === "TEEN" && age >= lifespan.elderDay * MINUTES_PER_DAY && corruption < lifespan.elderMaxCorruption) {
+    return "ELDER";
+  }
+  return null;
+}
+
+/**
+ * How much faster an elder's hunger and sanity decay than a younger pet's.
+ * Its appetite fades, but its mind grows frailer with every day past the
+ * day it grew old.
+ *
+ * @param gameDay - Current game day
+ * @param rules - Lifespan rules to apply
+ */
+export function getElderDecayMultipliers(gameDay: number, { lifespan }: GameRules): { hunger: number; sanity: number } {
+  const daysOld = Math.max(0, gameDay - lifespan.elderDay);
+  return {
+    hunger: lifespan.elderHungerRate,
+    sanity: lifespan.elderSanityRate + daysOld * lifespan.frailtyPerDay,
+  };
+}
+
+// ============================================
+// Fixed-Point Decay
+// ============================================
+
+// Stats are tracked in integer micro-units while simulating, so a thousand
+// single-minute steps land on exactly the same value as one jump
+const STAT_SCALE = 1_000_000;
+
+const toUnits = (value: number): number => Math.round(value * STAT_SCALE);
+const fromUnits = (units: number): number => units / STAT_SCALE;
+
+const MAX_STAT = toUnits(100);
+const clampUnits = (units: number): number => Math.min(MAX_STAT, Math.max(0, units));
+
+/**
+ * Simulation state with the stats held in integer units.
+ */
+interface EngineState extends Omit<SimulationState, "stats"> {
+  hunger: number;
+  sanity: number;
+  corruption: number;
+}
+
+function toEngineState(snapshot: SimulationState): EngineState {
+  return {
+    hunger: toUnits(snapshot.stats.hunger),
+    sanity: toUnits(snapshot.stats.sanity),
+    corruption: toUnits(snapshot.stats.corruption),
+    stage: snapshot.stage,
+    age: snapshot.age,
+    dailyFeeds: snapshot.dailyFeeds,
+    gameDay: snapshot.gameDay,
+    lastHauntGameDay: snapshot.lastHauntGameDay,
+    statusEffects: snapshot.statusEffects,
+    stomach: snapshot.stomach,
+  };
+}
+
+function toSimulationState(state: EngineState): SimulationState {
+  return {
+    stats: getStats(state),
+    stage: state.stage,
+    age: state.age,
+    dailyFeeds: state.dailyFeeds,
+    gameDay: state.gameDay,
+    lastHauntGameDay: state.lastHauntGameDay,
+    statusEffects: state.statusEffects,
+    stomach: state.stomach,
+  };
+}
+
+function getStats(state: EngineState): PetStats {
+  return {
+    hunger: fromUnits(state.hunger),
+    sanity: fromUnits(state.sanity),
+    corruption: fromUnits(state.corruption),
+  };
+}
+
+interface StatRates {
+  hunger: number;
+  sanity: number;
+  corruption: number;
+}
+
+// Stats rest at their bounds instead of drifting past them
+const drift = (value: number, rate: number): number =>
+  (value <= 0 && rate < 0) || (value >= MAX_STAT && rate > 0) ? 0 : rate;
+
+/**
+ * Per-minute stat changes (in units) for the pre-minute state: decay picked
+ * by hunger, plus the rates of active status effects and digestion.
+ */
+function getStatRates(state: EngineState, rules: GameRules): StatRates {
+  const { decay } = rules;
+  const effects = getStatusEffectRates(state.statusEffects);
+  const digestion = getDigestionRates(state.stomach, rules);
+  const elder = state.stage === "ELDER" ? getElderDecayMultipliers(state.gameDay, rules) : { hunger: 1, sanity: 1 };
+  const hungerRate =
+    (state.hunger >= toUnits(decay.starvingThreshold) ? decay.starvingHungerRate : decay.hungerRate) * elder.hunger;
+  const sanityRate =
+    (state.hunger > toUnits(decay.hungryThreshold) ? decay.hungrySanityRate : decay.sanityRate) * elder.sanity;
+  return {
+    hunger: drift(state.hunger, toUnits(hungerRate + effects.hunger)),
+    sanity: drift(state.sanity, toUnits(effects.sanity + digestion.sanity - sanityRate)),
+    corruption: drift(state.corruption, toUnits(effects.corruption + digestion.corruption)),
+  };
+}
+
+// Age at which an elder dies of old age
+const getOldAge = ({ lifespan }: GameRules): number => lifespan.oldAgeDay * MINUTES_PER_DAY;
+
+/**
+ * Advance the simulation by exactly one game minute.
+ */
+function advanceMinute(
+  state: EngineState,
+  rng: Rng,
+  options: SimulationOptions
+): { state: EngineState; events: SimulationEvent[] } {
+  const events: SimulationEvent[] = [];
+  const age = state.age + 1;
+
+  // Starvation consequences (Requirements 8.1, 8.2), shifted by status effects and digestion
+  const rates = getStatRates(state, options.rules);
+  const next: EngineState = {
+    ...state,
+    age,
+    hunger: clampUnits(state.hunger + rates.hunger),
+    sanity: clampUnits(state.sanity + rates.sanity),
+    corruption: clampUnits(state.corruption + rates.corruption),
+    statusEffects: advanceStatusEffects(state.statusEffects, 1),
+    stomach: advanceDigestion(state.stomach, 1),
+  };
+
+  // Daily reset (24 game hours = 1440 minutes)
+  if (age % MINUTES_PER_DAY === 0) {
+    next.dailyFeeds = 0;
+    next.gameDay += 1;
+    events.push({ type: "dayRollover", age, stats: getStats(next), gameDay: next.gameDay });
+  }
+
+  const toStage = getEvolutionTarget(state.stage, fromUnits(state.corruption), age, options.rules);
+  if (toStage) {
+    events.push({ type: "evolution", age, stats: getStats(next), fromStage: state.stage, toStage });
+    next.stage = toStage;
+  }
+
+  // Death detection (Requirements 1.1, 1.2); an elder that reaches old age slips away
+  const cause =
+    next.hunger >= MAX_STAT
+      ? "STARVATION"
+      : next.sanity <= 0
+      ? "INSANITY"
+      : next.stage === "ELDER" && age >= getOldAge(options.rules)
+      ? "OLD_AGE"
+      : null;
+  if (cause) {
+    events.push({ type: "death", age, stats: getStats(next), cause });
+  } else {
+    // Insanity events (Requirements 10.1, 10.2) leave night terrors behind
+    if (next.sanity < toUnits(INSANITY_SANITY_THRESHOLD) && rng() < INSANITY_EVENT_CHANCE) {
+      const insanityType = INSANITY_EVENT_TYPES[Math.floor(rng() * INSANITY_EVENT_TYPES.length)];
+      next.statusEffects = addStatusEffect(next.statusEffects, "NIGHT_TERRORS");
+      events.push({ type: "insanity", age, stats: getStats(next), insanityType });
+    }
+
+    // Haunt events (Requirements 4.1, 4.2, 4.3, 4.5); a ghost that died of
+    // old age comforts the pet and gives the sanity back instead
+    if (
+      options.ghostCount > 0 &&
+      isHauntEligible(fromUnits(next.sanity), next.lastHauntGameDay, next.gameDay) &&
+      rng() < HAUNT_CHANCE
+    ) {
+      const peaceful = options.peacefulGhostCount > 0 && rng() * options.ghostCount < options.peacefulGhostCount;
+      if (peaceful) {
+        next.sanity = clampUnits(next.sanity + toUnits(HAUNT_SANITY_PENALTY));
+      } else {
+        next.sanity = Math.max(0, next.sanity - toUnits(HAUNT_SANITY_PENALTY));
+        next.statusEffects = addStatusEffect(next.statusEffects, "NIGHT_TERRORS");
+      }
+      next.lastHauntGameDay = next.gameDay;
+      events.push({ type: "haunt", age, stats: getStats(next), gameDay: next.gameDay, peaceful });
+    }
+  }
+
+  return { state: next, events };
+}
+
+// ============================================
+// Steady Segments
+// ============================================
+
+/**
+ * Count how many minutes can pass before a rule other than plain decay
+ * applies: a decay rate change at the hunger thresholds, a status effect
+ * running out, an offering finishing digestion, a stat reaching its bound, a day boundary, an evolution, a
+ * death, or a minute that rolls for insanity or a haunt. Those minutes
+ * carry no events and consume no randomness, so they can be skipped in a
+ * single step.
+ */
+function getSteadyMinutes(state: EngineState, options: SimulationOptions): number {
+  const { hunger, sanity, corruption, age } = state;
+  const rates = getStatRates(state, options.rules);
+  const limits: number[] = [];
+
+  // Decay rates are picked from the pre-minute hunger
+  limits.push(getMinutesOnSide(hunger, rates.hunger, toUnits(options.rules.decay.hungryThreshold), true));
+  limits.push(getMinutesOnSide(hunger, rates.hunger, toUnits(options.rules.decay.starvingThreshold), false));
+  limits.push(getMinutesUntilExpiry(state.statusEffects));
+  limits.push(getMinutesUntilDigested(state.stomach));
+
+  // The minute that clamps a stat at its bound is not skipped
+  limits.push(getMinutesWithinBounds(hunger, rates.hunger));
+  limits.push(getMinutesWithinBounds(sanity, rates.sanity));
+  limits.push(getMinutesWithinBounds(corruption, rates.corruption));
+
+  // The minute that rolls over the day, evolves or kills is not skipped
+  limits.push(MINUTES_PER_DAY - (age % MINUTES_PER_DAY) - 1);
+  limits.push(getMinutesUntilEvolution(state, rates.corruption, options.rules) - 1);
+  if (rates.hunger > 0) {
+    limits.push(Math.ceil((MAX_STAT - hunger) / rates.hunger) - 1);
+  }
+  if (rates.sanity < 0) {
+    limits.push(Math.ceil(sanity / -rates.sanity) - 1);
+  }
+  if (state.stage === "ELDER") {
+    limits.push(getOldAge(options.rules) - age - 1);
+  }
+
+  // Minutes that roll for insanity or a haunt are stepped one at a time
+  limits.push(getMinutesBeforeBelow(sanity, rates.sanity, toUnits(INSANITY_SANITY_THRESHOLD)));
+  if (options.ghostCount > 0 && state.lastHauntGameDay < state.gameDay) {
+    limits.push(getMinutesBeforeBelow(sanity, rates.sanity, toUnits(SANITY_THRESHOLD_FOR_HAUNT)));
+  }
+
+  return Math.max(0, Math.min(...limits));
+}
+
+/**
+ * Minutes, starting with the next, whose pre-minute value (`value + i * rate`)
+ * stays on the same side of a threshold as now. Infinity if it never crosses.
+ *
+ * @param isStrict - Whether the side is `> threshold` rather than `>= threshold`
+ */
+function getMinutesOnSide(value: number, rate: number, threshold: number, isStrict: boolean): number {
+  const isAbove = isStrict ? value > threshold : value >= threshold;
+  if (rate === 0 || isAbove === rate > 0) {
+    return Infinity;
+  }
+  if (isAbove) {
+    const distance = (value - threshold) / -rate;
+    return isStrict ? Math.ceil(distance) : Math.floor(distance) + 1;
+  }
+  const distance = (threshold - value) / rate;
+  return isStrict ? Math.floor(distance) + 1 : Math.ceil(distance);
+}
+
+/**
+ * Minutes a stat can change by `rate` without passing 0 or 100.
+ */
+function getMinutesWithinBounds(value: number, rate: number): number {
+  if (rate < 0) {
+    return Math.floor(value / -rate);
+  }
+  if (rate > 0) {
+    return Math.floor((MAX_STAT - value) / rate);
+  }
+  return Infinity;
+}
+
+/**
+ * Minutes that can pass before one ends with the value below `threshold`.
+ */
+function getMinutesBeforeBelow(value: number, rate: number, threshold: number): number {
+  const after = value + rate;
+  if (after < threshold) {
+    return 0;
+  }
+  return getMinutesOnSide(after, rate, threshold, false);
+}
+
+/**
+ * Minutes until the next evolution triggers (Infinity for final stages).
+ */
+function getMinutesUntilEvolution(state: EngineState, corruptionRate: number, rules: GameRules): number {
+  if (getEvolutionTarget(state.stage, fromUnits(state.corruption), state.age + 1, rules)) {
+    return 1;
+  }
+
+  const limits = [Infinity];
+  if (state.stage === "EGG") {
+    limits.push(rules.evolution.babyAge - state.age);
+  }
+  if (state.stage === "BABY") {
+    limits.push(rules.evolution.teenAge - state.age);
+  }
+  // A teen grows old on the elder day, or once its corruption falls low enough after it
+  if (state.stage === "TEEN") {
+    const elderAge = rules.lifespan.elderDay * MINUTES_PER_DAY;
+    if (state.age + 1 < elderAge) {
+      limits.push(elderAge - state.age);
+    } else {
+      const threshold = toUnits(rules.lifespan.elderMaxCorruption);
+      limits.push(getMinutesOnSide(state.corruption, corruptionRate, threshold, false) + 1);
+    }
+  }
+  // Corruption drifting up under a status effect twists the pet once it passes the threshold
+  if (state.stage !== "ABOMINATION") {
+    const threshold = toUnits(rules.evolution.abominationCorruption);
+    limits.push(getMinutesOnSide(state.corruption, corruptionRate, threshold, true) + 1);
+  }
+  return Math.min(...limits);
+}
+
+/**
+ * Apply `minutes` of plain decay at the current rates.
+ * Only valid for spans returned by `getSteadyMinutes`.
+ */
+function advanceSteady(state: EngineState, minutes: number, rules: GameRules): EngineState {
+  const rates = getStatRates(state, rules);
+  return {
+    ...state,
+    age: state.age + minutes,
+    hunger: state.hunger + minutes * rates.hunger,
+    sanity: state.sanity + minutes * rates.sanity,
+    corruption: state.corruption + minutes * rates.corruption,
+    statusEffects: advanceStatusEffects(state.statusEffects, minutes),
+    stomach: advanceDigestion(state.stomach, minutes),
+  };
+}
+
+// ============================================
+// Simulation
+// ============================================
+
+/**
+ * Run the game rules forward by a number of game minutes.
+ * Simulation stops at the minute the pet dies; the death event is the last
+ * event returned and the caller is responsible for resolving it.
+ *
+ * Stretches of plain decay are solved in one step, so the cost depends on
+ * how many rules fire rather than on how long the player was away.
+ *
+ * @param snapshot - Current game state (only simulation fields are read)
+ * @param minutes - Game minutes to advance (fractions are dropped)
+ * @param rng - Random source, use `createSeededRng` for reproducible runs
+ * @param options - Rules and environment inputs such as available ghosts
+ * @returns The advanced state and the events that happened, in order
+ */
+export function simulate(
+  snapshot: SimulationState,
+  minutes: number,
+  rng: Rng,
+  options: Partial<SimulationOptions> = {}
+): SimulationResult {
+  const settings: SimulationOptions = { ...DEFAULT_OPTIONS, ...options };
+  let state = toEngineState(snapshot);
+  const events: SimulationEvent[] = [];
+  let remaining = Math.floor(minutes);
+
+  while (remaining > 0) {
+    const steady = Math.min(remaining, getSteadyMinutes(state, settings));
+    if (steady > 0) {
+      state = advanceSteady(state, steady, settings.rules);
+      remaining -= steady;
+      continue;
+    }
+
+    const result = advanceMinute(state, rng, settings);
+    state = result.state;
+    events.push(...result.events);
+    remaining -= 1;
+
+    if (result.events.some((event) => event.type === "death")) {
+      break;
+    }
+  }
+
+  return { state: toSimulationState(state), events };
+}
+
+/**
+ * Reference implementation of `simulate` that steps every minute.
+ * `simulate` must produce identical results; kept for tests and tooling.
+ */
+export function simulateByMinute(
+  snapshot: SimulationState,
+  minutes: number,
+  rng: Rng,
+  options: Partial<SimulationOptions> = {}
+): SimulationResult {
+  const settings: SimulationOptions = { ...DEFAULT_OPTIONS, ...options };
+  let state = toEngineState(snapshot);
+  const events: SimulationEvent[] = [];
+
+  for (let i = 0; i < Math.floor(minutes); i++) {
+    const result = advanceMinute(state, rng, settings);
+    state = result.state;
+    events.push(...result.events);
+
+    if (result.events.some((event) => event.type === "death")) {
+      break;
+    }
+  }
+
+  return { state: toSimulationState(state), events };
+}
+
+// ============================================
+// Caretaker Actions
+// ============================================
+
+const clampStat = (value: number): number => Math.min(100, Math.max(0, value));
+
+/**
+ * The part of the pet's state an instant change reads and changes.
+ */
+export type InstantChangeState = Pick<GameState, "stats" | "statusEffects">;
+
+/**
+ * Apply a change that takes effect at once, such as a ritual or a market
+ * consumable: its stat delta, clamped to 0-100, and any status effects it
+ * brings on.
+ *
+ * @param state - Pet state before the change
+ * @param change - Stat delta and status effects to apply
+ */
+export function applyInstantChange(
+  { stats, statusEffects }: InstantChangeState,
+  change: { stats?: StatDelta; statusEffects?: StatusEffectType[] }
+): InstantChangeState {
+  const delta = change.stats ?? {};
+  return {
+    stats: {
+      hunger: clampStat(stats.hunger + (delta.hunger ?? 0)),
+      sanity: clampStat(stats.sanity + (delta.sanity ?? 0)),
+      corruption: clampStat(stats.corruption + (delta.corruption ?? 0)),
+    },
+    statusEffects: (change.statusEffects ?? []).reduce(addStatusEffect, statusEffects),
+  };
+}
+
+/**
+ * The part of the pet's state feeding reads and changes.
+ */
+export type FeedState = Pick<GameState, "stats" | "dailyFeeds" | "statusEffects" | "stomach">;
+
+export interface FeedResult extends FeedState {
+  isOverfed: boolean; // Fed past a full stomach and vomited
+}
+
+/**
+ * Feed an offering (Requirements 9.1, 9.2).
+ * Hunger is relieved straight away and the offering joins the stomach to be
+ * digested. Feeding past a full stomach makes the pet vomit instead: it
+ * loses sanity, everything undigested is flushed and it is left nauseous.
+ * Otherwise it is sated, and every class of the offering applies its side
+ * effects (see offerings.ts).
+ *
+ * @param state - Pet state before feeding
+ * @param offering - Hidden classes of the offering
+ * @param rules - Feeding rules to apply
+ */
+export function applyFeed(
+  state: FeedState,
+  offering: Pick<Offering, "type" | "aspects">,
+  rules: GameRules
+): FeedResult {
+  const { feeding } = rules;
+  const { stats } = state;
+  const dailyFeeds = state.dailyFeeds + 1;
+
+  if (isStomachFull(state.stomach, rules)) {
+    return {
+      stats: { ...stats, sanity: Math.max(0, stats.sanity - feeding.vomitSanityPenalty) },
+      dailyFeeds,
+      statusEffects: addStatusEffect(state.statusEffects, "NAUSEOUS"),
+      stomach: [],
+      isOverfed: true,
+    };
+  }
+
+  const { type, aspects } = offering;
+  return {
+    stats: { ...stats, hunger: clampStat(stats.hunger + getOfferingEffect(offering, rules).hunger) },
+    dailyFeeds,
+    statusEffects: applyOfferingSideEffects(addStatusEffect(state.statusEffects, "SATED"), offering),
+    stomach: [...state.stomach, { type, ...(aspects && { aspects }), remaining: feeding.digestMinutes }],
+    isOverfed: false,
+  };
+}
+
+/**
+ * Apply the placate action (Requirements 6.1, 6.2, 6.3).
+ * Sanity gain is reduced when the pet is already calm and mostly pure,
+ * and placating always makes the pet hungrier. Cooldown is the caller's concern.
+ *
+ * @param stats - Stats before placating
+ * @param rules - Placate rules to apply
+ */
+export function applyPlacate(
+  stats: PetStats,
+  { placate }: GameRules
+): { stats: PetStats; sanityIncrease: number } {
+  const isCalm =
+    stats.sanity >= placate.reducedAboveSanity && stats.corruption < placate.reducedBelowCorruption;
+  const sanityIncrease = isCalm ? placate.reducedSanityGain : placate.sanityGain;
+
+  return {
+    stats: {
+      ...stats,
+      sanity: Math.min(100, stats.sanity + sanityIncrease),
+      hunger: Math.min(100, stats.hunger + placate.hungerCost),
+    },
+    sanityIncrease,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  addStatusEffect,
+  advanceStatusEffects,
+  getMinutesUntilExpiry,
+  getStatusEffectRates,
+} from "./statusEffects";
+import type { StatusEffect } from "./types";
+
+describe("Status Effects", () => {
+  describe("addStatusEffect", () => {
+    it("should apply a new effect at its full duration", () => {
+      expect(addStatusEffect([], "SATED")).toEqual([{ type: "SATED", remaining: 120, stacks: 1 }]);
+    });
+
+    it("should follow each effect's stack rule", () => {
+      const refreshed = addStatusEffect([{ type: "SATED", remaining: 10, stacks: 1 }], "SATED");
+      expect(refreshed).toEqual([{ type: "SATED", remaining: 120, stacks: 1 }]);
+
+      const extended = addStatusEffect([{ type: "BLESSED", remaining: 200, stacks: 1 }], "BLESSED");
+      expect(extended).toEqual([{ type: "BLESSED", remaining: 240, stacks: 1 }]);
+
+      let terrors: StatusEffect[] = [];
+      for (let i = 0; i < 5; i++) {
+        terrors = addStatusEffect(terrors, "NIGHT_TERRORS");
+      }
+      expect(terrors).toEqual([{ type: "NIGHT_TERRORS", remaining: 180, stacks: 3 }]);
+    });
+
+    it("should not mutate the given effects", () => {
+      const effects: StatusEffect[] = [{ type: "SATED", remaining: 10, stacks: 1 }];
+      addStatusEffect(effects, "SATED");
+      expect(effects[0].remaining).toBe(10);
+    });
+  });
+
+  describe("advanceStatusEffects", () => {
+    it("should count effects down and drop the ones that run out", () => {
+      const effects: StatusEffect[] = [
+        { type: "SATED", remaining: 30, stacks: 1 },
+        { type: "NAUSEOUS", remaining: 60, stacks: 1 },
+      ];
+      expect(advanceStatusEffects(effects, 30)).toEqual([{ type: "NAUSEOUS", remaining: 30, stacks: 1 }]);
+      expect(getMinutesUntilExpiry(effects)).toBe(30);
+      expect(getMinutesUntilExpiry([])).toBe(Infinity);
+    });
+  });
+
+  describe("getStatusEffectRates", () => {
+    it("should sum the rates of every effect by stack", () => {
+      const rates = getStatusEffectRates([
+        { type: "NIGHT_TERRORS", remaining: 10, stacks: 2 },
+        { type: "BLESSED", remaining: 10, stacks: 1 },
+      ]);
+      expect(rates.hunger).toBe(0);
+      expect(rates.sanity).toBeCloseTo(-0.01);
+      expect(rates.corruption).toBeCloseTo(0);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Status Effects
+ * Timed buffs and debuffs that change how the pet's stats drift.
+ *
+ * Feeding, vomiting, haunts and insanity events apply effects. While active,
+ * an effect adds its rates to every game minute of decay (in the simulation
+ * engine, so offline decay honours them too) and counts down its remaining
+ * game minutes. Reapplying an effect follows its stack rule.
+ */
+
+import type { StatDelta, StatusEffect, StatusEffectDefinition, StatusEffectType } from "./types";
+
+// ============================================
+// Definitions
+// ============================================
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  // Overfeeding: it can't keep anything down
+  NAUSEOUS: {
+    label: "Nauseous",
+    description: "Can't keep anything down",
+    icon: "🤢",
+    duration: 60,
+    rates: { hunger: 0.05, sanity: -0.02, corruption: 0 },
+    stackRule: "refresh",
+    maxStacks: 1,
+    maxDuration: 60,
+  },
+  // Any feeding while the stomach still has room; feeding a full stomach vomits instead
+  SATED: {
+    label: "Sated",
+    description: "Full, and hungering slower",
+    icon: "😌",
+    duration: 120,
+    rates: { hunger: -0.04, sanity: 0, corruption: 0 },
+    stackRule: "refresh",
+    maxStacks: 1,
+    maxDuration: 120,
+  },
+  // Pure offerings
+  BLESSED: {
+    label: "Blessed",
+    description: "Something pure lingers in it",
+    icon: "✨",
+    duration: 90,
+    rates: { hunger: 0, sanity: 0.03, corruption: -0.01 },
+    stackRule: "extend",
+    maxStacks: 1,
+    maxDuration: 240,
+  },
+  // Haunts and insanity events
+  NIGHT_TERRORS: {
+    label: "Night terrors",
+    description: "It won't stop watching the corners",
+    icon: "👁️",
+    duration: 180,
+    rates: { hunger: 0, sanity: -0.02, corruption: 0.005 },
+    stackRule: "stack",
+    maxStacks: 3,
+    maxDuration: 180,
+  },
+};
+
+// ============================================
+// Effects
+// ============================================
+
+/**
+ * Apply an effect, following its stack rule if it is already active.
+ *
+ * @returns A new list of effects
+ */
+export function addStatusEffect(effects: StatusEffect[], type: StatusEffectType): StatusEffect[] {
+  const definition = STATUS_EFFECTS[type];
+  const active = effects.find((effect) => effect.type === type);
+  if (!active) {
+    return [...effects, { type, remaining: definition.duration, stacks: 1 }];
+  }
+
+  let next: StatusEffect;
+  switch (definition.stackRule) {
+    case "refresh":
+      next = { ...active, remaining: Math.max(active.remaining, definition.duration) };
+      break;
+    case "extend":
+      next = { ...active, remaining: Math.min(active.remaining + definition.duration, definition.maxDuration) };
+      break;
+    case "stack":
+      next = {
+        ...active,
+        remaining: definition.duration,
+        stacks: Math.min(active.stacks + 1, definition.maxStacks),
+      };
+      break;
+  }
+  return effects.map((effect) => (effect === active ? next : effect));
+}
+
+/**
+ * Count effects down by some game minutes, dropping the ones that run out.
+ *
+ * @returns The same list when there are no effects
+ */
+export function advanceStatusEffects(effects: StatusEffect[], minutes: number): StatusEffect[] {
+  if (effects.length === 0 || minutes === 0) {
+    return effects;
+  }
+  return effects
+    .map((effect) => ({ ...effect, remaining: effect.remaining - minutes }))
+    .filter((effect) => effect.remaining > 0);
+}
+
+/**
+ * Game minutes until the first active effect runs out (Infinity with none).
+ */
+export function getMinutesUntilExpiry(effects: StatusEffect[]): number {
+  return Math.min(...effects.map((effect) => effect.remaining));
+}
+
+/**
+ * Combined stat change per game minute from every active effect.
+ */
+export function getStatusEffectRates(effects: StatusEffect[]): Required<StatDelta> {
+  return effects.reduce(
+    (total, effect) => {
+      const { rates } = STATUS_EFFECTS[effect.type];
+      return {
+        hunger: total.hunger + rates.hunger * effect.stacks,
+        sanity: total.sanity + rates.sanity * effect.stacks,
+        corruption: total.corruption + rates.corruption * effect.stacks,
+      };
+    },
+    { hunger: 0, sanity: 0, corruption: 0 }
+  );
+}
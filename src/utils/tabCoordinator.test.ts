@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { ForwardedAction, TabRole } from "./types";
+
+type CoordinatorModule = typeof import("./tabCoordinator");
+
+// Each import is a separate tab with its own ID and role
+const openTab = async (): Promise<CoordinatorModule> => {
+  vi.resetModules();
+  return import("./tabCoordinator");
+};
+
+describe("Tab Coordinator", () => {
+  const stops: (() => void)[] = [];
+
+  const start = (tab: CoordinatorModule) => {
+    const roles: TabRole[] = [];
+    const actions: ForwardedAction[] = [];
+    const coordinator = tab.startTabCoordinator({
+      onRoleChange: (role) => roles.push(role),
+      onAction: (action) => actions.push(action),
+    });
+    stops.push(coordinator.stop);
+    return { coordinator, roles, actions };
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date"] });
+  });
+
+  afterEach(() => {
+    stops.splice(0).forEach((stop) => stop());
+    vi.useRealTimers();
+  });
+
+  it("should make the first tab the leader and later tabs followers", async () => {
+    const first = await openTab();
+    start(first);
+    expect(first.getTabRole()).toBe("leader");
+
+    const second = await openTab();
+    start(second);
+    expect(second.getTabRole()).toBe("follower");
+    expect(second.canWriteSave()).toBe(false);
+    expect(first.canWriteSave()).toBe(true);
+  });
+
+  it("should forward follower actions to the leader", async () => {
+    const leader = start(await openTab());
+    const follower = start(await openTab());
+
+    follower.coordinator.forward({ name: "feed", args: ["item-1"] });
+
+    await vi.waitFor(() => expect(leader.actions).toEqual([{ name: "feed", args: ["item-1"] }]));
+    expect(follower.actions).toEqual([]);
+  });
+
+  it("should hand off to a follower when the leader closes", async () => {
+    const leader = start(await openTab());
+    const secondTab = await openTab();
+    const follower = start(secondTab);
+
+    leader.coordinator.stop();
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(250);
+      expect(follower.roles).toEqual(["leader"]);
+    });
+    expect(secondTab.getTabRole()).toBe("leader");
+  });
+
+  it("should take over a lease that has expired", async () => {
+    // A leader whose timers stalled, e.g. a throttled background tab
+    localStorage.setItem(
+      "creepy-companion-leader",
+      JSON.stringify({ tabId: "stalled", expiresAt: Date.now() + 3000 })
+    );
+    const tab = await openTab();
+    const follower = start(tab);
+    expect(tab.getTabRole()).toBe("follower");
+
+    vi.advanceTimersByTime(tab.LEASE_DURATION + tab.HEARTBEAT_INTERVAL);
+
+    expect(follower.roles).toEqual(["leader"]);
+  });
+
+  it("should step down when another tab holds the lease", async () => {
+    const tab = await openTab();
+    const { roles } = start(tab);
+
+    localStorage.setItem(
+      tab.LEADER_STORAGE_KEY,
+      JSON.stringify({ tabId: "other", expiresAt: Date.now() + tab.LEASE_DURATION })
+    );
+
+    expect(tab.canWriteSave()).toBe(false);
+    vi.advanceTimersByTime(0);
+    expect(roles).toEqual(["follower"]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Tab Coordinator
+ * Leader election between browser tabs, so exactly one tab simulates and
+ * saves the pet.
+ *
+ * The leader holds a lease in `creepy-companion-leader` and renews it every
+ * HEARTBEAT_INTERVAL. A follower claims the lease once it expires, or right
+ * away when the leader resigns on `pagehide`. Tabs talk over a
+ * BroadcastChannel: the leader announces itself, resigns, and receives the
+ * actions followers forward to it. If two tabs claim at the same moment,
+ * the lease in storage decides and the other tab steps down.
+ *
+ * Without BroadcastChannel there is no way to forward actions, so every tab
+ * acts as the leader, as before.
+ */
+
+import type { ForwardedAction, TabRole } from "./types";
+import { logInfo, logWarning } from "./errorLogger";
+
+const LEADER_STORAGE_KEY = "creepy-companion-leader";
+const TAB_CHANNEL_NAME = "creepy-companion-tabs";
+const HEARTBEAT_INTERVAL = 1000;
+const LEASE_DURATION = 3000; // A leader that misses this many ms of heartbeats loses the lease
+const CLAIM_JITTER = 200; // Spread out followers claiming after a resign
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+type TabMessage =
+  | { type: "leader"; tabId: string }
+  | { type: "resign"; tabId: string }
+  | { type: "action"; tabId: string; action: ForwardedAction };
+
+const tabId = crypto.randomUUID();
+
+// ============================================
+// Lease
+// ============================================
+
+function readLease(): LeaderLease | null {
+  try {
+    const stored = localStorage.getItem(LEADER_STORAGE_KEY);
+    if (!stored) return null;
+    const lease = JSON.parse(stored);
+    return typeof lease?.tabId === "string" && typeof lease?.expiresAt === "number" ? lease : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLease(now: number): void {
+  try {
+    localStorage.setItem(
+      LEADER_STORAGE_KEY,
+      JSON.stringify({ tabId, expiresAt: now + LEASE_DURATION } satisfies LeaderLease)
+    );
+  } catch (error) {
+    logWarning("Failed to write leader lease", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function isHeldByOtherTab(lease: LeaderLease | null, now: number): boolean {
+  return lease !== null && lease.tabId !== tabId && lease.expiresAt > now;
+}
+
+const isSupported = typeof BroadcastChannel !== "undefined";
+
+// Decided synchronously on load so a follower never writes its first save
+let role: TabRole = isSupported && isHeldByOtherTab(readLease(), Date.now()) ? "follower" : "leader";
+let onStepDown: (() => void) | null = null;
+
+/**
+ * Role of this tab right now.
+ */
+export function getTabRole(): TabRole {
+  return role;
+}
+
+/**
+ * Whether this tab may write the save. A leader whose lease was taken over
+ * (e.g. after its timers were throttled in the background) steps down here.
+ */
+export function canWriteSave(): boolean {
+  if (role === "follower") {
+    return false;
+  }
+  if (isSupported && isHeldByOtherTab(readLease(), Date.now())) {
+    // Step down outside the current storage write
+    setTimeout(() => onStepDown?.(), 0);
+    return false;
+  }
+  return true;
+}
+
+// ============================================
+// Coordinator
+// ============================================
+
+export interface TabCoordinatorOptions {
+  onRoleChange: (role: TabRole) => void;
+  onAction: (action: ForwardedAction) => void; // Runs on the leader
+}
+
+export interface TabCoordinator {
+  forward: (action: ForwardedAction) => void;
+  stop: () => void;
+}
+
+/**
+ * Start taking part in the election.
+ *
+ * @param options - Callbacks for role changes and forwarded actions
+ * @returns Controls to forward actions and to leave the election
+ */
+export function startTabCoordinator(options: TabCoordinatorOptions): TabCoordinator {
+  if (!isSupported) {
+    return { forward: options.onAction, stop: () => {} };
+  }
+
+  const channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+  let claimTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  let isStopped = false;
+
+  const setRole = (next: TabRole) => {
+    if (next === role) return;
+    role = next;
+    logInfo("Tab role changed", { tabId, role });
+    options.onRoleChange(next);
+  };
+
+  const post = (message: TabMessage) => channel.postMessage(message);
+
+  const claim = () => {
+    const now = Date.now();
+    if (isHeldByOtherTab(readLease(), now)) {
+      return;
+    }
+    writeLease(now);
+    setRole("leader");
+    post({ type: "leader", tabId });
+  };
+
+  const scheduleClaim = () => {
+    if (claimTimeoutId !== null) return;
+    claimTimeoutId = setTimeout(() => {
+      claimTimeoutId = null;
+      if (role === "follower") claim();
+    }, Math.random() * CLAIM_JITTER);
+  };
+
+  const heartbeat = () => {
+    const now = Date.now();
+    if (role === "leader") {
+      if (isHeldByOtherTab(readLease(), now)) {
+        setRole("follower");
+      } else {
+        writeLease(now);
+      }
+    } else if (!isHeldByOtherTab(readLease(), now)) {
+      claim();
+    }
+  };
+
+  const resign = () => {
+    if (role !== "leader") return;
+    if (readLease()?.tabId === tabId) {
+      localStorage.removeItem(LEADER_STORAGE_KEY);
+    }
+    post({ type: "resign", tabId });
+  };
+
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "leader":
+        // Two tabs claimed at once: the lease decides who stays
+        if (role === "leader" && readLease()?.tabId !== tabId) {
+          setRole("follower");
+        }
+        break;
+      case "resign":
+        scheduleClaim();
+        break;
+      case "action":
+        if (role === "leader") {
+          options.onAction(message.action);
+        }
+        break;
+    }
+  };
+
+  // Storage events cover a leader whose resign message never arrived
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === LEADER_STORAGE_KEY && event.newValue === null && role === "follower") {
+      scheduleClaim();
+    }
+  };
+
+  onStepDown = () => setRole("follower");
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener("pagehide", resign);
+  const intervalId = setInterval(heartbeat, HEARTBEAT_INTERVAL);
+  heartbeat();
+
+  return {
+    forward: (action) => {
+      if (role === "leader") {
+        options.onAction(action);
+      } else {
+        post({ type: "action", tabId, action });
+      }
+    },
+    stop: () => {
+      if (isStopped) return;
+      isStopped = true;
+      resign();
+      clearInterval(intervalId);
+      if (claimTimeoutId !== null) clearTimeout(claimTimeoutId);
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener("pagehide", resign);
+      channel.close();
+      onStepDown = null;
+    },
+  };
+}
+
+export { LEADER_STORAGE_KEY, TAB_CHANNEL_NAME, HEARTBEAT_INTERVAL, LEASE_DURATION };
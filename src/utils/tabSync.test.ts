@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { ForwardedAction } from "./types";
+
+describe("Tab Sync (follower)", () => {
+  let stopSync: () => void;
+  let leaderChannel: BroadcastChannel;
+  let received: ForwardedAction[];
+
+  beforeEach(async () => {
+    localStorage.clear();
+    // Another tab is already leading when this one loads
+    localStorage.setItem(
+      "creepy-companion-leader",
+      JSON.stringify({ tabId: "leader-tab", expiresAt: Date.now() + 60_000 })
+    );
+
+    received = [];
+    leaderChannel = new BroadcastChannel("creepy-companion-tabs");
+    leaderChannel.onmessage = (event) => {
+      if (event.data.type === "action") received.push(event.data.action);
+    };
+
+    vi.resetModules();
+    const { startTabSync } = await import("./tabSync");
+    stopSync = startTabSync();
+  });
+
+  afterEach(() => {
+    stopSync();
+    leaderChannel.close();
+  });
+
+  it("should forward pet actions instead of running them", async () => {
+    const { useGameStore } = await import("../store");
+    expect(useGameStore.getState().tabRole).toBe("follower");
+
+    useGameStore.getState().initializePet("Mirror", "ECHO", 0x00ff00);
+    await useGameStore.getState().feed("item-1");
+    await useGameStore.getState().generateLogImage("log-1");
+
+    expect(useGameStore.getState().isInitialized).toBe(false);
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    expect(received).toEqual([
+      { name: "initializePet", args: ["Mirror", "ECHO", 0x00ff00] },
+      { name: "feed", args: ["item-1"] },
+      { name: "generateLogImage", args: ["log-1"] },
+    ]);
+  });
+
+  it("should mirror the leader's saves without writing its own", async () => {
+    const { useGameStore, flushSavedState } = await import("../store");
+    const leaderSave = {
+      version: 1,
+      state: {
+        ...useGameStore.persist.getOptions().partialize!(useGameStore.getState()),
+        isInitialized: true,
+        traits: { name: "Leader Pet", archetype: "GLOOM", color: 0 },
+        age: 42,
+      },
+    };
+
+    // The leader's save, in the old single-key layout that is still read as-is
+    localStorage.setItem("creepy-companion-storage", JSON.stringify(leaderSave));
+    window.dispatchEvent(new StorageEvent("storage", { key: "creepy-companion-storage" }));
+
+    const state = useGameStore.getState();
+    expect(state.traits.name).toBe("Leader Pet");
+    expect(state.age).toBe(42);
+
+    flushSavedState();
+    expect(JSON.parse(localStorage.getItem("creepy-companion-storage")!)).toEqual(leaderSave);
+  });
+});
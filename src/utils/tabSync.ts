@@ -0,0 +1,154 @@
+/**
+ * Tab Sync
+ * Connects the store to the tab election (see tabCoordinator.ts).
+ *
+ * Leader: runs actions forwarded by other tabs. Its saves reach the
+ * followers through `storage` events.
+ * Follower: mirrors the leader's saves into the store and forwards the
+ * actions that change the pet or the settings instead of running them.
+ * When a follower is promoted it reloads the latest save, which also
+ * catches up the time since the old leader's last tick.
+ */
+
+import { useGameStore } from "../store";
+import type { ForwardedAction, ForwardedActionName, GameState, TabRole } from "./types";
+import { startTabCoordinator, type TabCoordinator } from "./tabCoordinator";
+import { migrateSave, validateSave } from "./saveSchema";
+import { isSaveStorageKey, readSave } from "./savePersistence";
+import { ROSTER_STORAGE_KEY, loadRoster } from "./saveSlots";
+import { soundManager } from "./soundManager";
+import { logError, logInfo } from "./errorLogger";
+
+export const FORWARDED_ACTIONS = [
+  "initializePet",
+  "importSave",
+  "scavenge",
+  "feed",
+  "appraise",
+  "performRitual",
+  "stashItem",
+  "retrieveItem",
+  "startExpedition",
+  "setScavengeLocation",
+  "buyWare",
+  "equipCosmetic",
+  "placate",
+  "reorderInventory",
+  "startNewPet",
+  "switchPet",
+  "loadPetSlot",
+  "deletePetSlot",
+  "addReaction",
+  "selectDialogueChoice",
+  "generateLogImage",
+  "setMasterVolume",
+  "setSfxVolume",
+  "setAmbientVolume",
+  "toggleMute",
+  "setGameSpeed",
+  "setCrtEnabled",
+  "setReduceMotion",
+  "setRetroMode",
+  "setTheme",
+] as const satisfies readonly ForwardedActionName[];
+
+type AnyAction = (...args: unknown[]) => unknown;
+
+/**
+ * Start coordinating with other tabs.
+ *
+ * @returns Cleanup that leaves the election and restores the store's actions
+ */
+export function startTabSync(): () => void {
+  // The real actions, kept aside while this tab is a follower
+  const originals = Object.fromEntries(
+    FORWARDED_ACTIONS.map((name) => [name, useGameStore.getState()[name]])
+  ) as Pick<GameState, ForwardedActionName>;
+
+  const runAction = ({ name, args }: ForwardedAction) => {
+    try {
+      void (originals[name] as AnyAction)(...args);
+    } catch (error) {
+      logError(
+        "Failed to run forwarded action",
+        error instanceof Error ? error : undefined,
+        { action: name }
+      );
+    }
+  };
+
+  let coordinator: TabCoordinator | null = null;
+
+  const becomeFollower = () => {
+    const stubs = Object.fromEntries(
+      FORWARDED_ACTIONS.map((name) => [
+        name,
+        (...args: unknown[]) => {
+          coordinator?.forward({ name, args });
+          return Promise.resolve();
+        },
+      ])
+    ) as unknown as Partial<GameState>;
+    useGameStore.setState({ ...stubs, tabRole: "follower" });
+  };
+
+  const becomeLeader = async () => {
+    useGameStore.setState({ ...originals });
+    // Continue from the old leader's last save, catching up the gap
+    await useGameStore.persist.rehydrate();
+    useGameStore.setState({ tabRole: "leader" });
+  };
+
+  const handleRoleChange = (role: TabRole) => {
+    if (role === "follower") {
+      becomeFollower();
+    } else {
+      void becomeLeader();
+    }
+  };
+
+  // Mirror the leader's saves while following
+  const saveKey = useGameStore.persist.getOptions().name;
+  const handleStorage = (event: StorageEvent) => {
+    if (useGameStore.getState().tabRole !== "follower") return;
+
+    if (event.key === ROSTER_STORAGE_KEY) {
+      useGameStore.setState({ roster: loadRoster() });
+      return;
+    }
+    if (!saveKey || !isSaveStorageKey(saveKey, event.key)) return;
+
+    try {
+      // The save is split over several keys, so read it back whole
+      const saved = readSave(saveKey);
+      if (!saved) return;
+      const { state: persisted, version } = saved;
+      const { state } = validateSave(migrateSave(persisted, version ?? 0), useGameStore.getState());
+      const previous = useGameStore.getState();
+      useGameStore.setState(state);
+
+      // Audio settings live in each tab's sound manager
+      if (state.masterVolume !== previous.masterVolume) soundManager.setMasterVolume(state.masterVolume);
+      if (state.sfxVolume !== previous.sfxVolume) soundManager.setSfxVolume(state.sfxVolume);
+      if (state.ambientVolume !== previous.ambientVolume) soundManager.setAmbientVolume(state.ambientVolume);
+      if (state.isMuted !== previous.isMuted) soundManager.setMuted(state.isMuted);
+    } catch (error) {
+      logError("Failed to mirror saved state", error instanceof Error ? error : undefined);
+    }
+  };
+
+  window.addEventListener("storage", handleStorage);
+  coordinator = startTabCoordinator({ onRoleChange: handleRoleChange, onAction: runAction });
+
+  if (useGameStore.getState().tabRole === "follower") {
+    becomeFollower();
+    logInfo("Another tab is running the pet; mirroring it");
+  }
+
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    coordinator?.stop();
+    coordinator = null;
+    useGameStore.setState({ ...originals });
+  };
+}
@@ -1,12 +1,14 @@
+import type { ReactNode } from "react";
+
 // Core Enums
-export type PetStage = "EGG" | "BABY" | "TEEN" | "ABOMINATION";
+export type PetStage = "EGG" | "BABY" | "TEEN" | "ELDER" | "ABOMINATION";
 export type Archetype = "GLOOM" | "SPARK" | "ECHO";
-export type ItemType = "PURITY" | "ROT";
+export type ItemType = "PURITY" | "ROT" | "CURSED" | "MEDICINAL" | "VOID" | "SWEET" | "BONE";
 export type LogSource = "SYSTEM" | "PET";
 export type Theme = "cute" | "horror";
 
 // Death System Types
-export type DeathCause = "STARVATION" | "INSANITY";
+export type DeathCause = "STARVATION" | "INSANITY" | "OLD_AGE";
 
 export interface DeathData {
   petName: string;
@@ -66,6 +68,287 @@ export interface HauntState {
   hauntsEnabled: boolean;
 }
 
+// Status Effect Types (definitions live in src/utils/statusEffects.ts)
+export type StatusEffectType = "NAUSEOUS" | "BLESSED" | "NIGHT_TERRORS" | "SATED";
+
+// refresh: reapplying resets the duration
+// extend: reapplying adds the duration, up to maxDuration
+// stack: reapplying adds a stack (up to maxStacks) and resets the duration
+export type StatusStackRule = "refresh" | "extend" | "stack";
+
+export interface StatusEffectDefinition {
+  label: string;
+  description: string;
+  icon: string;
+  duration: number; // Game minutes
+  rates: Required<StatDelta>; // Stat change per game minute, per stack
+  stackRule: StatusStackRule;
+  maxStacks: number;
+  maxDuration: number; // Game minutes
+}
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  remaining: number; // Game minutes left
+  stacks: number;
+}
+
+// Digestion Types
+// An offering waiting in the pet's stomach (see src/utils/digestion.ts)
+export interface StomachItem {
+  type: ItemType;
+  aspects?: ItemType[];
+  remaining: number; // Game minutes of digestion left
+}
+
+// Game Rules Types
+// Balance values read by every rule site (presets live in src/utils/gameRules.ts)
+export type Difficulty = "GENTLE" | "STANDARD" | "NIGHTMARE";
+
+export interface GameRules {
+  decay: {
+    hungerRate: number; // Hunger gained per game minute
+    starvingHungerRate: number; // Hunger gained per minute at or above starvingThreshold
+    sanityRate: number; // Sanity lost per game minute
+    hungrySanityRate: number; // Sanity lost per minute above hungryThreshold
+    hungryThreshold: number;
+    starvingThreshold: number;
+  };
+  feeding: {
+    effects: Record<ItemType, Required<StatDelta>>;
+    stomachCapacity: number; // Offerings the stomach holds; feeding past it causes vomiting
+    digestMinutes: number; // Game minutes to digest one offering
+    vomitSanityPenalty: number;
+  };
+  placate: {
+    cooldown: number; // Game minutes
+    sanityGain: number;
+    reducedSanityGain: number; // Used when the pet is calm and mostly pure
+    reducedAboveSanity: number;
+    reducedBelowCorruption: number;
+    hungerCost: number;
+  };
+  appraisal: {
+    sanityCost: number; // Sanity spent reading an offering
+  };
+  inventory: {
+    capacity: number; // Slots before any upgrades
+    maxUpgrades: number; // Extra slots the inventory can grow by
+    stackSize: number; // Identical offerings one slot holds
+    stashCapacity: number; // Slots in the stash
+    spoilMinutes: number; // Game minutes in the stash for rot to spoil one step further
+    maxSpoilage: number; // Extra rot an offering can gather
+  };
+  evolution: {
+    babyAge: number; // Game minutes
+    teenAge: number; // Game minutes
+    abominationCorruption: number; // Corruption above this twists any stage
+  };
+  lifespan: {
+    elderDay: number; // Game day from which a teen can grow old
+    elderMaxCorruption: number; // Only a teen kept below this corruption grows old
+    oldAgeDay: number; // Game day an elder dies peacefully
+    elderHungerRate: number; // Multiplies hunger decay for an elder
+    elderSanityRate: number; // Multiplies sanity decay for an elder on elderDay
+    frailtyPerDay: number; // Added to the sanity multiplier for each day after elderDay
+  };
+}
+
+// Save Schema Types
+// The slice of GameState written to localStorage (see src/utils/saveSchema.ts)
+export type PersistedGameState = Pick<
+  GameState,
+  | "isInitialized"
+  | "traits"
+  | "stats"
+  | "stage"
+  | "age"
+  | "isAlive"
+  | "difficulty"
+  | "inventory"
+  | "dailyFeeds"
+  | "gameDay"
+  | "logs"
+  | "petId"
+  | "archivedLogCount"
+  | "lastTickTime"
+  | "currentPetSpriteUrl"
+  | "masterVolume"
+  | "sfxVolume"
+  | "ambientVolume"
+  | "isMuted"
+  | "gameSpeed"
+  | "crtEnabled"
+  | "reduceMotion"
+  | "retroMode"
+  | "theme"
+  | "deathData"
+  | "lastPlacateTime"
+  | "lastHauntGameDay"
+  | "statusEffects"
+  | "stomach"
+  | "discoveredRecipes"
+  | "stash"
+  | "inventoryUpgrades"
+  | "expedition"
+  | "scavengeLocation"
+  | "teeth"
+  | "cosmetics"
+  | "equippedCosmetic"
+  | "soldWares"
+  | "autoGenerateImages"
+>;
+
+// Portable save file written by Settings > Export (see src/utils/saveTransfer.ts)
+export interface SaveFile {
+  format: "creepy-companion-save";
+  version: number; // SAVE_VERSION the save was written with
+  exportedAt: string; // ISO timestamp
+  checksum: string; // SHA-256 of version, save and ghosts
+  save: PersistedGameState;
+  ghosts: GhostData[];
+}
+
+export interface SavePreview {
+  name: string;
+  archetype: Archetype;
+  stage: PetStage;
+  age: number; // In game minutes
+  isAlive: boolean;
+  difficulty: Difficulty;
+  logCount: number;
+  ghostCount: number;
+  exportedAt: string;
+}
+
+// replace: overwrite everything including settings and ghosts
+// merge: take the pet, keep local settings and add the file's ghosts to ours
+export type ImportMode = "replace" | "merge";
+
+// Player preferences shared by every pet on this device
+export type PreferenceKey =
+  | "masterVolume"
+  | "sfxVolume"
+  | "ambientVolume"
+  | "isMuted"
+  | "gameSpeed"
+  | "crtEnabled"
+  | "reduceMotion"
+  | "retroMode"
+  | "theme"
+  | "autoGenerateImages";
+
+// Everything that belongs to one pet
+export type PetSave = Omit<PersistedGameState, PreferenceKey>;
+
+// A pet waiting in the roster while another one is active (see src/utils/saveSlots.ts)
+export interface SaveSlot {
+  id: string;
+  version: number; // SAVE_VERSION the pet was stored with
+  savedAt: number; // Real-world timestamp the pet was put away
+  pet: PetSave;
+}
+
+// Simulation Engine Types
+// The subset of GameState advanced by the pure simulation engine (src/utils/simulation.ts)
+export type SimulationState = Pick<
+  GameState,
+  | "stats"
+  | "stage"
+  | "age"
+  | "dailyFeeds"
+  | "gameDay"
+  | "lastHauntGameDay"
+  | "statusEffects"
+  | "stomach"
+>;
+
+interface SimulationEventBase {
+  age: number; // Game minute the event happened at
+  stats: PetStats; // Stats snapshot at the time of the event
+}
+
+export type SimulationEvent =
+  | (SimulationEventBase & { type: "evolution"; fromStage: PetStage; toStage: PetStage })
+  | (SimulationEventBase & { type: "death"; cause: DeathCause })
+  | (SimulationEventBase & { type: "insanity"; insanityType: InsanityEventType })
+  | (SimulationEventBase & { type: "haunt"; gameDay: number; peaceful: boolean }) // peaceful: an old-age ghost
+  | (SimulationEventBase & { type: "dayRollover"; gameDay: number });
+
+export type SimulationEventType = SimulationEvent["type"];
+
+export interface SimulationResult {
+  state: SimulationState;
+  events: SimulationEvent[]; // In the order they happened
+}
+
+// Multi-tab coordination (see src/utils/tabCoordinator.ts and src/utils/tabSync.ts)
+// leader: simulates the pet and saves it; follower: mirrors the save read-only
+export type TabRole = "leader" | "follower";
+
+// Store actions a follower tab sends to the leader instead of running itself
+export type ForwardedActionName =
+  | "initializePet"
+  | "importSave"
+  | "scavenge"
+  | "feed"
+  | "appraise"
+  | "performRitual"
+  | "stashItem"
+  | "retrieveItem"
+  | "startExpedition"
+  | "setScavengeLocation"
+  | "buyWare"
+  | "equipCosmetic"
+  | "placate"
+  | "reorderInventory"
+  | "startNewPet"
+  | "switchPet"
+  | "loadPetSlot"
+  | "deletePetSlot"
+  | "addReaction"
+  | "selectDialogueChoice"
+  | "generateLogImage"
+  | "setMasterVolume"
+  | "setSfxVolume"
+  | "setAmbientVolume"
+  | "toggleMute"
+  | "setGameSpeed"
+  | "setCrtEnabled"
+  | "setReduceMotion"
+  | "setRetroMode"
+  | "setTheme";
+
+export interface ForwardedAction {
+  name: ForwardedActionName;
+  args: unknown[];
+}
+
+// Game Loop Worker Messages (see src/utils/gameLoop.ts and src/utils/gameClock.ts)
+// Everything the worker needs to advance the pet on its own
+export type GameLoopSnapshot = SimulationState &
+  Pick<GameState, "isInitialized" | "isAlive" | "difficulty">;
+
+export interface GameLoopSync {
+  revision: number; // Bumped whenever the store changes outside the loop (feeding, placating, ...)
+  snapshot: GameLoopSnapshot;
+  ghostCount: number;
+  peacefulGhostCount: number;
+}
+
+export type GameLoopCommand =
+  | ({ type: "start"; tickInterval: number } & GameLoopSync)
+  | ({ type: "sync" } & GameLoopSync)
+  | { type: "speed"; tickInterval: number }
+  | { type: "requeue"; minutes: number }; // Minutes from a tick dropped as stale
+
+export interface GameLoopTick {
+  type: "tick";
+  revision: number; // Revision of the snapshot the minutes were simulated on
+  minutes: number;
+  result: SimulationResult;
+}
+
 // Pet Identity
 export interface PetTraits {
   name: string;
@@ -84,10 +367,108 @@ export interface PetStats {
 export interface Offering {
   id: string; // UUID
   type: ItemType; // Hidden from player
+  aspects?: ItemType[]; // Further hidden classes whose effects also apply
   description: string; // AI-generated, visible on hover
   icon: string; // Emoji or icon identifier
+  appraisal?: Appraisal; // Latest reading, shown on hover
+  quantity?: number; // Identical offerings stacked in this slot (1 when unset)
+}
+
+// Offering kept in the stash
+export interface StashedOffering {
+  offering: Offering;
+  stashedAt: number; // Pet age (game minutes) when stashed; rot spoils from here
+}
+
+// Appraisal reading of an offering's main class (may be wrong)
+export interface Appraisal {
+  type: ItemType; // Class the reading names
+  confidence: number; // How sure the reading claims to be, 0-1
+}
+
+// Offering Class Types (definitions live in src/utils/offerings.ts)
+export interface ItemClassDefinition {
+  descriptor: string; // How prompts describe the offering, e.g. "rotting"
+  sideEffects: StatusEffectType[]; // Applied when fed
+  cures: StatusEffectType[]; // Removed when fed
+}
+
+// Ritual Types (recipes live in src/utils/rituals.ts)
+export interface RitualRecipe {
+  id: string;
+  name: string;
+  description: string; // Shown in the recipe book once discovered
+  ingredients: ItemType[]; // Main classes of the offerings, in any order
+  creates?: Pick<Offering, "type" | "aspects" | "description">; // New offering
+  stats?: StatDelta; // Applied to the pet at once
+  statusEffects?: StatusEffectType[];
+  summons?: DeathCause; // Calls up a ghost that died this way
+  upgradesInventory?: boolean; // Adds an inventory slot
+}
+
+// Expedition Types (locations live in src/utils/expeditions.ts)
+export type LocationId = "CELLAR" | "SUBURBAN_STREET" | "GRAVEYARD";
+
+export interface ExpeditionEncounter {
+  id: string;
+  description: string; // What happened out there, for the log and the narrative prompt
+  sanityCost?: number; // Taken from the pet when the keeper comes home shaken
+  find?: Pick<Offering, "type" | "aspects">; // Rare offering brought back
+}
+
+export interface LocationDefinition {
+  name: string;
+  description: string;
+  duration: number; // Game minutes the keeper is away
+  unlockDay: number; // Game days the pet must have survived
+  unlockStage: PetStage; // Earliest stage it opens at
+  searches: number; // Offerings rolled per expedition
+  weights: Partial<Record<ItemType, number>>; // Multiplies the scavenging weights, 1 when unset
+  encounterChance: number; // 0-1
+  encounters: ExpeditionEncounter[];
+}
+
+// A search in progress; the pet is alone until it ends
+export interface Expedition {
+  location: LocationId;
+  startedAt: number; // Pet age (game minutes)
+  returnsAt: number; // Pet age (game minutes)
 }
 
+// How far the neighbourhood has fallen with the pet's corruption
+export type NeighbourhoodBlight = "CLEAN" | "BOARDED" | "FLOODED";
+
+export interface ExpeditionOutcome {
+  finds: Pick<Offering, "type" | "aspects" | "icon">[]; // Encounter find last
+  encounter: ExpeditionEncounter | null;
+}
+
+// Night Market Types (wares and prices live in src/utils/market.ts)
+export type ConsumableId = "SMELLING_SALTS" | "WARM_MILK" | "HOLY_WATER" | "WARDING_CHARM";
+export type CosmeticId = "WITCH_HAT" | "RIBBON" | "BONE_CROWN" | "HALO";
+
+export interface ConsumableDefinition {
+  name: string;
+  description: string;
+  icon: string;
+  price: number; // Teeth
+  stats?: StatDelta; // Applied to the pet at once
+  statusEffects?: StatusEffectType[];
+}
+
+export interface CosmeticDefinition {
+  name: string;
+  description: string;
+  icon: string; // Worn beside the pet's name
+  price: number; // Teeth
+}
+
+// One item on sale tonight; ids are unique to the game day
+export type MarketWare =
+  | { id: string; kind: "offering"; itemType: ItemType; price: number }
+  | { id: string; kind: "consumable"; consumable: ConsumableId; price: number }
+  | { id: string; kind: "cosmetic"; cosmetic: CosmeticId; price: number };
+
 // Narrative System
 export type ImageStatus = "idle" | "generating" | "completed" | "failed";
 
@@ -109,12 +490,21 @@ export interface ReactionData {
 export type ToneInfluence = string[];
 
 // Event types for specialized image prompts
-export type EventType = "evolution" | "death" | "placate" | "vomit" | "insanity" | "haunt" | "feed";
+export type EventType = "evolution" | "death" | "placate" | "vomit" | "insanity" | "haunt" | "feed" | "expedition";
 
 // Gallery-related types
 export type GalleryViewMode = "grid" | "timeline";
 export type GalleryFilter = EventType | "all";
 
+// Narrative log toolbar filters
+export interface LogFilters {
+  eventTypes: EventType[]; // Empty for every event type
+  sources: LogSource[]; // Empty for every source
+  fromDay: number | null; // First game day shown (1-based, inclusive)
+  toDay: number | null; // Last game day shown (1-based, inclusive)
+  query: string; // Free-text search, case-insensitive
+}
+
 // Progress tracking for image generation
 export interface GenerationProgress {
   startTime: number;
@@ -177,9 +567,10 @@ export interface NarrativeLog {
   source: LogSource;
   timestamp: number; // Game time in minutes
   isPending?: boolean; // True while AI is generating text
-  imageUrl?: string; // Generated image URL (base64 data URL)
+  imageUrl?: string; // Generated image URL (remote, or a base64 data URL in older saves)
+  imageId?: string; // Generated image in the image store (see imageStore.ts)
   imageStatus?: ImageStatus; // Image generation status
-  sourceImages?: string[]; // Source images used for generation
+  sourceImages?: string[]; // Source images used for generation (URLs or image store ids)
   // Reaction system fields
   reactions?: ReactionData[];
   canReact?: boolean;
@@ -269,7 +660,7 @@ export interface CountUpProps {
 }
 
 export interface FadeInProps {
-  children: React.ReactNode;
+  children: ReactNode;
   duration?: number;        // Default: 400ms
   delay?: number;           // Default: 0ms
   blur?: boolean;           // Default: true
@@ -278,7 +669,7 @@ export interface FadeInProps {
 }
 
 // Droppable zone identifiers
-export type DroppableId = 'game-canvas' | `inventory-slot-${number}`;
+export type DroppableId = 'game-canvas' | 'ritual-altar' | 'stash' | `inventory-slot-${number}`;
 
 // Settings State Types
 export interface SettingsState {
@@ -320,6 +711,7 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   stage: PetStage;
   age: number; // In game minutes
   isAlive: boolean;
+  difficulty: Difficulty; // Rules preset chosen at creation
 
   // Inventory & Economy
   inventory: Offering[];
@@ -327,7 +719,9 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   gameDay: number;
 
   // Narrative
-  logs: NarrativeLog[];
+  logs: NarrativeLog[]; // Recent entries; older ones are in the pet's journal (see logJournal.ts)
+  petId: string; // Keys the pet's log journal
+  archivedLogCount: number; // Oldest entries moved to the journal
 
   // Timestamps
   lastTickTime: number; // Real-world timestamp for offline decay
@@ -336,6 +730,37 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   deathData: DeathData | null;
   lastPlacateTime: number | null;
   lastHauntGameDay: number;
+
+  // Timed buffs and debuffs (see statusEffects.ts)
+  statusEffects: StatusEffect[];
+
+  // Offerings still being digested, oldest first (see digestion.ts)
+  stomach: StomachItem[];
+
+  // Ids of the ritual recipes found at the altar (see rituals.ts)
+  discoveredRecipes: string[];
+
+  // Offerings kept out of the inventory (see inventoryUtils.ts)
+  stash: StashedOffering[];
+
+  // Extra inventory slots gained so far
+  inventoryUpgrades: number;
+
+  // Search the keeper is out on, if any (see expeditions.ts)
+  expedition: Expedition | null;
+
+  // Where scavenging searches, chosen on the map; null searches around the house
+  scavengeLocation: LocationId | null;
+
+  // Currency earned by scavenging, surviving days and answering the pet
+  teeth: number;
+
+  // Cosmetics bought at the night market, and the one being worn
+  cosmetics: CosmeticId[];
+  equippedCosmetic: CosmeticId | null;
+
+  // Ids of the wares already bought from tonight's stock (see market.ts)
+  soldWares: string[];
   
   // Placate Visual Effect State (Requirement 7.1)
   placateEffect: PlacateEffectState;
@@ -353,6 +778,12 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   galleryOpen: boolean;
   galleryFilter: GalleryFilter;
   galleryViewMode: GalleryViewMode;
+
+  // Narrative log toolbar state
+  logFilters: LogFilters;
+
+  // Offerings waiting on the ritual altar, not saved
+  altarItemIds: string[];
   
   // Visual traits for character consistency (narrative-enhancements)
   currentVisualTraits: VisualTraits | null;
@@ -361,11 +792,28 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   cachedSummary: StorySummary | null;
   summaryCacheTime: number | null;
 
+  // Pets waiting in the roster, not including the active one
+  roster: SaveSlot[];
+
+  // Whether this browser tab runs the pet or mirrors another tab
+  tabRole: TabRole;
+
   // Actions
-  initializePet: (name: string, archetype: Archetype, color: number) => void;
-  tick: () => void;
+  initializePet: (name: string, archetype: Archetype, color: number, difficulty?: Difficulty) => void;
+  importSave: (file: SaveFile, mode: ImportMode) => void;
+  tick: (minutes?: number) => void;
+  applySimulation: (result: SimulationResult) => void;
   scavenge: () => Promise<void>;
   feed: (itemId: string) => Promise<void>;
+  appraise: (itemId: string) => void;
+  performRitual: (itemIds: string[]) => Promise<void>;
+  stashItem: (itemId: string) => void;
+  retrieveItem: (itemId: string) => void;
+  startExpedition: (location: LocationId) => void;
+  setScavengeLocation: (location: LocationId | null) => void;
+  returnFromExpedition: () => Promise<void>;
+  buyWare: (wareId: string) => void;
+  equipCosmetic: (cosmetic: CosmeticId | null) => void;
   reorderInventory: (newInventory: Offering[]) => void;
   addLog: (text: string, source: LogSource, isPending?: boolean, eventType?: EventType) => string;
   updateLogText: (logId: string, newText: string) => void;
@@ -374,6 +822,11 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   // Death System Actions (Requirements 1.3, 5.3, 5.4)
   triggerDeath: (cause: DeathCause) => Promise<void>;
   startNewPet: () => void;
+
+  // Pet Roster Actions
+  switchPet: () => void;
+  loadPetSlot: (slotId: string) => void;
+  deletePetSlot: (slotId: string) => void;
   
   // Placate Action (Requirements 6.1, 6.2, 6.3, 6.4, 6.6)
   placate: () => Promise<void>;
@@ -386,11 +839,11 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   clearVomitEffect: () => void;
   
   // Insanity Event Actions (Requirements 10.1, 10.2, 10.6)
-  triggerInsanityEvent: () => Promise<void>;
+  triggerInsanityEvent: (eventType?: InsanityEventType) => Promise<void>;
   clearInsanityEffect: () => void;
   
   // Haunt System Actions (Requirements 4.4, 4.5, 4.6)
-  triggerHaunt: () => Promise<void>;
+  triggerHaunt: (effectsApplied?: boolean, ghost?: GhostData) => Promise<void>;
   
   // Reaction System Actions (Requirements 1.2, 1.5, 3.1)
   addReaction: (logId: string, reactionType: ReactionType) => Promise<void>;
@@ -403,12 +856,21 @@ export interface GameState extends AudioState, AudioActions, SettingsState, Sett
   storeVisualTraits: (logId: string, traits: VisualTraits) => void;
   getVisualTraits: () => VisualTraits | null;
   
+  // Full life history: the journal followed by the recent entries
+  getLogHistory: () => Promise<NarrativeLog[]>;
+
   // Gallery System Actions (Requirements 1.1, 2.2)
-  getCompletedImages: () => NarrativeLog[];
-  getImagesByEventType: (eventType: EventType) => NarrativeLog[];
+  getCompletedImages: () => Promise<NarrativeLog[]>;
+  getImagesByEventType: (eventType: EventType) => Promise<NarrativeLog[]>;
   setGalleryOpen: (isOpen: boolean) => void;
   setGalleryFilter: (filter: GalleryFilter) => void;
   setGalleryViewMode: (viewMode: GalleryViewMode) => void;
+  setLogFilters: (filters: Partial<LogFilters>) => void;
+
+  // Ritual Altar Actions
+  placeOnAltar: (itemId: string) => void;
+  removeFromAltar: (itemId: string) => void;
+  clearAltar: () => void;
   
   // Story Summary System Actions (Requirements 7.1, 14.4)
   generateStorySummary: () => Promise<StorySummary | null>;